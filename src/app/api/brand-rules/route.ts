@@ -0,0 +1,62 @@
+// API Route for reading and saving a site's brand voice rules
+// The rules are stored server-side so every author and every suggestion request uses the same ones
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBrandRules, saveBrandRules } from '@/src/services/brandRulesStore';
+
+export async function GET(request: NextRequest) {
+  const site = request.nextUrl.searchParams.get('site');
+
+  if (!site) {
+    return NextResponse.json(
+      { error: 'site is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rules = await getBrandRules(site);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Brand rules read error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { site, rules } = body;
+
+    if (!site || typeof site !== 'string' || !rules || typeof rules !== 'object') {
+      return NextResponse.json(
+        { error: 'site and rules are required' },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveBrandRules(site, rules);
+    return NextResponse.json({ rules: saved });
+  } catch (error) {
+    console.error('Brand rules save error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Enable CORS for the API route
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
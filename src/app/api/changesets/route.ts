@@ -0,0 +1,113 @@
+// API Route for storing and listing applied SEO change sets
+// Change sets are kept server-side per page so any author can revert them
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ChangeSet } from '@/src/types/seo';
+import {
+  listChangeSets,
+  saveChangeSet,
+  markChangeSetReverted,
+} from '@/src/services/changeSetStore';
+
+export async function GET(request: NextRequest) {
+  const pageId = request.nextUrl.searchParams.get('pageId');
+
+  if (!pageId) {
+    return NextResponse.json(
+      { error: 'pageId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const changeSets = await listChangeSets(pageId);
+    return NextResponse.json({ changeSets });
+  } catch (error) {
+    console.error('Change set list error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const changeSet = body.changeSet as ChangeSet | undefined;
+
+    if (!changeSet?.id || !changeSet.pageItemId || !Array.isArray(changeSet.fields)) {
+      return NextResponse.json(
+        { error: 'A change set with id, pageItemId and fields is required' },
+        { status: 400 }
+      );
+    }
+
+    await saveChangeSet(changeSet);
+    return NextResponse.json({ changeSet });
+  } catch (error) {
+    console.error('Change set save error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { pageId, id } = body;
+    const revertedKeys = toKeys(body.revertedKeys);
+    const keptKeys = toKeys(body.keptKeys);
+
+    if (!pageId || !id) {
+      return NextResponse.json(
+        { error: 'pageId and id are required' },
+        { status: 400 }
+      );
+    }
+    if (revertedKeys.length === 0 && keptKeys.length === 0) {
+      return NextResponse.json(
+        { error: 'revertedKeys or keptKeys is required' },
+        { status: 400 }
+      );
+    }
+
+    const changeSet = await markChangeSetReverted(pageId, id, new Date().toISOString(), {
+      reverted: revertedKeys,
+      kept: keptKeys,
+    });
+    if (!changeSet) {
+      return NextResponse.json(
+        { error: 'Change set not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ changeSet });
+  } catch (error) {
+    console.error('Change set update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Field keys from a PATCH body; anything but strings is ignored
+function toKeys(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((key): key is string => typeof key === 'string') : [];
+}
+
+// Enable CORS for the API route
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PATCH, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,29 @@
+// API Route for scoring profiles: the profiles and which one each page template or page goal uses
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getScoringProfileConfig } from '@/src/services/scoringProfileStore';
+
+export async function GET() {
+  try {
+    const config = await getScoringProfileConfig();
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error('Scoring profiles read error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Enable CORS for the API route
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the alternatives route running on the mock provider
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { DEFAULT_PROMPT_TEMPLATE } from '@/src/services/defaultPromptTemplate';
+import type { PageContext, PageData } from '@/src/types/seo';
+
+const context: PageContext = { pageGoal: 'Convert', tone: 'Professional', locale: 'en-US', site: 'bank' };
+
+const pageData: PageData = {
+  metadata: { title: 'Pricing' },
+  headings: { h1: 'Pricing', all: ['Pricing'] },
+  text: 'Compare our plans.',
+  images: [],
+  links: [],
+};
+
+describe('POST /api/suggestions/alternatives', () => {
+  let dataDir: string;
+
+  const writeFile = async (relativePath: string, data: unknown) => {
+    const filePath = path.join(dataDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data));
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-alternatives-'));
+    process.env.SEO_DATA_DIR = dataDir;
+    process.env.LLM_PROVIDER = 'mock';
+    process.env.LLM_MOCK_FIXTURES = path.join(dataDir, 'fixtures.json');
+  });
+
+  afterEach(async () => {
+    delete process.env.SEO_DATA_DIR;
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_MOCK_FIXTURES;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("should build the prompt from the site's prompt template", async () => {
+    await writeFile('fixtures.json', [
+      { match: 'Finance rewrite', response: { alternatives: [{ text: 'Loan Pricing' }] } },
+      { response: { alternatives: [{ text: 'Built-in template' }] } },
+    ]);
+    await writeFile('prompt-templates/finance/1.json', {
+      ...DEFAULT_PROMPT_TEMPLATE,
+      id: undefined,
+      version: undefined,
+      alternatives: 'Finance rewrite of {{field}} "{{suggestion}}"',
+    });
+    await writeFile('prompt-templates/selection.json', { sites: { bank: 'finance' } });
+
+    const response = await POST(
+      new NextRequest('http://localhost/api/suggestions/alternatives', {
+        method: 'POST',
+        body: JSON.stringify({
+          context,
+          pageData,
+          request: { target: { kind: 'metaTitle' }, original: 'Pricing', suggestion: 'Our Pricing', count: 1 },
+        }),
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).alternatives).toEqual([{ text: 'Loan Pricing' }]);
+  });
+});
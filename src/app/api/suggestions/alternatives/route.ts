@@ -0,0 +1,91 @@
+// API Route for regenerating a single suggestion
+// Returns alternatives for one field, or one refined rewrite when an instruction is given.
+// Model usage is recorded and counts against the site's monthly budget, like /api/suggestions.
+// The prompt template is picked per site or page goal, like /api/suggestions.
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AlternativesRequest, PageContext, PageData } from '@/src/types/seo';
+import { createSEOSuggestionService } from '@/src/services/seoSuggestionService';
+import { withSiteBrandRules } from '@/src/services/brandRulesStore';
+import { resolvePromptTemplate } from '@/src/services/promptTemplateStore';
+import type { LLMCallUsage } from '@/src/services/llmProvider';
+import { getUsageBudgetStatus, parseUsageAttribution, recordUsage } from '@/src/services/usageStore';
+import { describeUsageBudget } from '@/src/utils/llmUsage';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const requestContext = body.context as PageContext | undefined;
+    const pageData = body.pageData as PageData | undefined;
+    const alternativesRequest = body.request as AlternativesRequest | undefined;
+
+    if (!requestContext?.pageGoal || !pageData?.metadata || !pageData.headings) {
+      return NextResponse.json(
+        { error: 'context and pageData are required' },
+        { status: 400 }
+      );
+    }
+    if (!alternativesRequest?.target?.kind || typeof alternativesRequest.suggestion !== 'string') {
+      return NextResponse.json(
+        { error: 'request.target and request.suggestion are required' },
+        { status: 400 }
+      );
+    }
+
+    const context = await withSiteBrandRules(requestContext);
+    const calls: LLMCallUsage[] = [];
+    const suggestionService = createSEOSuggestionService({
+      template: await resolvePromptTemplate(context),
+      onModelCall: (call) => calls.push(call),
+    });
+    if (!suggestionService) {
+      return NextResponse.json(
+        { error: 'LLM provider not configured. Set LLM_PROVIDER and its credentials on the server.' },
+        { status: 503 }
+      );
+    }
+
+    const budget = await getUsageBudgetStatus(context.site);
+    if (budget?.blocked) {
+      return NextResponse.json(
+        { error: 'Monthly LLM budget reached', details: describeUsageBudget(budget) },
+        { status: 429 }
+      );
+    }
+
+    try {
+      const alternatives = await suggestionService.generateAlternatives(context, pageData, {
+        ...alternativesRequest,
+        original: alternativesRequest.original || '',
+        instruction: alternativesRequest.instruction?.trim() || undefined,
+      });
+      return NextResponse.json({ alternatives });
+    } finally {
+      await recordUsage({
+        operation: 'alternatives',
+        site: context.site,
+        attribution: parseUsageAttribution(body.attribution),
+        model: suggestionService.getModelId(),
+        calls,
+      });
+    }
+  } catch (error) {
+    console.error('Alternative generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate alternatives', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Enable CORS for the API route
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,235 @@
+// API Route for generating SEO suggestions
+// Runs the prompt server-side so LLM API keys never reach the browser.
+// With { stream: true } the response is NDJSON: one SuggestionStreamEvent per line.
+// Results are cached by content hash; { regenerate: true } skips the cached result.
+// Brand rules come from the store for context.site, so they are part of the prompt and the cache key.
+// The prompt template is picked per site or page goal; its "id@version" is part of the cache key too.
+// Model usage is recorded per request (site, page and user from { attribution }); a site whose
+// monthly budget blocks further requests gets 429 instead of new suggestions.
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  CompetitorAnalysis,
+  PageContext,
+  PageData,
+  SEOSuggestions,
+  SuggestionStreamEvent,
+} from '@/src/types/seo';
+import type { LLMCallUsage } from '@/src/services/llmProvider';
+import { createSEOSuggestionService } from '@/src/services/seoSuggestionService';
+import { withSiteBrandRules } from '@/src/services/brandRulesStore';
+import { resolvePromptTemplate } from '@/src/services/promptTemplateStore';
+import {
+  computeSuggestionCacheKey,
+  getCachedSuggestions,
+  getSuggestionCacheTtlMs,
+  saveCachedSuggestions,
+} from '@/src/services/suggestionCache';
+import {
+  getUsageBudgetStatus,
+  parseUsageAttribution,
+  recordUsage,
+  type UsageRecordInput,
+} from '@/src/services/usageStore';
+import { describeUsageBudget } from '@/src/utils/llmUsage';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const requestContext = body.context as PageContext | undefined;
+    const pageData = body.pageData as PageData | undefined;
+    const competitors = Array.isArray(body.competitors) && body.competitors.length > 0
+      ? (body.competitors as CompetitorAnalysis[])
+      : undefined;
+
+    if (!requestContext?.pageGoal || !pageData?.metadata || !pageData.headings) {
+      return NextResponse.json(
+        { error: 'context and pageData are required' },
+        { status: 400 }
+      );
+    }
+
+    const context = await withSiteBrandRules(requestContext);
+    const calls: LLMCallUsage[] = [];
+    const suggestionService = createSEOSuggestionService({
+      template: await resolvePromptTemplate(context),
+      onModelCall: (call) => calls.push(call),
+    });
+    if (!suggestionService) {
+      return NextResponse.json(
+        { error: 'LLM provider not configured. Set LLM_PROVIDER and its credentials on the server.' },
+        { status: 503 }
+      );
+    }
+
+    const cacheTtl = getSuggestionCacheTtlMs();
+    const cacheKey = computeSuggestionCacheKey({
+      context,
+      pageData,
+      competitors,
+      promptVersion: suggestionService.getPromptVersion(),
+      model: suggestionService.getModelId(),
+    });
+    const cached = body.regenerate === true ? null : await readCache(cacheKey, cacheTtl);
+
+    // Cached results cost nothing, so only new generations count against the budget
+    const budget = cached ? null : await getUsageBudgetStatus(context.site);
+    if (budget?.blocked) {
+      return NextResponse.json(
+        { error: 'Monthly LLM budget reached', details: describeUsageBudget(budget) },
+        { status: 429 }
+      );
+    }
+    if (budget && budget.state !== 'ok') {
+      console.warn(`⚠️ ${describeUsageBudget(budget)}`);
+    }
+    const usage: UsageRecordInput = {
+      operation: 'suggestions',
+      site: context.site,
+      attribution: parseUsageAttribution(body.attribution),
+      model: suggestionService.getModelId(),
+      calls,
+    };
+
+    if (body.stream === true) {
+      // Stop generating when the author cancels (the client aborts the request)
+      const abortController = new AbortController();
+      request.signal.addEventListener('abort', () => abortController.abort());
+
+      const events = cached
+        ? cachedEvents(cached)
+        : recordStreamUsage(
+            cacheDoneEvent(
+              suggestionService.streamSuggestions(context, pageData, competitors, abortController.signal),
+              cacheKey,
+              cacheTtl
+            ),
+            usage
+          );
+      return createNdjsonResponse(events, abortController);
+    }
+
+    if (cached) {
+      return NextResponse.json({ suggestions: cached });
+    }
+
+    try {
+      const suggestions = await suggestionService.generateSuggestions(context, pageData, competitors);
+      return NextResponse.json({ suggestions: await writeCache(cacheKey, suggestions, cacheTtl) });
+    } finally {
+      await recordUsage(usage);
+    }
+  } catch (error) {
+    console.error('Suggestion generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate suggestions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// The cache only saves model calls: if it cannot be read or written, generate as usual
+async function readCache(key: string, ttlMs: number): Promise<SEOSuggestions | null> {
+  try {
+    return await getCachedSuggestions(key, ttlMs);
+  } catch (error) {
+    console.warn('⚠️ Could not read the suggestion cache:', error);
+    return null;
+  }
+}
+
+async function writeCache(key: string, suggestions: SEOSuggestions, ttlMs: number): Promise<SEOSuggestions> {
+  try {
+    return await saveCachedSuggestions(key, suggestions, ttlMs);
+  } catch (error) {
+    console.warn('⚠️ Could not write the suggestion cache:', error);
+    return suggestions;
+  }
+}
+
+// Record the model calls of a stream once it ends, fails or is cancelled
+async function* recordStreamUsage(
+  events: AsyncIterable<SuggestionStreamEvent>,
+  usage: UsageRecordInput
+): AsyncGenerator<SuggestionStreamEvent> {
+  try {
+    yield* events;
+  } finally {
+    await recordUsage(usage);
+  }
+}
+
+async function* cachedEvents(suggestions: SEOSuggestions): AsyncGenerator<SuggestionStreamEvent> {
+  for (const component of suggestions.components || []) {
+    yield { type: 'component', component };
+  }
+  yield { type: 'done', suggestions };
+}
+
+// Store the final result of a stream before it is sent
+async function* cacheDoneEvent(
+  events: AsyncIterable<SuggestionStreamEvent>,
+  key: string,
+  ttlMs: number
+): AsyncGenerator<SuggestionStreamEvent> {
+  for await (const event of events) {
+    yield event.type === 'done' ? { ...event, suggestions: await writeCache(key, event.suggestions, ttlMs) } : event;
+  }
+}
+
+/**
+ * Write stream events as NDJSON. Errors after the stream has started are sent as an error event.
+ */
+function createNdjsonResponse(
+  events: AsyncIterable<SuggestionStreamEvent>,
+  abortController: AbortController
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: SuggestionStreamEvent) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        for await (const event of events) {
+          send(event);
+        }
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('Suggestion stream error:', error);
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled reader
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+// Enable CORS for the API route
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
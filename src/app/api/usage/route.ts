@@ -0,0 +1,42 @@
+// API Route for LLM usage: tokens, latency and estimated cost per site, page and user
+// ?month=YYYY-MM picks the month (default: the current one); ?site= adds that site's budget
+// and limits the page and user breakdowns to it. The site breakdown is the chargeback per site.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageSummary } from '@/src/services/usageStore';
+import { usageMonth } from '@/src/utils/llmUsage';
+
+export async function GET(request: NextRequest) {
+  const month = request.nextUrl.searchParams.get('month') || usageMonth(new Date());
+  const site = request.nextUrl.searchParams.get('site') || undefined;
+
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return NextResponse.json(
+      { error: 'month must be YYYY-MM' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const summary = await getUsageSummary(month, site);
+    return NextResponse.json({ summary });
+  } catch (error) {
+    console.error('Usage read error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Enable CORS for the API route
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -28,6 +28,7 @@ function PagesContextPanel() {
   // Context state
   const [pagesContext, setPagesContext] = useState<PagesContext>();
   const [appContext, setAppContext] = useState<ApplicationContext>();
+  const [user, setUser] = useState<string>();
 
   // Content state
   const [pageContent, setPageContent] = useState<PageContent | null>(null);
@@ -48,6 +49,16 @@ function PagesContextPanel() {
           console.error("Error retrieving application.context:", error);
         });
 
+      // Signed-in author, recorded with LLM usage
+      client
+        .query("host.user")
+        .then((res) => {
+          setUser(res.data?.email || res.data?.name);
+        })
+        .catch((error) => {
+          console.error("Error retrieving host.user:", error);
+        });
+
       client
         .query("pages.context", {
           subscribe: true,
@@ -256,6 +267,7 @@ function PagesContextPanel() {
           <SEOOptimizer
             pageContent={pageContent}
             semanticItems={semanticItems}
+            user={user}
             onApply={(applied) => {
               console.log('Applied SEO changes:', applied);
               // TODO: Refresh page content after applying changes
@@ -0,0 +1,249 @@
+// Brand Rules Editor Component - Edits the site's brand voice rules (shared by all pages of the site)
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { BrandRules } from '@/src/types/seo';
+
+export interface BrandRulesEditorProps {
+  site?: string;
+}
+
+// One entry per line; preferred terms as "use: avoid1, avoid2"
+interface BrandRulesDraft {
+  preferredTerms: string;
+  forbiddenTerms: string;
+  trademarks: string;
+  protectedPhrases: string;
+}
+
+const EMPTY_DRAFT: BrandRulesDraft = { preferredTerms: '', forbiddenTerms: '', trademarks: '', protectedPhrases: '' };
+
+export function BrandRulesEditor({ site }: BrandRulesEditorProps) {
+  const [draft, setDraft] = useState<BrandRulesDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!site) return;
+
+    fetch(`/api/brand-rules?site=${encodeURIComponent(site)}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `Failed to load brand rules: ${response.status}`);
+        }
+        const data = await response.json();
+        setDraft(toDraft(data.rules));
+      })
+      .catch((err) => {
+        console.error('Error loading brand rules:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load brand rules');
+      });
+  }, [site]);
+
+  if (!site) {
+    return null;
+  }
+
+  const updateField = (field: keyof BrandRulesDraft, value: string) => {
+    setDraft({ ...draft, [field]: value });
+    setStatus(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/brand-rules', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site, rules: fromDraft(draft) }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to save brand rules: ${response.status}`);
+      }
+      const data = await response.json();
+      setDraft(toDraft(data.rules));
+      setStatus('Saved. New suggestions for this site use these rules.');
+    } catch (err) {
+      console.error('Error saving brand rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save brand rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div style={styles.panel}>
+      <h4 style={styles.title}>Brand Rules for {site}</h4>
+      <p style={styles.subtitle}>
+        Shared by every page of the site. Suggestions that use a forbidden term or change a protected phrase are
+        discarded; avoided terms and trademark spelling are flagged for review.
+      </p>
+      {error && <div style={styles.errorBox}>{error}</div>}
+
+      <RuleField
+        label="Preferred terms"
+        help='One per line as "use: avoid, avoid", e.g. "sign in: log in, login"'
+        value={draft.preferredTerms}
+        onChange={(value) => updateField('preferredTerms', value)}
+      />
+      <RuleField
+        label="Forbidden terms"
+        help="One per line"
+        value={draft.forbiddenTerms}
+        onChange={(value) => updateField('forbiddenTerms', value)}
+      />
+      <RuleField
+        label="Trademarks"
+        help='One per line, with the exact capitalisation, e.g. "iPhone"'
+        value={draft.trademarks}
+        onChange={(value) => updateField('trademarks', value)}
+      />
+      <RuleField
+        label="Protected phrases"
+        help="Disclaimers and regulatory wording, one per line. Kept word for word wherever the page contains them."
+        value={draft.protectedPhrases}
+        onChange={(value) => updateField('protectedPhrases', value)}
+      />
+
+      <div style={styles.actions}>
+        {status && <span style={styles.status}>{status}</span>}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          style={{ ...styles.saveButton, ...(isSaving ? styles.saveButtonDisabled : {}) }}
+        >
+          {isSaving ? 'Saving...' : 'Save Brand Rules'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface RuleFieldProps {
+  label: string;
+  help: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function RuleField({ label, help, value, onChange }: RuleFieldProps) {
+  return (
+    <div style={styles.field}>
+      <label style={styles.label}>{label}</label>
+      <textarea value={value} onChange={(e) => onChange(e.target.value)} rows={3} style={styles.textarea} />
+      <div style={styles.helpText}>{help}</div>
+    </div>
+  );
+}
+
+function toDraft(rules?: BrandRules): BrandRulesDraft {
+  if (!rules) return EMPTY_DRAFT;
+  return {
+    preferredTerms: rules.preferredTerms.map(({ term, avoid }) => `${term}: ${avoid.join(', ')}`).join('\n'),
+    forbiddenTerms: rules.forbiddenTerms.join('\n'),
+    trademarks: rules.trademarks.join('\n'),
+    protectedPhrases: rules.protectedPhrases.join('\n'),
+  };
+}
+
+function fromDraft(draft: BrandRulesDraft): BrandRules {
+  const lines = (value: string) => value.split('\n').map((line) => line.trim()).filter(Boolean);
+  return {
+    preferredTerms: lines(draft.preferredTerms).map((line) => {
+      const [term, avoid = ''] = line.split(':');
+      return { term: term.trim(), avoid: avoid.split(',').map((item) => item.trim()).filter(Boolean) };
+    }),
+    forbiddenTerms: lines(draft.forbiddenTerms),
+    trademarks: lines(draft.trademarks),
+    protectedPhrases: lines(draft.protectedPhrases),
+  };
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    backgroundColor: '#ffffff',
+    borderRadius: '16px',
+    border: '1px solid #e5e7eb',
+    padding: '20px 24px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: 600,
+    color: '#111827',
+  },
+  subtitle: {
+    margin: 0,
+    fontSize: '13px',
+    color: '#6b7280',
+    lineHeight: '1.5',
+  },
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  },
+  label: {
+    fontSize: '14px',
+    fontWeight: 500,
+    color: '#374151',
+  },
+  textarea: {
+    padding: '10px 14px',
+    border: '1px solid #d1d5db',
+    borderRadius: '12px',
+    fontSize: '14px',
+    fontFamily: 'inherit',
+    resize: 'vertical',
+    minHeight: '60px',
+    backgroundColor: '#ffffff',
+  },
+  helpText: {
+    fontSize: '12px',
+    color: '#6b7280',
+    fontStyle: 'italic',
+  },
+  actions: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: '12px',
+  },
+  status: {
+    fontSize: '13px',
+    color: '#059669',
+  },
+  saveButton: {
+    padding: '8px 18px',
+    borderRadius: '16px',
+    border: '1px solid #8629FF',
+    backgroundColor: '#ffffff',
+    color: '#8629FF',
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+    cursor: 'not-allowed',
+  },
+  errorBox: {
+    padding: '10px 14px',
+    backgroundColor: '#fef2f2',
+    border: '1px solid #FF1F38',
+    borderRadius: '8px',
+    fontSize: '13px',
+    color: '#991b1b',
+  },
+};
@@ -5,6 +5,7 @@
 import { useState, useCallback } from 'react';
 import type { CompetitorData, CompetitorAnalysis } from '@/src/types/seo';
 import { analyzeCompetitorWebsite } from '@/src/services/competitorAnalyzer';
+import { truncateForSerp } from '@/src/utils/serpWidth';
 
 export interface CompetitorScannerProps {
   onCompetitorScanned: (analysis: CompetitorAnalysis) => void;
@@ -242,20 +243,22 @@ function generateInsights(competitor: CompetitorData): CompetitorAnalysis['insig
 
   // Analyze metadata
   if (competitor.metadata.title) {
-    if (competitor.metadata.title.length <= 60) {
-      strengths.push(`Title is optimized (${competitor.metadata.title.length} chars)`);
+    const cut = truncateForSerp(competitor.metadata.title, 'title');
+    if (!cut.truncated) {
+      strengths.push(`Title is optimized (${Math.round(cut.width)}px)`);
     } else {
-      weaknesses.push(`Title is too long (${competitor.metadata.title.length} chars, should be ≤60)`);
+      weaknesses.push(`Title is cut off in search results (${Math.round(cut.width)}px, should be ≤${cut.maxWidth}px)`);
     }
   } else {
     weaknesses.push('Missing page title');
   }
 
   if (competitor.metadata.description) {
-    if (competitor.metadata.description.length <= 165) {
-      strengths.push(`Meta description is optimized (${competitor.metadata.description.length} chars)`);
+    const cut = truncateForSerp(competitor.metadata.description, 'description');
+    if (!cut.truncated) {
+      strengths.push(`Meta description is optimized (${Math.round(cut.width)}px)`);
     } else {
-      weaknesses.push(`Meta description is too long (${competitor.metadata.description.length} chars, should be ≤165)`);
+      weaknesses.push(`Meta description is cut off in search results (${Math.round(cut.width)}px, should be ≤${cut.maxWidth}px)`);
     }
   } else {
     weaknesses.push('Missing meta description');
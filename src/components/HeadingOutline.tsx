@@ -0,0 +1,128 @@
+// Heading Outline Component - The page's heading tree with hierarchy problems marked
+
+'use client';
+
+import type { HeadingOutlineEntry } from '@/src/types/seo';
+import {
+  buildHeadingTree,
+  describeHeading,
+  validateHeadingHierarchy,
+  type HeadingCheck,
+  type HeadingTreeNode,
+} from '@/src/utils/headingHierarchy';
+
+export interface HeadingOutlineProps {
+  outline: HeadingOutlineEntry[];
+  maxLength: number; // Characters before a heading counts as too long
+}
+
+export function HeadingOutline({ outline, maxLength }: HeadingOutlineProps) {
+  if (outline.length === 0) {
+    return <div style={styles.empty}>No headings found on the page</div>;
+  }
+
+  const checks = validateHeadingHierarchy(outline, maxLength);
+  const hasUnknownLevels = outline.some((heading) => heading.level === null);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.tree}>
+        {buildHeadingTree(outline).map((node) => (
+          <OutlineNode key={node.index} node={node} checks={checks} />
+        ))}
+      </div>
+      {hasUnknownLevels && (
+        <div style={styles.note}>
+          H? marks headings whose tag level is not in the rendered markup or rendering parameters; they are not
+          checked for skipped levels.
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OutlineNode({ node, checks }: { node: HeadingTreeNode; checks: HeadingCheck[] }) {
+  const { heading } = node;
+  const problems = checks.filter((check) => check.index === node.index);
+
+  return (
+    <div>
+      <div style={{ ...styles.row, paddingLeft: `${node.depth * 20}px` }}>
+        <span style={{ ...styles.level, ...(heading.level === null ? styles.levelUnknown : {}) }}>
+          H{heading.level ?? '?'}
+        </span>
+        <span style={styles.text}>
+          {heading.text.trim() || <span style={styles.missing}>(empty)</span>}
+          <span style={styles.source}>{describeHeading(heading)}</span>
+        </span>
+      </div>
+      {problems.map((problem) => (
+        <div key={problem.problem} style={{ ...styles.problem, paddingLeft: `${node.depth * 20 + 44}px` }}>
+          ⚠️ {problem.message}
+        </div>
+      ))}
+      {node.children.map((child) => (
+        <OutlineNode key={child.index} node={child} checks={checks} />
+      ))}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  tree: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    fontSize: '14px',
+  },
+  level: {
+    flexShrink: 0,
+    width: '36px',
+    padding: '1px 0',
+    textAlign: 'center',
+    backgroundColor: '#F3E8FF',
+    color: '#8629FF',
+    borderRadius: '4px',
+    fontSize: '11px',
+    fontWeight: 600,
+  },
+  levelUnknown: {
+    backgroundColor: '#f3f4f6',
+    color: '#6b7280',
+  },
+  text: {
+    color: '#111827',
+    lineHeight: 1.4,
+  },
+  source: {
+    marginLeft: '8px',
+    fontSize: '12px',
+    color: '#9ca3af',
+  },
+  missing: {
+    color: '#9ca3af',
+    fontStyle: 'italic',
+  },
+  problem: {
+    fontSize: '12px',
+    color: '#FF1F38',
+  },
+  note: {
+    fontSize: '12px',
+    color: '#6b7280',
+  },
+  empty: {
+    fontSize: '14px',
+    color: '#6b7280',
+  },
+};
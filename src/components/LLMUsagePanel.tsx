@@ -0,0 +1,225 @@
+// LLM Usage Panel Component - This month's model usage, estimated cost and budget
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { UsageBreakdownRow, UsageSummary, UsageTotals } from '@/src/types/seo';
+
+export interface LLMUsagePanelProps {
+  site?: string;
+}
+
+const MAX_ROWS = 5;
+
+export function LLMUsagePanel({ site }: LLMUsagePanelProps) {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const query = site ? `?site=${encodeURIComponent(site)}` : '';
+
+    fetch(`/api/usage${query}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `Failed to load usage: ${response.status}`);
+        }
+        const data = await response.json();
+        setSummary(data.summary);
+      })
+      .catch((err) => {
+        console.error('Error loading LLM usage:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load usage');
+      });
+  }, [site]);
+
+  if (error) {
+    return <div style={styles.errorBox}>{error}</div>;
+  }
+  if (!summary) {
+    return null;
+  }
+
+  const { budget, currency } = summary;
+
+  return (
+    <div style={styles.panel}>
+      <h4 style={styles.title}>LLM Usage in {summary.month}</h4>
+      <p style={styles.subtitle}>
+        {site ? `${site}: ` : ''}
+        {formatTotals(summary.total, currency)}
+        {summary.total.estimated ? ' (some token counts estimated)' : ''}
+      </p>
+
+      {budget && (
+        <div style={styles.budget}>
+          <div style={styles.budgetHeader}>
+            <span>
+              Monthly budget: {Math.round(budget.used * 100)}% used
+              {budget.budget.monthlyCost ? ` · ${formatCost(budget.spentCost, currency)} of ${formatCost(budget.budget.monthlyCost, currency)}` : ''}
+              {budget.budget.monthlyTokens
+                ? ` · ${formatTokens(budget.spentTokens)} of ${formatTokens(budget.budget.monthlyTokens)} tokens`
+                : ''}
+            </span>
+            {budget.state !== 'ok' && (
+              <span style={budget.blocked ? styles.budgetBlocked : styles.budgetWarning}>
+                {budget.blocked
+                  ? 'Limit reached: new suggestions are blocked until next month'
+                  : budget.state === 'exceeded'
+                    ? 'Limit exceeded'
+                    : 'Approaching the limit'}
+              </span>
+            )}
+          </div>
+          <div style={styles.budgetTrack}>
+            <div
+              style={{
+                ...styles.budgetBar,
+                width: `${Math.min(budget.used, 1) * 100}%`,
+                backgroundColor: budget.state === 'ok' ? '#059669' : budget.state === 'warning' ? '#d97706' : '#FF1F38',
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      <UsageRows title="By site" rows={summary.bySite} currency={currency} />
+      {site && <UsageRows title="By page" rows={summary.byPage} currency={currency} />}
+      {site && <UsageRows title="By user" rows={summary.byUser} currency={currency} />}
+    </div>
+  );
+}
+
+interface UsageRowsProps {
+  title: string;
+  rows: UsageBreakdownRow[];
+  currency: string;
+}
+
+function UsageRows({ title, rows, currency }: UsageRowsProps) {
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={styles.section}>
+      <div style={styles.sectionTitle}>{title}</div>
+      {rows.slice(0, MAX_ROWS).map((row) => (
+        <div key={row.key} style={styles.row}>
+          <span style={styles.rowLabel}>{row.label}</span>
+          <span style={styles.rowValue}>{formatTotals(row, currency)}</span>
+        </div>
+      ))}
+      {rows.length > MAX_ROWS && <div style={styles.more}>and {rows.length - MAX_ROWS} more</div>}
+    </div>
+  );
+}
+
+function formatTotals(totals: UsageTotals, currency: string): string {
+  const averageLatency = totals.requests > 0 ? totals.latencyMs / totals.requests / 1000 : 0;
+  return (
+    `${formatTokens(totals.totalTokens)} tokens · ${formatCost(totals.cost, currency)} · ` +
+    `${totals.requests} model call${totals.requests === 1 ? '' : 's'} · ${averageLatency.toFixed(1)}s avg`
+  );
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US');
+}
+
+function formatCost(cost: number, currency: string): string {
+  return `${cost.toFixed(2)} ${currency}`;
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    backgroundColor: '#ffffff',
+    borderRadius: '16px',
+    border: '1px solid #e5e7eb',
+    padding: '20px 24px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: 600,
+    color: '#111827',
+  },
+  subtitle: {
+    margin: 0,
+    fontSize: '13px',
+    color: '#6b7280',
+    lineHeight: '1.5',
+  },
+  budget: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  },
+  budgetHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '12px',
+    fontSize: '13px',
+    color: '#374151',
+  },
+  budgetWarning: {
+    color: '#d97706',
+    fontWeight: 600,
+  },
+  budgetBlocked: {
+    color: '#FF1F38',
+    fontWeight: 600,
+  },
+  budgetTrack: {
+    height: '6px',
+    borderRadius: '3px',
+    backgroundColor: '#f3f4f6',
+    overflow: 'hidden',
+  },
+  budgetBar: {
+    height: '100%',
+    borderRadius: '3px',
+  },
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  sectionTitle: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#374151',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '12px',
+    fontSize: '13px',
+  },
+  rowLabel: {
+    color: '#111827',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  rowValue: {
+    color: '#6b7280',
+    whiteSpace: 'nowrap',
+  },
+  more: {
+    fontSize: '12px',
+    color: '#6b7280',
+    fontStyle: 'italic',
+  },
+  errorBox: {
+    padding: '10px 14px',
+    backgroundColor: '#fef2f2',
+    border: '1px solid #FF1F38',
+    borderRadius: '8px',
+    fontSize: '13px',
+    color: '#991b1b',
+  },
+};
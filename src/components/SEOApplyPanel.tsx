@@ -2,14 +2,40 @@
 
 'use client';
 
-import type { ApplySelection } from '@/src/types/seo';
+import type {
+  ApplySelection,
+  ApplyResult,
+  ScoreBreakdown,
+  ScoreSimulation,
+  WorkflowApplyOptions,
+  WorkflowCommand,
+} from '@/src/types/seo';
+import { getScoreColor } from '@/src/utils/seoScorer';
+import { describeResolvedIssue } from '@/src/utils/seoScoreSimulator';
 
 export interface SEOApplyPanelProps {
   selection: ApplySelection;
   onApply: () => void;
+  result?: ApplyResult | null;
+  isApplying?: boolean;
+  simulation?: ScoreSimulation | null; // Projected score for the current selection
+  workflowOptions?: WorkflowApplyOptions;
+  onWorkflowOptionsChange?: (options: WorkflowApplyOptions) => void;
+  workflowCommands?: WorkflowCommand[]; // Commands that can run on every changed item
+  itemsWithoutWorkflow?: string[]; // Changed items (ID or path) where no command can run
 }
 
-export function SEOApplyPanel({ selection, onApply }: SEOApplyPanelProps) {
+export function SEOApplyPanel({
+  selection,
+  onApply,
+  result,
+  isApplying = false,
+  simulation,
+  workflowOptions,
+  onWorkflowOptionsChange,
+  workflowCommands = [],
+  itemsWithoutWorkflow = [],
+}: SEOApplyPanelProps) {
   const countSelected = () => {
     let count = 0;
     
@@ -34,6 +60,9 @@ export function SEOApplyPanel({ selection, onApply }: SEOApplyPanelProps) {
         if (compSelection.links) {
           count += compSelection.links.filter((link) => link.apply).length;
         }
+        if (compSelection.content?.paragraphs) {
+          count += compSelection.content.paragraphs.length;
+        }
       }
     }
     
@@ -42,6 +71,88 @@ export function SEOApplyPanel({ selection, onApply }: SEOApplyPanelProps) {
 
   const selectedCount = countSelected();
 
+  if (result) {
+    return (
+      <div style={styles.panel}>
+        <div style={styles.summary}>
+          <h3 style={styles.title}>
+            {result.applied.length > 0 ? 'Changes Applied' : 'No Changes Applied'}
+          </h3>
+          <p style={styles.count}>
+            {result.applied.length} {result.applied.length === 1 ? 'change' : 'changes'} saved to Sitecore
+          </p>
+          {result.diffSummary.length > 0 && (
+            <ul style={styles.list}>
+              {result.diffSummary.map((line, idx) => (
+                <li key={idx}>{line}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {result.afterScore !== undefined && result.breakdown && simulation && (
+          <ScoreProjection
+            title="Score After Changes"
+            beforeScore={simulation.beforeScore}
+            afterScore={result.afterScore}
+            breakdown={result.breakdown}
+            weights={simulation.weights}
+            resolvedIssues={(result.resolvedIssues || []).map(describeResolvedIssue)}
+          />
+        )}
+        {result.failed && result.failed.length > 0 && (
+          <div style={styles.errorBox}>
+            <strong>Failed ({result.failed.length}):</strong>
+            <ul style={styles.list}>
+              {result.failed.map((failure) => (
+                <li key={failure.key}>
+                  {failure.key}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {result.workflow && result.workflow.length > 0 && (
+          <div style={result.workflow.every((item) => item.successful) ? styles.noticeBox : styles.errorBox}>
+            <strong>Workflow ({result.workflow.length} {result.workflow.length === 1 ? 'item' : 'items'}):</strong>
+            <ul style={styles.list}>
+              {result.workflow.map((item) => (
+                <li key={item.itemId}>
+                  {item.itemId}
+                  {item.version !== undefined ? ` v${item.version}` : ''}
+                  {item.commandId
+                    ? item.successful
+                      ? ` - ${describeCommand(workflowCommands, item.commandId)} executed`
+                      : ` - ${describeCommand(workflowCommands, item.commandId)} failed: ${item.error}`
+                    : ' - new version created'}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {result.kept && result.kept.length > 0 && (
+          <div style={styles.noticeBox}>
+            <strong>Kept ({result.kept.length}) - edited by another author since the scan:</strong>
+            <ul style={styles.list}>
+              {result.kept.map((key) => (
+                <li key={key}>{key}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {result.skipped && result.skipped.length > 0 && (
+          <div style={styles.noticeBox}>
+            <strong>Skipped ({result.skipped.length}) - no editable field found:</strong>
+            <ul style={styles.list}>
+              {result.skipped.map((key) => (
+                <li key={key}>{key}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   if (selectedCount === 0) {
     return (
       <div style={styles.panel}>
@@ -71,6 +182,13 @@ export function SEOApplyPanel({ selection, onApply }: SEOApplyPanelProps) {
               if (compSelection.headings?.h1) {
                 items.push(<li key={`${componentId}-h1`}>Update H1 in {componentId}</li>);
               }
+              compSelection.headings?.improvements?.forEach((fieldName) => {
+                items.push(
+                  <li key={`${componentId}-heading-${fieldName}`}>
+                    Update heading field {fieldName} in {componentId}
+                  </li>
+                );
+              });
               if (compSelection.images && compSelection.images.length > 0) {
                 compSelection.images
                   .filter((img) => img.alt)
@@ -82,17 +200,182 @@ export function SEOApplyPanel({ selection, onApply }: SEOApplyPanelProps) {
                     );
                   });
               }
+              compSelection.links
+                ?.filter((link) => link.apply)
+                .forEach((link) => {
+                  items.push(
+                    <li key={`${componentId}-link-${link.fieldName}`}>
+                      Update link {link.fieldName} in {componentId}
+                    </li>
+                  );
+                });
+              compSelection.content?.paragraphs?.forEach((fieldName) => {
+                items.push(
+                  <li key={`${componentId}-paragraph-${fieldName}`}>
+                    Rewrite paragraph {fieldName} in {componentId}
+                  </li>
+                );
+              });
               return items;
             })}
         </ul>
       </div>
-      <button onClick={onApply} style={styles.applyButton} type="button">
-        ✅ Apply {selectedCount} {selectedCount === 1 ? 'Change' : 'Changes'}
+      {simulation && (
+        <ScoreProjection
+          title="Projected Score"
+          beforeScore={simulation.beforeScore}
+          afterScore={simulation.afterScore}
+          breakdown={simulation.breakdown}
+          weights={simulation.weights}
+          delta={simulation.delta}
+          resolvedIssues={simulation.resolvedIssues.map(describeResolvedIssue)}
+        />
+      )}
+      {workflowOptions && onWorkflowOptionsChange && (
+        <WorkflowOptionsForm
+          options={workflowOptions}
+          commands={workflowCommands}
+          itemsWithoutWorkflow={itemsWithoutWorkflow}
+          onChange={onWorkflowOptionsChange}
+        />
+      )}
+      <button
+        onClick={onApply}
+        disabled={isApplying}
+        style={{
+          ...styles.applyButton,
+          ...(isApplying ? styles.applyButtonDisabled : {}),
+        }}
+        type="button"
+      >
+        {isApplying
+          ? 'Saving to Sitecore...'
+          : `✅ Apply ${selectedCount} ${selectedCount === 1 ? 'Change' : 'Changes'}`}
       </button>
     </div>
   );
 }
 
+interface ScoreProjectionProps {
+  title: string;
+  beforeScore: number;
+  afterScore: number;
+  breakdown: ScoreBreakdown;
+  weights: ScoreBreakdown; // Maximum points per category
+  delta?: ScoreBreakdown;
+  resolvedIssues: string[];
+}
+
+function ScoreProjection({ title, beforeScore, afterScore, breakdown, weights, delta, resolvedIssues }: ScoreProjectionProps) {
+  const change = afterScore - beforeScore;
+  const categories: { key: keyof ScoreBreakdown; label: string }[] = [
+    { key: 'metadata', label: 'Metadata' },
+    { key: 'content', label: 'Content' },
+    { key: 'accessibility', label: 'Accessibility' },
+    { key: 'links', label: 'Links' },
+  ];
+
+  return (
+    <div style={styles.projection}>
+      <div style={styles.projectionHeader}>
+        <span style={styles.projectionTitle}>{title}</span>
+        <span style={styles.projectionScore}>
+          {beforeScore} →{' '}
+          <span style={{ color: getScoreColor(afterScore) }}>{afterScore}</span>
+          <span style={styles.delta}>{formatDelta(change)}</span>
+        </span>
+      </div>
+      {delta && (
+        <div style={styles.categoryGrid}>
+          {categories.map(({ key, label }) => (
+            <div key={key} style={styles.category}>
+              <span style={styles.categoryLabel}>{label}</span>
+              <span style={styles.categoryScore}>
+                {breakdown[key]}/{weights[key]}
+                <span style={styles.delta}>{formatDelta(delta[key])}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {resolvedIssues.length > 0 && (
+        <div style={styles.resolved}>
+          <strong>Resolves:</strong>
+          <ul style={styles.list}>
+            {resolvedIssues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface WorkflowOptionsFormProps {
+  options: WorkflowApplyOptions;
+  commands: WorkflowCommand[];
+  itemsWithoutWorkflow: string[];
+  onChange: (options: WorkflowApplyOptions) => void;
+}
+
+function WorkflowOptionsForm({ options, commands, itemsWithoutWorkflow, onChange }: WorkflowOptionsFormProps) {
+  return (
+    <div style={styles.workflow}>
+      <label style={styles.workflowOption}>
+        <input
+          type="checkbox"
+          checked={options.createVersion}
+          onChange={(e) => onChange({ ...options, createVersion: e.target.checked })}
+        />
+        Create a new version for the changes
+      </label>
+      <label style={styles.workflowField}>
+        <span style={styles.workflowLabel}>Workflow command</span>
+        <select
+          value={options.commandId || ''}
+          onChange={(e) => onChange({ ...options, commandId: e.target.value || undefined })}
+          disabled={commands.length === 0}
+          style={styles.workflowInput}
+        >
+          <option value="">{commands.length === 0 ? 'No workflow command runs on every changed item' : 'None'}</option>
+          {commands.map((command) => (
+            <option key={`${command.stateId}-${command.commandId}`} value={command.commandId}>
+              {command.stateName}: {command.displayName}
+            </option>
+          ))}
+        </select>
+      </label>
+      {options.commandId && itemsWithoutWorkflow.length > 0 && (
+        <div style={styles.workflowNote}>
+          Not in a workflow, so the command does not run on: {itemsWithoutWorkflow.join(', ')}
+        </div>
+      )}
+      {options.commandId && (
+        <label style={styles.workflowField}>
+          <span style={styles.workflowLabel}>Comment (a summary of the SEO edits is added)</span>
+          <textarea
+            value={options.comment || ''}
+            onChange={(e) => onChange({ ...options, comment: e.target.value })}
+            rows={2}
+            style={styles.workflowInput}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+function describeCommand(commands: WorkflowCommand[], commandId: string): string {
+  const command = commands.find((c) => c.commandId === commandId);
+  return command ? `"${command.displayName}"` : 'Workflow command';
+}
+
+function formatDelta(value: number): string {
+  if (value === 0) return ' (±0)';
+  return value > 0 ? ` (+${value})` : ` (${value})`;
+}
+
 const styles: Record<string, React.CSSProperties> = {
   panel: {
     backgroundColor: '#ffffff',
@@ -143,6 +426,120 @@ const styles: Record<string, React.CSSProperties> = {
     transition: 'all 0.2s ease',
     boxShadow: '0 2px 4px rgba(0, 0, 0, 0.1)',
   },
+  applyButtonDisabled: {
+    opacity: 0.5,
+    cursor: 'not-allowed',
+  },
+  errorBox: {
+    marginTop: '16px',
+    padding: '12px 16px',
+    backgroundColor: '#fef2f2',
+    border: '1px solid #FF1F38',
+    borderRadius: '8px',
+    fontSize: '13px',
+    color: '#991b1b',
+  },
+  projection: {
+    marginBottom: '20px',
+    padding: '16px',
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '12px',
+  },
+  projectionHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '12px',
+  },
+  projectionTitle: {
+    fontSize: '15px',
+    fontWeight: 600,
+    color: '#111827',
+  },
+  projectionScore: {
+    fontSize: '18px',
+    fontWeight: 700,
+    color: '#374151',
+  },
+  delta: {
+    marginLeft: '4px',
+    fontSize: '13px',
+    fontWeight: 500,
+    color: '#6b7280',
+  },
+  categoryGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(2, 1fr)',
+    gap: '8px',
+  },
+  category: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    fontSize: '13px',
+    color: '#374151',
+  },
+  categoryLabel: {
+    fontWeight: 500,
+  },
+  categoryScore: {
+    fontWeight: 600,
+  },
+  resolved: {
+    marginTop: '12px',
+    fontSize: '13px',
+    color: '#374151',
+  },
+  noticeBox: {
+    marginTop: '16px',
+    padding: '12px 16px',
+    backgroundColor: '#f9fafb',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    fontSize: '13px',
+    color: '#374151',
+  },
+  workflow: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+    marginBottom: '20px',
+    padding: '16px',
+    backgroundColor: '#f9fafb',
+    borderRadius: '12px',
+    fontSize: '14px',
+    color: '#374151',
+  },
+  workflowOption: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    cursor: 'pointer',
+  },
+  workflowField: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  workflowLabel: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#6b7280',
+  },
+  workflowNote: {
+    fontSize: '12px',
+    color: '#92400e',
+  },
+  workflowInput: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '8px 10px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontFamily: 'inherit',
+    backgroundColor: '#ffffff',
+  },
 };
 
 // Add hover effect for apply button
@@ -0,0 +1,267 @@
+// SEO Change History Component - Lists applied change sets and reverts them
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ChangeSet, FieldChangeRecord, FieldConflict } from '@/src/types/seo';
+import { createAuthoringGraphQLService } from '@/src/services/authoringGraphql';
+
+export interface SEOChangeHistoryProps {
+  pageItemId?: string;
+  refreshKey?: string | number; // Change to reload the list (e.g. after an apply)
+}
+
+export function SEOChangeHistory({ pageItemId, refreshKey }: SEOChangeHistoryProps) {
+  const [changeSets, setChangeSets] = useState<ChangeSet[]>([]);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Fields the last revert left alone because they were edited since the apply
+  const [openConflicts, setOpenConflicts] = useState<{ changeSetId: string; fields: FieldConflict[] } | null>(null);
+
+  const loadChangeSets = useCallback(async () => {
+    if (!pageItemId) return;
+
+    try {
+      const response = await fetch(`/api/changesets?pageId=${encodeURIComponent(pageItemId)}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to load change history: ${response.status}`);
+      }
+      const data = await response.json();
+      setChangeSets(data.changeSets || []);
+    } catch (err) {
+      console.error('Error loading change history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load change history');
+    }
+  }, [pageItemId]);
+
+  useEffect(() => {
+    loadChangeSets();
+  }, [loadChangeSets, refreshKey]);
+
+  const handleRevert = async (changeSet: ChangeSet) => {
+    const authoringService = createAuthoringGraphQLService();
+    if (!authoringService) {
+      alert('Authoring API not configured. Please set environment variables.');
+      return;
+    }
+
+    const pending = changeSet.fields.filter((field) => !isSettled(field));
+    if (!confirm(`Revert ${pending.length} field(s) to their previous values?`)) {
+      return;
+    }
+
+    setRevertingId(changeSet.id);
+    setError(null);
+    setOpenConflicts(null);
+    try {
+      const { reverted, conflicts, failed } = await authoringService.revertChangeSet(changeSet);
+
+      // Record the restored fields even if others were not, so a retry skips them
+      if (reverted.length > 0) {
+        await recordRevert(changeSet, { revertedKeys: reverted });
+      }
+
+      if (conflicts.length > 0 || failed.length > 0) {
+        setOpenConflicts(conflicts.length > 0 ? { changeSetId: changeSet.id, fields: conflicts } : null);
+        setError(
+          `Reverted ${reverted.length} of ${pending.length} fields. ` +
+            [
+              ...conflicts.map(
+                (c) => `${c.address.fieldName}: changed${c.updatedBy ? ` by ${c.updatedBy}` : ''} since the apply, not reverted`
+              ),
+              ...failed.map((f) => `${f.key}: ${f.error}`),
+            ].join('; ')
+        );
+      }
+
+      await loadChangeSets();
+    } catch (err) {
+      console.error('Error reverting change set:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revert changes');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  // Keep the later edits of the conflicting fields; the change set then counts as reverted
+  const handleKeepConflicts = async (changeSet: ChangeSet, fields: FieldConflict[]) => {
+    setRevertingId(changeSet.id);
+    try {
+      await recordRevert(changeSet, { keptKeys: fields.map((field) => field.key) });
+      setOpenConflicts(null);
+      setError(null);
+      await loadChangeSets();
+    } catch (err) {
+      console.error('Error updating change history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update change history');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (!pageItemId || changeSets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={styles.panel}>
+      <h4 style={styles.title}>Change History</h4>
+      {error && <div style={styles.errorBox}>{error}</div>}
+      <ul style={styles.list}>
+        {changeSets.map((changeSet) => (
+          <li key={changeSet.id} style={styles.item}>
+            <div style={styles.itemInfo}>
+              <span style={styles.itemDate}>{new Date(changeSet.createdAt).toLocaleString()}</span>
+              <span style={styles.itemFields}>
+                {changeSet.fields.map((field) => field.address.fieldName).join(', ')}
+              </span>
+              {!changeSet.revertedAt && changeSet.fields.some(isSettled) && (
+                <span style={styles.itemProgress}>
+                  {changeSet.fields.filter(isSettled).length} of {changeSet.fields.length} fields reverted or kept
+                </span>
+              )}
+            </div>
+            {openConflicts?.changeSetId === changeSet.id && (
+              <button
+                type="button"
+                onClick={() => handleKeepConflicts(changeSet, openConflicts.fields)}
+                disabled={revertingId !== null}
+                style={{
+                  ...styles.keepButton,
+                  ...(revertingId !== null ? styles.revertButtonDisabled : {}),
+                }}
+              >
+                Keep current values
+              </button>
+            )}
+            {changeSet.revertedAt ? (
+              <span style={styles.revertedBadge}>Reverted</span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleRevert(changeSet)}
+                disabled={revertingId !== null}
+                style={{
+                  ...styles.revertButton,
+                  ...(revertingId !== null ? styles.revertButtonDisabled : {}),
+                }}
+              >
+                {revertingId === changeSet.id ? 'Reverting...' : '↩ Revert'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Restored by a revert, or kept as edited since the apply
+function isSettled(field: FieldChangeRecord): boolean {
+  return Boolean(field.revertedAt || field.keptAt);
+}
+
+async function recordRevert(changeSet: ChangeSet, keys: { revertedKeys?: string[]; keptKeys?: string[] }) {
+  const response = await fetch('/api/changesets', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ pageId: changeSet.pageItemId, id: changeSet.id, ...keys }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || `Failed to update change history: ${response.status}`);
+  }
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    backgroundColor: '#ffffff',
+    borderRadius: '16px',
+    border: '1px solid #e5e7eb',
+    padding: '20px 24px',
+  },
+  title: {
+    margin: '0 0 12px 0',
+    fontSize: '16px',
+    fontWeight: 600,
+    color: '#111827',
+  },
+  list: {
+    margin: 0,
+    padding: 0,
+    listStyle: 'none',
+  },
+  item: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '10px 0',
+    borderTop: '1px solid #f3f4f6',
+  },
+  itemInfo: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    minWidth: 0,
+  },
+  itemDate: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#374151',
+  },
+  itemFields: {
+    fontSize: '12px',
+    color: '#6b7280',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  itemProgress: {
+    fontSize: '12px',
+    color: '#92400e',
+  },
+  revertButton: {
+    padding: '6px 14px',
+    borderRadius: '16px',
+    border: '1px solid #8629FF',
+    backgroundColor: '#ffffff',
+    color: '#8629FF',
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    flexShrink: 0,
+  },
+  keepButton: {
+    padding: '6px 14px',
+    borderRadius: '16px',
+    border: '1px solid #d1d5db',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    flexShrink: 0,
+  },
+  revertButtonDisabled: {
+    opacity: 0.5,
+    cursor: 'not-allowed',
+  },
+  revertedBadge: {
+    fontSize: '12px',
+    color: '#6b7280',
+    flexShrink: 0,
+  },
+  errorBox: {
+    marginBottom: '12px',
+    padding: '10px 14px',
+    backgroundColor: '#fef2f2',
+    border: '1px solid #FF1F38',
+    borderRadius: '8px',
+    fontSize: '13px',
+    color: '#991b1b',
+  },
+};
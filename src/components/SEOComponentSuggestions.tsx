@@ -3,7 +3,10 @@
 'use client';
 
 import { useState } from 'react';
-import type { ComponentSuggestion, ApplySelection } from '@/src/types/seo';
+import type { ComponentSuggestion, ApplySelection, SuggestionAlternative, SuggestionTarget } from '@/src/types/seo';
+import { truncateForSerp, type SerpField } from '@/src/utils/serpWidth';
+import { SerpCutoff } from './SerpCutoff';
+import { SuggestionAlternatives, type RequestAlternatives } from './SuggestionAlternatives';
 
 // Copy button component with fallback for clipboard permissions
 function CopyButton({ text, label }: { text: string; label?: string }) {
@@ -75,15 +78,30 @@ export interface SEOComponentSuggestionsProps {
   component: ComponentSuggestion;
   selection: ApplySelection;
   onSelectionChange: (selection: ApplySelection) => void;
+  onRequestAlternatives?: RequestAlternatives; // Enables per-item alternatives and refine
+  onChooseAlternative?: (target: SuggestionTarget, alternative: SuggestionAlternative) => void;
 }
 
 export function SEOComponentSuggestions({
   component,
   selection,
   onSelectionChange,
+  onRequestAlternatives,
+  onChooseAlternative,
 }: SEOComponentSuggestionsProps) {
   const [expanded, setExpanded] = useState(true);
 
+  const renderAlternatives = (target: SuggestionTarget, original: string, suggestion: string) =>
+    onRequestAlternatives && onChooseAlternative ? (
+      <SuggestionAlternatives
+        target={target}
+        original={original}
+        suggestion={suggestion}
+        onRequest={onRequestAlternatives}
+        onChoose={(alternative) => onChooseAlternative(target, alternative)}
+      />
+    ) : null;
+
   const updateSelection = (field: string, value: boolean) => {
     const newSelection = { ...selection };
 
@@ -93,10 +111,24 @@ export function SEOComponentSuggestions({
 
     const compSelection = newSelection.components[component.componentId];
 
-    if (field.startsWith('headings.')) {
+    if (field.startsWith('improvements.')) {
+      const fieldName = field.substring('improvements.'.length);
+      compSelection.headings = compSelection.headings || {};
+      const improvements = (compSelection.headings.improvements || []).filter((f) => f !== fieldName);
+      compSelection.headings.improvements = value ? [...improvements, fieldName] : improvements;
+    } else if (field.startsWith('headings.')) {
       const subField = field.split('.')[1];
       compSelection.headings = compSelection.headings || {};
       (compSelection.headings as any)[subField] = value;
+    } else if (field.startsWith('links.')) {
+      const fieldName = field.substring('links.'.length);
+      const links = (compSelection.links || []).filter((link) => link.fieldName !== fieldName);
+      compSelection.links = value ? [...links, { fieldName, apply: true }] : links;
+    } else if (field.startsWith('paragraphs.')) {
+      const fieldName = field.substring('paragraphs.'.length);
+      compSelection.content = compSelection.content || {};
+      const paragraphs = (compSelection.content.paragraphs || []).filter((f) => f !== fieldName);
+      compSelection.content.paragraphs = value ? [...paragraphs, fieldName] : paragraphs;
     } else if (field.startsWith('images.')) {
       const imageId = field.split('.')[1];
       compSelection.images = compSelection.images || [];
@@ -162,7 +194,7 @@ export function SEOComponentSuggestions({
                   suggested={component.metadata.title}
                   selected={false}
                   onSelect={() => {}}
-                  maxLength={60}
+                  serpField="title"
                 />
               )}
               {component.metadata.description && (
@@ -172,7 +204,7 @@ export function SEOComponentSuggestions({
                   suggested={component.metadata.description}
                   selected={false}
                   onSelect={() => {}}
-                  maxLength={165}
+                  serpField="description"
                 />
               )}
             </Section>
@@ -188,7 +220,13 @@ export function SEOComponentSuggestions({
                   suggested={component.headings.h1}
                   selected={selection.components?.[component.componentId]?.headings?.h1 || false}
                   onSelect={(selected) => updateSelection('headings.h1', selected)}
-                />
+                >
+                  {renderAlternatives(
+                    { kind: 'h1', componentId: component.componentId },
+                    '',
+                    component.headings.h1
+                  )}
+                </DiffItem>
               )}
               {component.headings.improvements &&
                 component.headings.improvements.map((imp, idx) => (
@@ -197,10 +235,20 @@ export function SEOComponentSuggestions({
                     label={`${imp.fieldName} (H${idx + 2})`}
                     original={imp.current}
                     suggested={imp.suggested}
-                    selected={false}
-                    onSelect={() => {}}
+                    selected={
+                      selection.components?.[component.componentId]?.headings?.improvements?.includes(
+                        imp.fieldName
+                      ) || false
+                    }
+                    onSelect={(selected) => updateSelection(`improvements.${imp.fieldName}`, selected)}
                     reason={imp.reason}
-                  />
+                  >
+                    {renderAlternatives(
+                      { kind: 'headingImprovement', componentId: component.componentId, fieldName: imp.fieldName },
+                      imp.current,
+                      imp.suggested
+                    )}
+                  </DiffItem>
                 ))}
             </Section>
           )}
@@ -214,10 +262,19 @@ export function SEOComponentSuggestions({
                   label={`Field: ${para.fieldName}`}
                   original={para.original.substring(0, 150) + (para.original.length > 150 ? '...' : '')}
                   suggested={para.suggested.substring(0, 150) + (para.suggested.length > 150 ? '...' : '')}
-                  selected={false}
-                  onSelect={() => {}}
+                  selected={
+                    selection.components?.[component.componentId]?.content?.paragraphs?.includes(para.fieldName) ||
+                    false
+                  }
+                  onSelect={(selected) => updateSelection(`paragraphs.${para.fieldName}`, selected)}
                   reason={para.reason}
-                />
+                >
+                  {renderAlternatives(
+                    { kind: 'paragraph', componentId: component.componentId, fieldName: para.fieldName },
+                    para.original,
+                    para.suggested
+                  )}
+                </DiffItem>
               ))}
             </Section>
           )}
@@ -238,7 +295,13 @@ export function SEOComponentSuggestions({
                   }
                   onSelect={(selected) => updateSelection(`images.${img.id}`, selected)}
                   minLength={5}
-                />
+                >
+                  {renderAlternatives(
+                    { kind: 'imageAlt', componentId: component.componentId, imageId: img.id },
+                    img.currentAlt || '',
+                    img.alt
+                  )}
+                </DiffItem>
               ))}
             </Section>
           )}
@@ -246,22 +309,32 @@ export function SEOComponentSuggestions({
           {/* Links */}
           {component.links && component.links.length > 0 && (
             <Section title={`Links (${component.links.length})`}>
-              {component.links.map((link, idx) => (
-                <div key={idx} style={styles.linkItem}>
-                  <div style={styles.linkFieldLabel}>Field: {link.fieldName}</div>
-                  {link.currentText && link.suggestedText && (
+              {component.links.map((link, idx) => {
+                const linkSelected =
+                  selection.components?.[component.componentId]?.links?.some(
+                    (l) => l.fieldName === link.fieldName && l.apply
+                  ) || false;
+                return (
+                  <div key={idx} style={styles.linkItem}>
+                    <div style={styles.linkFieldLabel}>Field: {link.fieldName}</div>
                     <DiffItem
-                      label="Anchor Text"
-                      original={link.currentText}
-                      suggested={link.suggestedText}
-                      selected={false}
-                      onSelect={() => {}}
+                      label={link.suggestedText ? 'Anchor Text' : 'Link'}
+                      original={link.currentText || '(no text)'}
+                      suggested={link.suggestedText || link.currentText || link.href}
+                      selected={linkSelected}
+                      onSelect={(selected) => updateSelection(`links.${link.fieldName}`, selected)}
                       reason={link.reason}
-                    />
-                  )}
-                  <div style={styles.linkUrl}>URL: {link.href}</div>
-                </div>
-              ))}
+                    >
+                      {renderAlternatives(
+                        { kind: 'linkText', componentId: component.componentId, fieldName: link.fieldName },
+                        link.currentText || '',
+                        link.suggestedText || link.currentText || ''
+                      )}
+                    </DiffItem>
+                    <div style={styles.linkUrl}>URL: {link.href}</div>
+                  </div>
+                );
+              })}
             </Section>
           )}
         </div>
@@ -292,7 +365,9 @@ interface DiffItemProps {
   onSelect: (selected: boolean) => void;
   maxLength?: number;
   minLength?: number;
+  serpField?: SerpField; // Limited by its width in search results
   reason?: string;
+  children?: React.ReactNode; // Extra actions below the diff
 }
 
 function DiffItem({
@@ -303,11 +378,14 @@ function DiffItem({
   onSelect,
   maxLength,
   minLength,
+  serpField,
   reason,
+  children,
 }: DiffItemProps) {
   const originalLength = original.length;
   const suggestedLength = suggested.length;
-  const suggestedValid = maxLength ? suggestedLength <= maxLength : true;
+  const suggestedCut = serpField ? truncateForSerp(suggested, serpField) : null;
+  const suggestedValid = suggestedCut ? !suggestedCut.truncated : maxLength ? suggestedLength <= maxLength : true;
 
   return (
     <div style={styles.diffItem}>
@@ -323,7 +401,16 @@ function DiffItem({
           )}
           {label}
         </label>
-        {maxLength && (
+        {suggestedCut ? (
+          <span
+            style={{
+              ...styles.lengthBadge,
+              ...(suggestedValid ? {} : styles.lengthBadgeError),
+            }}
+          >
+            {Math.round(suggestedCut.width)}/{suggestedCut.maxWidth}px
+          </span>
+        ) : maxLength && (
           <span
             style={{
               ...styles.lengthBadge,
@@ -356,6 +443,7 @@ function DiffItem({
           >
             {suggested}
           </div>
+          {serpField && <SerpCutoff text={suggested} field={serpField} />}
         </div>
       </div>
       {reason && (
@@ -363,6 +451,7 @@ function DiffItem({
           <strong>Reason:</strong> {reason}
         </div>
       )}
+      {children}
     </div>
   );
 }
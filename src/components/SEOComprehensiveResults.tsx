@@ -2,15 +2,48 @@
 
 'use client';
 
-import type { ScanResult, BrokenLinkInfo } from '@/src/types/seo';
+import type { ScanResult, BrokenLinkInfo, KeywordPlacement, SEOIssues } from '@/src/types/seo';
+import { KEYWORD_PLACEMENTS } from '@/src/utils/keywordAnalysis';
+import { HeadingOutline } from './HeadingOutline';
+import { SerpCutoff } from './SerpCutoff';
 
 export interface SEOComprehensiveResultsProps {
   scanResult: ScanResult;
 }
 
+const PLACEMENT_LABELS: Record<KeywordPlacement, string> = {
+  title: 'Title',
+  h1: 'H1',
+  firstParagraph: 'First paragraph',
+  description: 'Description',
+  altText: 'Alt text',
+  urlSlug: 'URL',
+};
+
+const HEADING_ISSUES: { issue: keyof SEOIssues; label: string }[] = [
+  { issue: 'multipleH1', label: 'More than one H1' },
+  { issue: 'skippedHeadingLevels', label: 'Heading levels skipped' },
+  { issue: 'emptyHeadings', label: 'Empty headings' },
+  { issue: 'longHeadings', label: 'Headings too long' },
+];
+
+const KEYWORD_ISSUES: { issue: keyof SEOIssues; label: string }[] = [
+  { issue: 'keywordNotInTitle', label: 'Not in the title' },
+  { issue: 'keywordNotInH1', label: 'Not in the H1' },
+  { issue: 'keywordNotInFirstParagraph', label: 'Not in the first paragraph' },
+  { issue: 'keywordNotInDescription', label: 'Not in the meta description' },
+  { issue: 'keywordNotInAltText', label: 'Not in any image alt text' },
+  { issue: 'keywordNotInUrl', label: 'Not in the URL' },
+  { issue: 'keywordDensityLow', label: 'Used too rarely' },
+  { issue: 'keywordDensityHigh', label: 'Used too often' },
+];
+
 export function SEOComprehensiveResults({ scanResult }: SEOComprehensiveResultsProps) {
-  const { pageData, issues, brokenLinksDetails } = scanResult;
+  const { pageData, issues, brokenLinksDetails, profile } = scanResult;
+  const { checks, thresholds } = profile;
   const metrics = pageData.metrics;
+  const headingIssues = HEADING_ISSUES.filter(({ issue }) => Array.isArray(issues[issue]));
+  const keywordIssues = KEYWORD_ISSUES.filter(({ issue }) => Array.isArray(issues[issue]));
 
   return (
     <div style={styles.container}>
@@ -22,8 +55,14 @@ export function SEOComprehensiveResults({ scanResult }: SEOComprehensiveResultsP
             <MetricCard
               label="Word Count"
               value={metrics.wordCount.toLocaleString()}
-              status={metrics.wordCount >= 250 ? 'good' : 'warning'}
-              helpText={metrics.wordCount >= 250 ? 'Good length' : 'Consider adding more content (target: 250+ words)'}
+              status={!checks.contentLength ? 'info' : metrics.wordCount >= thresholds.minWords ? 'good' : 'warning'}
+              helpText={
+                !checks.contentLength
+                  ? undefined
+                  : metrics.wordCount >= thresholds.minWords
+                  ? 'Good length'
+                  : `Consider adding more content (target: ${thresholds.minWords}+ words)`
+              }
             />
             <MetricCard
               label="Character Count"
@@ -50,11 +89,11 @@ export function SEOComprehensiveResults({ scanResult }: SEOComprehensiveResultsP
             <MetricCard
               label="Links"
               value={metrics.linkCount.toString()}
-              status={metrics.linkCount > 0 && metrics.linkCount <= 100 ? 'good' : 'warning'}
+              status={metrics.linkCount > 0 && metrics.linkCount <= thresholds.maxLinks ? 'good' : 'warning'}
               helpText={
                 metrics.linkCount === 0
                   ? 'No links found'
-                  : metrics.linkCount > 100
+                  : metrics.linkCount > thresholds.maxLinks
                   ? 'Too many links (consider reducing)'
                   : 'Good link count'
               }
@@ -97,13 +136,83 @@ export function SEOComprehensiveResults({ scanResult }: SEOComprehensiveResultsP
             </div>
             {issues.lowReadability && (
               <div style={styles.readabilityWarning}>
-                ⚠️ Content readability is below recommended level (score &lt; 60). Consider simplifying language.
+                ⚠️ Content readability is below recommended level (score &lt; {thresholds.minReadability}). Consider simplifying language.
               </div>
             )}
           </div>
         </div>
       )}
 
+      {/* Heading Outline Section */}
+      {pageData.headings.outline && (
+        <div style={styles.section}>
+          <h3 style={styles.sectionTitle}>🧭 Heading Outline</h3>
+          <HeadingOutline outline={pageData.headings.outline} maxLength={thresholds.maxHeadingLength} />
+        </div>
+      )}
+
+      {/* Focus Keywords Section */}
+      {pageData.keywordAnalysis && pageData.keywordAnalysis.length > 0 && (
+        <div style={styles.section}>
+          <h3 style={styles.sectionTitle}>🔑 Focus Keywords</h3>
+          <div style={styles.keywordTableWrapper}>
+            <table style={styles.keywordTable}>
+              <thead>
+                <tr>
+                  <th style={styles.keywordHeader}>Keyword</th>
+                  <th style={styles.keywordHeader}>Uses</th>
+                  <th style={styles.keywordHeader}>Density</th>
+                  {KEYWORD_PLACEMENTS.map((placement) => (
+                    <th key={placement} style={styles.keywordHeader}>
+                      {PLACEMENT_LABELS[placement]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pageData.keywordAnalysis.map((analysis) => {
+                  const densityOk = ![issues.keywordDensityLow, issues.keywordDensityHigh].some((keywords) =>
+                    keywords?.includes(analysis.keyword)
+                  );
+                  return (
+                    <tr key={analysis.keyword}>
+                      <td style={styles.keywordCell}>
+                        <strong>{analysis.keyword}</strong>
+                        {analysis.variants.length > 0 && (
+                          <div style={styles.keywordVariants}>Also as: {analysis.variants.join(', ')}</div>
+                        )}
+                      </td>
+                      <td style={styles.keywordCell}>{analysis.occurrences}</td>
+                      <td style={{ ...styles.keywordCell, color: densityOk ? '#8629FF' : '#FF1F38' }}>
+                        {analysis.density}%
+                      </td>
+                      {KEYWORD_PLACEMENTS.map((placement) => {
+                        const placed = analysis.placements[placement];
+                        return (
+                          <td
+                            key={placement}
+                            style={{
+                              ...styles.keywordCell,
+                              color: placed === null ? '#9ca3af' : placed ? '#8629FF' : '#FF1F38',
+                            }}
+                          >
+                            {placed === null ? '–' : placed ? '✓' : '✗'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div style={styles.keywordNote}>
+            Plurals and other word forms count as the keyword. Target density: {thresholds.minKeywordDensity}-
+            {thresholds.maxKeywordDensity} uses per 100 words.
+          </div>
+        </div>
+      )}
+
       {/* Issues Section */}
       <div style={styles.section}>
         <h3 style={styles.sectionTitle}>⚠️ Detected Issues</h3>
@@ -116,31 +225,49 @@ export function SEOComprehensiveResults({ scanResult }: SEOComprehensiveResultsP
               )}
               {issues.titleTooLong && (
                 <IssueItem severity="warning">
-                  Title too long ({pageData.metadata.title?.length || 0} chars, recommended: ≤60)
+                  Title cut off in search results (recommended: ≤{thresholds.titleMaxWidth}px wide)
+                  <SerpCutoff text={pageData.metadata.title || ''} field="title" />
                 </IssueItem>
               )}
               {issues.descriptionTooLong && (
                 <IssueItem severity="warning">
-                  Description too long ({pageData.metadata.description?.length || 0} chars, recommended: ≤165)
+                  Description cut off in search results (recommended: ≤{thresholds.descriptionMaxWidth}px wide)
+                  <SerpCutoff text={pageData.metadata.description || ''} field="description" />
                 </IssueItem>
               )}
             </IssueGroup>
           )}
 
           {/* Content Issues */}
-          {(issues.missingH1 || issues.shortContent) && (
+          {(issues.missingH1 || issues.shortContent || headingIssues.length > 0) && (
             <IssueGroup title="Content Issues">
               {issues.missingH1 && (
                 <IssueItem severity="error">Missing H1 heading</IssueItem>
               )}
+              {headingIssues.map(({ issue, label }) => (
+                <IssueItem key={issue} severity={issue === 'multipleH1' ? 'error' : 'warning'}>
+                  {label}: {(issues[issue] as string[]).map((heading) => `"${heading}"`).join(', ')}
+                </IssueItem>
+              ))}
               {issues.shortContent && (
                 <IssueItem severity="warning">
-                  Content too short ({pageData.wordCount || 0} words, recommended: ≥250)
+                  Content too short ({pageData.wordCount || 0} words, recommended: ≥{thresholds.minWords})
                 </IssueItem>
               )}
             </IssueGroup>
           )}
 
+          {/* Focus Keyword Issues */}
+          {keywordIssues.length > 0 && (
+            <IssueGroup title="Focus Keyword Issues">
+              {keywordIssues.map(({ issue, label }) => (
+                <IssueItem key={issue} severity="warning">
+                  {label}: {(issues[issue] as string[]).map((keyword) => `"${keyword}"`).join(', ')}
+                </IssueItem>
+              ))}
+            </IssueGroup>
+          )}
+
           {/* Accessibility Issues */}
           {(issues.weakAltText || issues.missingImages) && (
             <IssueGroup title="Accessibility Issues">
@@ -169,7 +296,7 @@ export function SEOComprehensiveResults({ scanResult }: SEOComprehensiveResultsP
                 </IssueItem>
               )}
               {issues.tooManyLinks && (
-                <IssueItem severity="warning">Too many links (over 100) - may impact SEO</IssueItem>
+                <IssueItem severity="warning">Too many links (over {thresholds.maxLinks}) - may impact SEO</IssueItem>
               )}
               {issues.noInternalLinks && (
                 <IssueItem severity="info">No internal links detected - consider adding internal links</IssueItem>
@@ -451,6 +578,39 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#6b7280',
     fontStyle: 'italic',
   },
+  keywordTableWrapper: {
+    overflowX: 'auto',
+  },
+  keywordTable: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: '13px',
+  },
+  keywordHeader: {
+    padding: '8px',
+    textAlign: 'left',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#6b7280',
+    borderBottom: '1px solid #e5e7eb',
+    whiteSpace: 'nowrap',
+  },
+  keywordCell: {
+    padding: '8px',
+    color: '#374151',
+    borderBottom: '1px solid #f3f4f6',
+    verticalAlign: 'top',
+  },
+  keywordVariants: {
+    marginTop: '2px',
+    fontSize: '12px',
+    color: '#6b7280',
+  },
+  keywordNote: {
+    marginTop: '8px',
+    fontSize: '12px',
+    color: '#6b7280',
+  },
   noIssues: {
     padding: '20px',
     textAlign: 'center',
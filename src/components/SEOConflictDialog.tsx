@@ -0,0 +1,250 @@
+// SEO Conflict Dialog Component - Resolves fields edited by someone else since the scan
+
+'use client';
+
+import { useState } from 'react';
+import type { ConflictResolution, FieldConflict } from '@/src/types/seo';
+
+export interface SEOConflictDialogProps {
+  conflicts: FieldConflict[];
+  onResolve: (resolutions: ConflictResolution[]) => void;
+  onCancel: () => void;
+}
+
+export function SEOConflictDialog({ conflicts, onResolve, onCancel }: SEOConflictDialogProps) {
+  // Default to keeping the other author's value so nothing is overwritten by accident
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>(() =>
+    Object.fromEntries(
+      conflicts.map((conflict) => [
+        conflict.key,
+        { key: conflict.key, action: 'keep', value: conflict.suggested },
+      ])
+    )
+  );
+
+  const updateResolution = (key: string, update: Partial<ConflictResolution>) => {
+    setResolutions((prev) => ({ ...prev, [key]: { ...prev[key], ...update } }));
+  };
+
+  return (
+    <div style={styles.overlay} role="dialog" aria-modal="true" aria-labelledby="seo-conflict-title">
+      <div style={styles.dialog}>
+        <h3 id="seo-conflict-title" style={styles.title}>
+          {conflicts.length} {conflicts.length === 1 ? 'field was' : 'fields were'} changed since the scan
+        </h3>
+        <p style={styles.description}>
+          Another author has edited these fields. Choose which value to keep for each one.
+        </p>
+
+        <div style={styles.conflictList}>
+          {conflicts.map((conflict) => {
+            const resolution = resolutions[conflict.key];
+            return (
+              <div key={conflict.key} style={styles.conflict}>
+                <div style={styles.conflictHeader}>
+                  <strong>{conflict.address.fieldName}</strong>
+                  {(conflict.updatedBy || conflict.updated) && (
+                    <span style={styles.meta}>
+                      Updated
+                      {conflict.updatedBy ? ` by ${conflict.updatedBy}` : ''}
+                      {conflict.updated ? ` on ${formatSitecoreDate(conflict.updated)}` : ''}
+                    </span>
+                  )}
+                </div>
+
+                <ValueRow label="At scan" value={conflict.scanned} />
+                <ValueRow label="Now in Sitecore" value={conflict.current} highlight />
+
+                <label style={styles.option}>
+                  <input
+                    type="radio"
+                    name={`conflict-${conflict.key}`}
+                    checked={resolution.action === 'keep'}
+                    onChange={() => updateResolution(conflict.key, { action: 'keep' })}
+                  />
+                  Keep their version
+                </label>
+                {conflict.kind === 'rich-text' ? (
+                  <p style={styles.meta}>
+                    RichText rewrites are merged into the scanned markup, so they cannot overwrite newer
+                    edits. Scan the page again to rewrite this field.
+                  </p>
+                ) : (
+                  <>
+                    <label style={styles.option}>
+                      <input
+                        type="radio"
+                        name={`conflict-${conflict.key}`}
+                        checked={resolution.action === 'overwrite'}
+                        onChange={() => updateResolution(conflict.key, { action: 'overwrite' })}
+                      />
+                      Overwrite with (editable):
+                    </label>
+                    <textarea
+                      value={resolution.value ?? ''}
+                      onChange={(e) => updateResolution(conflict.key, { action: 'overwrite', value: e.target.value })}
+                      rows={2}
+                      style={styles.textarea}
+                    />
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={styles.actions}>
+          <button type="button" onClick={onCancel} style={{ ...styles.button, ...styles.buttonSecondary }}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve(Object.values(resolutions))}
+            style={{ ...styles.button, ...styles.buttonPrimary }}
+          >
+            Continue Applying
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ValueRow({ label, value, highlight = false }: { label: string; value: string; highlight?: boolean }) {
+  return (
+    <div style={styles.valueRow}>
+      <span style={styles.valueLabel}>{label}</span>
+      <span style={{ ...styles.value, ...(highlight ? styles.valueHighlight : {}) }}>
+        {value || <em>(empty)</em>}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Format a Sitecore date (yyyyMMddTHHmmssZ) for display
+ */
+function formatSitecoreDate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})/);
+  if (!match) return value;
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)).toLocaleString();
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    backgroundColor: 'rgba(17, 24, 39, 0.5)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+    padding: '16px',
+  },
+  dialog: {
+    backgroundColor: '#ffffff',
+    borderRadius: '16px',
+    padding: '24px',
+    width: '100%',
+    maxWidth: '560px',
+    maxHeight: '90vh',
+    overflowY: 'auto',
+    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)',
+  },
+  title: {
+    margin: '0 0 8px 0',
+    fontSize: '18px',
+    fontWeight: 600,
+    color: '#111827',
+  },
+  description: {
+    margin: '0 0 16px 0',
+    fontSize: '14px',
+    color: '#6b7280',
+  },
+  conflictList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+  },
+  conflict: {
+    padding: '16px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '12px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    fontSize: '14px',
+    color: '#374151',
+  },
+  conflictHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+    flexWrap: 'wrap',
+  },
+  meta: {
+    fontSize: '12px',
+    color: '#6b7280',
+  },
+  valueRow: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+  },
+  valueLabel: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#6b7280',
+  },
+  value: {
+    padding: '6px 10px',
+    backgroundColor: '#f9fafb',
+    borderRadius: '6px',
+    wordBreak: 'break-word',
+  },
+  valueHighlight: {
+    backgroundColor: '#fef2f2',
+    border: '1px solid #FF1F38',
+  },
+  option: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    cursor: 'pointer',
+  },
+  textarea: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '8px 10px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontFamily: 'inherit',
+    resize: 'vertical',
+  },
+  actions: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '12px',
+    marginTop: '20px',
+  },
+  button: {
+    padding: '10px 20px',
+    borderRadius: '24px',
+    border: 'none',
+    fontSize: '14px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  buttonPrimary: {
+    backgroundColor: '#8629FF',
+    color: '#ffffff',
+  },
+  buttonSecondary: {
+    backgroundColor: '#f3f4f6',
+    color: '#374151',
+    border: '1px solid #e5e7eb',
+  },
+};
@@ -2,28 +2,66 @@
 
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import type { PageContext, ScanResult, SEOSuggestions, ApplySelection, CompetitorAnalysis } from '@/src/types/seo';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type {
+  AlternativesRequest,
+  PageContext,
+  ScanResult,
+  SEOSuggestions,
+  ApplySelection,
+  ApplyResult,
+  ApplyFailure,
+  ChangeSet,
+  CompetitorAnalysis,
+  ComponentSuggestion,
+  ConflictResolution,
+  FieldChange,
+  FieldConflict,
+  ScoringProfileConfig,
+  UsageAttribution,
+  WorkflowApplyOptions,
+  WorkflowCommand,
+} from '@/src/types/seo';
 import { scanPageContent } from '@/src/utils/seoScanner';
 import { computeSEOScore } from '@/src/utils/seoScorer';
-import { createAzureOpenAIService } from '@/src/services/azureOpenAI';
+import { DEFAULT_SCORING_PROFILE_CONFIG, resolveScoringProfile } from '@/src/utils/scoringProfiles';
+import { buildFieldChanges, buildDiffSummary } from '@/src/utils/seoApplyPlanner';
+import { simulateFieldChanges } from '@/src/utils/seoScoreSimulator';
+import { requestAlternatives, requestSuggestions, streamSuggestions } from '@/src/services/suggestionsClient';
+import { createAuthoringGraphQLService } from '@/src/services/authoringGraphql';
 import type { PageContent, SemanticTextItem } from '@/src/types';
 import { SEOScoreCard } from './SEOScoreCard';
 import { SEOContextForm } from './SEOContextForm';
 import { SEOSuggestionsPanel } from './SEOSuggestionsPanel';
 import { SEOApplyPanel } from './SEOApplyPanel';
+import { SEOChangeHistory } from './SEOChangeHistory';
+import { BrandRulesEditor } from './BrandRulesEditor';
+import { LLMUsagePanel } from './LLMUsagePanel';
+import { SEOConflictDialog } from './SEOConflictDialog';
 import { SEOComprehensiveResults } from './SEOComprehensiveResults';
 import { CompetitorScanner } from './CompetitorScanner';
+import { SerpPreview } from './SerpPreview';
 
 export interface SEOOptimizerProps {
   pageContent: PageContent | null;
   semanticItems: SemanticTextItem[];
+  user?: string; // Signed-in author, recorded with model usage
   onApply?: (applied: string[]) => void;
 }
 
+// Field changes waiting for the author to resolve conflicts
+interface PendingApply {
+  changes: FieldChange[];
+  skipped: string[];
+  failed: ApplyFailure[];
+  revisions: Record<string, string>;
+  conflicts: FieldConflict[];
+}
+
 export function SEOOptimizer({
   pageContent,
   semanticItems,
+  user,
   onApply,
 }: SEOOptimizerProps) {
   const [context, setContext] = useState<PageContext>({
@@ -32,11 +70,66 @@ export function SEOOptimizer({
     locale: 'en-US',
   });
 
+  // The server loads the brand rules of the page's site
+  useEffect(() => {
+    setContext((prev) => ({ ...prev, site: pageContent?.siteName }));
+  }, [pageContent?.siteName]);
+
+  // Page and author that model usage is charged to
+  const attribution = useMemo<UsageAttribution>(
+    () => ({ pageItemId: pageContent?.itemId, pageName: pageContent?.name, user }),
+    [pageContent?.itemId, pageContent?.name, user]
+  );
+
+  // Stored scoring profiles; the built-in ones until they load or if they cannot be loaded
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfileConfig>(DEFAULT_SCORING_PROFILE_CONFIG);
+
+  useEffect(() => {
+    fetch('/api/scoring-profiles')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load scoring profiles: ${response.status}`);
+        }
+        const data = await response.json();
+        setScoringProfiles(data.config);
+      })
+      .catch((err) => console.error('Error loading scoring profiles:', err));
+  }, []);
+
+  // The default page goal is not the author's choice, so it does not pick a scoring profile
+  const [pageGoalChosen, setPageGoalChosen] = useState(false);
+
+  const handleContextChange = useCallback(
+    (next: PageContext) => {
+      if (next.pageGoal !== context.pageGoal) {
+        setPageGoalChosen(true);
+      }
+      setContext(next);
+    },
+    [context.pageGoal]
+  );
+
+  // Scoring profile for the page template, else the page goal the author picked
+  const scoringProfile = useMemo(
+    () =>
+      resolveScoringProfile(scoringProfiles, {
+        templateName: pageContent?.templateName,
+        pageGoal: pageGoalChosen ? context.pageGoal : undefined,
+      }),
+    [scoringProfiles, pageContent?.templateName, pageGoalChosen, context.pageGoal]
+  );
+
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
   const [suggestions, setSuggestions] = useState<SEOSuggestions | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [isSuggesting, setIsSuggesting] = useState(false);
   const [applySelection, setApplySelection] = useState<ApplySelection>({});
+  const [applyResult, setApplyResult] = useState<ApplyResult | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [pendingApply, setPendingApply] = useState<PendingApply | null>(null);
+  const [workflowOptions, setWorkflowOptions] = useState<WorkflowApplyOptions>({ createVersion: false });
+  const [workflowCommands, setWorkflowCommands] = useState<WorkflowCommand[]>([]);
+  const [itemsWithoutWorkflow, setItemsWithoutWorkflow] = useState<string[]>([]);
   const [competitors, setCompetitors] = useState<CompetitorAnalysis[]>([]);
 
   // Scan page content
@@ -45,269 +138,335 @@ export function SEOOptimizer({
 
     setIsScanning(true);
     try {
-      const pageData = scanPageContent(pageContent, semanticItems);
-      const result = computeSEOScore(pageData);
+      const pageData = scanPageContent(pageContent, semanticItems, context.keywordsRequired);
+      const result = computeSEOScore(pageData, scoringProfile);
       setScanResult(result);
       setSuggestions(null); // Clear previous suggestions
       setApplySelection({}); // Clear selection
+      setApplyResult(null);
     } catch (error) {
       console.error('Error scanning page:', error);
     } finally {
       setIsScanning(false);
     }
-  }, [pageContent, semanticItems]);
+  }, [pageContent, semanticItems, scoringProfile, context.keywordsRequired]);
 
   // Generate AI suggestions
   const handleSuggest = useCallback(async () => {
     if (!scanResult) return;
 
-    const openAIService = createAzureOpenAIService();
-    if (!openAIService) {
-      alert('Azure OpenAI not configured. Please set environment variables.');
-      return;
-    }
-
     setIsSuggesting(true);
     try {
-      const newSuggestions = await openAIService.generateSuggestions(
+      const newSuggestions = await requestSuggestions(
         context,
         scanResult.pageData,
-        competitors.length > 0 ? competitors : undefined
+        competitors.length > 0 ? competitors : undefined,
+        { attribution }
       );
       setSuggestions(newSuggestions);
-      
-      // Auto-select suggestions
-      const autoSelect: ApplySelection = {};
-      if (newSuggestions.metadata) {
-        autoSelect.metadata = {};
-        if (newSuggestions.metadata.title) autoSelect.metadata.title = true;
-        if (newSuggestions.metadata.description) autoSelect.metadata.description = true;
-      }
-      
-      // Auto-select component suggestions
-      if (newSuggestions.components && newSuggestions.components.length > 0) {
-        autoSelect.components = {};
-        for (const component of newSuggestions.components) {
-          autoSelect.components[component.componentId] = {};
-          
-          if (component.headings?.h1) {
-            autoSelect.components[component.componentId].headings = { h1: true };
-          }
-          
-          if (component.images && component.images.length > 0) {
-            autoSelect.components[component.componentId].images = component.images.map((img) => ({
-              id: img.id,
-              alt: true,
-            }));
-          }
-        }
-      }
-      
-      setApplySelection(autoSelect);
+      setApplySelection(buildDefaultSelection(newSuggestions));
+      setApplyResult(null);
     } catch (error) {
       console.error('Error generating suggestions:', error);
-      alert('Failed to generate suggestions. Check console for details.');
+      alert(`Failed to generate suggestions: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsSuggesting(false);
     }
-  }, [scanResult, context]);
+  }, [scanResult, context, attribution]);
 
-  // Apply selected changes
-  const handleApply = useCallback(async () => {
-    if (!suggestions || !scanResult) return;
-
-    // Collect what would be applied
-    const applied: string[] = [];
-    const changes: Array<{ type: string; field: string; value: string; componentId?: string }> = [];
-    
-    // Page-level metadata
-    if (applySelection.metadata?.title && suggestions.metadata?.title) {
-      applied.push('page.title');
-      changes.push({
-        type: 'metadata',
-        field: 'title',
-        value: suggestions.metadata.title,
-      });
+  // Changes Apply would write for the current selection
+  const plannedChanges = useMemo(
+    () =>
+      suggestions && scanResult
+        ? buildFieldChanges(suggestions, applySelection, scanResult.pageData, semanticItems).changes
+        : [],
+    [suggestions, scanResult, applySelection, semanticItems]
+  );
+
+  // Projected score for those changes
+  const simulation = useMemo(
+    () =>
+      suggestions && scanResult ? simulateFieldChanges(scanResult, suggestions, applySelection, plannedChanges) : null,
+    [suggestions, scanResult, applySelection, plannedChanges]
+  );
+
+  // Items those changes write to, as one key so the workflow commands only reload when they change
+  const workflowTargetKey = useMemo(
+    () =>
+      Array.from(new Set(plannedChanges.map((change) => change.address.itemId || change.address.itemPath || '')))
+        .filter(Boolean)
+        .sort()
+        .join('\n'),
+    [plannedChanges]
+  );
+
+  // Write field changes (after any conflicts are resolved) and record the outcome
+  const commitChanges = useCallback(async (
+    pending: PendingApply,
+    resolutions: ConflictResolution[] = []
+  ) => {
+    if (!suggestions || !scanResult || !pageContent) return;
+
+    const authoringService = createAuthoringGraphQLService();
+    if (!authoringService) {
+      alert('Authoring API not configured. Please set environment variables.');
+      return;
     }
-    if (applySelection.metadata?.description && suggestions.metadata?.description) {
-      applied.push('page.description');
-      changes.push({
-        type: 'metadata',
-        field: 'description',
-        value: suggestions.metadata.description,
+
+    const resolutionByKey = new Map(resolutions.map((resolution) => [resolution.key, resolution]));
+    const kept: string[] = [];
+    const changes = pending.changes.flatMap((change) => {
+      const resolution = resolutionByKey.get(change.key);
+      if (resolution?.action === 'keep') {
+        kept.push(change.key);
+        return [];
+      }
+      return [{ ...change, value: resolution?.value ?? change.value }];
+    });
+
+    const { applied, records, failed, workflow } = changes.length > 0
+      ? await authoringService.applyFieldChanges(changes, pageContent.language, pageContent.path, {
+          expectedRevisions: pending.revisions,
+          workflow: workflowOptions.createVersion || workflowOptions.commandId ? workflowOptions : undefined,
+        })
+      : { applied: [], records: [], failed: [], workflow: [] };
+
+    // Score what was actually written, not the whole selection
+    const projected = simulateFieldChanges(scanResult, suggestions, applySelection, applied);
+
+    const result: ApplyResult = {
+      applied: applied.map((change) => change.key),
+      failed: [...pending.failed, ...failed],
+      skipped: pending.skipped,
+      kept,
+      afterScore: projected.afterScore,
+      breakdown: projected.breakdown,
+      resolvedIssues: projected.resolvedIssues,
+      workflow,
+      diffSummary: buildDiffSummary(applied),
+    };
+
+    // Record what was written so it can be reverted later
+    if (records.length > 0) {
+      result.changeSetId = await saveChangeSet({
+        id: `cs-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+        pageItemId: pageContent.itemId,
+        pageName: pageContent.name,
+        createdAt: new Date().toISOString(),
+        fields: records,
       });
     }
-    if (applySelection.headings?.h1 && suggestions.headings?.h1) {
-      applied.push('page.h1');
-      changes.push({
-        type: 'heading',
-        field: 'h1',
-        value: suggestions.headings.h1,
-      });
+    setApplyResult(result);
+
+    if (onApply && result.applied.length > 0) {
+      onApply(result.applied);
+    }
+  }, [suggestions, scanResult, pageContent, applySelection, workflowOptions, onApply]);
+
+  // Apply selected changes
+  const handleApply = useCallback(async () => {
+    if (!suggestions || !scanResult || !pageContent) return;
+
+    const { changes, skipped } = buildFieldChanges(
+      suggestions,
+      applySelection,
+      scanResult.pageData,
+      semanticItems
+    );
+
+    if (changes.length === 0) {
+      setApplyResult({ applied: [], skipped, diffSummary: [] });
+      return;
     }
-    if (applySelection.images) {
-      applied.push(...applySelection.images.filter((img) => img.alt).map((img) => `image.${img.id}.alt`));
+
+    const authoringService = createAuthoringGraphQLService();
+    if (!authoringService) {
+      alert('Authoring API not configured. Please set environment variables.');
+      return;
     }
 
-    // Component-level changes
-    if (applySelection.components && suggestions.components) {
-      for (const component of suggestions.components) {
-        const compSelection = applySelection.components[component.componentId];
-        if (!compSelection) continue;
-
-        if (compSelection.headings?.h1 && component.headings?.h1) {
-          applied.push(`component.${component.componentId}.h1`);
-          changes.push({
-            type: 'component-heading',
-            field: 'h1',
-            value: component.headings.h1,
-            componentId: component.componentId,
-          });
-        }
-        
-        if (compSelection.images && component.images) {
-          for (const img of component.images) {
-            const imgSelected = compSelection.images.find((s) => s.id === img.id && s.alt);
-            if (imgSelected && img.alt) {
-              applied.push(`component.${component.componentId}.image.${img.id}.alt`);
-              changes.push({
-                type: 'component-image',
-                field: 'alt',
-                value: img.alt,
-                componentId: component.componentId,
-              });
-            }
-          }
-        }
+    setIsApplying(true);
+    try {
+      // Another author may have edited the same fields since the scan
+      const check = await authoringService.checkFieldConflicts(changes, pageContent.language, pageContent.path, {
+        createVersion: workflowOptions.createVersion,
+      });
+      const failedKeys = new Set(check.failed.map((failure) => failure.key));
+      const pending: PendingApply = {
+        changes: changes.filter((change) => !failedKeys.has(change.key)),
+        skipped,
+        failed: check.failed,
+        revisions: check.revisions,
+        conflicts: check.conflicts,
+      };
+
+      if (pending.conflicts.length > 0) {
+        setPendingApply(pending);
+        return;
       }
+
+      await commitChanges(pending);
+    } catch (error) {
+      console.error('Error applying changes:', error);
+      alert('Failed to apply changes. Check console for details.');
+    } finally {
+      setIsApplying(false);
     }
+  }, [suggestions, scanResult, pageContent, semanticItems, applySelection, workflowOptions, commitChanges]);
+
+  // Continue applying once the author has resolved each conflict
+  const handleResolveConflicts = useCallback(async (resolutions: ConflictResolution[]) => {
+    if (!pendingApply) return;
 
-    // Log detailed information
-    console.log('📝 Changes to apply:', changes);
-    console.log('📋 Applied paths:', applied);
-    console.log('💡 Suggestions:', suggestions);
-    console.log('✅ Selection:', applySelection);
-
-    // Show user-friendly message
-    const message = `✅ Ready to apply ${applied.length} change${applied.length !== 1 ? 's' : ''}:\n\n` +
-      changes.map((c, i) => `${i + 1}. ${c.type}: ${c.field} → "${c.value.substring(0, 50)}${c.value.length > 50 ? '...' : ''}"`).join('\n') +
-      `\n\n⚠️ Note: Write-back to Sitecore requires:\n` +
-      `• Authoring API (not Preview API)\n` +
-      `• Proper authentication (Bearer token)\n` +
-      `• Field path mapping to Sitecore items\n\n` +
-      `Currently, this is a preview. Check the browser console for detailed change information.`;
-
-    alert(message);
-
-    // Callback for potential future implementation
-    if (onApply) {
-      onApply(applied);
+    setPendingApply(null);
+    setIsApplying(true);
+    try {
+      await commitChanges(pendingApply, resolutions);
+    } catch (error) {
+      console.error('Error applying changes:', error);
+      alert('Failed to apply changes. Check console for details.');
+    } finally {
+      setIsApplying(false);
     }
-  }, [suggestions, scanResult, applySelection, onApply]);
+  }, [pendingApply, commitChanges]);
 
   // Multi-step UI state
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3 | 4>(1);
   const hasScanned = scanResult !== null;
   const hasSuggestions = suggestions !== null;
 
+  // Load the workflow commands that can run on every item the changes write to, on the apply step
+  useEffect(() => {
+    if (currentStep !== 4 || !pageContent) return;
+
+    const authoringService = createAuthoringGraphQLService();
+    if (!authoringService) return;
+
+    let cancelled = false;
+    authoringService
+      .fetchSharedWorkflowCommands(
+        workflowTargetKey.split('\n').filter(Boolean),
+        pageContent.language,
+        pageContent.path
+      )
+      .then(({ commands, withoutWorkflow }) => {
+        if (cancelled) return;
+        setWorkflowCommands(commands);
+        setItemsWithoutWorkflow(withoutWorkflow);
+        // A command chosen for other items may not be valid for these
+        setWorkflowOptions((prev) =>
+          prev.commandId && !commands.some((command) => command.commandId === prev.commandId)
+            ? { ...prev, commandId: undefined }
+            : prev
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStep, pageContent, workflowTargetKey]);
+
   // Enhanced scan handler that advances to step 2
   const handleScanComplete = useCallback(async () => {
     if (!pageContent) return;
 
     setIsScanning(true);
     try {
-      const pageData = scanPageContent(pageContent, semanticItems);
-      const result = computeSEOScore(pageData);
+      const pageData = scanPageContent(pageContent, semanticItems, context.keywordsRequired);
+      const result = computeSEOScore(pageData, scoringProfile);
       setScanResult(result);
       setSuggestions(null); // Clear previous suggestions
       setApplySelection({}); // Clear selection
+      setApplyResult(null);
       setCurrentStep(2); // Advance to results step
     } catch (error) {
       console.error('Error scanning page:', error);
     } finally {
       setIsScanning(false);
     }
-  }, [pageContent, semanticItems]);
+  }, [pageContent, semanticItems, scoringProfile, context.keywordsRequired]);
 
-  // Loading progress state for suggestions
-  const [loadingStep, setLoadingStep] = useState(0);
+  // Cancels the suggestion stream in progress
+  const suggestionAbortRef = useRef<AbortController | null>(null);
 
-  // Enhanced suggest handler that advances to step 3
-  const handleSuggestComplete = useCallback(async () => {
+  // Stream suggestions into step 3, rendering each component as it arrives.
+  // regenerate skips the server-side cache for an unchanged page.
+  const handleSuggestComplete = useCallback(async ({ regenerate = false }: { regenerate?: boolean } = {}) => {
     if (!scanResult) return;
 
-    const openAIService = createAzureOpenAIService();
-    if (!openAIService) {
-      alert('Azure OpenAI not configured. Please set environment variables.');
-      return;
-    }
+    const abortController = new AbortController();
+    suggestionAbortRef.current = abortController;
 
     setIsSuggesting(true);
-    setLoadingStep(0);
+    setSuggestions({ components: [] });
+    setApplySelection({});
+    setApplyResult(null);
+    setCurrentStep(3); // Advance to suggestions step
 
+    let received = 0;
     try {
-      // Simulate progress steps
-      const progressSteps = [
-        () => setLoadingStep(1), // Analyzing metadata
-        () => setLoadingStep(2), // Reviewing content structure
-        () => setLoadingStep(3), // Generating suggestions
-      ];
-
-      // Animate through progress steps
-      for (let i = 0; i < progressSteps.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 800));
-        progressSteps[i]();
-      }
-
-      const newSuggestions = await openAIService.generateSuggestions(
+      const newSuggestions = await streamSuggestions(
         context,
         scanResult.pageData,
-        competitors.length > 0 ? competitors : undefined
+        competitors.length > 0 ? competitors : undefined,
+        {
+          signal: abortController.signal,
+          regenerate,
+          attribution,
+          onComponent: (component) => {
+            received++;
+            setSuggestions((prev) => ({
+              ...prev,
+              components: [...(prev?.components || []), component],
+            }));
+            setApplySelection((prev) => selectComponentDefaults(prev, component));
+          },
+        }
       );
       setSuggestions(newSuggestions);
-      
-      // Auto-select suggestions
-      const autoSelect: ApplySelection = {};
-      if (newSuggestions.metadata) {
-        autoSelect.metadata = {};
-        if (newSuggestions.metadata.title) autoSelect.metadata.title = true;
-        if (newSuggestions.metadata.description) autoSelect.metadata.description = true;
-      }
-      
-      // Auto-select component suggestions
-      if (newSuggestions.components && newSuggestions.components.length > 0) {
-        autoSelect.components = {};
-        for (const component of newSuggestions.components) {
-          autoSelect.components[component.componentId] = {};
-          
-          if (component.headings?.h1) {
-            autoSelect.components[component.componentId].headings = { h1: true };
-          }
-          
-          if (component.images && component.images.length > 0) {
-            autoSelect.components[component.componentId].images = component.images.map((img) => ({
-              id: img.id,
-              alt: true,
-            }));
+
+      // Components were auto-selected as they arrived; keep any changes the author made meanwhile
+      setApplySelection((prev) => {
+        let next: ApplySelection = { ...prev, metadata: buildDefaultSelection(newSuggestions).metadata };
+        for (const component of newSuggestions.components || []) {
+          if (!prev.components?.[component.componentId]) {
+            next = selectComponentDefaults(next, component);
           }
         }
-      }
-      
-      setApplySelection(autoSelect);
-      setCurrentStep(3); // Advance to suggestions step
+        return next;
+      });
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Cancelled: keep the components received so far
+        if (received === 0) {
+          setSuggestions(null);
+          setCurrentStep(2);
+        }
+        return;
+      }
       console.error('Error generating suggestions:', error);
-      alert('Failed to generate suggestions. Check console for details.');
+      alert(`Failed to generate suggestions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (received === 0) {
+        setSuggestions(null);
+        setCurrentStep(2);
+      }
     } finally {
+      suggestionAbortRef.current = null;
       setIsSuggesting(false);
-      setLoadingStep(0);
     }
-  }, [scanResult, context]);
+  }, [scanResult, context, competitors, attribution]);
+
+  const handleCancelSuggestions = useCallback(() => {
+    suggestionAbortRef.current?.abort();
+  }, []);
 
-  const handleApplyComplete = useCallback(() => {
-    handleApply();
-    setCurrentStep(4); // Advance to final step
-  }, [handleApply]);
+  // Alternatives or a refined rewrite for one suggestion
+  const handleRequestAlternatives = useCallback(
+    async (request: AlternativesRequest) => {
+      if (!scanResult) return [];
+      return requestAlternatives(context, scanResult.pageData, request, attribution);
+    },
+    [scanResult, context, attribution]
+  );
 
   return (
     <div style={styles.container}>
@@ -356,7 +515,7 @@ export function SEOOptimizer({
               Set your page goals, tone, and required keywords to help us optimize your content.
             </p>
           </div>
-          <SEOContextForm context={context} onChange={setContext} />
+          <SEOContextForm context={context} onChange={handleContextChange} />
           
           {/* Competitor Scanner */}
           <div style={styles.competitorSection}>
@@ -370,6 +529,12 @@ export function SEOOptimizer({
             />
           </div>
 
+          <BrandRulesEditor site={pageContent?.siteName} />
+
+          <LLMUsagePanel site={pageContent?.siteName} />
+
+          <SEOChangeHistory pageItemId={pageContent?.itemId} />
+
           <div style={styles.stepActions}>
             {isScanning ? (
               <LoadingButton label="Analyzing page content" />
@@ -405,31 +570,18 @@ export function SEOOptimizer({
             score={scanResult.seoScore}
             breakdown={scanResult.breakdown}
             issues={scanResult.issues}
+            profile={scanResult.profile}
+          />
+
+          <SerpPreview
+            path={pageContent?.path || '/'}
+            siteName={pageContent?.siteName}
+            current={scanResult.pageData.metadata}
           />
 
           {/* Comprehensive Results */}
           <SEOComprehensiveResults scanResult={scanResult} />
 
-          {/* Loading Overlay for Suggestions */}
-          {isSuggesting && (
-            <div style={styles.loadingOverlay}>
-              <div style={styles.loadingCard}>
-                <div style={styles.loadingHeader}>
-                  <div style={styles.loadingSpinnerLarge}>
-                    <div style={styles.spinnerRing} />
-                  </div>
-                  <h4 style={styles.loadingTitle}>Generating AI Suggestions</h4>
-                  <p style={styles.loadingSubtitle}>Analyzing your content and creating optimization recommendations...</p>
-                </div>
-                <div style={styles.loadingSteps}>
-                  <LoadingStep label="Analyzing metadata" active={loadingStep >= 1} completed={loadingStep > 1} />
-                  <LoadingStep label="Reviewing content structure" active={loadingStep >= 2} completed={loadingStep > 2} />
-                  <LoadingStep label="Generating suggestions" active={loadingStep >= 3} completed={false} />
-                </div>
-              </div>
-            </div>
-          )}
-
           <div style={styles.stepActions}>
             <button
               onClick={() => setCurrentStep(1)}
@@ -441,7 +593,7 @@ export function SEOOptimizer({
               ← Back
             </button>
             <button
-              onClick={handleSuggestComplete}
+              onClick={() => handleSuggestComplete()}
               disabled={isSuggesting}
               style={{
                 ...styles.button,
@@ -472,11 +624,57 @@ export function SEOOptimizer({
             </p>
           </div>
           
+          {isSuggesting && (
+            <div style={styles.streamingBanner} role="status">
+              <div style={styles.streamingSpinner} />
+              <span style={styles.streamingText}>
+                Generating suggestions... {suggestions?.components?.length || 0} component
+                {suggestions?.components?.length === 1 ? '' : 's'} so far
+              </span>
+              <button
+                onClick={handleCancelSuggestions}
+                style={{
+                  ...styles.button,
+                  ...styles.buttonSecondary,
+                }}
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+
+          {!isSuggesting && suggestions?.cache?.hit && (
+            <div style={styles.cacheBanner} role="status">
+              <span style={styles.streamingText}>
+                Cached suggestions from {new Date(suggestions.cache.createdAt).toLocaleString()} (page and
+                context unchanged). Expires {new Date(suggestions.cache.expiresAt).toLocaleString()}.
+              </span>
+              <button
+                onClick={() => handleSuggestComplete({ regenerate: true })}
+                style={{
+                  ...styles.button,
+                  ...styles.buttonSecondary,
+                }}
+              >
+                Regenerate
+              </button>
+            </div>
+          )}
+
+          <SerpPreview
+            path={pageContent?.path || '/'}
+            siteName={pageContent?.siteName}
+            current={scanResult.pageData.metadata}
+            suggested={suggestions?.metadata}
+          />
+
           <SEOSuggestionsPanel
             suggestions={suggestions}
             originalData={scanResult.pageData}
             selection={applySelection}
             onSelectionChange={setApplySelection}
+            onRequestAlternatives={isSuggesting ? undefined : handleRequestAlternatives}
+            onSuggestionsChange={setSuggestions}
           />
 
           <div style={styles.stepActions}>
@@ -490,10 +688,12 @@ export function SEOOptimizer({
               ← Back
             </button>
             <button
-              onClick={handleApplyComplete}
+              onClick={() => setCurrentStep(4)}
+              disabled={isSuggesting}
               style={{
                 ...styles.button,
                 ...styles.buttonPrimary,
+                ...(isSuggesting ? styles.buttonDisabled : {}),
               }}
             >
               Apply Selected Changes →
@@ -513,10 +713,27 @@ export function SEOOptimizer({
           </div>
           
           <SEOApplyPanel
-            onApply={handleApplyComplete}
+            onApply={handleApply}
             selection={applySelection}
+            result={applyResult}
+            isApplying={isApplying}
+            simulation={simulation}
+            workflowOptions={workflowOptions}
+            onWorkflowOptionsChange={setWorkflowOptions}
+            workflowCommands={workflowCommands}
+            itemsWithoutWorkflow={itemsWithoutWorkflow}
           />
 
+          {pendingApply && (
+            <SEOConflictDialog
+              conflicts={pendingApply.conflicts}
+              onResolve={handleResolveConflicts}
+              onCancel={() => setPendingApply(null)}
+            />
+          )}
+
+          <SEOChangeHistory pageItemId={pageContent?.itemId} refreshKey={applyResult?.changeSetId} />
+
           <div style={styles.stepActions}>
             <button
               onClick={() => setCurrentStep(3)}
@@ -533,6 +750,7 @@ export function SEOOptimizer({
                 setScanResult(null);
                 setSuggestions(null);
                 setApplySelection({});
+                setApplyResult(null);
               }}
               style={{
                 ...styles.button,
@@ -548,6 +766,71 @@ export function SEOOptimizer({
   );
 }
 
+/**
+ * Default selection for new suggestions: metadata, component H1s and image alt text
+ */
+function buildDefaultSelection(suggestions: SEOSuggestions): ApplySelection {
+  let selection: ApplySelection = {};
+  if (suggestions.metadata) {
+    selection.metadata = {};
+    if (suggestions.metadata.title) selection.metadata.title = true;
+    if (suggestions.metadata.description) selection.metadata.description = true;
+  }
+
+  for (const component of suggestions.components || []) {
+    selection = selectComponentDefaults(selection, component);
+  }
+  return selection;
+}
+
+/**
+ * Add the default selection for one component's suggestions
+ */
+function selectComponentDefaults(selection: ApplySelection, component: ComponentSuggestion): ApplySelection {
+  const compSelection: NonNullable<ApplySelection['components']>[string] = {};
+
+  if (component.headings?.h1) {
+    compSelection.headings = { h1: true };
+  }
+
+  if (component.images && component.images.length > 0) {
+    compSelection.images = component.images.map((img) => ({
+      id: img.id,
+      alt: true,
+    }));
+  }
+
+  return {
+    ...selection,
+    components: { ...selection.components, [component.componentId]: compSelection },
+  };
+}
+
+/**
+ * Store a change set server-side. Returns its ID, or undefined if it could not be saved.
+ */
+async function saveChangeSet(changeSet: ChangeSet): Promise<string | undefined> {
+  try {
+    const response = await fetch('/api/changesets', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ changeSet }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `Failed to save change set: ${response.status}`);
+    }
+
+    return changeSet.id;
+  } catch (error) {
+    console.error('Error saving change set:', error);
+    return undefined;
+  }
+}
+
 interface StepIndicatorItemProps {
   step: number;
   currentStep: number;
@@ -609,38 +892,6 @@ function LoadingButton({ label = 'Analyzing...' }: { label?: string }) {
   );
 }
 
-// Loading step component for progress indication
-function LoadingStep({ label, active, completed }: { label: string; active: boolean; completed?: boolean }) {
-  return (
-    <div style={styles.loadingStep}>
-      <div
-        style={{
-          ...styles.loadingStepDot,
-          ...(active ? styles.loadingStepDotActive : {}),
-          ...(completed ? styles.loadingStepDotCompleted : {}),
-        }}
-      >
-        {completed ? (
-          <svg width="8" height="8" viewBox="0 0 8 8" fill="none" xmlns="http://www.w3.org/2000/svg">
-            <path d="M6.5 2L3.5 5L1.5 3" stroke="#8629FF" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-          </svg>
-        ) : active ? (
-          <div style={styles.loadingStepPulse} />
-        ) : null}
-      </div>
-      <span
-        style={{
-          ...styles.loadingStepLabel,
-          ...(active ? styles.loadingStepLabelActive : {}),
-          ...(completed ? styles.loadingStepLabelCompleted : {}),
-        }}
-      >
-        {label}
-      </span>
-    </div>
-  );
-}
-
 const styles: Record<string, React.CSSProperties> = {
   container: {
     display: 'flex',
@@ -799,103 +1050,38 @@ const styles: Record<string, React.CSSProperties> = {
   loadingText: {
     color: '#ffffff',
   },
-  loadingOverlay: {
-    position: 'relative',
-    marginTop: '24px',
-    animation: 'fadeIn 0.3s ease-in',
-  },
-  loadingCard: {
-    backgroundColor: '#ffffff',
-    borderRadius: '16px',
-    border: '1px solid #e5e7eb',
-    padding: '32px',
-    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
-  },
-  loadingHeader: {
+  streamingBanner: {
     display: 'flex',
-    flexDirection: 'column',
     alignItems: 'center',
-    gap: '16px',
-    marginBottom: '32px',
+    gap: '12px',
+    padding: '12px 16px',
+    backgroundColor: '#f5f3ff',
+    border: '1px solid #ddd6fe',
+    borderRadius: '12px',
+    animation: 'fadeIn 0.3s ease-in',
   },
-  loadingSpinnerLarge: {
-    width: '64px',
-    height: '64px',
-    position: 'relative',
+  cacheBanner: {
     display: 'flex',
     alignItems: 'center',
-    justifyContent: 'center',
+    gap: '12px',
+    padding: '12px 16px',
+    backgroundColor: '#f0f9ff',
+    border: '1px solid #bae6fd',
+    borderRadius: '12px',
   },
-  spinnerRing: {
-    width: '64px',
-    height: '64px',
-    border: '4px solid #f3f4f6',
+  streamingSpinner: {
+    width: '20px',
+    height: '20px',
+    flexShrink: 0,
+    border: '3px solid #ede9fe',
     borderTopColor: '#8629FF',
     borderRadius: '50%',
     animation: 'spin 1s linear infinite',
   },
-  loadingTitle: {
-    margin: 0,
-    fontSize: '20px',
-    fontWeight: 600,
-    color: '#111827',
-  },
-  loadingSubtitle: {
-    margin: 0,
-    fontSize: '14px',
-    color: '#6b7280',
-    textAlign: 'center',
-  },
-  loadingSteps: {
-    display: 'flex',
-    flexDirection: 'column',
-    gap: '16px',
-  },
-  loadingStep: {
-    display: 'flex',
-    alignItems: 'center',
-    gap: '12px',
-  },
-  loadingStepDot: {
-    width: '12px',
-    height: '12px',
-    borderRadius: '50%',
-    backgroundColor: '#e5e7eb',
-    position: 'relative',
-    transition: 'all 0.3s ease',
-  },
-  loadingStepDotActive: {
-    backgroundColor: '#8629FF',
-    boxShadow: '0 0 0 4px rgba(134, 41, 255, 0.1)',
-  },
-  loadingStepDotCompleted: {
-    backgroundColor: '#8629FF',
-    display: 'flex',
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  loadingStepPulse: {
-    position: 'absolute',
-    top: '50%',
-    left: '50%',
-    transform: 'translate(-50%, -50%)',
-    width: '12px',
-    height: '12px',
-    borderRadius: '50%',
-    backgroundColor: '#8629FF',
-    animation: 'pulse-ring 1.5s ease-out infinite',
-  },
-  loadingStepLabel: {
+  streamingText: {
+    flex: 1,
     fontSize: '14px',
-    color: '#9ca3af',
-    transition: 'color 0.3s ease',
-  },
-  loadingStepLabelActive: {
     color: '#374151',
-    fontWeight: 500,
-  },
-  loadingStepLabelCompleted: {
-    color: '#8629FF',
   },
   buttonSpinner: {
     display: 'inline-block',
@@ -929,16 +1115,6 @@ if (typeof document !== 'undefined') {
     @keyframes spin {
       to { transform: rotate(360deg); }
     }
-    @keyframes pulse-ring {
-      0% {
-        transform: translate(-50%, -50%) scale(1);
-        opacity: 1;
-      }
-      100% {
-        transform: translate(-50%, -50%) scale(2);
-        opacity: 0;
-      }
-    }
     @keyframes fadeIn {
       from {
         opacity: 0;
@@ -2,16 +2,17 @@
 
 'use client';
 
-import type { ScoreBreakdown, SEOIssues } from '@/src/types/seo';
+import type { ScoreBreakdown, ScoringProfile, SEOIssues } from '@/src/types/seo';
 import { getSEOGrade, getScoreColor } from '@/src/utils/seoScorer';
 
 export interface SEOScoreCardProps {
   score: number;
   breakdown: ScoreBreakdown;
   issues: SEOIssues;
+  profile?: ScoringProfile; // Category maximums come from its weights (25 each by default)
 }
 
-export function SEOScoreCard({ score, breakdown, issues }: SEOScoreCardProps) {
+export function SEOScoreCard({ score, breakdown, issues, profile }: SEOScoreCardProps) {
   const grade = getSEOGrade(score);
   const color = getScoreColor(score);
 
@@ -32,6 +33,7 @@ export function SEOScoreCard({ score, breakdown, issues }: SEOScoreCardProps) {
           <div style={styles.gradeSection}>
             <span style={{ ...styles.grade, color }}>{grade}</span>
             <span style={styles.gradeLabel}>Grade</span>
+            {profile && <span style={styles.gradeLabel}>{profile.label} profile</span>}
           </div>
         </div>
         {issueCount > 0 && (
@@ -45,7 +47,7 @@ export function SEOScoreCard({ score, breakdown, issues }: SEOScoreCardProps) {
         <BreakdownItem
           label="Metadata"
           score={breakdown.metadata}
-          max={25}
+          max={profile?.weights.metadata ?? 25}
           issues={[
             issues.missingMetaDescription && 'Missing meta description',
             issues.titleTooLong && 'Title too long',
@@ -55,13 +57,16 @@ export function SEOScoreCard({ score, breakdown, issues }: SEOScoreCardProps) {
         <BreakdownItem
           label="Content"
           score={breakdown.content}
-          max={25}
-          issues={[issues.missingH1 && 'Missing H1'].filter(Boolean) as string[]}
+          max={profile?.weights.content ?? 25}
+          issues={[
+            issues.missingH1 && 'Missing H1',
+            Object.keys(issues).some((issue) => issue.startsWith('keyword')) && 'Focus keyword issues',
+          ].filter(Boolean) as string[]}
         />
         <BreakdownItem
           label="Accessibility"
           score={breakdown.accessibility}
-          max={25}
+          max={profile?.weights.accessibility ?? 25}
           issues={
             issues.weakAltText
               ? [`${issues.weakAltText.length} image(s) missing alt text`]
@@ -71,7 +76,7 @@ export function SEOScoreCard({ score, breakdown, issues }: SEOScoreCardProps) {
         <BreakdownItem
           label="Links"
           score={breakdown.links}
-          max={25}
+          max={profile?.weights.links ?? 25}
           issues={
             issues.placeholderLinks
               ? [`${issues.placeholderLinks.length} placeholder link(s)`]
@@ -91,7 +96,7 @@ interface BreakdownItemProps {
 }
 
 function BreakdownItem({ label, score, max, issues }: BreakdownItemProps) {
-  const percentage = (score / max) * 100;
+  const percentage = max > 0 ? (score / max) * 100 : 100;
   // Use theme colors: purple for good, gray for moderate, red only for very poor
   const color = percentage >= 80 ? '#8629FF' : percentage >= 60 ? '#6b7280' : '#FF1F38';
 
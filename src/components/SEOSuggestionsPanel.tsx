@@ -3,8 +3,19 @@
 'use client';
 
 import { useState } from 'react';
-import type { SEOSuggestions, PageData, ApplySelection } from '@/src/types/seo';
+import type {
+  SEOSuggestions,
+  PageData,
+  ApplySelection,
+  ValidationReportItem,
+  SuggestionAlternative,
+  SuggestionTarget,
+} from '@/src/types/seo';
+import { applyAlternative } from '@/src/utils/suggestionAlternatives';
+import { fitsSerpWidth, truncateForSerp, type SerpField } from '@/src/utils/serpWidth';
 import { SEOComponentSuggestions } from './SEOComponentSuggestions';
+import { SerpCutoff } from './SerpCutoff';
+import { SuggestionAlternatives, type RequestAlternatives } from './SuggestionAlternatives';
 
 // Copy button component with fallback for clipboard permissions
 function CopyButton({ text, label }: { text: string; label?: string }) {
@@ -77,6 +88,8 @@ export interface SEOSuggestionsPanelProps {
   originalData: PageData;
   selection: ApplySelection;
   onSelectionChange: (selection: ApplySelection) => void;
+  onRequestAlternatives?: RequestAlternatives; // Enables per-item alternatives and refine
+  onSuggestionsChange?: (suggestions: SEOSuggestions) => void; // Called when an alternative is chosen
 }
 
 export function SEOSuggestionsPanel({
@@ -84,9 +97,11 @@ export function SEOSuggestionsPanel({
   originalData,
   selection,
   onSelectionChange,
+  onRequestAlternatives,
+  onSuggestionsChange,
 }: SEOSuggestionsPanelProps) {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
-    new Set(['metadata', 'components', 'keywords', 'structure', 'readability'])
+    new Set(['metadata', 'components', 'keywords', 'structure', 'readability', 'validation', 'brand'])
   );
 
   const toggleSection = (section: string) => {
@@ -126,6 +141,22 @@ export function SEOSuggestionsPanel({
     onSelectionChange(newSelection);
   };
 
+  const chooseAlternative = onSuggestionsChange
+    ? (target: SuggestionTarget, alternative: SuggestionAlternative) =>
+        onSuggestionsChange(applyAlternative(suggestions, target, alternative))
+    : undefined;
+
+  const renderAlternatives = (target: SuggestionTarget, original: string, suggestion: string) =>
+    onRequestAlternatives && chooseAlternative ? (
+      <SuggestionAlternatives
+        target={target}
+        original={original}
+        suggestion={suggestion}
+        onRequest={onRequestAlternatives}
+        onChoose={(alternative) => chooseAlternative(target, alternative)}
+      />
+    ) : null;
+
   return (
     <div style={styles.panel}>
       <h3 style={styles.title}>AI Suggestions</h3>
@@ -145,8 +176,14 @@ export function SEOSuggestionsPanel({
               suggested={suggestions.metadata.title}
               selected={selection.metadata?.title || false}
               onSelect={(selected) => updateSelection('metadata.title', selected)}
-              maxLength={60}
-            />
+              serpField="title"
+            >
+              {renderAlternatives(
+                { kind: 'metaTitle' },
+                originalData.metadata.title || '',
+                suggestions.metadata.title
+              )}
+            </DiffItem>
           )}
           {suggestions.metadata.description && (
             <DiffItem
@@ -155,8 +192,14 @@ export function SEOSuggestionsPanel({
               suggested={suggestions.metadata.description}
               selected={selection.metadata?.description || false}
               onSelect={(selected) => updateSelection('metadata.description', selected)}
-              maxLength={165}
-            />
+              serpField="description"
+            >
+              {renderAlternatives(
+                { kind: 'metaDescription' },
+                originalData.metadata.description || '',
+                suggestions.metadata.description
+              )}
+            </DiffItem>
           )}
         </Section>
       )}
@@ -177,6 +220,8 @@ export function SEOSuggestionsPanel({
                 component={component}
                 selection={selection}
                 onSelectionChange={onSelectionChange}
+                onRequestAlternatives={onRequestAlternatives}
+                onChooseAlternative={chooseAlternative}
               />
             ))}
           </div>
@@ -207,7 +252,12 @@ export function SEOSuggestionsPanel({
               <div style={styles.keywordsLabel}>Keyword Usage Recommendations:</div>
               {suggestions.keywords.usage.map((usage, idx) => (
                 <div key={idx} style={styles.usageItem}>
-                  <strong>{usage.keyword}</strong>: Currently used {usage.currentCount}x, 
+                  {/* The scanned count of a focus keyword replaces the model's estimate */}
+                  <strong>{usage.keyword}</strong>: Currently used{' '}
+                  {originalData.keywordAnalysis?.find(
+                    (analysis) => analysis.keyword.toLowerCase() === usage.keyword.trim().toLowerCase()
+                  )?.occurrences ?? usage.currentCount}
+                  x, 
                   suggest {usage.suggestedCount}x. 
                   {usage.locations && usage.locations.length > 0 && (
                     <span> Add to: {usage.locations.join(', ')}</span>
@@ -275,6 +325,74 @@ export function SEOSuggestionsPanel({
           </div>
         </Section>
       )}
+
+      {/* Validation Report */}
+      {suggestions.validation &&
+        (suggestions.validation.fixed.length > 0 ||
+          suggestions.validation.discarded.length > 0 ||
+          !!suggestions.validation.rejected?.length) && (
+        <Section
+          title={`Validation Report (${suggestions.validation.fixed.length} fixed, ${suggestions.validation.discarded.length} discarded, ${suggestions.validation.rejected?.length || 0} rejected)`}
+          expanded={expandedSections.has('validation')}
+          onToggle={() => toggleSection('validation')}
+        >
+          <ValidationReportList title="Fixed by repair" items={suggestions.validation.fixed} tone="fixed" />
+          <ValidationReportList title="Discarded" items={suggestions.validation.discarded} tone="discarded" />
+          <ValidationReportList
+            title="Rejected (not on this page)"
+            items={suggestions.validation.rejected || []}
+            tone="discarded"
+          />
+        </Section>
+      )}
+
+      {/* Brand Rules */}
+      {suggestions.brand && (suggestions.brand.rejected.length > 0 || suggestions.brand.flagged.length > 0) && (
+        <Section
+          title={`Brand Rules (${suggestions.brand.rejected.length} rejected, ${suggestions.brand.flagged.length} flagged)`}
+          expanded={expandedSections.has('brand')}
+          onToggle={() => toggleSection('brand')}
+        >
+          <ValidationReportList title="Rejected" items={suggestions.brand.rejected} tone="discarded" />
+          <ValidationReportList title="Flagged for review" items={suggestions.brand.flagged} tone="flagged" />
+        </Section>
+      )}
+
+      {suggestions.promptVersion && (
+        <div style={styles.promptVersion}>Prompt template: {suggestions.promptVersion}</div>
+      )}
+    </div>
+  );
+}
+
+interface ValidationReportListProps {
+  title: string;
+  items: ValidationReportItem[];
+  tone: 'fixed' | 'flagged' | 'discarded';
+}
+
+function ValidationReportList({ title, items, tone }: ValidationReportListProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div style={styles.structureSection}>
+      <div style={styles.structureLabel}>{title}:</div>
+      <ul style={styles.structureList}>
+        {items.map((item) => (
+          <li key={item.path}>
+            <span
+              style={
+                tone === 'fixed' ? styles.validationFixed : tone === 'flagged' ? styles.validationFlagged : styles.missingItem
+              }
+            >
+              {item.label}
+            </span>
+            <div style={styles.validationReasons}>
+              {item.violations.map((violation) => `${violation.path}: ${violation.message}`).join('; ')}
+            </div>
+          </li>
+        ))}
+      </ul>
     </div>
   );
 }
@@ -306,7 +424,9 @@ interface DiffItemProps {
   onSelect: (selected: boolean) => void;
   maxLength?: number;
   minLength?: number;
+  serpField?: SerpField; // Limited by its width in search results
   reason?: string;
+  children?: React.ReactNode; // Extra actions below the diff
 }
 
 function DiffItem({
@@ -317,12 +437,15 @@ function DiffItem({
   onSelect,
   maxLength,
   minLength,
+  serpField,
   reason,
+  children,
 }: DiffItemProps) {
   const originalLength = original.length;
   const suggestedLength = suggested.length;
-  const originalValid = maxLength ? originalLength <= maxLength : true;
-  const suggestedValid = maxLength ? suggestedLength <= maxLength : true;
+  const suggestedCut = serpField ? truncateForSerp(suggested, serpField) : null;
+  const originalValid = serpField ? fitsSerpWidth(original, serpField) : maxLength ? originalLength <= maxLength : true;
+  const suggestedValid = suggestedCut ? !suggestedCut.truncated : maxLength ? suggestedLength <= maxLength : true;
 
   return (
     <div style={styles.diffItem}>
@@ -336,7 +459,16 @@ function DiffItem({
           />
           {label}
         </label>
-        {maxLength && (
+        {suggestedCut ? (
+          <span
+            style={{
+              ...styles.lengthBadge,
+              ...(suggestedValid ? {} : styles.lengthBadgeError),
+            }}
+          >
+            {Math.round(suggestedCut.width)}/{suggestedCut.maxWidth}px
+          </span>
+        ) : maxLength && (
           <span
             style={{
               ...styles.lengthBadge,
@@ -376,6 +508,7 @@ function DiffItem({
           >
             {suggested}
           </div>
+          {serpField && <SerpCutoff text={suggested} field={serpField} />}
         </div>
         {reason && (
           <div style={styles.reason}>
@@ -383,6 +516,7 @@ function DiffItem({
           </div>
         )}
       </div>
+      {children}
     </div>
   );
 }
@@ -631,6 +765,24 @@ const styles: Record<string, React.CSSProperties> = {
     flexDirection: 'column',
     gap: '12px',
   },
+  validationFixed: {
+    color: '#059669',
+  },
+  validationFlagged: {
+    color: '#d97706',
+  },
+  promptVersion: {
+    marginTop: '12px',
+    fontSize: '12px',
+    color: '#9ca3af',
+    textAlign: 'right',
+  },
+  validationReasons: {
+    fontSize: '12px',
+    color: '#9ca3af',
+    fontFamily: 'monospace',
+    lineHeight: '1.5',
+  },
 };
 
 // Add hover effect for copy button
@@ -0,0 +1,83 @@
+// SERP Cutoff Component - Shows where search results would cut off a title or description
+
+'use client';
+
+import { SERP_DEVICES, truncateForSerp, type SerpField } from '@/src/utils/serpWidth';
+
+export interface SerpCutoffProps {
+  text: string;
+  field: SerpField;
+}
+
+const DEVICE_LABELS = { desktop: 'Desktop', mobile: 'Mobile' };
+
+export function SerpCutoff({ text, field }: SerpCutoffProps) {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const cuts = SERP_DEVICES.map((device) => ({ device, cut: truncateForSerp(normalized, field, device) }));
+
+  return (
+    <div style={styles.container}>
+      {cuts.map(({ device, cut }) => (
+        <div key={device} style={styles.row}>
+          <span style={{ ...styles.badge, ...(cut.truncated ? styles.badgeCut : {}) }}>
+            {DEVICE_LABELS[device]} {Math.round(cut.width)}/{cut.maxWidth}px
+          </span>
+          {cut.truncated ? (
+            <span style={styles.text}>
+              {normalized.slice(0, cut.cutAt)}
+              <span style={styles.ellipsis}>...</span>
+              <span style={styles.hidden} title="Not shown in search results">
+                {normalized.slice(cut.cutAt)}
+              </span>
+            </span>
+          ) : (
+            <span style={styles.fits}>Shown in full</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    marginTop: '8px',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    fontSize: '12px',
+  },
+  badge: {
+    flexShrink: 0,
+    padding: '1px 6px',
+    backgroundColor: '#F3E8FF',
+    color: '#8629FF',
+    borderRadius: '10px',
+    fontSize: '11px',
+    fontWeight: 500,
+  },
+  badgeCut: {
+    backgroundColor: '#FFE4E6',
+    color: '#FF1F38',
+  },
+  text: {
+    color: '#374151',
+    lineHeight: 1.4,
+  },
+  ellipsis: {
+    color: '#FF1F38',
+    fontWeight: 600,
+  },
+  hidden: {
+    color: '#9ca3af',
+    textDecoration: 'line-through',
+  },
+  fits: {
+    color: '#6b7280',
+  },
+};
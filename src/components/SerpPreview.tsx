@@ -0,0 +1,235 @@
+// SERP Preview Component - How the page would look in search results, current vs suggested
+
+'use client';
+
+import { useState } from 'react';
+import { formatSerpBreadcrumb, SERP_DEVICES, truncateForSerp, type SerpDevice } from '@/src/utils/serpWidth';
+
+export interface SerpMetadata {
+  title?: string;
+  description?: string;
+}
+
+export interface SerpPreviewProps {
+  path: string; // Page item path, shown as the URL breadcrumb
+  siteName?: string;
+  current: SerpMetadata;
+  suggested?: SerpMetadata; // Suggested metadata; missing fields keep the current value
+}
+
+type SerpView = 'current' | 'suggested' | 'both';
+
+const DEVICE_LABELS: Record<SerpDevice, string> = { desktop: 'Desktop', mobile: 'Mobile' };
+const VIEW_LABELS: Record<SerpView, string> = { current: 'Current', suggested: 'Suggested', both: 'Side by side' };
+
+export function SerpPreview({ path, siteName, current, suggested }: SerpPreviewProps) {
+  const [device, setDevice] = useState<SerpDevice>('desktop');
+  const [view, setView] = useState<SerpView>('both');
+
+  const breadcrumb = formatSerpBreadcrumb(path, siteName);
+  const hasSuggestions = !!(suggested?.title || suggested?.description);
+  const shown = hasSuggestions ? view : 'current';
+  const suggestedMetadata = {
+    title: suggested?.title || current.title,
+    description: suggested?.description || current.description,
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h4 style={styles.title}>Search Result Preview</h4>
+        <div style={styles.toggles}>
+          {hasSuggestions && (
+            <div style={styles.toggleGroup} role="group" aria-label="Metadata">
+              {(Object.keys(VIEW_LABELS) as SerpView[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  aria-pressed={view === option}
+                  style={{ ...styles.toggle, ...(view === option ? styles.toggleActive : {}) }}
+                >
+                  {VIEW_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          )}
+          <div style={styles.toggleGroup} role="group" aria-label="Device">
+            {SERP_DEVICES.map((option) => (
+              <button
+                key={option}
+                onClick={() => setDevice(option)}
+                aria-pressed={device === option}
+                style={{ ...styles.toggle, ...(device === option ? styles.toggleActive : {}) }}
+              >
+                {DEVICE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div style={styles.snippets}>
+        {shown !== 'suggested' && (
+          <SerpSnippet
+            label={hasSuggestions ? 'Current' : undefined}
+            metadata={current}
+            breadcrumb={breadcrumb}
+            device={device}
+          />
+        )}
+        {shown !== 'current' && (
+          <SerpSnippet label="Suggested" metadata={suggestedMetadata} breadcrumb={breadcrumb} device={device} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SerpSnippet({
+  label,
+  metadata,
+  breadcrumb,
+  device,
+}: {
+  label?: string;
+  metadata: SerpMetadata;
+  breadcrumb: string;
+  device: SerpDevice;
+}) {
+  const title = truncateForSerp(metadata.title || '', 'title', device);
+  const description = truncateForSerp(metadata.description || '', 'description', device);
+
+  return (
+    <div style={styles.snippetColumn}>
+      {label && <span style={styles.snippetLabel}>{label}</span>}
+      <div style={{ ...styles.snippet, ...(device === 'mobile' ? styles.snippetMobile : styles.snippetDesktop) }}>
+        <div style={styles.breadcrumb}>{breadcrumb}</div>
+        {title.visibleText ? (
+          <div style={styles.snippetTitle}>{title.visibleText}</div>
+        ) : (
+          <div style={{ ...styles.snippetTitle, ...styles.missing }}>No title</div>
+        )}
+        {description.visibleText ? (
+          <div style={styles.snippetDescription}>{description.visibleText}</div>
+        ) : (
+          <div style={{ ...styles.snippetDescription, ...styles.missing }}>
+            No meta description: search engines pick text from the page
+          </div>
+        )}
+      </div>
+      {(title.truncated || description.truncated) && (
+        <span style={styles.cutNote}>
+          {[title.truncated && 'Title', description.truncated && 'Description'].filter(Boolean).join(' and ')} cut
+          off on {DEVICE_LABELS[device].toLowerCase()}
+        </span>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    padding: '16px',
+    marginBottom: '16px',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginBottom: '12px',
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: 600,
+    color: '#111827',
+  },
+  toggles: {
+    display: 'flex',
+    gap: '8px',
+    flexWrap: 'wrap',
+  },
+  toggleGroup: {
+    display: 'flex',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    overflow: 'hidden',
+  },
+  toggle: {
+    padding: '4px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#374151',
+    backgroundColor: '#ffffff',
+    border: 'none',
+    cursor: 'pointer',
+  },
+  toggleActive: {
+    backgroundColor: '#8629FF',
+    color: '#ffffff',
+  },
+  snippets: {
+    display: 'flex',
+    gap: '16px',
+    flexWrap: 'wrap',
+  },
+  snippetColumn: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    minWidth: 0,
+  },
+  snippetLabel: {
+    fontSize: '11px',
+    fontWeight: 600,
+    color: '#6b7280',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  snippet: {
+    fontFamily: 'Arial, sans-serif',
+    padding: '12px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    boxSizing: 'border-box',
+    maxWidth: '100%',
+  },
+  snippetDesktop: {
+    width: '624px', // 600px title plus padding
+  },
+  snippetMobile: {
+    width: '384px',
+  },
+  breadcrumb: {
+    fontSize: '12px',
+    color: '#202124',
+    marginBottom: '4px',
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+  },
+  snippetTitle: {
+    fontSize: '20px',
+    lineHeight: 1.3,
+    color: '#1a0dab',
+    marginBottom: '4px',
+  },
+  snippetDescription: {
+    fontSize: '13px',
+    lineHeight: 1.58,
+    color: '#4d5156',
+  },
+  missing: {
+    color: '#9ca3af',
+    fontStyle: 'italic',
+  },
+  cutNote: {
+    fontSize: '12px',
+    color: '#FF1F38',
+  },
+};
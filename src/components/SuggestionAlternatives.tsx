@@ -0,0 +1,193 @@
+// Suggestion Alternatives Component - Per-item "3 alternatives" and "refine with instruction" actions
+
+'use client';
+
+import { useState } from 'react';
+import type { AlternativesRequest, SuggestionAlternative, SuggestionTarget } from '@/src/types/seo';
+
+export type RequestAlternatives = (request: AlternativesRequest) => Promise<SuggestionAlternative[]>;
+
+export interface SuggestionAlternativesProps {
+  target: SuggestionTarget;
+  original: string;
+  suggestion: string;
+  onRequest: RequestAlternatives;
+  onChoose: (alternative: SuggestionAlternative) => void;
+}
+
+export function SuggestionAlternatives({
+  target,
+  original,
+  suggestion,
+  onRequest,
+  onChoose,
+}: SuggestionAlternativesProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [showRefine, setShowRefine] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [alternatives, setAlternatives] = useState<SuggestionAlternative[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (refineInstruction?: string) => {
+    setIsLoading(true);
+    setError(null);
+    setAlternatives([]);
+    try {
+      setAlternatives(await onRequest({ target, original, suggestion, instruction: refineInstruction }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate alternatives');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const choose = (alternative: SuggestionAlternative) => {
+    onChoose(alternative);
+    setAlternatives([]);
+    setShowRefine(false);
+    setInstruction('');
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.actions}>
+        <button type="button" onClick={() => request()} disabled={isLoading} style={styles.actionButton}>
+          ↻ 3 alternatives
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowRefine(!showRefine)}
+          disabled={isLoading}
+          style={styles.actionButton}
+        >
+          ✎ Refine
+        </button>
+        {isLoading && <span style={styles.status}>Generating...</span>}
+      </div>
+
+      {showRefine && (
+        <form
+          style={styles.refineForm}
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (instruction.trim()) request(instruction.trim());
+          }}
+        >
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder='e.g. "shorter, mention free shipping"'
+            style={styles.refineInput}
+            aria-label="Refine instruction"
+          />
+          <button type="submit" disabled={isLoading || !instruction.trim()} style={styles.actionButton}>
+            Refine
+          </button>
+        </form>
+      )}
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      {alternatives.length > 0 && (
+        <ul style={styles.list}>
+          {alternatives.map((alternative, idx) => (
+            <li key={idx} style={styles.item}>
+              <div style={styles.itemText}>
+                <div>{alternative.text}</div>
+                {alternative.reason && <div style={styles.itemReason}>{alternative.reason}</div>}
+              </div>
+              <button type="button" onClick={() => choose(alternative)} style={styles.useButton}>
+                Use
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    marginTop: '8px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  actionButton: {
+    padding: '4px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#6d28d9',
+    backgroundColor: '#f5f3ff',
+    border: '1px solid #ddd6fe',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  status: {
+    fontSize: '12px',
+    color: '#6b7280',
+  },
+  refineForm: {
+    display: 'flex',
+    gap: '8px',
+  },
+  refineInput: {
+    flex: 1,
+    padding: '4px 8px',
+    fontSize: '12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+  },
+  error: {
+    fontSize: '12px',
+    color: '#dc2626',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '8px',
+    padding: '8px',
+    backgroundColor: '#faf5ff',
+    border: '1px solid #ede9fe',
+    borderRadius: '4px',
+    fontSize: '13px',
+    color: '#111827',
+  },
+  itemText: {
+    flex: 1,
+    lineHeight: '1.5',
+  },
+  itemReason: {
+    marginTop: '4px',
+    fontSize: '12px',
+    color: '#6b7280',
+  },
+  useButton: {
+    padding: '4px 10px',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#ffffff',
+    backgroundColor: '#8629FF',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+};
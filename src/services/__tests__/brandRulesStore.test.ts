@@ -0,0 +1,44 @@
+// Unit tests for the brand rules store
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getBrandRules, saveBrandRules, withSiteBrandRules } from '../brandRulesStore';
+import type { PageContext } from '@/src/types/seo';
+
+const context: PageContext = { pageGoal: 'Convert', tone: 'Professional', locale: 'en-US' };
+
+describe('brandRulesStore', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-brand-'));
+    process.env.SEO_DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.SEO_DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should store rules per site', async () => {
+    await saveBrandRules('finance', { forbiddenTerms: ['guaranteed'], protectedPhrases: ['Capital at risk.'] });
+
+    expect(await getBrandRules('finance')).toEqual({
+      preferredTerms: [],
+      forbiddenTerms: ['guaranteed'],
+      trademarks: [],
+      protectedPhrases: ['Capital at risk.'],
+    });
+    expect((await getBrandRules('other')).forbiddenTerms).toEqual([]);
+  });
+
+  it('should replace rules sent with the context by the stored rules of its site', async () => {
+    await saveBrandRules('finance', { forbiddenTerms: ['guaranteed'] });
+    const sent = { ...context, brandRules: { preferredTerms: [], forbiddenTerms: [], trademarks: [], protectedPhrases: [] } };
+
+    expect((await withSiteBrandRules({ ...sent, site: 'finance' })).brandRules?.forbiddenTerms).toEqual(['guaranteed']);
+    expect(await withSiteBrandRules({ ...sent, site: 'other' })).toEqual({ ...context, site: 'other' });
+    expect(await withSiteBrandRules(sent)).toEqual(context);
+  });
+});
@@ -0,0 +1,75 @@
+// Unit tests for the change set store
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { listChangeSets, markChangeSetReverted, saveChangeSet } from '../changeSetStore';
+import type { ChangeSet, FieldChangeRecord } from '@/src/types/seo';
+
+function createChangeSet(id: string, createdAt: string, fields: FieldChangeRecord[] = []): ChangeSet {
+  return { id, pageItemId: 'page-1', createdAt, fields };
+}
+
+function createField(key: string): FieldChangeRecord {
+  return { key, address: { itemId: 'item-1', language: 'en', fieldName: key }, before: 'Old', after: 'New' };
+}
+
+describe('changeSetStore', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-changesets-'));
+    process.env.SEO_DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.SEO_DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep every change set saved at the same time', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) => saveChangeSet(createChangeSet(`cs-${i}`, `2026-01-0${i + 1}T00:00:00.000Z`)))
+    );
+
+    expect((await listChangeSets('page-1')).map((cs) => cs.id)).toEqual(['cs-4', 'cs-3', 'cs-2', 'cs-1', 'cs-0']);
+    expect(await fs.readdir(path.join(dataDir, 'changesets'))).toEqual(['page-1.json']);
+  });
+
+  it('should not lose a revert that races a new change set', async () => {
+    await saveChangeSet(createChangeSet('cs-0', '2026-01-01T00:00:00.000Z'));
+
+    const [, reverted] = await Promise.all([
+      saveChangeSet(createChangeSet('cs-1', '2026-01-02T00:00:00.000Z')),
+      markChangeSetReverted('page-1', 'cs-0', '2026-01-03T00:00:00.000Z', { reverted: [] }),
+    ]);
+
+    expect(reverted?.revertedAt).toBe('2026-01-03T00:00:00.000Z');
+    const changeSets = await listChangeSets('page-1');
+    expect(changeSets.map((cs) => [cs.id, cs.revertedAt])).toEqual([
+      ['cs-1', undefined],
+      ['cs-0', '2026-01-03T00:00:00.000Z'],
+    ]);
+    expect(await markChangeSetReverted('page-1', 'missing', '2026-01-04T00:00:00.000Z', { reverted: [] })).toBeNull();
+  });
+
+  it('should record partly reverted fields and mark the set once every field is reverted or kept', async () => {
+    await saveChangeSet(createChangeSet('cs-0', '2026-01-01T00:00:00.000Z', ['Title', 'Text', 'Link'].map(createField)));
+
+    const partial = await markChangeSetReverted('page-1', 'cs-0', '2026-01-02T00:00:00.000Z', { reverted: ['Title'] });
+    expect(partial?.revertedAt).toBeUndefined();
+    expect(partial?.fields.map((field) => field.revertedAt)).toEqual(['2026-01-02T00:00:00.000Z', undefined, undefined]);
+
+    const done = await markChangeSetReverted('page-1', 'cs-0', '2026-01-03T00:00:00.000Z', {
+      reverted: ['Title', 'Text'],
+      kept: ['Link'],
+    });
+    expect(done?.revertedAt).toBe('2026-01-03T00:00:00.000Z');
+    expect(done?.fields.map((field) => [field.key, field.revertedAt, field.keptAt])).toEqual([
+      ['Title', '2026-01-02T00:00:00.000Z', undefined],
+      ['Text', '2026-01-03T00:00:00.000Z', undefined],
+      ['Link', undefined, '2026-01-03T00:00:00.000Z'],
+    ]);
+    expect((await listChangeSets('page-1'))[0]).toEqual(done);
+  });
+});
@@ -0,0 +1,60 @@
+// Offline evaluation of prompt versions on recorded model outputs (run with `npm run eval`)
+//
+// EVAL_BASELINE and EVAL_CANDIDATE pick the prompt versions, EVAL_DATA_DIR a directory with
+// eval-cases/ and prompt-templates/, and EVAL_REPORT a file to write the markdown report to.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  compareEvaluationRuns,
+  evaluatePromptVersions,
+  formatEvaluationReport,
+  loadEvaluationCases,
+  type EvaluationRun,
+} from '../evaluationHarness';
+
+const dataDir = process.env.EVAL_DATA_DIR || path.join(__dirname, '../fixtures/eval');
+const baselineRef = process.env.EVAL_BASELINE || 'default@1';
+const candidateRef = process.env.EVAL_CANDIDATE || 'default@2';
+
+const run = (promptVersion: string, overall: number): EvaluationRun => ({
+  promptVersion,
+  cases: [],
+  skipped: [],
+  criteria: { lengthLimits: overall, keywords: null, forbiddenTerms: null, entities: null, scoreUplift: null },
+  overall,
+});
+
+describe('evaluationHarness', () => {
+  beforeEach(() => {
+    process.env.SEO_DATA_DIR = dataDir;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.SEO_DATA_DIR;
+    jest.restoreAllMocks();
+  });
+
+  it(`should not regress from ${baselineRef} to ${candidateRef}`, async () => {
+    const cases = await loadEvaluationCases();
+    const comparison = await evaluatePromptVersions(cases, baselineRef, candidateRef);
+    const report = formatEvaluationReport(comparison);
+
+    if (process.env.EVAL_REPORT) {
+      await fs.writeFile(process.env.EVAL_REPORT, report);
+    }
+
+    expect(cases.length).toBeGreaterThan(0);
+    expect(comparison.cases).toHaveLength(cases.length);
+    expect(comparison.overallDelta).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report score changes per criterion', () => {
+    const report = formatEvaluationReport(compareEvaluationRuns(run('default@1', 60), run('default@2', 72.5)));
+
+    expect(report).toContain('# Suggestion evaluation: default@1 → default@2');
+    expect(report).toContain('| **Overall** | 60.0 | 72.5 | +12.5 |');
+    expect(report).toContain('| keywords | – | – | – |');
+  });
+});
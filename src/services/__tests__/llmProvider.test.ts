@@ -0,0 +1,471 @@
+// Unit tests for LLM providers and the suggestion service running on the mock provider
+
+import {
+  createLLMProvider,
+  MockLLMProvider,
+  AzureOpenAIProvider,
+  MeteredLLMProvider,
+  OpenAIProvider,
+  type LLMCallUsage,
+  type LLMProvider,
+} from '../llmProvider';
+import { SEOSuggestionService } from '../seoSuggestionService';
+import { DEFAULT_PROMPT_TEMPLATE } from '../defaultPromptTemplate';
+import type { PageContext, PageData } from '@/src/types/seo';
+
+const context: PageContext = { pageGoal: 'Convert', tone: 'Professional', locale: 'en-US' };
+
+const pageData: PageData = {
+  metadata: { title: 'Pricing' },
+  headings: { h1: 'Pricing', all: ['Pricing'] },
+  text: 'Compare our plans.',
+  images: [],
+  links: [],
+  components: [
+    {
+      componentId: 'hero-1',
+      componentName: 'Hero',
+      path: ['Pricing', 'Hero'],
+      headings: { h1: 'Pricing', all: ['Pricing'] },
+      paragraphs: [],
+      images: [],
+      links: [],
+    },
+  ],
+};
+
+describe('llmProvider', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('MockLLMProvider', () => {
+    it('should return the first fixture that matches the prompt', async () => {
+      const provider = new MockLLMProvider({
+        fixtures: [
+          { match: '/Title: "Home"/', response: 'home' },
+          { match: 'Pricing', response: { metadata: { title: 'Pricing Plans' } } },
+        ],
+      });
+
+      const result = await provider.complete({ messages: [{ role: 'user', content: 'Title: "Pricing"' }] });
+
+      expect(result.content).toBe('{"metadata":{"title":"Pricing Plans"}}');
+      expect(result.usage?.totalTokens).toBeGreaterThan(0);
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it('should fall back to the default fixture', async () => {
+      const result = await new MockLLMProvider().complete({ messages: [{ role: 'user', content: 'anything' }] });
+
+      expect(JSON.parse(result.content).metadata.title).toBeTruthy();
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    it('should create the provider selected by LLM_PROVIDER', () => {
+      expect(createLLMProvider({ LLM_PROVIDER: 'mock' })).toBeInstanceOf(MockLLMProvider);
+      expect(
+        createLLMProvider({ AZURE_OPENAI_ENDPOINT: 'https://x.openai.azure.com/', AZURE_OPENAI_API_KEY: 'k' })
+      ).toBeInstanceOf(AzureOpenAIProvider);
+      expect(
+        createLLMProvider({
+          LLM_PROVIDER: 'openai-compatible',
+          LLM_BASE_URL: 'http://localhost:11434/v1',
+          LLM_MODEL: 'llama3.1',
+        })?.name
+      ).toBe('openai-compatible');
+    });
+
+    it('should return null when required settings are missing', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(createLLMProvider({ LLM_PROVIDER: 'openai' })).toBeNull();
+      expect(createLLMProvider({})).toBeNull();
+    });
+  });
+
+  describe('OpenAIProvider', () => {
+    it('should post a chat completion with a bearer token', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          model: 'gpt-4o',
+          choices: [{ message: { content: '{}' } }],
+          usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+        }),
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const result = await new OpenAIProvider({ apiKey: 'secret', model: 'gpt-4o' }).complete({
+        messages: [{ role: 'user', content: 'hi' }],
+        json: true,
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.openai.com/v1/chat/completions');
+      expect(init.headers.Authorization).toBe('Bearer secret');
+      expect(JSON.parse(init.body)).toMatchObject({ model: 'gpt-4o', response_format: { type: 'json_object' } });
+      expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 2, totalTokens: 12 });
+    });
+  });
+
+  describe('MeteredLLMProvider', () => {
+    it('should report the tokens and latency of completions and streams', async () => {
+      const calls: LLMCallUsage[] = [];
+      const provider = new MeteredLLMProvider(new MockLLMProvider({ fixtures: [{ response: {} }] }), (call) =>
+        calls.push(call)
+      );
+
+      await provider.complete({ messages: [{ role: 'user', content: 'Title: "Pricing"' }] });
+      for await (const _delta of provider.stream({ messages: [{ role: 'user', content: 'Title: "Pricing"' }] })) {
+        // Drain the stream
+      }
+
+      expect(calls).toHaveLength(2);
+      expect(calls.every((call) => !call.estimated && call.usage.totalTokens > 0 && call.latencyMs >= 0)).toBe(true);
+      expect(provider.name).toBe('mock');
+    });
+
+    it('should estimate the tokens of a call when the provider reports none', async () => {
+      const calls: LLMCallUsage[] = [];
+      const silent: LLMProvider = {
+        name: 'openai-compatible',
+        model: 'llama3.1',
+        complete: async () => ({ content: '12345678' }),
+        stream: async function* () {
+          yield '1234';
+        },
+      };
+      const provider = new MeteredLLMProvider(silent, (call) => calls.push(call));
+
+      await provider.complete({ messages: [{ role: 'user', content: 'abcd' }] });
+      for await (const _delta of provider.stream({ messages: [{ role: 'user', content: 'abcd' }] })) {
+        // Drain the stream
+      }
+
+      expect(calls.map((call) => [call.usage, call.estimated])).toEqual([
+        [{ promptTokens: 1, completionTokens: 2, totalTokens: 3 }, true],
+        [{ promptTokens: 1, completionTokens: 1, totalTokens: 2 }, true],
+      ]);
+    });
+  });
+
+  describe('SEOSuggestionService', () => {
+    it('should generate validated suggestions from the mock provider', async () => {
+      const provider = new MockLLMProvider({
+        fixtures: [{ response: { metadata: { title: '  Pricing Plans for Teams  ', description: '' } } }],
+      });
+
+      const suggestions = await new SEOSuggestionService(provider).generateSuggestions(context, pageData);
+
+      expect(suggestions.metadata).toEqual({ title: 'Pricing Plans for Teams' });
+      expect(provider.requests[0].messages[0].role).toBe('system');
+      expect(provider.requests[0].messages[0].content).toContain(
+        '"title": "optimized title, at most 600px wide in search results (about 60 chars)"'
+      );
+      expect(provider.requests[0].messages[1].content).toContain(
+        'title at most 600px wide in search results, about 60 chars; description at most 920px, about 155 chars'
+      );
+    });
+
+    it('should build prompts from the template and record its version', async () => {
+      const provider = new MockLLMProvider({ fixtures: [{ response: { metadata: { title: 'Pricing Plans' } } }] });
+      const template = {
+        ...DEFAULT_PROMPT_TEMPLATE,
+        id: 'product',
+        version: '3',
+        system: 'You are a product page editor.',
+        page: '{{context}}\n{{competitors}}\nWrite for a {{tone}} audience.',
+      };
+
+      const suggestions = await new SEOSuggestionService(provider, { template }).generateSuggestions(context, pageData);
+
+      expect(provider.requests[0].messages[0].content).toBe('You are a product page editor.');
+      expect(provider.requests[0].messages[1].content).toBe(
+        '=== CONTEXT & BUSINESS INFORMATION ===\nLocale: en-US\nPage Goal: Convert\nTone: Professional\nWrite for a Professional audience.'
+      );
+      expect(suggestions.promptVersion).toBe('product@3');
+    });
+
+    it('should build the alternatives prompts from the template', async () => {
+      const provider = new MockLLMProvider({ fixtures: [{ response: { alternatives: [{ text: 'Pricing Plans' }] } }] });
+      const template = {
+        ...DEFAULT_PROMPT_TEMPLATE,
+        alternativesSystem: 'Rewrite {{#richText}}RichText{{/richText}}{{^richText}}plain text{{/richText}}.',
+        alternatives: 'Rewrite {{field}} "{{suggestion}}" in at most {{serpChars}} characters.{{#instruction}} {{instruction}}{{/instruction}}',
+      };
+
+      await new SEOSuggestionService(provider, { template }).generateAlternatives(context, pageData, {
+        target: { kind: 'metaTitle' },
+        original: 'Pricing',
+        suggestion: 'Our Pricing',
+      });
+
+      expect(provider.requests[0].messages.map((message) => message.content)).toEqual([
+        'Rewrite plain text.',
+        'Rewrite page title (meta title) "Our Pricing" in at most 60 characters.',
+      ]);
+    });
+
+    it('should repair invalid items and report what was fixed or discarded', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = new MockLLMProvider({
+        fixtures: [
+          {
+            match: 'VALIDATION ERRORS',
+            response: {
+              repairs: {
+                'metadata.title': 'Pricing Plans for Teams',
+                'components[0].headings.improvements[0]': { fieldName: 'Title', current: 'Pricing' },
+              },
+            },
+          },
+          {
+            response: {
+              metadata: { title: 'Pricing Plans for Teams of Every Size, From Startups to Enterprises' },
+              components: [
+                {
+                  componentId: 'hero-1',
+                  componentName: 'Hero',
+                  headings: {
+                    h1: 'Compare Pricing Plans',
+                    improvements: [{ fieldName: 'Title', current: 'Pricing', suggested: 'Compare Plans' }],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const suggestions = await new SEOSuggestionService(provider).generateSuggestions(context, pageData);
+
+      expect(provider.requests).toHaveLength(2);
+      expect(provider.requests[1].messages[3].content).toContain(
+        '- components[0].headings.improvements[0].reason: is required'
+      );
+      expect(suggestions.metadata?.title).toBe('Pricing Plans for Teams');
+      expect(suggestions.components?.[0].headings?.improvements).toBeUndefined();
+      expect(suggestions.validation?.fixed.map((item) => item.path)).toEqual(['metadata.title']);
+      expect(suggestions.validation?.discarded).toEqual([
+        expect.objectContaining({
+          path: 'components[0].headings.improvements[0]',
+          violations: [
+            { path: 'components[0].headings.improvements[0].suggested', rule: 'required', message: 'is required' },
+            { path: 'components[0].headings.improvements[0].reason', rule: 'required', message: 'is required' },
+          ],
+        }),
+      ]);
+    });
+
+    it('should ask once more when the response is not valid JSON', async () => {
+      const provider = new MockLLMProvider({
+        fixtures: [
+          { match: 'INVALID JSON', response: { metadata: { title: 'Pricing Plans' } } },
+          { response: '{"metadata": {"title": "Pricing' },
+        ],
+      });
+
+      const suggestions = await new SEOSuggestionService(provider).generateSuggestions(context, pageData);
+
+      expect(provider.requests).toHaveLength(2);
+      expect(suggestions).toEqual({ metadata: { title: 'Pricing Plans' }, promptVersion: 'default@1' });
+    });
+
+    it('should chunk large pages by component and consolidate page-level suggestions', async () => {
+      const component = (id: string) => ({
+        componentId: id,
+        componentName: `Section ${id}`,
+        path: ['Guide', id],
+        headings: { h2: [`Heading ${id}`], all: [`Heading ${id}`] },
+        paragraphs: [{ fieldName: 'Body', text: `Body of ${id}. `.repeat(40) }],
+        images: [],
+        links: [],
+      });
+      const provider = new MockLLMProvider({
+        fixtures: [
+          { match: 'do not include "components"', response: { metadata: { title: 'The Complete Guide' } } },
+          {
+            match: 'ID: c3',
+            response: { components: [{ componentId: 'c3', componentName: 'Section c3', headings: { h1: 'Part Three' } }] },
+          },
+          {
+            match: 'ID: c1',
+            response: { components: [{ componentId: 'c1', componentName: 'Section c1', headings: { h1: 'Part One' } }] },
+          },
+        ],
+      });
+
+      const suggestions = await new SEOSuggestionService(provider, { maxComponentsPerChunk: 2 }).generateSuggestions(
+        context,
+        { ...pageData, components: ['c1', 'c2', 'c3'].map(component) }
+      );
+
+      const prompts = provider.requests.map((request) => request.messages[1].content);
+      expect(prompts).toHaveLength(3);
+      expect(prompts[0]).toContain('ID: c2');
+      expect(prompts[0]).toContain(`Body of c1. `.repeat(40).trim());
+      expect(prompts[1]).not.toContain('ID: c1');
+      expect(prompts[2]).toContain('- Section c1: Part One');
+      expect(suggestions.metadata?.title).toBe('The Complete Guide');
+      expect(suggestions.components?.map((comp) => comp.componentId)).toEqual(['c1', 'c3']);
+    });
+
+    it('should reject suggestions for components the page does not have', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = new MockLLMProvider({
+        fixtures: [
+          {
+            response: {
+              components: [
+                { componentId: 'hero-1', componentName: 'Hero', headings: { h1: 'Compare Pricing Plans' } },
+                { componentId: 'faq-1', componentName: 'FAQ', headings: { h1: 'Pricing FAQ' } },
+              ],
+            },
+          },
+        ],
+      });
+
+      const suggestions = await new SEOSuggestionService(provider).generateSuggestions(context, pageData);
+
+      expect(suggestions.components?.map((comp) => comp.componentId)).toEqual(['hero-1']);
+      expect(suggestions.validation?.rejected).toEqual([
+        expect.objectContaining({ path: 'components[1]', label: 'FAQ' }),
+      ]);
+    });
+
+    it('should add brand rules to the prompt and reject suggestions that break them', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = new MockLLMProvider({
+        fixtures: [
+          {
+            response: {
+              metadata: { title: 'Cheap Pricing Plans', description: 'Compare our plans and pick one.' },
+              components: [{ componentId: 'hero-1', componentName: 'Hero', headings: { h1: 'Log in to compare plans' } }],
+            },
+          },
+        ],
+      });
+      const brandContext: PageContext = {
+        ...context,
+        brandRules: {
+          preferredTerms: [{ term: 'sign in', avoid: ['log in'] }],
+          forbiddenTerms: ['cheap'],
+          trademarks: [],
+          protectedPhrases: ['Prices exclude VAT.'],
+        },
+      };
+
+      const suggestions = await new SEOSuggestionService(provider).generateSuggestions(brandContext, {
+        ...pageData,
+        metadata: { title: 'Pricing', description: 'Compare our plans. Prices exclude VAT.' },
+      });
+
+      expect(provider.requests[0].messages[1].content).toContain('- Never use these terms: "cheap"');
+      expect(provider.requests[0].messages[1].content).toContain('  "Prices exclude VAT."');
+      expect(suggestions.metadata).toEqual({});
+      expect(suggestions.components?.[0].headings?.h1).toBe('Log in to compare plans');
+      expect(suggestions.brand?.rejected.map((item) => item.path)).toEqual(['metadata.title', 'metadata.description']);
+      expect(suggestions.brand?.flagged.map((item) => item.path)).toEqual(['components[0].headings.h1']);
+    });
+
+    it('should generate alternatives for a single field within its limits', async () => {
+      const provider = new MockLLMProvider({
+        fixtures: [
+          {
+            response: {
+              alternatives: [
+                { text: 'Pricing Plans for Teams', reason: 'Adds audience' },
+                { text: 'Pricing' },
+                { text: 'Pricing Plans for Every Team Size, Compared Side by Side With Features' },
+                'Compare Pricing Plans',
+              ],
+            },
+          },
+        ],
+      });
+
+      const alternatives = await new SEOSuggestionService(provider).generateAlternatives(context, pageData, {
+        target: { kind: 'metaTitle' },
+        original: 'Pricing',
+        suggestion: 'Pricing',
+      });
+
+      expect(alternatives).toEqual([
+        { text: 'Pricing Plans for Teams', reason: 'Adds audience' },
+        { text: 'Compare Pricing Plans', reason: undefined },
+      ]);
+      expect(provider.requests[0].messages[1].content).toContain('Write 3 distinct alternatives');
+      expect(provider.requests[0].messages[1].content).toContain('Maximum length: about 60 characters (600px in search results');
+    });
+
+    it('should refine a RichText paragraph and keep its markup tokens', async () => {
+      const provider = new MockLLMProvider({
+        fixtures: [
+          {
+            response: {
+              alternatives: [
+                { segments: [{ id: 's0', suggested: 'See the {1}pricing guide{/1}.' }] },
+                { segments: [{ id: 's0', suggested: 'See the pricing guide.' }] },
+              ],
+            },
+          },
+        ],
+      });
+      const richPage: PageData = {
+        ...pageData,
+        components: [
+          {
+            componentId: 'text-1',
+            componentName: 'Text',
+            path: ['Pricing', 'Text'],
+            headings: { all: [] },
+            paragraphs: [
+              { fieldName: 'Body', text: 'Read our pricing guide.', segments: [{ id: 's0', text: 'Read our {1}pricing guide{/1}.' }] },
+            ],
+            images: [],
+            links: [],
+          },
+        ],
+      };
+
+      const alternatives = await new SEOSuggestionService(provider).generateAlternatives(context, richPage, {
+        target: { kind: 'paragraph', componentId: 'text-1', fieldName: 'Body' },
+        original: 'Read our pricing guide.',
+        suggestion: 'Read the pricing guide.',
+        instruction: 'shorter',
+      });
+
+      expect(alternatives).toEqual([
+        { text: 'See the pricing guide.', segments: [{ id: 's0', suggested: 'See the {1}pricing guide{/1}.' }] },
+      ]);
+      expect(provider.requests[0].messages[1].content).toContain('following this instruction from the author: "shorter"');
+    });
+
+    it('should stream components before the full result', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = new MockLLMProvider({
+        fixtures: [
+          {
+            response: {
+              metadata: { title: 'Pricing Plans' },
+              components: [
+                { componentId: 'hero-1', componentName: 'Hero', headings: { h1: 'Compare Pricing Plans' } },
+                { componentId: 'empty-1', componentName: 'Empty' },
+              ],
+            },
+          },
+        ],
+      });
+
+      const events = [];
+      for await (const event of new SEOSuggestionService(provider).streamSuggestions(context, pageData)) {
+        events.push(event);
+      }
+
+      expect(events.map((event) => event.type)).toEqual(['component', 'done']);
+      expect(events[0]).toMatchObject({ component: { componentId: 'hero-1' } });
+      expect(events[1]).toMatchObject({ suggestions: { metadata: { title: 'Pricing Plans' } } });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+// Unit tests for the prompt template store
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getPromptTemplate, listPromptTemplateVersions, resolvePromptTemplate } from '../promptTemplateStore';
+import { DEFAULT_PROMPT_TEMPLATE } from '../defaultPromptTemplate';
+import type { PageContext } from '@/src/types/seo';
+
+const context: PageContext = { pageGoal: 'Convert', tone: 'Professional', locale: 'en-US' };
+
+const template = (page: string) => ({
+  ...DEFAULT_PROMPT_TEMPLATE,
+  id: undefined,
+  version: undefined,
+  page,
+});
+
+describe('promptTemplateStore', () => {
+  let dataDir: string;
+
+  const writeFile = async (relativePath: string, data: unknown) => {
+    const filePath = path.join(dataDir, 'prompt-templates', relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data));
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-prompts-'));
+    process.env.SEO_DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.SEO_DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should use the built-in template when nothing is stored', async () => {
+    expect(await resolvePromptTemplate(context)).toBe(DEFAULT_PROMPT_TEMPLATE);
+    await expect(getPromptTemplate('blog')).rejects.toThrow('Prompt template "blog" not found');
+  });
+
+  it('should load the latest version unless one is pinned', async () => {
+    await writeFile('blog/2.json', template('v2 {{context}}'));
+    await writeFile('blog/10.json', template('v10 {{context}}'));
+
+    expect(await listPromptTemplateVersions('blog')).toEqual(['2', '10']);
+    expect((await getPromptTemplate('blog')).page).toBe('v10 {{context}}');
+    expect((await getPromptTemplate('blog@2')).version).toBe('2');
+    expect(await listPromptTemplateVersions('default')).toEqual(['1']);
+  });
+
+  it('should pick the template of the site, then of the page goal, then the default', async () => {
+    await writeFile('blog/1.json', template('blog'));
+    await writeFile('finance/3.json', template('finance'));
+    await writeFile('default/2.json', template('default v2'));
+    await writeFile('selection.json', { sites: { bank: 'finance' }, pageGoals: { Inform: 'blog@1' } });
+
+    expect((await resolvePromptTemplate({ ...context, site: 'bank', pageGoal: 'Inform' })).id).toBe('finance');
+    expect((await resolvePromptTemplate({ ...context, pageGoal: 'Inform' })).id).toBe('blog');
+    expect(await resolvePromptTemplate(context)).toMatchObject({ id: 'default', version: '2' });
+  });
+});
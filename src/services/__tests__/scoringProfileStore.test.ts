@@ -0,0 +1,38 @@
+// Unit tests for the scoring profile store
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getScoringProfileConfig } from '../scoringProfileStore';
+import { DEFAULT_SCORING_PROFILE_CONFIG } from '@/src/utils/scoringProfiles';
+
+describe('scoringProfileStore', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-scoring-'));
+    process.env.SEO_DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.SEO_DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should use the built-in profiles when nothing is stored', async () => {
+    expect(await getScoringProfileConfig()).toEqual(DEFAULT_SCORING_PROFILE_CONFIG);
+  });
+
+  it('should merge the stored profiles and selection', async () => {
+    await fs.writeFile(
+      path.join(dataDir, 'scoring-profiles.json'),
+      JSON.stringify({ profiles: [{ id: 'blog-article', thresholds: { minWords: 800 } }], templates: { Article: 'blog-article' } })
+    );
+
+    const config = await getScoringProfileConfig();
+
+    expect(config.profiles.find((profile) => profile.id === 'blog-article')?.thresholds.minWords).toBe(800);
+    expect(config.templates).toEqual({ Article: 'blog-article' });
+    expect(config.pageGoals).toEqual(DEFAULT_SCORING_PROFILE_CONFIG.pageGoals);
+  });
+});
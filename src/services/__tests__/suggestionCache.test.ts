@@ -0,0 +1,97 @@
+// Unit tests for the suggestion cache
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  computeSuggestionCacheKey,
+  getCachedSuggestions,
+  getSuggestionCacheTtlMs,
+  saveCachedSuggestions,
+} from '../suggestionCache';
+import type { CompetitorAnalysis, PageContext, PageData } from '@/src/types/seo';
+
+const context: PageContext = { pageGoal: 'Convert', tone: 'Professional', locale: 'en-US' };
+
+const pageData: PageData = {
+  metadata: { title: 'Pricing' },
+  headings: { h1: 'Pricing', all: ['Pricing'] },
+  text: 'Compare our plans.',
+  images: [],
+  links: [],
+};
+
+const competitor = (url: string) =>
+  ({
+    competitor: { url },
+    insights: { strengths: [], weaknesses: [], opportunities: [], recommendations: [] },
+  }) as unknown as CompetitorAnalysis;
+
+const keyInput = { context, pageData, promptVersion: '1', model: 'mock:mock' };
+
+describe('suggestionCache', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-cache-'));
+    process.env.SEO_DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.SEO_DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should hash content regardless of key and competitor order', () => {
+    const key = computeSuggestionCacheKey({
+      ...keyInput,
+      competitors: [competitor('https://a.example'), competitor('https://b.example')],
+    });
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      computeSuggestionCacheKey({
+        model: 'mock:mock',
+        promptVersion: '1',
+        pageData: {
+          links: [],
+          images: [],
+          text: 'Compare our plans.',
+          headings: pageData.headings,
+          metadata: pageData.metadata,
+        },
+        context: { locale: 'en-US', tone: 'Professional', pageGoal: 'Convert' },
+        competitors: [competitor('https://b.example'), competitor('https://a.example')],
+      })
+    ).toBe(key);
+    expect(computeSuggestionCacheKey({ ...keyInput, promptVersion: '2' })).not.toBe(computeSuggestionCacheKey(keyInput));
+    expect(computeSuggestionCacheKey({ ...keyInput, context: { ...context, tone: 'Friendly' } })).not.toBe(
+      computeSuggestionCacheKey(keyInput)
+    );
+  });
+
+  it('should return cached suggestions until they expire', async () => {
+    const key = computeSuggestionCacheKey(keyInput);
+    const ttl = 60 * 60 * 1000;
+    const createdAt = new Date('2026-01-01T10:00:00.000Z');
+
+    const saved = await saveCachedSuggestions(key, { metadata: { title: 'Pricing Plans' } }, ttl, createdAt);
+    expect(saved.cache).toEqual({
+      key,
+      hit: false,
+      createdAt: '2026-01-01T10:00:00.000Z',
+      expiresAt: '2026-01-01T11:00:00.000Z',
+    });
+
+    const cached = await getCachedSuggestions(key, ttl, new Date('2026-01-01T10:30:00.000Z'));
+    expect(cached).toEqual({ metadata: { title: 'Pricing Plans' }, cache: { ...saved.cache, hit: true } });
+    expect(await getCachedSuggestions(key, ttl, new Date('2026-01-01T11:00:00.000Z'))).toBeNull();
+    expect(await getCachedSuggestions('missing', ttl)).toBeNull();
+  });
+
+  it('should read the TTL from the environment', () => {
+    expect(getSuggestionCacheTtlMs({})).toBe(24 * 60 * 60 * 1000);
+    expect(getSuggestionCacheTtlMs({ SUGGESTION_CACHE_TTL_HOURS: '2' })).toBe(2 * 60 * 60 * 1000);
+    expect(getSuggestionCacheTtlMs({ SUGGESTION_CACHE_TTL_HOURS: '0' })).toBe(0);
+  });
+});
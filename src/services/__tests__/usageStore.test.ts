@@ -0,0 +1,84 @@
+// Unit tests for the usage store
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getUsageBudgetStatus, getUsageSummary, parseUsageAttribution, recordUsage } from '../usageStore';
+
+const call = { usage: { promptTokens: 800_000, completionTokens: 100_000, totalTokens: 900_000 }, latencyMs: 1200, estimated: false };
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('usageStore', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-usage-'));
+    process.env.SEO_DATA_DIR = dataDir;
+    process.env.LLM_PRICE_PROMPT_PER_1M = '2.5';
+    process.env.LLM_PRICE_COMPLETION_PER_1M = '10';
+  });
+
+  afterEach(async () => {
+    delete process.env.SEO_DATA_DIR;
+    delete process.env.LLM_PRICE_PROMPT_PER_1M;
+    delete process.env.LLM_PRICE_COMPLETION_PER_1M;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should record the usage and cost of a request per month', async () => {
+    const attribution = parseUsageAttribution({ pageItemId: 'p1', pageName: 'Invest', user: ' ana@example.com ', extra: 1 });
+    const record = await recordUsage(
+      { operation: 'suggestions', site: 'finance', attribution, model: 'azure:gpt-4o', calls: [call, call] },
+      now
+    );
+
+    expect(record).toMatchObject({ site: 'finance', user: 'ana@example.com', requests: 2, totalTokens: 1_800_000, cost: 6 });
+    expect(await recordUsage({ operation: 'alternatives', model: 'azure:gpt-4o', calls: [] }, now)).toBeNull();
+
+    const summary = await getUsageSummary('2026-10', 'finance');
+    expect(summary.total).toMatchObject({ requests: 2, cost: 6 });
+    expect(summary.byPage.map((row) => row.label)).toEqual(['Invest']);
+    expect(summary.budget).toBeUndefined();
+  });
+
+  it('should keep every record of requests finishing at the same time', async () => {
+    const records = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        recordUsage({ operation: 'suggestions', site: 'finance', model: 'azure:gpt-4o', calls: [call] }, now)
+      )
+    );
+
+    expect(records.every(Boolean)).toBe(true);
+    expect((await getUsageSummary('2026-10', 'finance')).total).toMatchObject({ requests: 5 });
+  });
+
+  it('should log usage that cannot be stored as an error', async () => {
+    await fs.writeFile(path.join(dataDir, 'usage'), 'not a directory');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const record = await recordUsage({ operation: 'suggestions', model: 'azure:gpt-4o', calls: [call] }, now);
+
+    expect(record).toBeNull();
+    expect(consoleError).toHaveBeenCalledWith(
+      expect.stringContaining('usage/2026-10.json'),
+      expect.objectContaining({ operation: 'suggestions', requests: 1 }),
+      expect.anything()
+    );
+    consoleError.mockRestore();
+  });
+
+  it('should check the monthly budget of a site', async () => {
+    await fs.mkdir(path.join(dataDir, 'usage'), { recursive: true });
+    await fs.writeFile(
+      path.join(dataDir, 'usage', 'budgets.json'),
+      JSON.stringify({ sites: { finance: { monthlyCost: 5, action: 'block' } } })
+    );
+
+    expect(await getUsageBudgetStatus('finance', now)).toMatchObject({ state: 'ok', blocked: false });
+
+    await recordUsage({ operation: 'suggestions', site: 'finance', model: 'azure:gpt-4o', calls: [call, call] }, now);
+
+    expect(await getUsageBudgetStatus('finance', now)).toMatchObject({ state: 'exceeded', blocked: true });
+    expect(await getUsageBudgetStatus('retail', now)).toBeNull();
+  });
+});
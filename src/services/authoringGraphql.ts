@@ -2,6 +2,28 @@
 // Works with both Preview API (Edge Preview) and Authoring API
 
 import { GraphQLClient } from 'graphql-request';
+import type {
+  ApplyFailure,
+  ChangeSet,
+  FieldChange,
+  FieldChangeRecord,
+  FieldConflict,
+  WorkflowApplyOptions,
+  WorkflowCommand,
+  WorkflowItemResult,
+} from '@/src/types/seo';
+import { isItemId } from '@/src/utils/fieldAddressResolver';
+import { buildWorkflowComment } from '@/src/utils/seoApplyPlanner';
+import { extractPlainText } from '@/src/utils/semanticClassifier';
+import {
+  createLinkField,
+  getLinkAttribute,
+  parseLinkField,
+  serializeLinkField,
+  setLinkAttribute,
+  setLinkHref,
+} from '@/src/utils/sitecoreLinkField';
+import { parseRichText, mergeRichText } from '@/src/utils/richTextSegments';
 
 export interface AuthoringGraphQLConfig {
   endpoint: string;
@@ -9,6 +31,7 @@ export interface AuthoringGraphQLConfig {
 }
 
 export interface DatasourceFieldValue {
+  id?: string;
   name: string;
   value: string;
   type?: string;
@@ -19,10 +42,49 @@ export interface DatasourceItem {
   id: string;
   name: string;
   path: string;
+  version?: number;
+  language?: string;
   fields: DatasourceFieldValue[];
   children?: DatasourceItem[];
 }
 
+export interface ItemFieldUpdate {
+  name: string;
+  value: string;
+}
+
+export interface FieldChangesResult {
+  applied: FieldChange[];
+  records: FieldChangeRecord[];
+  failed: ApplyFailure[];
+  workflow: WorkflowItemResult[];
+}
+
+export interface ConflictCheckResult {
+  conflicts: FieldConflict[];
+  revisions: Record<string, string>; // Change key -> item __Revision seen during the check
+  failed: ApplyFailure[];
+}
+
+export interface SharedWorkflowCommands {
+  commands: WorkflowCommand[]; // Commands of every item's workflow
+  withoutWorkflow: string[]; // Items (ID or path) with no workflow commands, where no command can run
+}
+
+export interface ApplyFieldChangesOptions {
+  // Fail an item if its __Revision no longer matches (change key -> expected revision)
+  expectedRevisions?: Record<string, string>;
+  // Write to a new version of each item and run a workflow command on it
+  workflow?: WorkflowApplyOptions;
+}
+
+export interface RevertResult {
+  reverted: string[];
+  // Fields changed again since the apply, left as they are (scanned: the applied value, suggested: the value before it)
+  conflicts: FieldConflict[];
+  failed: ApplyFailure[];
+}
+
 export class AuthoringGraphQLService {
   private client: GraphQLClient | null = null;
   private endpoint: string;
@@ -145,7 +207,12 @@ export class AuthoringGraphQLService {
           id
           name
           path
+          version
+          language {
+            name
+          }
           fields {
+            id
             name
             value
             jsonValue
@@ -155,7 +222,9 @@ export class AuthoringGraphQLService {
               id
               name
               path
+              version
               fields {
+                id
                 name
                 value
                 jsonValue
@@ -254,15 +323,21 @@ export class AuthoringGraphQLService {
 
       console.log(`✅ Fetched datasource: ${item.name} with ${fields.length} fields`);
 
+      const itemLanguage = item.language?.name || language;
+
       return {
         id: item.id,
         name: item.name,
         path: item.path,
+        version: item.version,
+        language: itemLanguage,
         fields,
         children: childItems.map((child: any) => ({
           id: child.id,
           name: child.name,
           path: child.path,
+          version: child.version,
+          language: itemLanguage,
           fields: child.fields || [],
         })),
       };
@@ -316,6 +391,524 @@ export class AuthoringGraphQLService {
     return results;
   }
 
+  /**
+   * Resolve a datasource reference (GUID or path) to an item ID
+   */
+  async resolveItemId(
+    itemRef: string,
+    language: string = 'en',
+    currentPagePath?: string
+  ): Promise<string | null> {
+    if (isItemId(itemRef)) {
+      return itemRef;
+    }
+
+    const item = await this.fetchDatasourceByPath(itemRef, language, currentPagePath);
+    return item?.id || null;
+  }
+
+  /**
+   * Fetch the raw values of all fields on an item (Authoring API schema), of its latest version unless one is given
+   */
+  async fetchItemFieldValues(
+    itemId: string,
+    language: string = 'en',
+    version?: number
+  ): Promise<Record<string, string> | null> {
+    if (!this.client) {
+      console.warn('AuthoringGraphQLService not configured');
+      return null;
+    }
+
+    const query = `
+      query GetItemFieldValues($itemId: ID!, $language: String!, $version: Int) {
+        item(where: { itemId: $itemId, language: $language, version: $version }) {
+          itemId
+          fields(ownFields: false) {
+            nodes {
+              name
+              value
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data: any = await this.client.request(query, { itemId, language, version });
+      if (!data.item) {
+        console.warn(`⚠️ No item found with ID: ${itemId}`);
+        return null;
+      }
+
+      const values: Record<string, string> = {};
+      for (const field of data.item.fields?.nodes || []) {
+        values[field.name] = field.value ?? '';
+      }
+      return values;
+    } catch (error) {
+      console.error(`❌ Error fetching field values for ${itemId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Update field values on an item via the updateItem mutation
+   */
+  async updateItemFields(
+    itemId: string,
+    fields: ItemFieldUpdate[],
+    language: string = 'en',
+    version?: number
+  ): Promise<void> {
+    if (!this.client) {
+      throw new Error('AuthoringGraphQLService not configured');
+    }
+
+    const mutation = `
+      mutation UpdateItemFields($itemId: ID!, $language: String!, $version: Int, $fields: [FieldValueInput]) {
+        updateItem(
+          input: { itemId: $itemId, language: $language, version: $version, fields: $fields }
+        ) {
+          item {
+            itemId
+          }
+        }
+      }
+    `;
+
+    console.log(`✏️ Updating ${fields.length} field(s) on item ${itemId} (lang: ${language})`);
+
+    const data: any = await this.client.request(mutation, {
+      itemId,
+      language,
+      version,
+      fields,
+    });
+
+    if (!data.updateItem?.item) {
+      throw new Error(`updateItem returned no item for ${itemId}`);
+    }
+  }
+
+  /**
+   * Add a new version of an item in a language. Returns the new version number.
+   */
+  async addItemVersion(itemId: string, language: string = 'en'): Promise<number> {
+    if (!this.client) {
+      throw new Error('AuthoringGraphQLService not configured');
+    }
+
+    const mutation = `
+      mutation AddItemVersion($itemId: ID!, $language: String!) {
+        addItemVersion(input: { itemId: $itemId, language: $language }) {
+          item {
+            itemId
+            version
+          }
+        }
+      }
+    `;
+
+    const data: any = await this.client.request(mutation, { itemId, language });
+    const version = data.addItemVersion?.item?.version;
+    if (typeof version !== 'number') {
+      throw new Error(`addItemVersion returned no version for ${itemId}`);
+    }
+
+    console.log(`🆕 Created version ${version} of item ${itemId} (lang: ${language})`);
+    return version;
+  }
+
+  /**
+   * Fetch the commands of every state in an item's workflow
+   */
+  async fetchWorkflowCommands(itemId: string, language: string = 'en'): Promise<WorkflowCommand[]> {
+    if (!this.client) {
+      console.warn('AuthoringGraphQLService not configured');
+      return [];
+    }
+
+    const query = `
+      query GetWorkflowCommands($itemId: ID!, $language: String!) {
+        item(where: { itemId: $itemId, language: $language }) {
+          workflow {
+            workflow {
+              workflowId
+              states {
+                nodes {
+                  stateId
+                  displayName
+                  commands {
+                    nodes {
+                      commandId
+                      displayName
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data: any = await this.client.request(query, { itemId, language });
+      const states = data.item?.workflow?.workflow?.states?.nodes || [];
+
+      return states.flatMap((state: any) =>
+        (state.commands?.nodes || []).map((command: any) => ({
+          commandId: command.commandId,
+          displayName: command.displayName,
+          stateId: state.stateId,
+          stateName: state.displayName,
+        }))
+      );
+    } catch (error) {
+      console.error(`❌ Error fetching workflow commands for ${itemId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch the workflow commands that can run on all of the given items (GUIDs or paths).
+   * Items whose workflow has no commands, or that have no workflow, are listed separately.
+   */
+  async fetchSharedWorkflowCommands(
+    itemRefs: string[],
+    language: string = 'en',
+    currentPagePath?: string
+  ): Promise<SharedWorkflowCommands> {
+    const result: SharedWorkflowCommands = { commands: [], withoutWorkflow: [] };
+    let shared: WorkflowCommand[] | null = null;
+
+    for (const itemRef of new Set(itemRefs)) {
+      const itemId = await this.resolveItemId(itemRef, language, currentPagePath);
+      const commands = itemId ? await this.fetchWorkflowCommands(itemId, language) : [];
+      if (commands.length === 0) {
+        result.withoutWorkflow.push(itemRef);
+        continue;
+      }
+      shared = shared
+        ? shared.filter((command) => commands.some((other) => other.commandId === command.commandId))
+        : commands;
+    }
+
+    result.commands = shared || [];
+    return result;
+  }
+
+  /**
+   * Execute a workflow command on an item version, recording a comment in its workflow history
+   */
+  async executeWorkflowCommand(
+    itemId: string,
+    commandId: string,
+    language: string = 'en',
+    version?: number,
+    comments?: string
+  ): Promise<WorkflowItemResult> {
+    if (!this.client) {
+      return { itemId, version, commandId, successful: false, error: 'Authoring API not configured' };
+    }
+
+    const mutation = `
+      mutation ExecuteWorkflowCommand($input: ExecuteWorkflowCommandInput!) {
+        executeWorkflowCommand(input: $input) {
+          successful
+          error
+          nextStateId
+        }
+      }
+    `;
+
+    try {
+      const data: any = await this.client.request(mutation, {
+        input: {
+          commandId,
+          comments,
+          item: { itemId, language, version },
+        },
+      });
+      const outcome = data.executeWorkflowCommand;
+
+      return {
+        itemId,
+        version,
+        commandId,
+        successful: !!outcome?.successful,
+        nextStateId: outcome?.nextStateId || undefined,
+        error: outcome?.successful ? undefined : outcome?.error || 'Workflow command was not executed',
+      };
+    } catch (error) {
+      console.error(`❌ Error executing workflow command on ${itemId}:`, error);
+      return {
+        itemId,
+        version,
+        commandId,
+        successful: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Re-read each target field and compare it with the value captured at scan time.
+   * Returns the fields that were changed by someone else in the meantime.
+   * Pass `createVersion` when the apply will write new versions, which copy the latest one.
+   */
+  async checkFieldConflicts(
+    changes: FieldChange[],
+    language: string = 'en',
+    currentPagePath?: string,
+    options: Pick<WorkflowApplyOptions, 'createVersion'> = { createVersion: false }
+  ): Promise<ConflictCheckResult> {
+    const result: ConflictCheckResult = { conflicts: [], revisions: {}, failed: [] };
+
+    if (!this.isConfigured()) {
+      result.failed = changes.map((change) => ({
+        key: change.key,
+        error: 'Authoring API not configured',
+      }));
+      return result;
+    }
+
+    for (const itemChanges of groupChangesByItem(changes)) {
+      const address = itemChanges[0].address;
+      const itemRef = address.itemId || address.itemPath || '';
+      const itemLanguage = address.language || language;
+      const fail = (error: string) => {
+        result.failed.push(...itemChanges.map((change) => ({ key: change.key, error })));
+      };
+
+      try {
+        const itemId = await this.resolveItemId(itemRef, itemLanguage, currentPagePath);
+        // Check the version the apply writes to (a new version starts as a copy of the latest one)
+        const readVersion = options.createVersion ? undefined : address.version;
+        const currentValues = itemId ? await this.fetchItemFieldValues(itemId, itemLanguage, readVersion) : null;
+        if (!itemId || !currentValues) {
+          fail(`Could not read current field values for item: ${itemRef}`);
+          continue;
+        }
+
+        for (const change of itemChanges) {
+          result.revisions[change.key] = currentValues[REVISION_FIELD] || '';
+
+          const rawValue = currentValues[change.address.fieldName] ?? '';
+          const current = readComparableValue(change, rawValue);
+
+          if (current !== extractPlainText(change.original)) {
+            result.conflicts.push({
+              key: change.key,
+              address: { ...change.address, itemId },
+              scanned: change.original,
+              current,
+              suggested: change.value,
+              kind: change.kind,
+              revision: currentValues[REVISION_FIELD],
+              updated: currentValues[UPDATED_FIELD],
+              updatedBy: currentValues[UPDATED_BY_FIELD],
+            });
+          }
+        }
+      } catch (error) {
+        console.error(`❌ Error checking item ${itemRef} for conflicts:`, error);
+        fail(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Write a set of field changes back to Sitecore, grouped by item
+   */
+  async applyFieldChanges(
+    changes: FieldChange[],
+    language: string = 'en',
+    currentPagePath?: string,
+    options: ApplyFieldChangesOptions = {}
+  ): Promise<FieldChangesResult> {
+    const result: FieldChangesResult = { applied: [], records: [], failed: [], workflow: [] };
+
+    if (!this.isConfigured()) {
+      result.failed = changes.map((change) => ({
+        key: change.key,
+        error: 'Authoring API not configured',
+      }));
+      return result;
+    }
+
+    // Group changes by target item version so each one is updated once
+    for (const itemChanges of groupChangesByItem(changes)) {
+      const address = itemChanges[0].address;
+      const itemRef = address.itemId || address.itemPath || '';
+      const itemLanguage = address.language || language;
+      const fail = (error: string) => {
+        result.failed.push(...itemChanges.map((change) => ({ key: change.key, error })));
+      };
+
+      try {
+        const itemId = await this.resolveItemId(itemRef, itemLanguage, currentPagePath);
+        if (!itemId) {
+          fail(`Could not resolve item: ${itemRef}`);
+          continue;
+        }
+
+        // Read raw values of the version written to first: they are kept for undo, and image
+        // alt text lives inside the image field XML. A new version starts as a copy of the latest one.
+        const workflow = options.workflow;
+        const readVersion = workflow?.createVersion ? undefined : address.version;
+        const currentValues = await this.fetchItemFieldValues(itemId, itemLanguage, readVersion);
+        if (!currentValues) {
+          fail(`Could not read current field values for item: ${itemRef}`);
+          continue;
+        }
+
+        // Another author saved the item after the conflict check
+        const currentRevision = currentValues[REVISION_FIELD];
+        const staleChange = itemChanges.find((change) => {
+          const expected = options.expectedRevisions?.[change.key];
+          return expected !== undefined && expected !== currentRevision;
+        });
+        if (staleChange) {
+          fail(`Item ${itemRef} was modified by someone else (revision ${currentRevision || 'unknown'})`);
+          continue;
+        }
+
+        // A change whose value cannot be built is reported on its own; the others are still written
+        const writable: FieldChange[] = [];
+        const fields: ItemFieldUpdate[] = [];
+        for (const change of itemChanges) {
+          try {
+            fields.push({
+              name: change.address.fieldName,
+              value: buildRawValue(change, currentValues[change.address.fieldName] || ''),
+            });
+            writable.push(change);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            result.failed.push({ key: change.key, error: message });
+          }
+        }
+        if (writable.length === 0) {
+          continue;
+        }
+
+        const version = workflow?.createVersion
+          ? await this.addItemVersion(itemId, itemLanguage)
+          : address.version;
+
+        await this.updateItemFields(itemId, fields, itemLanguage, version);
+        result.applied.push(...writable);
+        result.records.push(
+          ...writable.map((change, idx) => ({
+            key: change.key,
+            address: { ...change.address, itemId, version },
+            before: currentValues[change.address.fieldName] ?? '',
+            after: fields[idx].value,
+          }))
+        );
+        console.log(`✅ Updated item ${itemId}: ${fields.map((f) => f.name).join(', ')}`);
+
+        // The fields are saved at this point; a failed command is reported separately
+        const commandId = workflow?.commandId;
+        if (commandId) {
+          const commands = await this.fetchWorkflowCommands(itemId, itemLanguage);
+          result.workflow.push(
+            commands.some((command) => command.commandId === commandId)
+              ? await this.executeWorkflowCommand(
+                  itemId,
+                  commandId,
+                  itemLanguage,
+                  version,
+                  buildWorkflowComment(writable, workflow?.comment)
+                )
+              : { itemId, version, commandId, successful: false, error: 'Not in a workflow with this command' }
+          );
+        } else if (workflow?.createVersion) {
+          result.workflow.push({ itemId, version, successful: true });
+        }
+      } catch (error) {
+        console.error(`❌ Error updating item ${itemRef}:`, error);
+        fail(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Restore the original values recorded in a change set. A field is only restored while it
+   * still holds the value the apply wrote; fields edited since then are reported as conflicts.
+   * Fields already reverted or kept by an earlier revert are skipped.
+   */
+  async revertChangeSet(changeSet: ChangeSet): Promise<RevertResult> {
+    const result: RevertResult = { reverted: [], conflicts: [], failed: [] };
+
+    const byItem = new Map<string, FieldChangeRecord[]>();
+    for (const record of changeSet.fields) {
+      if (record.revertedAt || record.keptAt) continue;
+
+      const { itemId, language, version } = record.address;
+      const groupKey = `${itemId}|${language}|${version ?? ''}`;
+      const group = byItem.get(groupKey) || [];
+      group.push(record);
+      byItem.set(groupKey, group);
+    }
+
+    for (const records of byItem.values()) {
+      const { itemId, language, version } = records[0].address;
+
+      try {
+        if (!itemId) {
+          throw new Error('Change set record has no item ID');
+        }
+
+        const currentValues = await this.fetchItemFieldValues(itemId, language, version);
+        if (!currentValues) {
+          throw new Error(`Could not read current field values for item: ${itemId}`);
+        }
+
+        const unchanged = records.filter((record) => {
+          const current = currentValues[record.address.fieldName] ?? '';
+          if (current === record.after) {
+            return true;
+          }
+          result.conflicts.push({
+            key: record.key,
+            address: record.address,
+            scanned: record.after,
+            current,
+            suggested: record.before,
+            revision: currentValues[REVISION_FIELD],
+            updated: currentValues[UPDATED_FIELD],
+            updatedBy: currentValues[UPDATED_BY_FIELD],
+          });
+          return false;
+        });
+        if (unchanged.length === 0) {
+          continue;
+        }
+
+        await this.updateItemFields(
+          itemId,
+          unchanged.map((record) => ({ name: record.address.fieldName, value: record.before })),
+          language,
+          version
+        );
+        result.reverted.push(...unchanged.map((record) => record.key));
+      } catch (error) {
+        console.error(`❌ Error reverting item ${itemId}:`, error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        result.failed.push(...records.map((record) => ({ key: record.key, error: message })));
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Try to use the Marketplace SDK to get credentials automatically
    */
@@ -372,3 +965,121 @@ export function createAuthoringGraphQLService(): AuthoringGraphQLService | null
     apiKey: bearerToken || apiKey  // Use bearer token if available, otherwise API key
   });
 }
+
+// Standard fields used for optimistic concurrency checks
+const REVISION_FIELD = '__Revision';
+const UPDATED_FIELD = '__Updated';
+const UPDATED_BY_FIELD = '__Updated by';
+
+/**
+ * Group field changes by target item, language and version
+ */
+function groupChangesByItem(changes: FieldChange[]): FieldChange[][] {
+  const byItem = new Map<string, FieldChange[]>();
+  for (const change of changes) {
+    const { itemId, itemPath, language, version } = change.address;
+    const groupKey = `${itemId || itemPath}|${language}|${version ?? ''}`;
+    const group = byItem.get(groupKey) || [];
+    group.push(change);
+    byItem.set(groupKey, group);
+  }
+  return Array.from(byItem.values());
+}
+
+/**
+ * Build the raw field value to write for a change.
+ * Image alt text and link fields are XML, so only the changed attributes are replaced.
+ */
+function buildRawValue(change: FieldChange, currentRaw: string): string {
+  switch (change.kind) {
+    case 'image-alt':
+      return setImageAlt(currentRaw, change.value);
+    case 'link': {
+      const link = parseLinkField(currentRaw) || createLinkField();
+      setLinkAttribute(link, 'text', change.value);
+      if (change.href) {
+        setLinkHref(link, change.href);
+      }
+      return serializeLinkField(link);
+    }
+    case 'rich-text':
+      return mergeRichTextChange(change, currentRaw);
+    default:
+      return change.value;
+  }
+}
+
+/**
+ * Merge RichText segment rewrites into the current field markup
+ */
+function mergeRichTextChange(change: FieldChange, currentRaw: string): string {
+  const rewrites = change.segments || [];
+  const doc = parseRichText(currentRaw);
+
+  for (const rewrite of rewrites) {
+    const segment = doc.segments.find((s) => s.id === rewrite.id);
+    if (!segment || segment.text !== rewrite.original) {
+      throw new Error(`${change.address.fieldName}: segment ${rewrite.id} changed since the scan`);
+    }
+  }
+
+  const merged = mergeRichText(
+    doc,
+    Object.fromEntries(rewrites.map((rewrite) => [rewrite.id, rewrite.suggested]))
+  );
+  if (merged.rejected.length > 0) {
+    throw new Error(
+      `${change.address.fieldName}: rewrite would lose markup (${merged.rejected
+        .map((r) => `${r.id}: ${r.reason}`)
+        .join('; ')})`
+    );
+  }
+
+  return merged.html;
+}
+
+/**
+ * Read the part of a raw field value that a change compares against its scanned value
+ */
+function readComparableValue(change: FieldChange, rawValue: string): string {
+  switch (change.kind) {
+    case 'image-alt':
+      return getImageAlt(rawValue);
+    case 'link': {
+      const link = parseLinkField(rawValue);
+      return extractPlainText(link ? getLinkAttribute(link, 'text') || '' : '');
+    }
+    default:
+      return extractPlainText(rawValue);
+  }
+}
+
+/**
+ * Read the alt attribute from a Sitecore image field value
+ */
+function getImageAlt(imageXml: string): string {
+  const match = imageXml.match(/\balt=(?:"([^"]*)"|'([^']*)')/i);
+  return extractPlainText(match ? match[1] ?? match[2] ?? '' : '');
+}
+
+/**
+ * Set the alt attribute on a Sitecore image field value: <image mediaid="..." alt="..." />
+ */
+function setImageAlt(imageXml: string, alt: string): string {
+  const escaped = alt
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  if (!/<image\b/i.test(imageXml)) {
+    throw new Error('Image field has no media selected');
+  }
+
+  const altAttribute = /\balt=("[^"]*"|'[^']*')/i;
+  if (altAttribute.test(imageXml)) {
+    return imageXml.replace(altAttribute, () => `alt="${escaped}"`);
+  }
+
+  return imageXml.replace(/<image\b/i, () => `<image alt="${escaped}"`);
+}
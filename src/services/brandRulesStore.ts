@@ -0,0 +1,38 @@
+// Brand Rules Store - Persists each site's brand voice rules (server-side)
+
+import type { BrandRules, PageContext } from '@/src/types/seo';
+import { EMPTY_BRAND_RULES, hasBrandRules, parseBrandRules } from '@/src/utils/brandRules';
+import { readJson, writeJson, toSafeFileName } from './dataStore';
+
+function brandRulesFile(site: string): string {
+  return `brand-rules/${toSafeFileName(site)}.json`;
+}
+
+/**
+ * Brand rules of a site, or empty rules if none have been saved
+ */
+export async function getBrandRules(site: string): Promise<BrandRules> {
+  return parseBrandRules(await readJson<BrandRules>(brandRulesFile(site), EMPTY_BRAND_RULES));
+}
+
+/**
+ * Replace the brand rules of a site. Returns the rules as stored.
+ */
+export async function saveBrandRules(site: string, rules: unknown): Promise<BrandRules> {
+  const parsed = parseBrandRules(rules);
+  await writeJson(brandRulesFile(site), parsed);
+  return parsed;
+}
+
+/**
+ * The page context with its site's stored brand rules. Rules sent by the browser are ignored.
+ */
+export async function withSiteBrandRules(context: PageContext): Promise<PageContext> {
+  const { brandRules: _ignored, ...rest } = context;
+  if (!context.site) {
+    return rest;
+  }
+
+  const brandRules = await getBrandRules(context.site);
+  return hasBrandRules(brandRules) ? { ...rest, brandRules } : rest;
+}
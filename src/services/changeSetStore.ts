@@ -0,0 +1,58 @@
+// Change Set Store - Persists applied SEO change sets per page (server-side)
+
+import type { ChangeSet } from '@/src/types/seo';
+import { readJson, updateJson, toSafeFileName } from './dataStore';
+
+function changeSetFile(pageItemId: string): string {
+  return `changesets/${toSafeFileName(pageItemId)}.json`;
+}
+
+/**
+ * List all change sets for a page, newest first
+ */
+export async function listChangeSets(pageItemId: string): Promise<ChangeSet[]> {
+  const changeSets = await readJson<ChangeSet[]>(changeSetFile(pageItemId), []);
+  return [...changeSets].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Store a new change set next to its page
+ */
+export async function saveChangeSet(changeSet: ChangeSet): Promise<void> {
+  await updateJson<ChangeSet[]>(changeSetFile(changeSet.pageItemId), [], (changeSets) => [...changeSets, changeSet]);
+}
+
+/**
+ * Record the fields a revert restored and those whose later edit the author keeps. The change
+ * set is marked as reverted once every field is one or the other. Returns the updated change
+ * set, or null if not found.
+ */
+export async function markChangeSetReverted(
+  pageItemId: string,
+  changeSetId: string,
+  revertedAt: string,
+  keys: { reverted: string[]; kept?: string[] }
+): Promise<ChangeSet | null> {
+  let reverted: ChangeSet | null = null;
+
+  await updateJson<ChangeSet[]>(changeSetFile(pageItemId), [], (changeSets) => {
+    const changeSet = changeSets.find((cs) => cs.id === changeSetId);
+    if (changeSet) {
+      for (const field of changeSet.fields) {
+        if (field.revertedAt || field.keptAt) continue;
+        if (keys.reverted.includes(field.key)) {
+          field.revertedAt = revertedAt;
+        } else if (keys.kept?.includes(field.key)) {
+          field.keptAt = revertedAt;
+        }
+      }
+      if (!changeSet.revertedAt && changeSet.fields.every((field) => field.revertedAt || field.keptAt)) {
+        changeSet.revertedAt = revertedAt;
+      }
+      reverted = changeSet;
+    }
+    return changeSets;
+  });
+
+  return reverted;
+}
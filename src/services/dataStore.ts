@@ -0,0 +1,96 @@
+// Server-side JSON file store for extension data
+// Uses the Node.js file system, so only import it from API routes
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directory all data files are written to (SEO_DATA_DIR, defaults to ./.seo-data)
+ */
+function getDataDir(): string {
+  return process.env.SEO_DATA_DIR || path.join(process.cwd(), '.seo-data');
+}
+
+/**
+ * Turn an arbitrary key (item ID, URL, hash) into a safe file name
+ */
+export function toSafeFileName(key: string): string {
+  return key.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 120) || '_';
+}
+
+/**
+ * Read a JSON file relative to the data directory, or return the fallback if missing
+ */
+export async function readJson<T>(relativePath: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(path.join(getDataDir(), relativePath), 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file relative to the data directory (via a temp file, so readers never see partial data)
+ */
+export async function writeJson<T>(relativePath: string, data: T): Promise<void> {
+  const filePath = path.join(getDataDir(), relativePath);
+  await queueFileTask(filePath, () => writeFileAtomic(filePath, data));
+}
+
+/**
+ * Read, change and write back a JSON file relative to the data directory. Calls for the same
+ * file run one after another, so concurrent updates in this process never overwrite each other.
+ */
+export async function updateJson<T>(relativePath: string, fallback: T, update: (data: T) => T): Promise<T> {
+  const filePath = path.join(getDataDir(), relativePath);
+  return queueFileTask(filePath, async () => {
+    const updated = update(await readJson(relativePath, fallback));
+    await writeFileAtomic(filePath, updated);
+    return updated;
+  });
+}
+
+// Pending writes per absolute file path; each task starts after the previous one settles
+const fileQueues = new Map<string, Promise<unknown>>();
+let tempFileCounter = 0;
+
+function queueFileTask<R>(filePath: string, task: () => Promise<R>): Promise<R> {
+  const previous = fileQueues.get(filePath) ?? Promise.resolve();
+  const result = previous.then(task, task);
+  const settled = result.catch(() => undefined);
+  fileQueues.set(filePath, settled);
+  settled.then(() => {
+    if (fileQueues.get(filePath) === settled) {
+      fileQueues.delete(filePath);
+    }
+  });
+  return result;
+}
+
+async function writeFileAtomic<T>(filePath: string, data: T): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Unique per write, so two writes of the same file never share a temp file
+  const tempPath = `${filePath}.${process.pid}.${++tempFileCounter}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Names of the files in a directory relative to the data directory, or [] if it does not exist
+ */
+export async function listFiles(relativeDir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(path.join(getDataDir(), relativeDir), { withFileTypes: true });
+    return entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
@@ -6,6 +6,7 @@ export interface ExtractedContent {
   selector: string;
   textContent: string;
   fieldType: 'heading' | 'paragraph' | 'richtext' | 'label' | 'link' | 'button' | 'other';
+  headingLevel?: number; // Tag level of headings (h1-h6)
 }
 
 /**
@@ -64,6 +65,7 @@ export class DOMContentExtractor {
             selector: this.getElementSelector(el),
             textContent: text,
             fieldType: 'heading',
+            headingLevel: Number(el.tagName.charAt(1)),
           });
         }
       });
@@ -156,11 +158,15 @@ export class DOMContentExtractor {
         const fieldId = el.getAttribute('data-field-id') || el.getAttribute('data-field-name');
         const fieldType = this.detectFieldType(el);
 
+        // Editable fields are rendered inside their heading tag, or are the tag themselves
+        const heading = el.closest('h1, h2, h3, h4, h5, h6');
+
         extracted.push({
           componentId: fieldId || `field-${idx}`,
           selector: this.getElementSelector(el),
           textContent: text,
-          fieldType,
+          fieldType: heading ? 'heading' : fieldType,
+          headingLevel: heading ? Number(heading.tagName.charAt(1)) : undefined,
         });
       });
 
@@ -0,0 +1,200 @@
+// Evaluation Harness - Offline comparison of prompt versions on recorded model outputs
+//
+// Each case in SEO_DATA_DIR/eval-cases/*.json is a page with the model response recorded
+// for each prompt version. The suggestion service runs every case on the mock provider with
+// that version's template, so the real validation pipeline shapes the result, and the
+// outputs are scored on deterministic criteria (see suggestionEvaluation).
+
+import type { PromptTemplate, SEOSuggestions } from '@/src/types/seo';
+import { formatPromptVersion } from '@/src/utils/promptTemplate';
+import { resolveScoringProfile } from '@/src/utils/scoringProfiles';
+import {
+  averageScore,
+  EVALUATION_CRITERIA,
+  evaluateSuggestions,
+  type CaseEvaluation,
+  type EvaluationCase,
+  type EvaluationCriterion,
+} from '@/src/utils/suggestionEvaluation';
+import { listFiles, readJson } from './dataStore';
+import { MockLLMProvider } from './llmProvider';
+import { getPromptTemplate } from './promptTemplateStore';
+import { getScoringProfileConfig } from './scoringProfileStore';
+import { SEOSuggestionService } from './seoSuggestionService';
+
+const CASES_DIR = 'eval-cases';
+
+export interface EvaluationRun {
+  promptVersion: string;
+  cases: CaseEvaluation[];
+  skipped: string[]; // Cases without a recorded output for this version
+  criteria: Record<EvaluationCriterion, number | null>; // Mean 0-100 per criterion
+  overall: number;
+}
+
+export interface EvaluationDelta {
+  name: string; // Criterion or case ID
+  baseline: number | null;
+  candidate: number | null;
+  delta: number | null;
+}
+
+export interface EvaluationComparison {
+  baseline: EvaluationRun;
+  candidate: EvaluationRun;
+  overallDelta: number;
+  criteria: EvaluationDelta[];
+  cases: EvaluationDelta[]; // Cases evaluated in both runs
+}
+
+/**
+ * All evaluation cases, ordered by ID
+ */
+export async function loadEvaluationCases(): Promise<EvaluationCase[]> {
+  const files = (await listFiles(CASES_DIR)).filter((file) => file.endsWith('.json')).sort();
+  const cases = await Promise.all(files.map((file) => readJson<EvaluationCase | null>(`${CASES_DIR}/${file}`, null)));
+  return cases
+    .map((evalCase, idx) => evalCase && { ...evalCase, id: evalCase.id || files[idx].replace(/\.json$/, '') })
+    .filter((evalCase): evalCase is EvaluationCase => !!evalCase);
+}
+
+/**
+ * Run and score every case that has an output recorded for the template's version
+ */
+export async function runEvaluation(cases: EvaluationCase[], template: PromptTemplate): Promise<EvaluationRun> {
+  const promptVersion = formatPromptVersion(template);
+  const evaluations: CaseEvaluation[] = [];
+  const skipped: string[] = [];
+  const scoringProfiles = await getScoringProfileConfig();
+
+  for (const evalCase of cases) {
+    const output = evalCase.outputs?.[promptVersion];
+    if (output === undefined) {
+      skipped.push(evalCase.id);
+      continue;
+    }
+
+    const service = new SEOSuggestionService(new MockLLMProvider({ fixtures: [{ response: output }] }), { template });
+    const result = await service.generateSuggestions(evalCase.context, evalCase.pageData);
+    const profile = resolveScoringProfile(scoringProfiles, {
+      templateName: evalCase.templateName,
+      pageGoal: evalCase.context.pageGoal,
+    });
+    evaluations.push(evaluateSuggestions(evalCase, parseRecordedOutput(output), result, profile));
+  }
+
+  const criteria = Object.fromEntries(
+    EVALUATION_CRITERIA.map((criterion) => {
+      const scores = evaluations.map((evaluation) => evaluation.criteria[criterion].score);
+      return [criterion, scores.some((score) => score !== null) ? averageScore(scores) : null];
+    })
+  ) as Record<EvaluationCriterion, number | null>;
+
+  return {
+    promptVersion,
+    cases: evaluations,
+    skipped,
+    criteria,
+    overall: averageScore(evaluations.map((evaluation) => evaluation.overall / 100)),
+  };
+}
+
+/**
+ * Run the cases with two prompt versions ("id" or "id@version") and compare the results
+ */
+export async function evaluatePromptVersions(
+  cases: EvaluationCase[],
+  baselineRef: string,
+  candidateRef: string
+): Promise<EvaluationComparison> {
+  const baseline = await runEvaluation(cases, await getPromptTemplate(baselineRef));
+  const candidate = await runEvaluation(cases, await getPromptTemplate(candidateRef));
+  return compareEvaluationRuns(baseline, candidate);
+}
+
+export function compareEvaluationRuns(baseline: EvaluationRun, candidate: EvaluationRun): EvaluationComparison {
+  const delta = (name: string, a: number | null, b: number | null): EvaluationDelta => ({
+    name,
+    baseline: a,
+    candidate: b,
+    delta: a !== null && b !== null ? round(b - a) : null,
+  });
+
+  return {
+    baseline,
+    candidate,
+    overallDelta: round(candidate.overall - baseline.overall),
+    criteria: EVALUATION_CRITERIA.map((criterion) =>
+      delta(criterion, baseline.criteria[criterion], candidate.criteria[criterion])
+    ),
+    cases: baseline.cases.flatMap((before) => {
+      const after = candidate.cases.find((evaluation) => evaluation.caseId === before.caseId);
+      return after ? [delta(before.caseId, before.overall, after.overall)] : [];
+    }),
+  };
+}
+
+/**
+ * Markdown report of a comparison: overall and per-criterion scores, per-case scores
+ * and what lowered the candidate's scores
+ */
+export function formatEvaluationReport(comparison: EvaluationComparison): string {
+  const { baseline, candidate } = comparison;
+  const header = `| | ${baseline.promptVersion} | ${candidate.promptVersion} | Change |\n|---|---:|---:|---:|`;
+  const row = (item: EvaluationDelta) =>
+    `| ${item.name} | ${formatScore(item.baseline)} | ${formatScore(item.candidate)} | ${formatDelta(item.delta)} |`;
+
+  const lines = [
+    `# Suggestion evaluation: ${baseline.promptVersion} → ${candidate.promptVersion}`,
+    '',
+    header,
+    row({ name: '**Overall**', baseline: baseline.overall, candidate: candidate.overall, delta: comparison.overallDelta }),
+    ...comparison.criteria.map(row),
+    '',
+    '## Cases',
+    '',
+    header,
+    ...comparison.cases.map(row),
+  ];
+
+  const skipped = Array.from(new Set([...baseline.skipped, ...candidate.skipped]));
+  if (skipped.length > 0) {
+    lines.push('', `Not compared (no recorded output for both versions): ${skipped.join(', ')}`);
+  }
+
+  const issues = candidate.cases.flatMap((evaluation) =>
+    EVALUATION_CRITERIA.flatMap((criterion) =>
+      evaluation.criteria[criterion].details.map((detail) => `- ${evaluation.caseId} · ${criterion}: ${detail}`)
+    )
+  );
+  if (issues.length > 0) {
+    lines.push('', `## Issues in ${candidate.promptVersion}`, '', ...issues);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// Recorded outputs are JSON objects, or the raw response text
+function parseRecordedOutput(output: unknown): SEOSuggestions {
+  if (typeof output !== 'string') {
+    return output as SEOSuggestions;
+  }
+  try {
+    return JSON.parse(output) as SEOSuggestions;
+  } catch {
+    return {};
+  }
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '–' : score.toFixed(1);
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return '–';
+  return delta > 0 ? `+${delta.toFixed(1)}` : delta.toFixed(1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
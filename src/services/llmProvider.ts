@@ -0,0 +1,423 @@
+// LLM Providers - Chat completion backends for SEO suggestions
+// Server-side only: providers hold API keys. Supported backends:
+//   azure             Azure OpenAI deployment (api-key header, api-version query)
+//   openai            OpenAI API (Bearer token)
+//   openai-compatible Any server exposing /chat/completions (Ollama, vLLM, LM Studio)
+//   mock              Deterministic fixture responses, no network access
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { estimateTokens } from '@/src/utils/tokenBudget';
+import defaultMockResponse from './fixtures/mockSuggestions.json';
+
+export { estimateTokens };
+
+export type LLMProviderName = 'azure' | 'openai' | 'openai-compatible' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object response
+  signal?: AbortSignal; // Cancels the request
+  onUsage?: (usage: TokenUsage) => void; // Streams: called with the usage the server reports at the end
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+// Tokens and latency of one model call (see MeteredLLMProvider)
+export interface LLMCallUsage {
+  usage: TokenUsage;
+  latencyMs: number;
+  estimated: boolean; // The provider reported no usage, so tokens were estimated from the text
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  stream(request: ChatCompletionRequest): AsyncIterable<string>; // Content deltas as they are generated
+}
+
+export interface OpenAIProviderConfig {
+  apiKey?: string; // Optional for local OpenAI-compatible servers
+  model: string;
+  baseUrl?: string; // Defaults to https://api.openai.com/v1
+  streamUsage?: boolean; // Ask for token usage at the end of streams (default true)
+}
+
+export interface AzureOpenAIProviderConfig {
+  endpoint: string;
+  apiKey: string;
+  deployment: string;
+  apiVersion?: string;
+  streamUsage?: boolean; // Ask for token usage at the end of streams; needs a recent apiVersion (default false)
+}
+
+// Canned response for prompts that contain `match` (a regular expression when it is /.../)
+export interface MockFixture {
+  match?: string;
+  response: unknown; // Returned as-is if it is a string, otherwise serialized as JSON
+}
+
+export interface MockLLMProviderConfig {
+  fixtures?: MockFixture[];
+  fixturesPath?: string; // JSON file with a MockFixture[], read on first use
+  model?: string;
+}
+
+/**
+ * Shared client for the OpenAI chat completions wire format
+ */
+abstract class ChatCompletionsProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  abstract readonly model: string;
+
+  protected abstract getUrl(): string;
+  protected abstract getHeaders(): Record<string, string>;
+
+  // Azure selects the model through the deployment in the URL
+  protected includeModel(): boolean {
+    return true;
+  }
+
+  // Ask for usage at the end of streams; servers that reject stream_options report none
+  protected streamUsage = false;
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No content in ${this.name} response`);
+    }
+
+    return {
+      content,
+      model: data.model || this.model,
+      usage: data.usage ? toTokenUsage(data.usage) : undefined,
+    };
+  }
+
+  async *stream(request: ChatCompletionRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error(`No response body from ${this.name}`);
+    }
+
+    // Server-sent events: one "data: {...}" line per delta, ending with "data: [DONE]".
+    // With stream_options.include_usage, the last event before [DONE] carries the usage.
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+
+        const event = JSON.parse(data);
+        if (event.usage) request.onUsage?.(toTokenUsage(event.usage));
+
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  private async post(request: ChatCompletionRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(this.getUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.getHeaders(),
+      },
+      body: JSON.stringify({
+        ...(this.includeModel() ? { model: this.model } : {}),
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        ...(stream ? { stream: true } : {}),
+        ...(stream && this.streamUsage ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${this.name} API error: ${response.status} - ${errorText}`);
+    }
+
+    return response;
+  }
+}
+
+export class OpenAIProvider extends ChatCompletionsProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(config: OpenAIProviderConfig, name: 'openai' | 'openai-compatible' = 'openai') {
+    super();
+    this.name = name;
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+    this.streamUsage = config.streamUsage ?? true;
+  }
+
+  protected getUrl(): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+}
+
+export class AzureOpenAIProvider extends ChatCompletionsProvider {
+  readonly name = 'azure' as const;
+  readonly model: string;
+  private endpoint: string;
+  private apiKey: string;
+  private apiVersion: string;
+
+  constructor(config: AzureOpenAIProviderConfig) {
+    super();
+    this.endpoint = config.endpoint.replace(/\/$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.deployment;
+    this.apiVersion = config.apiVersion || '2024-02-15-preview';
+    this.streamUsage = config.streamUsage ?? false;
+  }
+
+  protected getUrl(): string {
+    return `${this.endpoint}/openai/deployments/${this.model}/chat/completions?api-version=${this.apiVersion}`;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return { 'api-key': this.apiKey };
+  }
+
+  protected includeModel(): boolean {
+    return false;
+  }
+}
+
+const MOCK_STREAM_CHUNK_SIZE = 64;
+
+/**
+ * Fixture-backed provider for tests and offline development.
+ * The first fixture whose `match` is found in the prompt wins; without a match,
+ * a generic suggestions response is returned. Token usage is estimated from text length.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly model: string;
+  readonly requests: ChatCompletionRequest[] = []; // Every request received, for assertions
+  private fixtures?: MockFixture[];
+  private fixturesPath?: string;
+
+  constructor(config: MockLLMProviderConfig = {}) {
+    this.fixtures = config.fixtures;
+    this.fixturesPath = config.fixturesPath;
+    this.model = config.model || 'mock';
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    this.requests.push(request);
+
+    const prompt = request.messages.map((message) => message.content).join('\n');
+    const fixtures = await this.loadFixtures();
+    const fixture = fixtures.find((candidate) => matchesPrompt(candidate.match, prompt));
+    const response = fixture ? fixture.response : defaultMockResponse;
+    const content = typeof response === 'string' ? response : JSON.stringify(response);
+
+    return { content, model: this.model, usage: estimateUsage(request, content) };
+  }
+
+  // Replays the fixture in small chunks, like a streamed completion
+  async *stream(request: ChatCompletionRequest): AsyncIterable<string> {
+    const { content, usage } = await this.complete(request);
+
+    for (let i = 0; i < content.length; i += MOCK_STREAM_CHUNK_SIZE) {
+      if (request.signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      yield content.substring(i, i + MOCK_STREAM_CHUNK_SIZE);
+    }
+    if (usage) request.onUsage?.(usage);
+  }
+
+  private async loadFixtures(): Promise<MockFixture[]> {
+    if (!this.fixtures) {
+      this.fixtures = this.fixturesPath
+        ? (JSON.parse(await fs.readFile(path.resolve(this.fixturesPath), 'utf8')) as MockFixture[])
+        : [];
+    }
+    return this.fixtures;
+  }
+}
+
+/**
+ * Wraps a provider and reports the tokens and latency of every call it makes.
+ * Streams without reported usage are estimated from the prompt and the streamed text.
+ */
+export class MeteredLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  private provider: LLMProvider;
+  private onCall: (call: LLMCallUsage) => void;
+
+  constructor(provider: LLMProvider, onCall: (call: LLMCallUsage) => void) {
+    this.provider = provider;
+    this.name = provider.name;
+    this.model = provider.model;
+    this.onCall = onCall;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const startedAt = Date.now();
+    const result = await this.provider.complete(request);
+    this.onCall({
+      usage: result.usage || estimateUsage(request, result.content),
+      latencyMs: Date.now() - startedAt,
+      estimated: !result.usage,
+    });
+    return result;
+  }
+
+  // Also counts streams that fail or are cancelled part way, since their tokens are billed too
+  async *stream(request: ChatCompletionRequest): AsyncIterable<string> {
+    const startedAt = Date.now();
+    let reported: TokenUsage | undefined;
+    let content = '';
+
+    try {
+      for await (const delta of this.provider.stream({
+        ...request,
+        onUsage: (usage) => {
+          reported = usage;
+          request.onUsage?.(usage);
+        },
+      })) {
+        content += delta;
+        yield delta;
+      }
+    } finally {
+      this.onCall({
+        usage: reported || estimateUsage(request, content),
+        latencyMs: Date.now() - startedAt,
+        estimated: !reported,
+      });
+    }
+  }
+}
+
+/**
+ * Create the provider selected by LLM_PROVIDER (defaults to Azure OpenAI).
+ * Returns null if the selected provider is missing required settings.
+ */
+export function createLLMProvider(env: Record<string, string | undefined> = process.env): LLMProvider | null {
+  const providerName = (env.LLM_PROVIDER || 'azure').toLowerCase() as LLMProviderName;
+
+  switch (providerName) {
+    case 'azure': {
+      if (!env.AZURE_OPENAI_ENDPOINT || !env.AZURE_OPENAI_API_KEY) {
+        console.warn('⚠️ Azure OpenAI not configured. Set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY');
+        return null;
+      }
+      return new AzureOpenAIProvider({
+        endpoint: env.AZURE_OPENAI_ENDPOINT,
+        apiKey: env.AZURE_OPENAI_API_KEY,
+        deployment: env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4',
+        apiVersion: env.AZURE_OPENAI_API_VERSION,
+        streamUsage: parseFlag(env.LLM_STREAM_USAGE),
+      });
+    }
+    case 'openai': {
+      if (!env.OPENAI_API_KEY) {
+        console.warn('⚠️ OpenAI not configured. Set OPENAI_API_KEY');
+        return null;
+      }
+      return new OpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || 'gpt-4o',
+        baseUrl: env.OPENAI_BASE_URL,
+        streamUsage: parseFlag(env.LLM_STREAM_USAGE),
+      });
+    }
+    case 'openai-compatible': {
+      if (!env.LLM_BASE_URL || !env.LLM_MODEL) {
+        console.warn('⚠️ OpenAI-compatible provider not configured. Set LLM_BASE_URL and LLM_MODEL');
+        return null;
+      }
+      return new OpenAIProvider(
+        {
+          apiKey: env.LLM_API_KEY,
+          model: env.LLM_MODEL,
+          baseUrl: env.LLM_BASE_URL,
+          streamUsage: parseFlag(env.LLM_STREAM_USAGE) ?? false,
+        },
+        'openai-compatible'
+      );
+    }
+    case 'mock':
+      return new MockLLMProvider({ fixturesPath: env.LLM_MOCK_FIXTURES });
+    default:
+      console.warn(`⚠️ Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Use azure, openai, openai-compatible or mock`);
+      return null;
+  }
+}
+
+function matchesPrompt(match: string | undefined, prompt: string): boolean {
+  if (!match) return true;
+
+  const regex = match.match(/^\/(.+)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]).test(prompt) : prompt.includes(match);
+}
+
+function toTokenUsage(usage: any): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? 0,
+  };
+}
+
+function estimateUsage(request: ChatCompletionRequest, content: string): TokenUsage {
+  const promptTokens = estimateTokens(request.messages.map((message) => message.content).join('\n'));
+  const completionTokens = estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// "true"/"1" or "false"/"0"; undefined when not set
+function parseFlag(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === '') return undefined;
+  return value === 'true' || value === '1';
+}
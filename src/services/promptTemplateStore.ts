@@ -0,0 +1,59 @@
+// Prompt Template Store - Loads versioned prompt templates and picks one per page (server-side)
+//
+// Templates are JSON files in SEO_DATA_DIR/prompt-templates/<id>/<version>.json, so the
+// prompts can be tuned without a deploy. prompt-templates/selection.json picks the
+// template per site or page goal; otherwise the latest "default" is used.
+
+import type { PageContext, PromptTemplate, PromptTemplateSelection } from '@/src/types/seo';
+import { comparePromptVersions, parsePromptTemplate } from '@/src/utils/promptTemplate';
+import { DEFAULT_PROMPT_TEMPLATE } from './defaultPromptTemplate';
+import { listFiles, readJson, toSafeFileName } from './dataStore';
+
+const TEMPLATE_DIR = 'prompt-templates';
+const SELECTION_FILE = `${TEMPLATE_DIR}/selection.json`;
+
+/**
+ * Stored versions of a template, oldest first. The built-in default counts as a version of "default".
+ */
+export async function listPromptTemplateVersions(id: string): Promise<string[]> {
+  const files = await listFiles(`${TEMPLATE_DIR}/${toSafeFileName(id)}`);
+  const versions = files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -'.json'.length));
+  if (id === DEFAULT_PROMPT_TEMPLATE.id && !versions.includes(DEFAULT_PROMPT_TEMPLATE.version)) {
+    versions.push(DEFAULT_PROMPT_TEMPLATE.version);
+  }
+  return versions.sort(comparePromptVersions);
+}
+
+/**
+ * Load a template by "id" (latest version) or "id@version". Throws if it does not exist or is invalid.
+ */
+export async function getPromptTemplate(ref: string): Promise<PromptTemplate> {
+  const [id, pinned] = ref.split('@');
+  const version = pinned || (await listPromptTemplateVersions(id)).pop();
+  if (!version) {
+    throw new Error(`Prompt template "${ref}" not found`);
+  }
+
+  const stored = await readJson<unknown>(`${TEMPLATE_DIR}/${toSafeFileName(id)}/${toSafeFileName(version)}.json`, null);
+  if (stored === null) {
+    if (id === DEFAULT_PROMPT_TEMPLATE.id && version === DEFAULT_PROMPT_TEMPLATE.version) {
+      return DEFAULT_PROMPT_TEMPLATE;
+    }
+    throw new Error(`Prompt template "${id}@${version}" not found`);
+  }
+  return parsePromptTemplate(stored, id, version);
+}
+
+/**
+ * The template for a page: its site's, else its page goal's, else the default one
+ */
+export async function resolvePromptTemplate(context: PageContext): Promise<PromptTemplate> {
+  const selection = await readJson<PromptTemplateSelection>(SELECTION_FILE, {});
+  const ref =
+    (context.site && selection.sites?.[context.site]) ||
+    selection.pageGoals?.[context.pageGoal] ||
+    selection.default ||
+    DEFAULT_PROMPT_TEMPLATE.id;
+
+  return getPromptTemplate(ref);
+}
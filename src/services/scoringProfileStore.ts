@@ -0,0 +1,17 @@
+// Scoring Profile Store - Loads the stored scoring profiles and their selection (server-side)
+//
+// SEO_DATA_DIR/scoring-profiles.json adds or overrides profiles and picks one per page
+// template or page goal; without it the built-in profiles are used.
+
+import type { ScoringProfileConfig } from '@/src/types/seo';
+import { parseScoringProfileConfig } from '@/src/utils/scoringProfiles';
+import { readJson } from './dataStore';
+
+const CONFIG_FILE = 'scoring-profiles.json';
+
+/**
+ * The scoring profiles and their selection, stored values merged over the built-in ones
+ */
+export async function getScoringProfileConfig(): Promise<ScoringProfileConfig> {
+  return parseScoringProfileConfig(await readJson<unknown>(CONFIG_FILE, {}));
+}
@@ -0,0 +1,1089 @@
+// SEO Suggestion Service - Builds the SEO prompt and validates the model response
+// Server-side only: the LLM provider holds API keys (see /api/suggestions)
+//
+// Pages whose prompt exceeds the token budget are analyzed map-reduce style:
+// one request per chunk of components, then a page-level consolidation request.
+// The prompt wording comes from a versioned PromptTemplate; this file only builds its data.
+
+import type {
+  AlternativesRequest,
+  BrandRules,
+  ComponentContent,
+  ComponentSuggestion,
+  CompetitorAnalysis,
+  PageContext,
+  PageData,
+  PromptTemplate,
+  RichTextSegment,
+  SEOSuggestions,
+  SuggestionAlternative,
+  SuggestionStreamEvent,
+  SuggestionValidationReport,
+  ValidationReportItem,
+} from '@/src/types/seo';
+import { checkBrandText, checkSuggestionsBrandRules, hasBrandRules } from '@/src/utils/brandRules';
+import {
+  formatPromptVersion,
+  PROMPT_BLOCKS,
+  renderPromptTemplate,
+  type PromptTemplatePart,
+  type PromptVariables,
+} from '@/src/utils/promptTemplate';
+import { listMarkupTokens, segmentPlainText } from '@/src/utils/richTextSegments';
+import { fitsSerpWidth, SERP_LIMITS } from '@/src/utils/serpWidth';
+import { describeTarget, getTargetLimits } from '@/src/utils/suggestionAlternatives';
+import { verifySuggestionGrounding } from '@/src/utils/suggestionGrounding';
+import { JsonArrayStreamParser } from '@/src/utils/jsonArrayStream';
+import {
+  describeSuggestionPath,
+  getAtPath,
+  parsePath,
+  pruneInvalidSuggestions,
+  setAtPath,
+  validateSuggestionSchema,
+} from '@/src/utils/suggestionSchema';
+import { chunkByTokenBudget, estimateTokens, truncateToTokens } from '@/src/utils/tokenBudget';
+import { DEFAULT_PROMPT_TEMPLATE } from './defaultPromptTemplate';
+import {
+  createLLMProvider,
+  MeteredLLMProvider,
+  type ChatCompletionRequest,
+  type LLMCallUsage,
+  type LLMProvider,
+} from './llmProvider';
+
+export interface SEOSuggestionServiceOptions {
+  promptTokenBudget?: number; // Max estimated prompt tokens per request
+  maxComponentsPerChunk?: number; // Keeps each chunk's response within maxTokens
+  template?: PromptTemplate; // Defaults to the built-in template
+}
+
+const DEFAULT_PROMPT_TOKEN_BUDGET = 6000;
+const DEFAULT_MAX_COMPONENTS_PER_CHUNK = 10;
+const MIN_CONTENT_TOKENS = 500; // Floor for page/component content when the budget is very small
+const SINGLE_PASS_TEXT_PREVIEW_CHARS = 500; // Components carry the full text; the page text is context only
+const DEFAULT_ALTERNATIVES = 3;
+const MAX_ALTERNATIVES = 5;
+
+// Requests for one page: a single request, or component chunks followed by a consolidation pass
+interface SuggestionPlan {
+  requests: ChatCompletionRequest[];
+  consolidate: boolean;
+}
+
+export class SEOSuggestionService {
+  private provider: LLMProvider;
+  private promptTokenBudget: number;
+  private maxComponentsPerChunk: number;
+  private template: PromptTemplate;
+
+  constructor(provider: LLMProvider, options: SEOSuggestionServiceOptions = {}) {
+    this.provider = provider;
+    this.promptTokenBudget = options.promptTokenBudget || DEFAULT_PROMPT_TOKEN_BUDGET;
+    this.maxComponentsPerChunk = options.maxComponentsPerChunk || DEFAULT_MAX_COMPONENTS_PER_CHUNK;
+    this.template = options.template || DEFAULT_PROMPT_TEMPLATE;
+  }
+
+  /**
+   * Version of the prompts this service sends, "id@version" of its template
+   */
+  getPromptVersion(): string {
+    return formatPromptVersion(this.template);
+  }
+
+  /**
+   * Provider and model that generate the suggestions, e.g. "azure:gpt-4"
+   */
+  getModelId(): string {
+    return `${this.provider.name}:${this.provider.model}`;
+  }
+
+  /**
+   * Generate SEO suggestions with the configured LLM provider
+   */
+  async generateSuggestions(
+    context: PageContext,
+    pageData: PageData,
+    competitors?: CompetitorAnalysis[]
+  ): Promise<SEOSuggestions> {
+    try {
+      const plan = this.planRequests(context, pageData, competitors);
+      const results: SEOSuggestions[] = [];
+
+      for (const request of plan.requests) {
+        const { content } = await this.provider.complete(request);
+        results.push(await this.validateSchema(request, content));
+      }
+
+      if (plan.consolidate) {
+        const request = this.buildRequest(this.buildConsolidationPrompt(context, pageData, competitors, results));
+        const { content } = await this.provider.complete(request);
+        results.unshift(await this.validateSchema(request, content));
+      }
+
+      return this.validateAndCleanSuggestions(mergeSuggestions(results), pageData, context.brandRules);
+    } catch (error) {
+      console.error('Error generating SEO suggestions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream SEO suggestions: each component is yielded as soon as the model has finished it,
+   * followed by the full validated result
+   */
+  async *streamSuggestions(
+    context: PageContext,
+    pageData: PageData,
+    competitors?: CompetitorAnalysis[],
+    signal?: AbortSignal
+  ): AsyncGenerator<SuggestionStreamEvent> {
+    const plan = this.planRequests(context, pageData, competitors);
+    const results: SEOSuggestions[] = [];
+
+    for (const planned of plan.requests) {
+      const parser = new JsonArrayStreamParser('components');
+      const request = { ...planned, signal };
+
+      for await (const chunk of this.provider.stream(request)) {
+        for (const element of parser.push(chunk)) {
+          // Invalid items are left out here; the repaired result and report arrive with "done"
+          const { value: valid } = pruneInvalidSuggestions({ components: [element as ComponentSuggestion] });
+          const { value: grounded } = verifySuggestionGrounding(valid, pageData);
+          const { value } = hasBrandRules(context.brandRules)
+            ? checkSuggestionsBrandRules(grounded, pageData, context.brandRules)
+            : { value: grounded };
+          const component = value.components?.[0] && this.validateComponentSuggestion(value.components[0], pageData);
+          if (component) {
+            yield { type: 'component', component };
+          }
+        }
+      }
+
+      results.push(await this.validateSchema(request, parser.getText()));
+    }
+
+    if (plan.consolidate) {
+      const request = {
+        ...this.buildRequest(this.buildConsolidationPrompt(context, pageData, competitors, results)),
+        signal,
+      };
+      const { content } = await this.provider.complete(request);
+      results.unshift(await this.validateSchema(request, content));
+    }
+
+    yield {
+      type: 'done',
+      suggestions: this.validateAndCleanSuggestions(mergeSuggestions(results), pageData, context.brandRules),
+    };
+  }
+
+  /**
+   * Generate alternatives for one suggestion, or refine it with the author's instruction.
+   * The prompt covers only that field, its component and the page context.
+   */
+  async generateAlternatives(
+    context: PageContext,
+    pageData: PageData,
+    request: AlternativesRequest
+  ): Promise<SuggestionAlternative[]> {
+    const { target } = request;
+    const component =
+      'componentId' in target
+        ? pageData.components?.find((comp) => comp.componentId === target.componentId)
+        : undefined;
+    const segments =
+      target.kind === 'paragraph'
+        ? component?.paragraphs.find((para) => para.fieldName === target.fieldName)?.segments
+        : undefined;
+    const count = request.instruction
+      ? 1
+      : Math.min(Math.max(request.count || DEFAULT_ALTERNATIVES, 1), MAX_ALTERNATIVES);
+
+    const variables = buildAlternativesVariables(context, pageData, request, count, component, segments);
+    const { content } = await this.provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: this.renderPrompt('alternativesSystem', variables),
+        },
+        {
+          role: 'user',
+          content: this.renderPrompt('alternatives', variables),
+        },
+      ],
+      temperature: request.instruction ? 0.3 : 0.8,
+      maxTokens: 1500,
+      json: true,
+    });
+
+    const alternatives = parseAlternatives(content, request, segments, context.brandRules).slice(0, count);
+    if (alternatives.length === 0) {
+      throw new Error('The model returned no usable alternatives');
+    }
+    return alternatives;
+  }
+
+  /**
+   * Parse the model response and check it against the suggestions schema.
+   * Invalid items get one targeted repair re-prompt; anything still invalid is discarded.
+   */
+  private async validateSchema(request: ChatCompletionRequest, content: string): Promise<SEOSuggestions> {
+    const parsed = await this.parseResponse(request, content);
+    const suggestions = parsed.suggestions;
+    const { units } = validateSuggestionSchema(suggestions);
+    if (units.size === 0) {
+      return suggestions;
+    }
+
+    const failing: ValidationReportItem[] = Array.from(units.entries()).map(([path, violations]) => ({
+      path,
+      label: describeSuggestionPath(suggestions, path),
+      violations,
+    }));
+    const repairs = await this.requestRepairs(request, parsed.content, suggestions, failing);
+    for (const item of failing) {
+      if (item.path in repairs) {
+        setAtPath(suggestions, parsePath(item.path), repairs[item.path]);
+      }
+    }
+
+    const remaining = validateSuggestionSchema(suggestions).units;
+    const { value, discarded } = pruneInvalidSuggestions(suggestions);
+    const report: SuggestionValidationReport = {
+      repairAttempted: true,
+      fixed: failing.filter((item) => item.path in repairs && !remaining.has(item.path)),
+      discarded,
+    };
+
+    if (report.discarded.length > 0) {
+      console.warn(
+        `⚠️ Discarded ${report.discarded.length} invalid suggestion(s):`,
+        report.discarded.map((item) => item.path).join(', ')
+      );
+    }
+
+    return { ...value, validation: report };
+  }
+
+  /**
+   * Parse the model response as JSON, asking the model once to resend it if it is malformed
+   */
+  private async parseResponse(
+    request: ChatCompletionRequest,
+    content: string
+  ): Promise<{ suggestions: SEOSuggestions; content: string }> {
+    try {
+      return { suggestions: parseSuggestionsJson(content), content };
+    } catch (error) {
+      const retry = await this.provider.complete({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content },
+          {
+            role: 'user',
+            content: `=== INVALID JSON ===\nYour response could not be parsed (${(error as Error).message}). Return the complete response again as valid JSON only.`,
+          },
+        ],
+      });
+      return { suggestions: parseSuggestionsJson(retry.content), content: retry.content };
+    }
+  }
+
+  /**
+   * Ask the model to correct only the items that failed validation.
+   * Returns corrected values by path; an empty object if the repair failed.
+   */
+  private async requestRepairs(
+    request: ChatCompletionRequest,
+    content: string,
+    suggestions: SEOSuggestions,
+    failing: ValidationReportItem[]
+  ): Promise<Record<string, unknown>> {
+    const current = Object.fromEntries(failing.map((item) => [item.path, getAtPath(suggestions, parsePath(item.path))]));
+    const prompt = [
+      `=== VALIDATION ERRORS ===`,
+      `Some items in your response are invalid:`,
+      ...failing.flatMap((item) => item.violations.map((violation) => `- ${violation.path}: ${violation.message}`)),
+      `\nCurrent values by path:`,
+      JSON.stringify(current, null, 2),
+      `\nReturn ONLY valid JSON of the form {"repairs": {"<path>": <corrected value>}} with one entry per path above.`,
+      `Keep the structure of each current value and fix every listed problem. Leave out an item only if it cannot be fixed.`,
+    ].join('\n');
+
+    try {
+      const repair = await this.provider.complete({
+        ...request,
+        messages: [...request.messages, { role: 'assistant', content }, { role: 'user', content: prompt }],
+      });
+      const repairs = JSON.parse(repair.content)?.repairs;
+      return repairs && typeof repairs === 'object' && !Array.isArray(repairs) ? repairs : {};
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      console.warn('⚠️ Suggestion repair failed:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Plan the requests for a page. Pages that fit the prompt budget get a single request;
+   * larger pages are analyzed in component chunks (map), then page-level metadata, keywords,
+   * structure and readability are produced in a consolidation pass (reduce).
+   */
+  private planRequests(
+    context: PageContext,
+    pageData: PageData,
+    competitors?: CompetitorAnalysis[]
+  ): SuggestionPlan {
+    const single = this.buildRequest(this.buildPrompt(context, pageData, competitors));
+    const components = pageData.components || [];
+    if (estimateRequestTokens(single) <= this.promptTokenBudget && components.length <= this.maxComponentsPerChunk) {
+      return { requests: [single], consolidate: false };
+    }
+
+    const available = this.getComponentTokenBudget(context);
+    const chunks = chunkByTokenBudget(
+      components,
+      available,
+      (component) => estimateTokens(formatComponent(component, 0)),
+      this.maxComponentsPerChunk
+    );
+
+    return {
+      requests: chunks.map((chunk) => this.buildRequest(this.buildComponentPrompt(context, chunk, available))),
+      consolidate: true,
+    };
+  }
+
+  /**
+   * Tokens left for component content once the shared parts of a chunk prompt are counted
+   */
+  private getComponentTokenBudget(context: PageContext): number {
+    const overhead = estimateTokens(this.getSystemPrompt()) + estimateTokens(this.buildComponentPrompt(context, [], 0));
+    return Math.max(this.promptTokenBudget - overhead, MIN_CONTENT_TOKENS);
+  }
+
+  /**
+   * Build the chat completion request for a prompt
+   */
+  private buildRequest(prompt: string): ChatCompletionRequest {
+    return {
+      messages: [
+        {
+          role: 'system',
+          content: this.getSystemPrompt(),
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 4000,
+      json: true,
+    };
+  }
+
+  /**
+   * Build the prompt - Comprehensive page analysis
+   */
+  private buildPrompt(context: PageContext, pageData: PageData, competitors?: CompetitorAnalysis[]): string {
+    const parts: string[] = [];
+
+    // Component-level content
+    if (pageData.components && pageData.components.length > 0) {
+      parts.push(`\n=== COMPONENT-BY-COMPONENT BREAKDOWN ===`);
+      pageData.components.forEach((component, idx) => {
+        parts.push(formatComponent(component, idx));
+      });
+    } else {
+      // Fallback to flat structure if components not available
+      if (pageData.images.length > 0) {
+        parts.push(`\nImages (${pageData.images.length}):`);
+        pageData.images.forEach((img, idx) => {
+          parts.push(`- Image ${img.id || idx + 1}: alt="${img.alt || '(no alt text)'}" src="${img.src.substring(0, 60)}${img.src.length > 60 ? '...' : ''}"`);
+        });
+      }
+
+      if (pageData.links.length > 0) {
+        parts.push(`\nLinks (${pageData.links.length}):`);
+        pageData.links.forEach((link, idx) => {
+          const status = link.isPlaceholder ? '[PLACEHOLDER]' : link.isBroken ? '[BROKEN]' : '[OK]';
+          parts.push(`- Link ${idx + 1}: text="${link.text || '(no text)'}" href="${link.href || '(no href)'}" ${status}`);
+        });
+      }
+    }
+
+    return this.renderPrompt('page', {
+      ...buildSharedVariables(context, competitors),
+      page: buildPageLines(pageData, estimateTokens(pageData.text.substring(0, SINGLE_PASS_TEXT_PREVIEW_CHARS))).join('\n'),
+      components: parts.join('\n'),
+    });
+  }
+
+  /**
+   * Build the prompt for one chunk of components (map step for large pages)
+   */
+  private buildComponentPrompt(context: PageContext, components: ComponentContent[], availableTokens: number): string {
+    const parts: string[] = [];
+
+    parts.push(`\n=== COMPONENT-BY-COMPONENT BREAKDOWN ===`);
+    components.forEach((component, idx) => {
+      const formatted = formatComponent(component, idx);
+      const tokens = estimateTokens(formatted);
+      const plainParagraphs = component.paragraphs.filter((para) => !para.segments?.length).length;
+
+      if (tokens <= availableTokens || plainParagraphs === 0) {
+        parts.push(formatted);
+        return;
+      }
+
+      // A component larger than the whole budget: share what is left between its paragraphs
+      const otherTokens = tokens - component.paragraphs.reduce((sum, para) => sum + estimateTokens(para.text), 0);
+      parts.push(formatComponent(component, idx, Math.max(Math.floor((availableTokens - otherTokens) / plainParagraphs), 50)));
+    });
+
+    return this.renderPrompt('components', {
+      ...buildSharedVariables(context),
+      components: parts.join('\n'),
+    });
+  }
+
+  /**
+   * Build the page-level prompt for large pages (reduce step), summarizing the component suggestions
+   */
+  private buildConsolidationPrompt(
+    context: PageContext,
+    pageData: PageData,
+    competitors: CompetitorAnalysis[] | undefined,
+    componentResults: SEOSuggestions[]
+  ): string {
+    const outline: string[] = [];
+    if (pageData.components && pageData.components.length > 0) {
+      outline.push(`\n=== PAGE OUTLINE (${pageData.components.length} components) ===`);
+      pageData.components.forEach((component, idx) => {
+        const headings = component.headings.all.slice(0, 3).join(' | ');
+        outline.push(`${idx + 1}. ${component.componentName}${headings ? `: ${headings}` : ''}`);
+      });
+    }
+
+    const suggestedLines: string[] = [];
+    const suggested = componentResults.flatMap((result) => result.components || []);
+    if (suggested.length > 0) {
+      suggestedLines.push(`\n=== COMPONENT SUGGESTIONS ALREADY MADE ===`);
+      suggested.forEach((component) => {
+        const headings = [
+          component.headings?.h1,
+          ...(component.headings?.improvements || []).map((imp) => imp.suggested),
+        ].filter(Boolean);
+        if (headings.length > 0) {
+          suggestedLines.push(`- ${component.componentName}: ${headings.join(' | ')}`);
+        }
+      });
+    }
+
+    const build = (textTokens: number) =>
+      this.renderPrompt('consolidation', {
+        ...buildSharedVariables(context, competitors),
+        page: buildPageLines(pageData, textTokens).join('\n'),
+        outline: outline.join('\n'),
+        componentSuggestions: suggestedLines.join('\n'),
+      });
+
+    // Give the page text whatever budget the rest of the prompt leaves
+    const overhead = estimateTokens(this.getSystemPrompt()) + estimateTokens(build(0));
+    return build(Math.max(this.promptTokenBudget - overhead, MIN_CONTENT_TOKENS));
+  }
+
+  /**
+   * Get system prompt - Comprehensive page optimization (from the template)
+   */
+  private getSystemPrompt(): string {
+    return renderPromptTemplate(this.template.system, buildSerpVariables());
+  }
+
+  /**
+   * Render a prompt of the template: the instruction blocks first, then the prompt with them
+   */
+  private renderPrompt(part: PromptTemplatePart, variables: PromptVariables): string {
+    const blocks: PromptVariables = {};
+    for (const block of PROMPT_BLOCKS) {
+      blocks[block] = renderPromptTemplate(this.template[block], variables);
+    }
+    return renderPromptTemplate(this.template[part], { ...variables, ...blocks });
+  }
+
+
+  /**
+   * Validate and clean suggestions - Comprehensive validation
+   */
+  private validateAndCleanSuggestions(
+    response: SEOSuggestions,
+    pageData: PageData,
+    brandRules?: BrandRules
+  ): SEOSuggestions {
+    // Drop suggestions for components, fields or text the page does not have
+    const { value: grounded, rejected } = verifySuggestionGrounding(response, pageData);
+    // Drop suggestions that break the brand rules, flag the ones to review
+    const { value: suggestions, report: brand } = hasBrandRules(brandRules)
+      ? checkSuggestionsBrandRules(grounded, pageData, brandRules)
+      : { value: grounded, report: undefined };
+    const cleaned: SEOSuggestions = {};
+
+    // Validate metadata
+    if (suggestions.metadata) {
+      cleaned.metadata = {};
+      
+      if (suggestions.metadata.title) {
+        const title = suggestions.metadata.title.trim();
+        if (title.length > 0 && fitsSerpWidth(title, 'title')) {
+          cleaned.metadata.title = title;
+        }
+      }
+
+      if (suggestions.metadata.description) {
+        const desc = suggestions.metadata.description.trim();
+        if (desc.length > 0 && fitsSerpWidth(desc, 'description')) {
+          cleaned.metadata.description = desc;
+        }
+      }
+    }
+
+    // Validate component-level suggestions
+    if (suggestions.components && suggestions.components.length > 0) {
+      cleaned.components = suggestions.components.flatMap((comp) => {
+        const cleanedComp = this.validateComponentSuggestion(comp, pageData);
+        return cleanedComp ? [cleanedComp] : [];
+      });
+    }
+
+    // Validate keywords
+    if (suggestions.keywords) {
+      cleaned.keywords = {};
+      
+      if (suggestions.keywords.suggested && suggestions.keywords.suggested.length > 0) {
+        cleaned.keywords.suggested = suggestions.keywords.suggested
+          .map((k) => k.trim())
+          .filter((k) => k.length > 0);
+      }
+
+      if (suggestions.keywords.usage && suggestions.keywords.usage.length > 0) {
+        cleaned.keywords.usage = suggestions.keywords.usage.filter(
+          (u) => u.keyword && u.currentCount !== undefined
+        );
+      }
+    }
+
+    // Validate structure
+    if (suggestions.structure) {
+      cleaned.structure = {};
+      
+      if (suggestions.structure.suggestions && suggestions.structure.suggestions.length > 0) {
+        cleaned.structure.suggestions = suggestions.structure.suggestions.filter(
+          (s) => s.trim().length > 0
+        );
+      }
+
+      if (suggestions.structure.missing && suggestions.structure.missing.length > 0) {
+        cleaned.structure.missing = suggestions.structure.missing.filter(
+          (m) => m.trim().length > 0
+        );
+      }
+    }
+
+    // Validate readability
+    if (suggestions.readability) {
+      cleaned.readability = suggestions.readability;
+    }
+
+    if (suggestions.validation) {
+      cleaned.validation = suggestions.validation;
+    }
+
+    if (rejected.length > 0) {
+      console.warn(
+        `⚠️ Rejected ${rejected.length} suggestion(s) not found on the page:`,
+        rejected.map((item) => item.path).join(', ')
+      );
+      cleaned.validation = {
+        repairAttempted: false,
+        fixed: [],
+        discarded: [],
+        ...cleaned.validation,
+        rejected,
+      };
+    }
+
+    cleaned.promptVersion = this.getPromptVersion();
+
+    if (brand && (brand.rejected.length > 0 || brand.flagged.length > 0)) {
+      if (brand.rejected.length > 0) {
+        console.warn(
+          `⚠️ Rejected ${brand.rejected.length} suggestion(s) that break the brand rules:`,
+          brand.rejected.map((item) => item.path).join(', ')
+        );
+      }
+      cleaned.brand = brand;
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * Validate and clean one component's suggestions.
+   * Returns null if nothing usable is left.
+   */
+  private validateComponentSuggestion(
+    comp: ComponentSuggestion,
+    pageData: PageData
+  ): ComponentSuggestion | null {
+    if (!comp?.componentId || !comp.componentName) {
+      return null;
+    }
+
+    const cleanedComp: ComponentSuggestion = {
+      componentId: comp.componentId,
+      componentName: comp.componentName,
+      path: comp.path || [],
+    };
+
+    // Validate metadata
+    if (comp.metadata) {
+      cleanedComp.metadata = {};
+      if (comp.metadata.title && comp.metadata.title.trim().length > 0 && fitsSerpWidth(comp.metadata.title, 'title')) {
+        cleanedComp.metadata.title = comp.metadata.title.trim();
+      }
+      if (
+        comp.metadata.description &&
+        comp.metadata.description.trim().length > 0 &&
+        fitsSerpWidth(comp.metadata.description, 'description')
+      ) {
+        cleanedComp.metadata.description = comp.metadata.description.trim();
+      }
+    }
+
+    // Validate headings
+    if (comp.headings) {
+      cleanedComp.headings = {};
+      if (comp.headings.h1 && comp.headings.h1.trim().length > 0) {
+        cleanedComp.headings.h1 = comp.headings.h1.trim();
+      }
+      if (comp.headings.h2 && comp.headings.h2.length > 0) {
+        cleanedComp.headings.h2 = comp.headings.h2.map((h) => h.trim()).filter((h) => h.length > 0);
+      }
+      if (comp.headings.h3 && comp.headings.h3.length > 0) {
+        cleanedComp.headings.h3 = comp.headings.h3.map((h) => h.trim()).filter((h) => h.length > 0);
+      }
+      if (comp.headings.improvements && comp.headings.improvements.length > 0) {
+        cleanedComp.headings.improvements = comp.headings.improvements.filter(
+          (imp) => imp.fieldName && imp.current && imp.suggested && imp.reason
+        );
+      }
+    }
+
+    // Validate content
+    if (comp.content?.paragraphs && comp.content.paragraphs.length > 0) {
+      cleanedComp.content = {
+        paragraphs: comp.content.paragraphs
+          .map((p) => {
+            const segments = Array.isArray(p.segments)
+              ? p.segments.filter((seg) => seg && typeof seg.id === 'string' && typeof seg.suggested === 'string')
+              : undefined;
+            return {
+              ...p,
+              segments,
+              // Readable version of a segment-only rewrite
+              suggested: p.suggested || segments?.map((seg) => segmentPlainText(seg.suggested)).join(' ') || '',
+            };
+          })
+          .filter((p) => p.fieldName && p.original && p.suggested && p.reason),
+      };
+    }
+
+    // Validate images
+    if (comp.images && comp.images.length > 0) {
+      cleanedComp.images = comp.images
+        .filter((img) => {
+          const originalImg = pageData.images.find((i) => i.id === img.id);
+          return originalImg && img.alt && img.alt.trim().length >= 5 && img.fieldName;
+        })
+        .map((img) => {
+          const originalImg = pageData.images.find((i) => i.id === img.id);
+          return {
+            id: img.id,
+            fieldName: img.fieldName,
+            alt: img.alt.trim(),
+            currentAlt: img.currentAlt || originalImg?.alt,
+          };
+        });
+    }
+
+    // Validate links
+    if (comp.links && comp.links.length > 0) {
+      cleanedComp.links = comp.links.filter(
+        (link) => link.fieldName && link.href && link.reason
+      );
+    }
+
+    // Only include components that have at least one suggestion
+    const hasSuggestions =
+      cleanedComp.metadata ||
+      (cleanedComp.headings &&
+        (cleanedComp.headings.h1 ||
+          cleanedComp.headings.h2 ||
+          cleanedComp.headings.h3 ||
+          cleanedComp.headings.improvements?.length)) ||
+      cleanedComp.content?.paragraphs?.length ||
+      cleanedComp.images?.length ||
+      cleanedComp.links?.length;
+
+    return hasSuggestions ? cleanedComp : null;
+  }
+}
+
+/**
+ * Page metadata, headings and up to `textTokens` tokens of the page text
+ */
+function buildPageLines(pageData: PageData, textTokens: number): string[] {
+  const parts: string[] = [];
+
+  parts.push(`\n=== CURRENT PAGE CONTENT ===`);
+
+  // Metadata
+  parts.push(`\nMetadata:`);
+  parts.push(`- Title: ${pageData.metadata.title || '(missing)'} ${pageData.metadata.title ? `(${pageData.metadata.title.length} chars)` : ''}`);
+  parts.push(`- Description: ${pageData.metadata.description || '(missing)'} ${pageData.metadata.description ? `(${pageData.metadata.description.length} chars)` : ''}`);
+
+  // Headings
+  parts.push(`\nHeadings:`);
+  if (pageData.headings.h1) {
+    parts.push(`- H1: ${pageData.headings.h1}`);
+  } else {
+    parts.push(`- H1: (missing)`);
+  }
+  if (pageData.headings.h2 && pageData.headings.h2.length > 0) {
+    parts.push(`- H2: ${pageData.headings.h2.join(' | ')}`);
+  }
+  if (pageData.headings.h3 && pageData.headings.h3.length > 0) {
+    parts.push(`- H3: ${pageData.headings.h3.join(' | ')}`);
+  }
+  if (pageData.headings.all.length > 0) {
+    parts.push(`- All headings: ${pageData.headings.all.slice(0, 10).join(', ')}${pageData.headings.all.length > 10 ? '...' : ''}`);
+  }
+
+  // Content
+  parts.push(`\nContent:`);
+  parts.push(`- Word count: ${pageData.wordCount || 0} words`);
+  parts.push(`- Content preview: ${truncateToTokens(pageData.text, textTokens)}`);
+
+  return parts;
+}
+
+/**
+ * One component of the breakdown. Plain paragraphs are sent in full unless
+ * `paragraphTokenLimit` is set; RichText segments are always sent in full to keep their markup.
+ */
+function formatComponent(component: ComponentContent, idx: number, paragraphTokenLimit?: number): string {
+  const parts: string[] = [];
+
+  parts.push(`\nComponent ${idx + 1}: ${component.componentName}`);
+  parts.push(`  ID: ${component.componentId}`);
+  parts.push(`  Path: ${component.path.join(' > ')}`);
+
+  if (component.headings.all.length > 0) {
+    parts.push(`  Headings:`);
+    if (component.headings.h1) parts.push(`    - H1: ${component.headings.h1}`);
+    if (component.headings.h2 && component.headings.h2.length > 0) {
+      component.headings.h2.forEach((h2) => parts.push(`    - H2: ${h2}`));
+    }
+    if (component.headings.h3 && component.headings.h3.length > 0) {
+      component.headings.h3.forEach((h3) => parts.push(`    - H3: ${h3}`));
+    }
+  }
+
+  if (component.paragraphs.length > 0) {
+    parts.push(`  Paragraphs:`);
+    component.paragraphs.forEach((para) => {
+      if (para.segments && para.segments.length > 0) {
+        // RichText: send full segments so the rewrite can keep inline markup
+        parts.push(`    - Field "${para.fieldName}" (RichText segments):`);
+        para.segments.forEach((segment) => {
+          parts.push(`        [${segment.id}] ${segment.text}`);
+        });
+        return;
+      }
+      const text = paragraphTokenLimit !== undefined ? truncateToTokens(para.text, paragraphTokenLimit) : para.text;
+      parts.push(`    - Field "${para.fieldName}": ${text}`);
+    });
+  }
+
+  if (component.images.length > 0) {
+    parts.push(`  Images:`);
+    component.images.forEach((img) => {
+      parts.push(`    - Field "${img.fieldName}" (${img.id}): alt="${img.alt || '(no alt text)'}"`);
+    });
+  }
+
+  if (component.links.length > 0) {
+    parts.push(`  Links:`);
+    component.links.forEach((link) => {
+      const status = link.isPlaceholder ? '[PLACEHOLDER]' : '[OK]';
+      parts.push(`    - Field "${link.fieldName}": text="${link.text || '(no text)'}" href="${link.href || '(no href)'}" ${status}`);
+    });
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Metadata, headings and insights of each competitor
+ */
+function buildCompetitorLines(competitors?: CompetitorAnalysis[]): string[] {
+  const parts: string[] = [];
+
+  (competitors || []).forEach((competitorAnalysis, idx) => {
+    const comp = competitorAnalysis.competitor;
+    parts.push(`\nCompetitor ${idx + 1}: ${comp.url}`);
+    parts.push(`- Title: ${comp.metadata.title || '(missing)'} ${comp.metadata.title ? `(${comp.metadata.title.length} chars)` : ''}`);
+    parts.push(`- Description: ${comp.metadata.description || '(missing)'} ${comp.metadata.description ? `(${comp.metadata.description.length} chars)` : ''}`);
+    parts.push(`- Word Count: ${comp.wordCount} words`);
+    if (comp.headings.h1) {
+      parts.push(`- H1: ${comp.headings.h1}`);
+    }
+    if (comp.headings.h2 && comp.headings.h2.length > 0) {
+      parts.push(`- H2 Headings: ${comp.headings.h2.slice(0, 5).join(' | ')}`);
+    }
+    if (comp.metaKeywords && comp.metaKeywords.length > 0) {
+      parts.push(`- Keywords: ${comp.metaKeywords.slice(0, 10).join(', ')}`);
+    }
+
+    // Add insights
+    if (competitorAnalysis.insights.strengths.length > 0) {
+      parts.push(`- Strengths: ${competitorAnalysis.insights.strengths.slice(0, 3).join('; ')}`);
+    }
+    if (competitorAnalysis.insights.opportunities.length > 0) {
+      parts.push(`- Opportunities: ${competitorAnalysis.insights.opportunities.slice(0, 3).join('; ')}`);
+    }
+  });
+
+  return parts;
+}
+
+/**
+ * Template variables shared by all prompts: the page context, competitors and brand rules
+ */
+function buildSharedVariables(context: PageContext, competitors?: CompetitorAnalysis[]): PromptVariables {
+  return {
+    locale: context.locale,
+    pageGoal: context.pageGoal,
+    tone: context.tone,
+    sitePurpose: context.sitePurpose || '',
+    pagePurpose: context.pagePurpose || '',
+    purpose: context.sitePurpose || context.pagePurpose ? `${context.sitePurpose || ''} ${context.pagePurpose || ''}` : '',
+    targetAudience: context.targetAudience || '',
+    businessGoals: context.businessGoals || '',
+    businessContext: !!(context.sitePurpose || context.pagePurpose || context.targetAudience),
+    keywordsRequired: (context.keywordsRequired || []).join(', '),
+    competitorCount: String(competitors?.length || 0),
+    competitorDetails: buildCompetitorLines(competitors).join('\n'),
+    ...buildBrandRuleVariables(context.brandRules),
+    ...buildSerpVariables(),
+  };
+}
+
+/**
+ * Title and description limits in desktop search results. Suggestions are judged by pixel
+ * width (see serpWidth); the character counts are only a hint for the model.
+ */
+function buildSerpVariables(): PromptVariables {
+  return {
+    titleWidth: String(SERP_LIMITS.title.maxWidth.desktop),
+    titleChars: String(SERP_LIMITS.title.approxChars),
+    descriptionWidth: String(SERP_LIMITS.description.maxWidth.desktop),
+    descriptionChars: String(SERP_LIMITS.description.approxChars),
+  };
+}
+
+/**
+ * The site's brand rules. The same rules are checked on the response (see brandRules).
+ */
+function buildBrandRuleVariables(rules?: BrandRules): PromptVariables {
+  if (!hasBrandRules(rules)) {
+    return { hasBrandRules: false };
+  }
+
+  const quote = (terms: string[]) => terms.map((term) => `"${term}"`).join(', ');
+
+  return {
+    hasBrandRules: true,
+    preferredTerms: rules.preferredTerms.map(({ term, avoid }) => ({ term, avoid: quote(avoid) })),
+    forbiddenTerms: quote(rules.forbiddenTerms),
+    trademarks: quote(rules.trademarks),
+    protectedPhrases: rules.protectedPhrases.map((phrase) => `  "${phrase}"`).join('\n'),
+  };
+}
+
+/**
+ * Template variables of the prompts that rewrite one field
+ */
+function buildAlternativesVariables(
+  context: PageContext,
+  pageData: PageData,
+  request: AlternativesRequest,
+  count: number,
+  component?: ComponentContent,
+  segments?: RichTextSegment[]
+): PromptVariables {
+  const limits = getTargetLimits(request.target);
+  const serp = limits.serp ? SERP_LIMITS[limits.serp] : undefined;
+
+  return {
+    ...buildSharedVariables(context),
+    title: pageData.metadata.title || '(missing)',
+    h1: pageData.headings.h1 || '(missing)',
+    component: component ? formatComponent(component, 0) : '',
+    field: describeTarget(request.target),
+    original: request.original,
+    suggestion: request.suggestion,
+    segments: (segments || []).map((segment) => `  [${segment.id}] ${segment.text}`).join('\n'),
+    richText: !!segments?.length,
+    maxLength: limits.maxLength ? String(limits.maxLength) : '',
+    serpChars: serp ? String(serp.approxChars) : '',
+    serpWidth: serp ? String(serp.maxWidth.desktop) : '',
+    minLength: limits.minLength ? String(limits.minLength) : '',
+    instruction: request.instruction || '',
+    count: String(count),
+  };
+}
+
+/**
+ * Read alternatives from the model response, dropping any that break the field limits,
+ * lose RichText markup, break the brand rules or repeat the current suggestion
+ */
+function parseAlternatives(
+  content: string,
+  request: AlternativesRequest,
+  segments?: RichTextSegment[],
+  brandRules?: BrandRules
+): SuggestionAlternative[] {
+  const items = JSON.parse(content)?.alternatives;
+  if (!Array.isArray(items)) {
+    throw new Error('Response has no "alternatives" array');
+  }
+
+  const limits = getTargetLimits(request.target);
+  const seen = new Set([request.suggestion.trim()]);
+
+  return items.flatMap((item): SuggestionAlternative[] => {
+    const alternative = segments && segments.length > 0 ? toSegmentAlternative(item, segments) : toTextAlternative(item);
+    if (!alternative || seen.has(alternative.text)) {
+      return [];
+    }
+
+    const length = alternative.text.length;
+    if ((limits.maxLength && length > limits.maxLength) || (limits.minLength && length < limits.minLength)) {
+      return [];
+    }
+    if (limits.serp && !fitsSerpWidth(alternative.text, limits.serp)) {
+      return [];
+    }
+    if (
+      hasBrandRules(brandRules) &&
+      checkBrandText(alternative.text, request.original, brandRules).some((issue) => issue.reject)
+    ) {
+      return [];
+    }
+
+    seen.add(alternative.text);
+    return [alternative];
+  });
+}
+
+function toTextAlternative(item: any): SuggestionAlternative | null {
+  const text = typeof item === 'string' ? item : item?.text;
+  if (typeof text !== 'string' || !text.trim()) {
+    return null;
+  }
+  return { text: text.trim(), reason: typeof item?.reason === 'string' ? item.reason : undefined };
+}
+
+function toSegmentAlternative(item: any, segments: RichTextSegment[]): SuggestionAlternative | null {
+  if (!Array.isArray(item?.segments) || item.segments.length === 0) {
+    return null;
+  }
+
+  const rewrites: { id: string; suggested: string }[] = [];
+  for (const rewrite of item.segments) {
+    const segment = segments.find((candidate) => candidate.id === rewrite?.id);
+    if (
+      !segment ||
+      typeof rewrite.suggested !== 'string' ||
+      listMarkupTokens(rewrite.suggested).join() !== listMarkupTokens(segment.text).join()
+    ) {
+      return null;
+    }
+    rewrites.push({ id: segment.id, suggested: rewrite.suggested });
+  }
+
+  return {
+    text: rewrites.map((rewrite) => segmentPlainText(rewrite.suggested)).join(' '),
+    segments: rewrites,
+    reason: typeof item.reason === 'string' ? item.reason : undefined,
+  };
+}
+
+function estimateRequestTokens(request: ChatCompletionRequest): number {
+  return request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+}
+
+/**
+ * Combine the consolidation result (page level, first) with the component chunk results
+ */
+function mergeSuggestions(results: SEOSuggestions[]): SEOSuggestions {
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const [page, ...chunks] = results;
+  const reports = results.flatMap((result) => (result.validation ? [result.validation] : []));
+  const merged: SEOSuggestions = {
+    ...page,
+    components: chunks.flatMap((chunk) => chunk.components || []),
+  };
+
+  if (reports.length > 0) {
+    merged.validation = {
+      repairAttempted: true,
+      fixed: reports.flatMap((report) => report.fixed),
+      discarded: reports.flatMap((report) => report.discarded),
+    };
+  }
+
+  return merged;
+}
+
+function parseSuggestionsJson(content: string): SEOSuggestions {
+  const value = JSON.parse(content);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Response is not a JSON object');
+  }
+  return value as SEOSuggestions;
+}
+
+/**
+ * Create the suggestion service with the provider selected by server environment variables.
+ * `onModelCall` receives the tokens and latency of every model call, for usage tracking.
+ */
+export function createSEOSuggestionService(
+  options: Pick<SEOSuggestionServiceOptions, 'template'> & { onModelCall?: (call: LLMCallUsage) => void } = {}
+): SEOSuggestionService | null {
+  const provider = createLLMProvider();
+  const { onModelCall } = options;
+  return provider
+    ? new SEOSuggestionService(onModelCall ? new MeteredLLMProvider(provider, onModelCall) : provider, {
+        promptTokenBudget: Number(process.env.LLM_PROMPT_TOKEN_BUDGET) || undefined,
+        template: options.template,
+      })
+    : null;
+}
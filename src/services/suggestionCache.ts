@@ -0,0 +1,119 @@
+// Suggestion Cache - Stores generated suggestions by content hash (server-side)
+// The key covers everything that shapes the prompt, so an unchanged page gets the same
+// suggestions for every reviewer until the entry expires or someone regenerates.
+
+import { createHash } from 'crypto';
+import type {
+  CompetitorAnalysis,
+  PageContext,
+  PageData,
+  SEOSuggestions,
+} from '@/src/types/seo';
+import { readJson, writeJson } from './dataStore';
+
+const DEFAULT_TTL_HOURS = 24;
+
+export interface SuggestionCacheKeyInput {
+  context: PageContext;
+  pageData: PageData;
+  competitors?: CompetitorAnalysis[];
+  promptVersion: string;
+  model: string; // Provider and model, e.g. "azure:gpt-4"
+}
+
+interface SuggestionCacheEntry {
+  key: string;
+  createdAt: string;
+  suggestions: SEOSuggestions;
+}
+
+function cacheFile(key: string): string {
+  return `suggestion-cache/${key}.json`;
+}
+
+/**
+ * Hash of the page, context, competitor set, prompt version and model.
+ * Object key order and competitor order do not change the hash.
+ */
+export function computeSuggestionCacheKey(input: SuggestionCacheKeyInput): string {
+  const competitors = [...(input.competitors || [])].sort((a, b) =>
+    a.competitor.url.localeCompare(b.competitor.url)
+  );
+
+  return createHash('sha256')
+    .update(stableStringify({ ...input, competitors }))
+    .digest('hex');
+}
+
+/**
+ * Cache lifetime from SUGGESTION_CACHE_TTL_HOURS (default 24). 0 disables the cache.
+ */
+export function getSuggestionCacheTtlMs(env: Record<string, string | undefined> = process.env): number {
+  const hours = env.SUGGESTION_CACHE_TTL_HOURS ? Number(env.SUGGESTION_CACHE_TTL_HOURS) : DEFAULT_TTL_HOURS;
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+/**
+ * Cached suggestions for a key, or null if there are none or they have expired
+ */
+export async function getCachedSuggestions(
+  key: string,
+  ttlMs: number,
+  now: Date = new Date()
+): Promise<SEOSuggestions | null> {
+  if (ttlMs <= 0) {
+    return null;
+  }
+
+  const entry = await readJson<SuggestionCacheEntry | null>(cacheFile(key), null);
+  if (!entry) {
+    return null;
+  }
+
+  const expiresAt = new Date(new Date(entry.createdAt).getTime() + ttlMs);
+  if (expiresAt <= now) {
+    return null;
+  }
+
+  return {
+    ...entry.suggestions,
+    cache: { key, hit: true, createdAt: entry.createdAt, expiresAt: expiresAt.toISOString() },
+  };
+}
+
+/**
+ * Store freshly generated suggestions. Returns them with their cache info attached.
+ */
+export async function saveCachedSuggestions(
+  key: string,
+  suggestions: SEOSuggestions,
+  ttlMs: number,
+  now: Date = new Date()
+): Promise<SEOSuggestions> {
+  if (ttlMs <= 0) {
+    return suggestions;
+  }
+
+  const { cache: _previous, ...stored } = suggestions;
+  const createdAt = now.toISOString();
+  await writeJson<SuggestionCacheEntry>(cacheFile(key), { key, createdAt, suggestions: stored });
+
+  return {
+    ...stored,
+    cache: { key, hit: false, createdAt, expiresAt: new Date(now.getTime() + ttlMs).toISOString() },
+  };
+}
+
+// JSON with object keys sorted, so equal content always serializes the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
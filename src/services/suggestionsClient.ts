@@ -0,0 +1,143 @@
+// Suggestions Client - Browser side of /api/suggestions
+// The prompt runs on the server, so no model credentials are needed here
+
+import type {
+  AlternativesRequest,
+  CompetitorAnalysis,
+  ComponentSuggestion,
+  PageContext,
+  PageData,
+  SEOSuggestions,
+  SuggestionAlternative,
+  SuggestionStreamEvent,
+  UsageAttribution,
+} from '@/src/types/seo';
+
+export interface RequestSuggestionsOptions {
+  regenerate?: boolean; // Ignore a cached result for the same page and context
+  attribution?: UsageAttribution; // Page and user the model usage is recorded for
+}
+
+/**
+ * Request SEO suggestions for a scanned page from the server
+ */
+export async function requestSuggestions(
+  context: PageContext,
+  pageData: PageData,
+  competitors?: CompetitorAnalysis[],
+  options: RequestSuggestionsOptions = {}
+): Promise<SEOSuggestions> {
+  const response = await fetch('/api/suggestions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      context,
+      pageData,
+      competitors,
+      regenerate: options.regenerate,
+      attribution: options.attribution,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.details || errorData.error || `Failed to generate suggestions: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.suggestions as SEOSuggestions;
+}
+
+export interface StreamSuggestionsOptions extends RequestSuggestionsOptions {
+  signal?: AbortSignal; // Abort to cancel generation
+  onComponent?: (component: ComponentSuggestion) => void; // Called as each component arrives
+}
+
+/**
+ * Stream SEO suggestions from the server, reporting each component as soon as it is ready.
+ * Resolves with the full validated suggestions.
+ */
+export async function streamSuggestions(
+  context: PageContext,
+  pageData: PageData,
+  competitors?: CompetitorAnalysis[],
+  options: StreamSuggestionsOptions = {}
+): Promise<SEOSuggestions> {
+  const response = await fetch('/api/suggestions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      context,
+      pageData,
+      competitors,
+      regenerate: options.regenerate,
+      attribution: options.attribution,
+      stream: true,
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.details || errorData.error || `Failed to generate suggestions: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      const event = JSON.parse(line) as SuggestionStreamEvent;
+      if (event.type === 'component') {
+        options.onComponent?.(event.component);
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      } else if (event.type === 'done') {
+        return event.suggestions;
+      }
+    }
+
+    if (done) break;
+  }
+
+  throw new Error('Suggestion stream ended before the result was complete');
+}
+
+/**
+ * Request alternatives for a single suggestion, or a refined rewrite when an instruction is set
+ */
+export async function requestAlternatives(
+  context: PageContext,
+  pageData: PageData,
+  request: AlternativesRequest,
+  attribution?: UsageAttribution
+): Promise<SuggestionAlternative[]> {
+  const response = await fetch('/api/suggestions/alternatives', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ context, pageData, request, attribution }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.details || errorData.error || `Failed to generate alternatives: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.alternatives as SuggestionAlternative[];
+}
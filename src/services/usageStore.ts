@@ -0,0 +1,124 @@
+// Usage Store - Records model usage per request and checks monthly budgets (server-side)
+//
+// Records are kept in one file per month (usage/<YYYY-MM>.json); budgets are read from
+// usage/budgets.json. Prices come from LLM_PRICE_PROMPT_PER_1M and
+// LLM_PRICE_COMPLETION_PER_1M (per million tokens, in LLM_PRICE_CURRENCY).
+
+import type {
+  LLMUsageRecord,
+  UsageAttribution,
+  UsageBudgetConfig,
+  UsageBudgetStatus,
+  UsageSummary,
+} from '@/src/types/seo';
+import {
+  evaluateUsageBudget,
+  resolveUsageBudget,
+  summarizeUsage,
+  totalModelCalls,
+  totalUsage,
+  usageMonth,
+  type LLMPricing,
+  type ModelCall,
+} from '@/src/utils/llmUsage';
+import { readJson, updateJson } from './dataStore';
+
+const BUDGETS_FILE = 'usage/budgets.json';
+
+export interface UsageRecordInput {
+  operation: LLMUsageRecord['operation'];
+  site?: string;
+  attribution?: UsageAttribution;
+  model: string;
+  calls: ModelCall[];
+}
+
+function usageFile(month: string): string {
+  return `usage/${month}.json`;
+}
+
+/**
+ * Prices per million tokens from the environment (0 if not set)
+ */
+export function getLLMPricing(env: Record<string, string | undefined> = process.env): LLMPricing {
+  const price = (value?: string) => (Number.isFinite(Number(value)) ? Math.max(Number(value), 0) : 0);
+  return {
+    promptPer1M: price(env.LLM_PRICE_PROMPT_PER_1M),
+    completionPer1M: price(env.LLM_PRICE_COMPLETION_PER_1M),
+    currency: env.LLM_PRICE_CURRENCY || 'USD',
+  };
+}
+
+/**
+ * Who a request is charged to, from an untrusted request body (only string fields are kept)
+ */
+export function parseUsageAttribution(value: unknown): UsageAttribution {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const text = (item: unknown) => (typeof item === 'string' && item.trim() ? item.trim().substring(0, 200) : undefined);
+  return { pageItemId: text(input.pageItemId), pageName: text(input.pageName), user: text(input.user) };
+}
+
+/**
+ * Store the usage of one API request. Returns null if it made no model calls or could not be stored.
+ * Never throws: a usage file that cannot be written must not fail the request, so the failure
+ * is logged as an error with the lost record instead.
+ */
+export async function recordUsage(input: UsageRecordInput, now: Date = new Date()): Promise<LLMUsageRecord | null> {
+  if (input.calls.length === 0) {
+    return null;
+  }
+
+  const record: LLMUsageRecord = {
+    id: `usage-${now.getTime().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+    createdAt: now.toISOString(),
+    operation: input.operation,
+    site: input.site,
+    pageItemId: input.attribution?.pageItemId,
+    pageName: input.attribution?.pageName,
+    user: input.attribution?.user,
+    model: input.model,
+    ...totalModelCalls(input.calls, getLLMPricing()),
+  };
+
+  const file = usageFile(usageMonth(now));
+  try {
+    await updateJson<LLMUsageRecord[]>(file, [], (records) => [...records, record]);
+    return record;
+  } catch (error) {
+    console.error(
+      `❌ Error recording LLM usage in ${file}, the request is missing from usage and budgets:`,
+      record,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * All usage records of a month ("YYYY-MM")
+ */
+export async function listUsageRecords(month: string): Promise<LLMUsageRecord[]> {
+  return readJson<LLMUsageRecord[]>(usageFile(month), []);
+}
+
+/**
+ * A month's usage per site, page and user, with the budget status of `site` when given
+ */
+export async function getUsageSummary(month: string, site?: string): Promise<UsageSummary> {
+  const summary = summarizeUsage(await listUsageRecords(month), month, getLLMPricing().currency, site);
+  const budget = site ? resolveUsageBudget(await readJson<UsageBudgetConfig>(BUDGETS_FILE, {}), site) : undefined;
+  return budget ? { ...summary, budget: evaluateUsageBudget(budget, summary.total, site) } : summary;
+}
+
+/**
+ * This month's budget status of a site, or null if no budget applies to it
+ */
+export async function getUsageBudgetStatus(site?: string, now: Date = new Date()): Promise<UsageBudgetStatus | null> {
+  const budget = resolveUsageBudget(await readJson<UsageBudgetConfig>(BUDGETS_FILE, {}), site);
+  if (!budget) {
+    return null;
+  }
+
+  const records = await listUsageRecords(usageMonth(now));
+  return evaluateUsageBudget(budget, totalUsage(records.filter((record) => record.site === site)), site);
+}
@@ -20,12 +20,32 @@ export interface ComponentMetadata {
   params?: Record<string, unknown>;
 }
 
+// Stable address of an editable Sitecore field
+export interface FieldAddress {
+  itemId?: string; // Item GUID, when known
+  itemPath?: string; // Datasource path, resolved to an item ID at write time when the GUID is unknown
+  language: string;
+  version?: number;
+  fieldId?: string;
+  fieldName: string;
+}
+
 export interface SemanticTextItem {
   id: string;
   text: string;
   category: SemanticCategory;
   metadata: ComponentMetadata;
   path: string[]; // Breadcrumb path to the component
+  address?: FieldAddress; // Only set for fields that map to a real datasource field
+  html?: string; // Original markup for RichText values (text holds the plain text)
+  headingLevel?: number; // Heading tag level (1-6), from rendered markup or rendering parameters
+}
+
+export interface DatasourceReference {
+  itemId?: string;
+  path?: string;
+  language?: string;
+  version?: number;
 }
 
 export interface ComponentNode {
@@ -34,6 +54,7 @@ export interface ComponentNode {
   componentName: string;
   type: string;
   datasourceId?: string;
+  datasource?: DatasourceReference; // Resolved datasource item, when fetched
   placeholder?: string;
   params?: Record<string, unknown>;
   fields: FieldInfo[];
@@ -42,10 +63,13 @@ export interface ComponentNode {
 }
 
 export interface FieldInfo {
+  id?: string; // Sitecore field ID, when known
   name: string;
   value: string;
   type: string;
   category: SemanticCategory;
+  inferred?: boolean; // Read from rendered markup; name does not match a real field
+  headingLevel?: number; // Tag level (1-6) of a heading read from rendered markup
 }
 
 export interface PageContent {
@@ -53,6 +77,8 @@ export interface PageContent {
   name: string;
   language: string;
   path: string;
+  siteName?: string;
+  templateName?: string; // Page item template, used to pick the scoring profile
   route?: {
     name: string;
     placeholders: Record<string, unknown>;
@@ -67,6 +93,7 @@ export interface FilterOptions {
 }
 
 export interface GraphQLField {
+  id?: string;
   name: string;
   value: string;
   jsonValue?: unknown;
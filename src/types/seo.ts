@@ -1,5 +1,7 @@
 // SEO Optimizer Type Definitions
 
+import type { FieldAddress } from './index';
+
 export type PageGoal = 'Inform' | 'Convert' | 'Navigate';
 export type Tone = 'Professional' | 'Friendly' | 'Technical' | 'Conversational';
 
@@ -12,6 +14,16 @@ export interface PageContext {
   pagePurpose?: string; // What is this page about?
   targetAudience?: string; // Who is your target audience?
   businessGoals?: string; // What are your business goals?
+  site?: string; // Site name; the server loads that site's brand rules
+  brandRules?: BrandRules; // Set by the server from the site's stored rules, never by the browser
+}
+
+// Site-level brand voice rules, added to every prompt and checked on every suggestion
+export interface BrandRules {
+  preferredTerms: { term: string; avoid: string[] }[]; // e.g. use "sign in", not "log in"
+  forbiddenTerms: string[];
+  trademarks: string[]; // Exact capitalisation, e.g. "iPhone"
+  protectedPhrases: string[]; // Regulatory text that must be kept word for word
 }
 
 export interface PageMetadata {
@@ -27,6 +39,16 @@ export interface PageHeadings {
   h2?: string[];
   h3?: string[];
   all: string[];
+  outline?: HeadingOutlineEntry[]; // Every heading field in page order, empty ones included
+}
+
+// A heading with its tag level, for the outline and the hierarchy check
+export interface HeadingOutlineEntry {
+  text: string;
+  level: number | null; // 1-6; null when neither markup nor rendering parameters give it
+  componentId?: string;
+  componentName?: string;
+  fieldName?: string;
 }
 
 export interface PageImage {
@@ -63,11 +85,18 @@ export interface ComponentContent {
   paragraphs: {
     fieldName: string;
     text: string;
+    segments?: RichTextSegment[]; // Set for RichText fields
   }[];
   images: PageImage[];
   links: PageLink[];
 }
 
+// Block of RichText with inline markup replaced by {n}...{/n} and {n/} tokens
+export interface RichTextSegment {
+  id: string; // e.g. "s0"
+  text: string;
+}
+
 export interface ReadabilityMetrics {
   score: number; // 0-100 (Flesch Reading Ease)
   grade: string; // e.g., "8th-9th grade"
@@ -88,6 +117,25 @@ export interface ContentMetrics {
   readability?: ReadabilityMetrics;
 }
 
+// Semantic item IDs the page-level values were read from (used for write-back)
+export interface PageDataSources {
+  title?: string;
+  description?: string;
+  h1?: string;
+}
+
+// Where a focus keyword should appear
+export type KeywordPlacement = 'title' | 'h1' | 'firstParagraph' | 'description' | 'altText' | 'urlSlug';
+
+// Deterministic usage of one focus keyword (PageContext.keywordsRequired) on the page
+export interface KeywordAnalysis {
+  keyword: string;
+  occurrences: number; // In the body text, counting variants
+  density: number; // Occurrences per 100 body words
+  placements: Record<KeywordPlacement, boolean | null>; // null: the page has no such place (no images, home page URL)
+  variants: string[]; // Other forms found on the page, e.g. plurals ("running shoe" -> "running shoes")
+}
+
 export interface PageData {
   metadata: PageMetadata;
   headings: PageHeadings;
@@ -97,13 +145,61 @@ export interface PageData {
   wordCount?: number;
   components?: ComponentContent[]; // Component-level content breakdown
   metrics?: ContentMetrics; // Comprehensive content metrics
+  sources?: PageDataSources;
+  urlSlug?: string; // Last segment of the page URL, e.g. "home-loans"
+  keywordAnalysis?: KeywordAnalysis[]; // One per focus keyword, when the page has focus keywords
 }
 
 export interface ScoreBreakdown {
-  metadata: number; // 0-25
-  content: number; // 0-25
-  accessibility: number; // 0-25
-  links: number; // 0-25
+  metadata: number; // 0 to the profile's weight (25 by default)
+  content: number;
+  accessibility: number;
+  links: number;
+}
+
+// Checks a scoring profile can turn off; score checks earn points, the others only raise issues
+export type ScoringCheck =
+  | 'title'
+  | 'description'
+  | 'h1'
+  | 'contentLength'
+  | 'readability'
+  | 'altText'
+  | 'images'
+  | 'links'
+  | 'linkCount'
+  | 'internalLinks'
+  | 'keywords'
+  | 'headings';
+
+export interface ScoringThresholds {
+  titleMaxWidth: number; // Pixels shown in desktop search results
+  descriptionMaxWidth: number; // Pixels shown in desktop search results
+  minWords: number;
+  altMin: number; // Characters of meaningful alt text
+  maxLinks: number;
+  minReadability: number; // Flesch Reading Ease
+  minKeywordDensity: number; // Focus keyword occurrences per 100 words
+  maxKeywordDensity: number;
+  maxHeadingLength: number; // Characters
+}
+
+// Weights, thresholds and enabled checks for a kind of page
+export interface ScoringProfile {
+  id: string; // e.g. "blog-article"
+  label: string;
+  description?: string;
+  weights: ScoreBreakdown; // Points per category; the score is scaled to 0-100
+  thresholds: ScoringThresholds;
+  checks: Record<ScoringCheck, boolean>;
+}
+
+// Stored profiles override the built-in ones by ID; a page template wins over a page goal
+export interface ScoringProfileConfig {
+  profiles: ScoringProfile[];
+  default: string; // Profile ID
+  templates: Record<string, string>; // Page template name -> profile ID
+  pageGoals: Partial<Record<PageGoal, string>>;
 }
 
 export interface SEOIssues {
@@ -119,6 +215,20 @@ export interface SEOIssues {
   missingImages?: boolean; // No images found
   tooManyLinks?: boolean; // More than 100 links
   noInternalLinks?: boolean; // No internal links found
+  // Focus keywords missing from a place, or used too rarely or too often
+  keywordNotInTitle?: string[];
+  keywordNotInH1?: string[];
+  keywordNotInFirstParagraph?: string[];
+  keywordNotInDescription?: string[];
+  keywordNotInAltText?: string[];
+  keywordNotInUrl?: string[];
+  keywordDensityLow?: string[];
+  keywordDensityHigh?: string[];
+  // Heading hierarchy, listing the headings (component and field for empty ones)
+  multipleH1?: string[]; // Every H1 after the first
+  skippedHeadingLevels?: string[]; // e.g. an H4 right after an H2
+  emptyHeadings?: string[];
+  longHeadings?: string[];
 }
 
 export interface BrokenLinkInfo {
@@ -135,6 +245,7 @@ export interface ScanResult {
   issues: SEOIssues;
   pageData: PageData;
   brokenLinksDetails?: BrokenLinkInfo[]; // Detailed broken link information
+  profile: ScoringProfile; // Profile the page was scored with
 }
 
 export interface ComponentSuggestion {
@@ -162,6 +273,7 @@ export interface ComponentSuggestion {
       original: string;
       suggested: string;
       reason: string;
+      segments?: { id: string; suggested: string }[]; // RichText rewrites, markup tokens kept
     }[];
   };
   images?: {
@@ -213,6 +325,180 @@ export interface SEOSuggestions {
     grade?: string;
     suggestions?: string[];
   };
+
+  // What schema validation repaired or removed from the model response
+  validation?: SuggestionValidationReport;
+
+  // Suggestions removed or flagged by the site's brand rules
+  brand?: BrandCheckReport;
+
+  // Prompt template that generated the suggestions, "id@version" (e.g. "default@1")
+  promptVersion?: string;
+
+  // Set when the result went through the server-side suggestion cache
+  cache?: SuggestionCacheInfo;
+}
+
+// Versioned prompts for suggestion generation, with {{variables}} for the sections built from the page
+export interface PromptTemplate {
+  id: string; // e.g. "default", "product"
+  version: string; // e.g. "2"
+  description?: string;
+  system: string; // System prompt, including the response JSON structure
+  page: string; // Single-request prompt
+  components: string; // Prompt for one chunk of components (long pages)
+  consolidation: string; // Page-level prompt after the component chunks (long pages)
+  alternativesSystem: string; // System prompt for rewriting one field
+  alternatives: string; // Prompt for rewriting one field
+  // Instruction blocks, rendered into the variables of the same name
+  context: string;
+  componentTasks: string;
+  keywordStrategy: string;
+  competitors: string;
+  guidelines: string;
+  brandRules: string;
+}
+
+// Which template to use: "id" (latest version) or "id@version"; a site wins over a page goal
+export interface PromptTemplateSelection {
+  default?: string;
+  sites?: Record<string, string>;
+  pageGoals?: Partial<Record<PageGoal, string>>;
+}
+
+export interface BrandCheckReport {
+  rejected: ValidationReportItem[]; // Use a forbidden term or change a protected phrase, removed
+  flagged: ValidationReportItem[]; // Avoided terms or trademark capitalisation, kept for review
+}
+
+export interface SuggestionCacheInfo {
+  key: string; // Hash of page data, context, competitors, prompt version and model
+  hit: boolean; // Served from the cache instead of the model
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type SchemaViolationRule = 'required' | 'type' | 'minLength' | 'maxLength' | 'maxWidth' | 'min' | 'max';
+
+// Suggestion that targets something not on the scanned page (see suggestionGrounding)
+export type GroundingRule = 'unknownComponent' | 'unknownField' | 'originalMismatch';
+
+// Suggestion that breaks the site's brand rules (see brandRules)
+export type BrandRule = 'forbiddenTerm' | 'preferredTerm' | 'trademark' | 'protectedPhrase';
+
+// One schema rule broken by the model response
+export interface SchemaViolation {
+  path: string; // e.g. "components[0].headings.improvements[1].reason"
+  rule: SchemaViolationRule | GroundingRule | BrandRule;
+  message: string; // e.g. "must be at most 60 characters (got 72)"
+}
+
+// A suggestion that failed validation, identified by its path in the response
+export interface ValidationReportItem {
+  path: string; // e.g. "components[0].images[2]"
+  label: string; // e.g. "Hero › image alt (Image1)"
+  violations: SchemaViolation[];
+}
+
+export interface SuggestionValidationReport {
+  repairAttempted: boolean; // A repair re-prompt was sent
+  fixed: ValidationReportItem[]; // Corrected by the repair re-prompt
+  discarded: ValidationReportItem[]; // Still invalid after repair, removed
+  rejected?: ValidationReportItem[]; // Target a component, field or text that is not on the page, removed
+}
+
+// One suggestion that can be regenerated on its own (see /api/suggestions/alternatives)
+export type SuggestionTarget =
+  | { kind: 'metaTitle' | 'metaDescription' } // Page metadata
+  | { kind: 'h1'; componentId: string }
+  | { kind: 'headingImprovement' | 'paragraph' | 'linkText'; componentId: string; fieldName: string }
+  | { kind: 'imageAlt'; componentId: string; imageId: string };
+
+export interface AlternativesRequest {
+  target: SuggestionTarget;
+  original: string; // Current value on the page
+  suggestion: string; // Suggestion the author wants to replace
+  instruction?: string; // "Refine with instruction"; without it, alternatives are requested
+  count?: number; // Alternatives to return (default 3, always 1 when refining)
+}
+
+export interface SuggestionAlternative {
+  text: string;
+  segments?: { id: string; suggested: string }[]; // RichText paragraphs, markup tokens kept
+  reason?: string;
+}
+
+// One line of the NDJSON suggestion stream (/api/suggestions with stream: true)
+export type SuggestionStreamEvent =
+  | { type: 'component'; component: ComponentSuggestion } // Sent as soon as a component is complete
+  | { type: 'done'; suggestions: SEOSuggestions } // Full, validated result
+  | { type: 'error'; error: string };
+
+// Who a model request is charged to, sent by the browser with suggestion requests
+export interface UsageAttribution {
+  pageItemId?: string;
+  pageName?: string;
+  user?: string; // Email or name of the signed-in author
+}
+
+// Token counts, latency and estimated cost of one or more model calls
+export interface UsageTotals {
+  requests: number; // Model calls, including retries and repairs
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  cost: number; // Estimated, in LLM_PRICE_CURRENCY at the prices configured when recorded
+  estimated?: boolean; // Some token counts were estimated because the provider did not report them
+}
+
+// Usage of one API request (all the model calls made to answer it), stored per month
+export interface LLMUsageRecord extends UsageAttribution, UsageTotals {
+  id: string;
+  createdAt: string; // ISO timestamp
+  operation: 'suggestions' | 'alternatives';
+  site?: string;
+  model: string; // Provider and model, e.g. "azure:gpt-4"
+}
+
+// Usage totals of one site, page or user
+export interface UsageBreakdownRow extends UsageTotals {
+  key: string; // Site name, page item ID or user; "" when unknown
+  label: string;
+}
+
+export interface UsageSummary {
+  month: string; // "YYYY-MM"
+  currency: string;
+  total: UsageTotals;
+  bySite: UsageBreakdownRow[];
+  byPage: UsageBreakdownRow[];
+  byUser: UsageBreakdownRow[];
+  budget?: UsageBudgetStatus; // Budget of the site the summary was requested for
+}
+
+// Monthly spending limit; either limit (or both) may be set
+export interface UsageBudget {
+  monthlyCost?: number;
+  monthlyTokens?: number;
+  warnAt?: number; // Share of the limit that triggers a warning (default 0.8)
+  action: 'warn' | 'block'; // What happens once the limit is reached
+}
+
+// SEO_DATA_DIR/usage/budgets.json; a site without its own budget uses the default
+export interface UsageBudgetConfig {
+  default?: UsageBudget;
+  sites?: Record<string, UsageBudget>;
+}
+
+export interface UsageBudgetStatus {
+  site?: string;
+  budget: UsageBudget;
+  spentCost: number;
+  spentTokens: number;
+  used: number; // Largest share of a limit used, e.g. 0.85
+  state: 'ok' | 'warning' | 'exceeded';
+  blocked: boolean; // Exceeded and the budget blocks further requests
 }
 
 export interface ApplySelection {
@@ -237,6 +523,9 @@ export interface ApplySelection {
         h1?: boolean;
         improvements?: string[]; // Field names
       };
+      content?: {
+        paragraphs?: string[]; // Field names
+      };
       images?: {
         id: string;
         alt?: boolean;
@@ -249,10 +538,120 @@ export interface ApplySelection {
   };
 }
 
-export interface ApplyResult {
-  applied: string[];
+export type FieldChangeKind = 'text' | 'image-alt' | 'link' | 'rich-text';
+
+export interface RichTextSegmentRewrite {
+  id: string;
+  original: string; // Tokenized segment text at scan time
+  suggested: string;
+}
+
+export interface FieldChange {
+  key: string; // Applied path, e.g. "page.title" or "component.<id>.image.<imageId>.alt"
+  kind: FieldChangeKind;
+  address: FieldAddress;
+  original: string; // For links, the anchor text
+  value: string;
+  href?: string; // New link target for 'link' changes (unchanged if omitted)
+  segments?: RichTextSegmentRewrite[]; // Segment rewrites for 'rich-text' changes
+}
+
+// Original and written raw values of one field touched by an apply
+export interface FieldChangeRecord {
+  key: string;
+  address: FieldAddress; // itemId is always resolved
+  before: string;
+  after: string;
+  revertedAt?: string; // Set once a revert restored the field
+  keptAt?: string; // Set when the author keeps a later edit instead of reverting the field
+}
+
+// All fields written by a single apply, stored per page so they can be reverted
+export interface ChangeSet {
+  id: string;
+  pageItemId: string;
+  pageName?: string;
+  createdAt: string; // ISO timestamp
+  fields: FieldChangeRecord[];
+  revertedAt?: string; // Set once every field is reverted or kept
+}
+
+// A target field that someone else changed between scan and apply
+export interface FieldConflict {
+  key: string;
+  address: FieldAddress;
+  scanned: string; // Value captured at scan time
+  current: string; // Value now stored in Sitecore
+  suggested: string;
+  kind?: FieldChangeKind;
+  revision?: string; // __Revision of the item
+  updated?: string; // __Updated (Sitecore date, e.g. 20250101T120000Z)
+  updatedBy?: string; // __Updated by
+}
+
+export interface ConflictResolution {
+  key: string;
+  action: 'overwrite' | 'keep';
+  value?: string; // Value to write when overwriting (defaults to the suggestion)
+}
+
+export interface ApplyFailure {
+  key: string;
+  error: string;
+}
+
+// Send applied edits through the editorial workflow instead of editing the current version
+export interface WorkflowApplyOptions {
+  createVersion: boolean; // Write the changes to a new item version
+  commandId?: string; // Workflow command to execute once the changes are written
+  comment?: string; // Added to the workflow comment, ahead of the summary of SEO edits
+}
+
+// A command of the page's workflow, e.g. "Submit" in the "Draft" state
+export interface WorkflowCommand {
+  commandId: string;
+  displayName: string;
+  stateId: string;
+  stateName: string;
+}
+
+// Outcome of the workflow steps for one item
+export interface WorkflowItemResult {
+  itemId: string;
+  version?: number; // Version the changes were written to
+  commandId?: string;
+  successful: boolean;
+  nextStateId?: string;
+  error?: string;
+}
+
+// An issue that would no longer be reported after applying a selection
+export interface ResolvedIssue {
+  issue: keyof SEOIssues;
+  items?: string[]; // For list issues (e.g. weakAltText), the entries that are fixed
+  partial?: boolean; // True when some entries of a list issue remain
+}
+
+// Projected score after overlaying selected suggestions onto the scanned page data
+export interface ScoreSimulation {
+  beforeScore: number;
   afterScore: number;
   breakdown: ScoreBreakdown;
+  delta: ScoreBreakdown; // Per-category change (after - before)
+  weights: ScoreBreakdown; // Maximum points per category under the page's scoring profile
+  resolvedIssues: ResolvedIssue[];
+}
+
+export interface ApplyResult {
+  applied: string[];
+  changeSetId?: string;
+  failed?: ApplyFailure[];
+  skipped?: string[];
+  kept?: string[]; // Conflicting fields where the other author's value was kept
+  afterScore?: number;
+  breakdown?: ScoreBreakdown;
+  resolvedIssues?: ResolvedIssue[];
+  workflow?: WorkflowItemResult[];
   diffSummary: string[];
 }
 
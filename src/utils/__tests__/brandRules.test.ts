@@ -0,0 +1,107 @@
+// Unit tests for the brand rules check
+
+import { checkBrandText, checkSuggestionsBrandRules, parseBrandRules } from '../brandRules';
+import type { BrandRules, PageData, SEOSuggestions } from '@/src/types/seo';
+
+const DISCLAIMER = 'Capital at risk.';
+
+const rules: BrandRules = {
+  preferredTerms: [{ term: 'sign in', avoid: ['log in', 'login'] }],
+  forbiddenTerms: ['cheap', 'guaranteed'],
+  trademarks: ['iPhone'],
+  protectedPhrases: [DISCLAIMER],
+};
+
+const pageData: PageData = {
+  metadata: { title: 'Invest', description: `Grow your savings. ${DISCLAIMER}` },
+  headings: { h1: 'Invest', all: ['Invest'] },
+  text: '',
+  images: [],
+  links: [],
+  components: [
+    {
+      componentId: 'hero-1',
+      componentName: 'Hero',
+      path: ['Invest', 'Hero'],
+      headings: { h1: 'Invest', all: ['Invest'] },
+      paragraphs: [{ fieldName: 'Body', text: `Start investing today.  ${DISCLAIMER}` }],
+      images: [],
+      links: [],
+    },
+  ],
+};
+
+describe('brandRules', () => {
+  describe('checkBrandText', () => {
+    it('should reject forbidden terms and removed protected phrases', () => {
+      expect(checkBrandText('Cheap plans, guaranteed returns', '', rules).map((issue) => [issue.rule, issue.reject])).toEqual([
+        ['forbiddenTerm', true],
+        ['forbiddenTerm', true],
+      ]);
+      expect(checkBrandText('Start investing today.', `Start investing. ${DISCLAIMER}`, rules)).toEqual([
+        { rule: 'protectedPhrase', reject: true, message: `changes or removes the protected phrase "${DISCLAIMER}"` },
+      ]);
+      expect(checkBrandText(`Invest now.   ${DISCLAIMER}`, `Start investing. ${DISCLAIMER}`, rules)).toEqual([]);
+    });
+
+    it('should flag avoided terms and trademark capitalisation', () => {
+      expect(checkBrandText('Log in with your IPhone', '', rules)).toEqual([
+        { rule: 'preferredTerm', reject: false, message: 'uses "log in"; prefer "sign in"' },
+        { rule: 'trademark', reject: false, message: 'writes "IPhone"; the trademark is "iPhone"' },
+      ]);
+      expect(checkBrandText('Cheapest iPhone deals', '', rules)).toEqual([]);
+    });
+  });
+
+  describe('checkSuggestionsBrandRules', () => {
+    it('should remove rejected suggestions and keep flagged ones', () => {
+      const suggestions: SEOSuggestions = {
+        metadata: { title: 'Invest with guaranteed returns', description: `Grow your savings. ${DISCLAIMER}` },
+        components: [
+          {
+            componentId: 'hero-1',
+            componentName: 'Hero',
+            path: ['Invest', 'Hero'],
+            headings: { h1: 'Log in and invest' },
+            content: {
+              paragraphs: [
+                { fieldName: 'Body', original: 'Start investing today.', suggested: 'Start investing now.', reason: 'Shorter' },
+              ],
+            },
+          },
+        ],
+      };
+
+      const { value, report } = checkSuggestionsBrandRules(suggestions, pageData, rules);
+
+      expect(value.metadata).toEqual({ description: `Grow your savings. ${DISCLAIMER}` });
+      expect(value.components?.[0].content?.paragraphs).toEqual([]);
+      expect(value.components?.[0].headings?.h1).toBe('Log in and invest');
+      expect(report.rejected.map((item) => [item.path, item.violations[0].rule])).toEqual([
+        ['metadata.title', 'forbiddenTerm'],
+        ['components[0].content.paragraphs[0]', 'protectedPhrase'],
+      ]);
+      expect(report.flagged).toEqual([
+        expect.objectContaining({ path: 'components[0].headings.h1', label: 'Hero › h1' }),
+      ]);
+      expect(suggestions.metadata?.title).toBe('Invest with guaranteed returns');
+    });
+  });
+
+  describe('parseBrandRules', () => {
+    it('should drop empty and malformed entries', () => {
+      expect(
+        parseBrandRules({
+          preferredTerms: [{ term: ' sign in ', avoid: ['log in', ''] }, { term: 'x', avoid: [] }, 'bad'],
+          forbiddenTerms: [' cheap ', '', 3],
+          trademarks: 'iPhone',
+        })
+      ).toEqual({
+        preferredTerms: [{ term: 'sign in', avoid: ['log in'] }],
+        forbiddenTerms: ['cheap'],
+        trademarks: [],
+        protectedPhrases: [],
+      });
+    });
+  });
+});
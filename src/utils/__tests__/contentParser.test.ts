@@ -250,6 +250,59 @@ describe('contentParser', () => {
       expect(items[0].metadata.params).toEqual({ variant: 'primary' });
     });
 
+    it('should capture a field address for datasource fields', () => {
+      const mockPageContent: PageContent = {
+        itemId: 'page-123',
+        name: 'Home',
+        language: 'da',
+        path: '/',
+        components: [
+          {
+            id: 'hero-1',
+            name: 'Hero',
+            componentName: 'Hero',
+            type: 'Component',
+            datasourceId: 'local:/Data/Hero',
+            datasource: {
+              itemId: '{AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE}',
+              path: '/sitecore/content/site/Home/Data/Hero',
+              version: 3,
+            },
+            fields: [
+              {
+                id: '{11111111-2222-3333-4444-555555555555}',
+                name: 'Title',
+                value: 'Welcome',
+                type: 'Single-Line Text',
+                category: 'Heading',
+              },
+              {
+                name: 'Heading',
+                value: 'Read from markup',
+                type: 'heading',
+                category: 'Heading',
+                inferred: true,
+              },
+            ],
+            children: [],
+            path: ['Home', 'Hero'],
+          },
+        ],
+      };
+
+      const items = extractSemanticItems(mockPageContent);
+
+      expect(items[0].address).toEqual({
+        itemId: '{AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE}',
+        itemPath: '/sitecore/content/site/Home/Data/Hero',
+        language: 'da',
+        version: 3,
+        fieldId: '{11111111-2222-3333-4444-555555555555}',
+        fieldName: 'Title',
+      });
+      expect(items[1].address).toBeUndefined();
+    });
+
     it('should handle empty component list', () => {
       const mockPageContent: PageContent = {
         itemId: 'page-123',
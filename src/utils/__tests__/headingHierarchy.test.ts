@@ -0,0 +1,81 @@
+// Unit tests for the heading hierarchy checks and heading levels in scans
+
+import { buildHeadingTree, validateHeadingHierarchy } from '../headingHierarchy';
+import { scanPageContent } from '../seoScanner';
+import { computeSEOScore } from '../seoScorer';
+import type { SemanticTextItem } from '@/src/types';
+import type { HeadingOutlineEntry } from '@/src/types/seo';
+
+const heading = (text: string, level: number | null, componentName = 'Content'): HeadingOutlineEntry => ({
+  text,
+  level,
+  componentName,
+  fieldName: 'Title',
+});
+
+const headingItem = (id: string, text: string, headingLevel?: number): SemanticTextItem => ({
+  id,
+  text,
+  category: 'Heading',
+  metadata: { componentName: 'Title', componentId: id, fieldName: 'Title' },
+  path: ['Home', 'Title'],
+  headingLevel,
+});
+
+describe('headingHierarchy', () => {
+  it('should flag extra H1s, skipped levels, empty and long headings', () => {
+    const checks = validateHeadingHierarchy(
+      [
+        heading('Trail shoes', 1),
+        heading('Why trail shoes', 2),
+        heading('Grip', 4),
+        heading('', 3, 'Teaser'),
+        heading('Sale', 1),
+        heading('Trail running shoes for every kind of ground, weather and distance you could think of', null),
+      ],
+      70
+    );
+
+    expect(checks).toEqual([
+      { index: 2, problem: 'skippedLevel', message: 'H4 follows H2, skipping H3' },
+      { index: 3, problem: 'empty', message: 'Empty heading (Teaser · Title)' },
+      { index: 4, problem: 'multipleH1', message: 'More than one H1 on the page' },
+      { index: 5, problem: 'tooLong', message: 'Heading is 85 characters (recommended: ≤70)' },
+    ]);
+  });
+
+  it('should nest headings under the closest lower level', () => {
+    const tree = buildHeadingTree([
+      heading('Trail shoes', 1),
+      heading('Fit', 2),
+      heading('Sizes', 3),
+      heading('Widths', null),
+      heading('Care', 2),
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].children.map((node) => node.heading.text)).toEqual(['Fit', 'Care']);
+    expect(tree[0].children[0].children.map((node) => [node.heading.text, node.depth])).toEqual([
+      ['Sizes', 2],
+      ['Widths', 2],
+    ]);
+  });
+
+  it('should scan headings by their tag level and report hierarchy issues', () => {
+    const pageData = scanPageContent({ itemId: 'page', name: 'Shoes', language: 'en', path: '/', components: [] }, [
+      headingItem('intro', 'Why trail shoes', 2),
+      headingItem('hero', 'Trail shoes', 1),
+      headingItem('grip', 'Grip', 4),
+      headingItem('teaser', ''),
+    ]);
+
+    expect(pageData.headings.h1).toBe('Trail shoes');
+    expect(pageData.headings.h2).toEqual(['Why trail shoes']);
+    expect(pageData.headings.outline?.map((entry) => entry.level)).toEqual([2, 1, 4, null]);
+
+    const { issues } = computeSEOScore(pageData);
+    expect(issues.skippedHeadingLevels).toEqual(['Grip']);
+    expect(issues.emptyHeadings).toEqual(['Title · Title']);
+    expect(issues.multipleH1).toBeUndefined();
+  });
+});
@@ -0,0 +1,35 @@
+// Unit tests for streaming JSON array element extraction
+
+import { JsonArrayStreamParser } from '../jsonArrayStream';
+
+const document = JSON.stringify({
+  metadata: { title: 'Has "components": [ in a string' },
+  components: [
+    { componentId: 'hero-1', headings: { h2: ['A', 'B'] } },
+    { componentId: 'cta-1', links: [{ fieldName: 'Link', reason: 'brace } in text' }] },
+  ],
+  keywords: { suggested: ['x'] },
+});
+
+describe('JsonArrayStreamParser', () => {
+  it('should emit each element as soon as it is complete', () => {
+    const parser = new JsonArrayStreamParser('components');
+    const emitted: { afterChars: number; element: unknown }[] = [];
+
+    for (let i = 0; i < document.length; i += 7) {
+      for (const element of parser.push(document.substring(i, i + 7))) {
+        emitted.push({ afterChars: Math.min(i + 7, document.length), element });
+      }
+    }
+
+    expect(emitted.map((e) => (e.element as { componentId: string }).componentId)).toEqual(['hero-1', 'cta-1']);
+    expect(emitted[0].afterChars).toBeLessThan(document.indexOf('cta-1'));
+    expect(parser.getText()).toBe(document);
+  });
+
+  it('should ignore arrays under other keys and nested properties', () => {
+    const parser = new JsonArrayStreamParser('components');
+
+    expect(parser.push('{"other": [{"a": 1}], "nested": {"components": [{"b": 2}]}}')).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+// Unit tests for focus keyword analysis and keyword scoring
+
+import { analyzeKeywords, stemWord } from '../keywordAnalysis';
+import { DEFAULT_SCORING_PROFILE } from '../scoringProfiles';
+import { simulateScore } from '../seoScoreSimulator';
+import { computeSEOScore } from '../seoScorer';
+import type { PageData } from '@/src/types/seo';
+
+const intro = 'Our running shoes are built for long distances and rough trails.';
+const body = `${intro} Each running shoe is tested by runners. Find the right pair for your next race today.`;
+
+const pageData: PageData = {
+  metadata: { title: 'Trail Running Shoes | Acme', description: 'Shop lightweight trail shoes.' },
+  headings: { h1: 'Trail Shoes', all: ['Trail Shoes'] },
+  text: body,
+  images: [{ id: 'hero-Image', alt: 'A runner on a mountain trail', src: '/hero.jpg' }],
+  links: [],
+  components: [
+    {
+      componentId: 'intro-1',
+      componentName: 'Intro',
+      path: ['Home', 'Intro'],
+      headings: { all: [] },
+      paragraphs: [{ fieldName: 'Text', text: body }],
+      images: [],
+      links: [],
+    },
+  ],
+  urlSlug: 'running-shoes',
+};
+
+describe('keywordAnalysis', () => {
+  it('should stem plurals and word endings to the same form', () => {
+    expect(stemWord('batteries')).toBe(stemWord('battery'));
+    expect(stemWord('running')).toBe(stemWord('run'));
+    expect(stemWord('boxes')).toBe(stemWord('box'));
+    expect(stemWord('priced')).toBe(stemWord('price'));
+    expect(stemWord('selling')).toBe('sell');
+    expect(stemWord('glass')).toBe('glass');
+    expect(stemWord('bring')).toBe('bring');
+  });
+
+  it('should count occurrences, density and placement with variants', () => {
+    const [analysis] = analyzeKeywords(pageData, ['Running Shoes']);
+
+    expect(analysis).toEqual({
+      keyword: 'Running Shoes',
+      occurrences: 2,
+      density: 7.41, // 2 in 27 words
+      placements: {
+        title: true,
+        h1: false,
+        firstParagraph: true,
+        description: false,
+        altText: false,
+        urlSlug: true,
+      },
+      variants: ['running shoe'],
+    });
+  });
+
+  it('should skip blank and repeated keywords and mark places the page lacks', () => {
+    const analyses = analyzeKeywords({ ...pageData, images: [], urlSlug: undefined }, ['trail', ' ', 'Trails']);
+
+    expect(analyses).toHaveLength(1);
+    expect(analyses[0].placements.altText).toBeNull();
+    expect(analyses[0].placements.urlSlug).toBeNull();
+    expect(analyses[0].variants).toEqual(['trails']);
+  });
+
+  it('should raise keyword issues and score them under content', () => {
+    const withKeywords = { ...pageData, keywordAnalysis: analyzeKeywords(pageData, ['running shoes', 'marathon']) };
+    const result = computeSEOScore(withKeywords);
+
+    expect(result.issues.keywordNotInH1).toEqual(['running shoes', 'marathon']);
+    expect(result.issues.keywordNotInTitle).toEqual(['marathon']);
+    expect(result.issues.keywordDensityLow).toEqual(['marathon']);
+    expect(result.issues.keywordDensityHigh).toEqual(['running shoes']);
+    expect(result.breakdown.content).toBeLessThan(computeSEOScore(pageData).breakdown.content);
+
+    const unchecked = computeSEOScore(withKeywords, {
+      ...DEFAULT_SCORING_PROFILE,
+      checks: { ...DEFAULT_SCORING_PROFILE.checks, keywords: false },
+    });
+    expect(unchecked.issues.keywordNotInH1).toBeUndefined();
+    expect(unchecked.breakdown).toEqual(computeSEOScore(pageData).breakdown);
+  });
+
+  it('should analyze the keywords again when simulating suggestions', () => {
+    const scan = computeSEOScore({ ...pageData, keywordAnalysis: analyzeKeywords(pageData, ['running shoes']) });
+    const simulation = simulateScore(
+      scan,
+      { headings: { h1: 'Trail Running Shoes' } },
+      { headings: { h1: true } }
+    );
+
+    expect(simulation.resolvedIssues).toContainEqual({
+      issue: 'keywordNotInH1',
+      items: ['running shoes'],
+      partial: false,
+    });
+    expect(simulation.afterScore).toBeGreaterThan(simulation.beforeScore);
+  });
+});
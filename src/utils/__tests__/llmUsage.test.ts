@@ -0,0 +1,94 @@
+// Unit tests for LLM usage totals, summaries and budgets
+
+import {
+  describeUsageBudget,
+  evaluateUsageBudget,
+  resolveUsageBudget,
+  summarizeUsage,
+  totalModelCalls,
+  usageMonth,
+} from '../llmUsage';
+import type { LLMUsageRecord } from '@/src/types/seo';
+
+const pricing = { promptPer1M: 2.5, completionPer1M: 10, currency: 'USD' };
+
+const record = (overrides: Partial<LLMUsageRecord>): LLMUsageRecord => ({
+  id: 'usage-1',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  operation: 'suggestions',
+  model: 'azure:gpt-4o',
+  requests: 1,
+  promptTokens: 1000,
+  completionTokens: 500,
+  totalTokens: 1500,
+  latencyMs: 2000,
+  cost: 1,
+  ...overrides,
+});
+
+describe('llmUsage', () => {
+  it('should total the model calls of a request and estimate their cost', () => {
+    const totals = totalModelCalls(
+      [
+        { usage: { promptTokens: 200_000, completionTokens: 10_000, totalTokens: 210_000 }, latencyMs: 1500, estimated: false },
+        { usage: { promptTokens: 100_000, completionTokens: 5_000, totalTokens: 105_000 }, latencyMs: 500, estimated: true },
+      ],
+      pricing
+    );
+
+    expect(totals).toEqual({
+      requests: 2,
+      promptTokens: 300_000,
+      completionTokens: 15_000,
+      totalTokens: 315_000,
+      latencyMs: 2000,
+      cost: 0.9,
+      estimated: true,
+    });
+  });
+
+  it('should summarize a month per site, page and user', () => {
+    const records = [
+      record({ site: 'finance', pageItemId: 'p1', pageName: 'Invest', user: 'ana@example.com', cost: 2 }),
+      record({ site: 'finance', pageItemId: 'p2', pageName: 'Save', user: 'ana@example.com' }),
+      record({ site: 'retail', pageItemId: 'p3', user: 'bo@example.com', cost: 5 }),
+    ];
+
+    const summary = summarizeUsage(records, '2026-10', 'USD', 'finance');
+
+    expect(summary.total).toMatchObject({ requests: 2, totalTokens: 3000, cost: 3 });
+    expect(summary.bySite.map((row) => [row.label, row.cost])).toEqual([
+      ['retail', 5],
+      ['finance', 3],
+    ]);
+    expect(summary.byPage.map((row) => row.label)).toEqual(['Invest', 'Save']);
+    expect(summary.byUser).toEqual([expect.objectContaining({ key: 'ana@example.com', requests: 2 })]);
+  });
+
+  it('should warn near a budget limit and block over it', () => {
+    const config = {
+      default: { monthlyCost: 10, action: 'warn' as const },
+      sites: { finance: { monthlyTokens: 1000, warnAt: 0.5, action: 'block' as const } },
+    };
+    const spent = (cost: number, totalTokens: number) => record({ cost, totalTokens });
+
+    expect(resolveUsageBudget(config, 'retail')).toBe(config.default);
+    expect(evaluateUsageBudget(config.default, spent(5, 0), 'retail').state).toBe('ok');
+    expect(evaluateUsageBudget(config.default, spent(12, 0), 'retail')).toMatchObject({
+      state: 'exceeded',
+      blocked: false,
+    });
+
+    const finance = resolveUsageBudget(config, 'finance')!;
+    expect(evaluateUsageBudget(finance, spent(0, 600), 'finance').state).toBe('warning');
+    const blocked = evaluateUsageBudget(finance, spent(0, 1000), 'finance');
+    expect(blocked).toMatchObject({ state: 'exceeded', blocked: true, used: 1 });
+    expect(describeUsageBudget(blocked)).toBe(
+      'Site "finance" has used 100% of the monthly LLM budget (1,000 of 1,000 tokens)'
+    );
+  });
+
+  it('should key usage by UTC month', () => {
+    expect(usageMonth(new Date('2026-10-31T23:30:00Z'))).toBe('2026-10');
+  });
+});
@@ -0,0 +1,96 @@
+// Unit tests for prompt templates
+
+import {
+  comparePromptVersions,
+  listPromptVariables,
+  parsePromptTemplate,
+  renderPromptTemplate,
+} from '../promptTemplate';
+
+const parts = {
+  system: 'You are an SEO assistant.',
+  page: ['{{context}}', 'Write for {{ tone }} readers.'],
+  components: '{{components}}',
+  consolidation: '{{page}}',
+  alternativesSystem: 'You rewrite one field.',
+  alternatives: '{{field}}',
+  context: 'Locale: {{locale}}',
+  componentTasks: '- Headings',
+  keywordStrategy: '- Suggest keywords',
+  competitors: '{{competitorDetails}}',
+  guidelines: '- Be specific',
+  brandRules: '{{#hasBrandRules}}Follow the brand rules.{{/hasBrandRules}}',
+};
+
+describe('promptTemplate', () => {
+  it('should parse parts given as text or lines', () => {
+    expect(parsePromptTemplate({ ...parts, description: 'Shorter' }, 'blog', '2')).toEqual({
+      ...parts,
+      id: 'blog',
+      version: '2',
+      description: 'Shorter',
+      page: '{{context}}\nWrite for {{ tone }} readers.',
+    });
+    expect(listPromptVariables('{{context}} {{ tone }} {{#richText}}{{context}}{{/richText}}')).toEqual([
+      'context',
+      'tone',
+      'richText',
+    ]);
+  });
+
+  it('should reject missing parts and unknown variables', () => {
+    expect(() => parsePromptTemplate({ ...parts, consolidation: '' }, 'blog', '2')).toThrow(
+      'Prompt template "blog@2" has no "consolidation" prompt'
+    );
+    expect(() => parsePromptTemplate({ ...parts, page: '{{contxt}}' }, 'blog', '2')).toThrow(
+      'Prompt template "blog@2" uses unknown variable(s) in "page": contxt'
+    );
+    expect(() => parsePromptTemplate({ ...parts, guidelines: '{{#tone}}Friendly' }, 'blog', '2')).toThrow(
+      'Prompt template "blog@2" has an invalid "guidelines" prompt: Section {{tone}} is not closed'
+    );
+  });
+
+  it('should fill in variables and drop lines whose only variable is empty', () => {
+    const rendered = renderPromptTemplate('{{context}}\n{{competitors}}\nTone: {{tone}}{{locale}}\n\nEnd', {
+      context: '=== CONTEXT ===\nLocale: en-US',
+      tone: 'Friendly',
+    });
+
+    expect(rendered).toBe('=== CONTEXT ===\nLocale: en-US\nTone: Friendly\n\nEnd');
+  });
+
+  it('should keep sections only when their variable is set and repeat them per list item', () => {
+    const template = [
+      'Rules:',
+      '{{#preferredTerms}}',
+      '- Write "{{term}}" instead of {{avoid}}',
+      '{{/preferredTerms}}',
+      '{{#instruction}}',
+      'Follow: {{instruction}}',
+      '{{/instruction}}',
+      '{{^instruction}}',
+      'Write {{count}} alternatives.',
+      '{{/instruction}}',
+      'Tone: {{#richText}}rich {{/richText}}{{tone}}',
+    ].join('\n');
+
+    expect(
+      renderPromptTemplate(template, {
+        preferredTerms: [
+          { term: 'sign in', avoid: '"log in"' },
+          { term: 'shop', avoid: '"store"' },
+        ],
+        count: '3',
+        richText: false,
+        tone: '{{count}}',
+      })
+    ).toBe('Rules:\n- Write "sign in" instead of "log in"\n- Write "shop" instead of "store"\nWrite 3 alternatives.\nTone: {{count}}');
+    expect(renderPromptTemplate(template, { instruction: 'shorter', richText: true, tone: 'Friendly' })).toBe(
+      'Rules:\nFollow: shorter\nTone: rich Friendly'
+    );
+  });
+
+  it('should order versions numerically', () => {
+    expect(['10', '2', '1'].sort(comparePromptVersions)).toEqual(['1', '2', '10']);
+  });
+});
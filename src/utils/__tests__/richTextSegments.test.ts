@@ -0,0 +1,60 @@
+// Unit tests for markup-preserving RichText segments
+
+import { parseRichText, mergeRichText, segmentPlainText } from '../richTextSegments';
+
+const html = '<p>Read our <a href="/pricing">pricing guide</a>.<br/>Thanks</p>\n<p>Second&nbsp;para &amp; more</p>';
+
+describe('richTextSegments', () => {
+  describe('parseRichText', () => {
+    it('should split block elements into tokenized segments', () => {
+      const doc = parseRichText(html);
+
+      expect(doc.segments.map((s) => ({ id: s.id, text: s.text }))).toEqual([
+        { id: 's0', text: 'Read our {1}pricing guide{/1}.{2/}Thanks' },
+        { id: 's1', text: 'Second para & more' },
+      ]);
+    });
+
+    it('should treat plain text as a single segment', () => {
+      const doc = parseRichText('Just text');
+
+      expect(doc.segments).toHaveLength(1);
+      expect(doc.segments[0].text).toBe('Just text');
+    });
+  });
+
+  describe('mergeRichText', () => {
+    it('should round-trip without rewrites', () => {
+      expect(mergeRichText(parseRichText(html), {}).html).toBe(html);
+    });
+
+    it('should keep inline markup when a segment is rewritten', () => {
+      const result = mergeRichText(parseRichText(html), {
+        s0: 'See our {1}SEO pricing guide{/1} & plans.{2/}Thank you',
+      });
+
+      expect(result.applied).toEqual(['s0']);
+      expect(result.rejected).toEqual([]);
+      expect(result.html).toBe(
+        '<p>See our <a href="/pricing">SEO pricing guide</a> &amp; plans.<br/>Thank you</p>\n<p>Second&nbsp;para &amp; more</p>'
+      );
+    });
+
+    it('should reject rewrites that drop or break markup', () => {
+      const result = mergeRichText(parseRichText(html), {
+        s0: 'See our pricing guide.{2/}Thanks',
+        s1: '{1}Broken',
+      });
+
+      expect(result.applied).toEqual([]);
+      expect(result.rejected.map((r) => r.id)).toEqual(['s0', 's1']);
+      expect(result.html).toBe(html);
+    });
+  });
+
+  describe('segmentPlainText', () => {
+    it('should remove markup tokens', () => {
+      expect(segmentPlainText('Read our {1}pricing guide{/1}.{2/}Thanks')).toBe('Read our pricing guide.Thanks');
+    });
+  });
+});
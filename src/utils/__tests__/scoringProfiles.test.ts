@@ -0,0 +1,90 @@
+// Unit tests for scoring profiles and profile-based scoring
+
+import {
+  DEFAULT_SCORING_PROFILE,
+  DEFAULT_SCORING_PROFILE_CONFIG,
+  parseScoringProfileConfig,
+  resolveScoringProfile,
+} from '../scoringProfiles';
+import { computeSEOScore } from '../seoScorer';
+import type { PageData } from '@/src/types/seo';
+
+// A hub page: good metadata and links, little text, no images
+const hubPage: PageData = {
+  metadata: { title: 'Products', description: 'Browse every product category.' },
+  headings: { h1: 'Products', all: ['Products'] },
+  text: 'Pick a category to get started.',
+  images: [],
+  links: [
+    { text: 'Laptops', href: '/products/laptops' },
+    { text: 'Phones', href: '/products/phones' },
+  ],
+  metrics: {
+    wordCount: 6,
+    characterCount: 31,
+    paragraphCount: 1,
+    headingCount: 1,
+    linkCount: 2,
+    imageCount: 0,
+    readability: {
+      score: 40,
+      grade: 'College',
+      sentences: 1,
+      words: 6,
+      syllables: 11,
+      averageWordsPerSentence: 6,
+      averageSyllablesPerWord: 1.8,
+    },
+  },
+};
+
+describe('scoringProfiles', () => {
+  it('should score with the standard profile by default', () => {
+    const result = computeSEOScore(hubPage);
+
+    expect(result.profile).toBe(DEFAULT_SCORING_PROFILE);
+    expect(result.breakdown).toEqual({ metadata: 25, content: 15, accessibility: 25, links: 25 });
+    expect(result.seoScore).toBe(90);
+    expect(result.issues).toMatchObject({ shortContent: true, lowReadability: true, missingImages: true });
+  });
+
+  it('should skip disabled checks and scale the weights', () => {
+    const hub = resolveScoringProfile(DEFAULT_SCORING_PROFILE_CONFIG, { pageGoal: 'Navigate' });
+    const result = computeSEOScore(hubPage, hub);
+
+    expect(hub.id).toBe('navigation-hub');
+    expect(result.breakdown).toEqual(hub.weights);
+    expect(result.seoScore).toBe(100);
+    expect(result.issues).toEqual({});
+  });
+
+  it('should apply stored thresholds over the built-in profile', () => {
+    const config = parseScoringProfileConfig({
+      profiles: [{ id: 'standard', thresholds: { minWords: 5, titleMaxWidth: 'wide' } }],
+    });
+
+    const result = computeSEOScore(hubPage, resolveScoringProfile(config, {}));
+
+    expect(result.profile.thresholds).toMatchObject({ minWords: 5, titleMaxWidth: 600 });
+    expect(result.issues.shortContent).toBeUndefined();
+  });
+
+  it('should pick a profile by page template, then page goal', () => {
+    const config = parseScoringProfileConfig({
+      profiles: [{ id: 'store-locator', label: 'Store locator', checks: { contentLength: false } }],
+      templates: { 'Product Page': 'product-page', Locator: 'store-locator', Legacy: 'missing' },
+      pageGoals: { Convert: 'product-page' },
+    });
+
+    expect(resolveScoringProfile(config, { templateName: 'product page', pageGoal: 'Inform' }).id).toBe('product-page');
+    expect(resolveScoringProfile(config, { templateName: 'Locator' })).toMatchObject({
+      label: 'Store locator',
+      weights: DEFAULT_SCORING_PROFILE.weights,
+      checks: expect.objectContaining({ contentLength: false, title: true }),
+    });
+    expect(config.templates).not.toHaveProperty('Legacy');
+    expect(resolveScoringProfile(config, { templateName: 'Article', pageGoal: 'Inform' }).id).toBe('blog-article');
+    expect(resolveScoringProfile(config, { pageGoal: 'Convert' }).id).toBe('product-page');
+    expect(resolveScoringProfile(config, {}).id).toBe('standard');
+  });
+});
@@ -9,6 +9,7 @@ import {
   filterBySearch,
   groupByCategory,
   createSemanticTextItem,
+  detectHeadingLevel,
 } from '../semanticClassifier';
 import type { SemanticTextItem, FieldInfo, ComponentMetadata } from '@/src/types';
 
@@ -228,6 +229,37 @@ describe('semanticClassifier', () => {
 
       expect(item.text).toBe('Formatted content');
     });
+
+    it('should keep the heading level of heading fields', () => {
+      const field: FieldInfo = { name: 'Title', value: 'Our story', type: 'Single-Line Text', category: 'Heading' };
+      const metadata: ComponentMetadata = {
+        componentName: 'Title',
+        componentId: 'title-1',
+        fieldName: 'Title',
+        params: { HeadingTag: 'h2' },
+      };
+
+      expect(createSemanticTextItem(field, metadata, []).headingLevel).toBe(2);
+      expect(createSemanticTextItem(field, { ...metadata, params: {} }, []).headingLevel).toBeUndefined();
+    });
+  });
+
+  describe('detectHeadingLevel', () => {
+    const field: FieldInfo = { name: 'Title', value: 'Our story', type: 'Single-Line Text', category: 'Heading' };
+
+    it('should prefer rendered markup, then rendering parameters, then the field name', () => {
+      expect(detectHeadingLevel({ ...field, headingLevel: 3 }, { HeadingTag: 'h2' })).toBe(3);
+      expect(detectHeadingLevel({ ...field, value: '<h4 class="title">Our story</h4>' }, { HeadingTag: 'h2' })).toBe(4);
+      expect(detectHeadingLevel(field, { 'Heading Level': '2' })).toBe(2);
+      expect(detectHeadingLevel(field, { titleTag: 'H3' })).toBe(3);
+      expect(detectHeadingLevel({ ...field, name: 'H2Title' })).toBe(2);
+    });
+
+    it('should not guess a level', () => {
+      expect(detectHeadingLevel(field)).toBeUndefined();
+      expect(detectHeadingLevel(field, { HeadingTag: 'div', Styles: 'h2' })).toBeUndefined();
+      expect(detectHeadingLevel({ ...field, name: 'Headline2' })).toBeUndefined();
+    });
   });
 
   describe('filterBySearch', () => {
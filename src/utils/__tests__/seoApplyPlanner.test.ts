@@ -0,0 +1,315 @@
+// Unit tests for SEO apply planner
+
+import { buildFieldChanges, buildDiffSummary, buildWorkflowComment, getChangedText } from '../seoApplyPlanner';
+import type { SemanticTextItem } from '@/src/types';
+import type { PageData, SEOSuggestions } from '@/src/types/seo';
+
+function createItem(
+  id: string,
+  fieldName: string,
+  text: string,
+  category: SemanticTextItem['category']
+): SemanticTextItem {
+  return {
+    id,
+    text,
+    category,
+    metadata: {
+      componentName: 'Hero',
+      componentId: 'hero-1',
+      datasourceItemId: 'local:/Data/Hero',
+      fieldName,
+    },
+    path: ['Home', 'Hero'],
+    address: {
+      itemId: '{11111111-2222-3333-4444-555555555555}',
+      language: 'en',
+      version: 1,
+      fieldName,
+    },
+  };
+}
+
+const semanticItems: SemanticTextItem[] = [
+  createItem('hero-1-Title', 'Title', 'Welcome', 'Heading'),
+  createItem('hero-1-Subtitle', 'Subtitle', 'Old subtitle', 'Heading'),
+  createItem('hero-1-Image', 'Image', 'Alt: hero | Src: /hero.jpg', 'Image'),
+];
+
+const pageData: PageData = {
+  metadata: { title: 'Welcome' },
+  headings: { h1: 'Welcome', all: ['Welcome', 'Old subtitle'] },
+  text: '',
+  images: [{ id: 'hero-1-Image', alt: 'hero', src: '/hero.jpg' }],
+  links: [],
+  components: [
+    {
+      componentId: 'hero-1',
+      componentName: 'Hero',
+      path: ['Home', 'Hero'],
+      headings: { h1: 'Welcome', all: ['Welcome', 'Old subtitle'] },
+      paragraphs: [],
+      images: [],
+      links: [],
+    },
+  ],
+  sources: { title: 'hero-1-Title', h1: 'hero-1-Title' },
+};
+
+const suggestions: SEOSuggestions = {
+  metadata: { title: 'Welcome to Our Platform' },
+  components: [
+    {
+      componentId: 'hero-1',
+      componentName: 'Hero',
+      path: ['Home', 'Hero'],
+      headings: {
+        h1: 'A Better Welcome',
+        improvements: [
+          { fieldName: 'Subtitle', current: 'Old subtitle', suggested: 'New subtitle', reason: 'clearer' },
+        ],
+      },
+      images: [{ id: 'hero-1-Image', fieldName: 'Image', alt: 'Smiling team in the office', currentAlt: 'hero' }],
+    },
+  ],
+};
+
+describe('seoApplyPlanner', () => {
+  describe('buildFieldChanges', () => {
+    it('should map page-level metadata to its source field', () => {
+      const { changes } = buildFieldChanges(
+        suggestions,
+        { metadata: { title: true } },
+        pageData,
+        semanticItems
+      );
+
+      expect(changes).toEqual([
+        {
+          key: 'page.title',
+          kind: 'text',
+          address: {
+            itemId: '{11111111-2222-3333-4444-555555555555}',
+            language: 'en',
+            version: 1,
+            fieldName: 'Title',
+          },
+          original: 'Welcome',
+          value: 'Welcome to Our Platform',
+        },
+      ]);
+    });
+
+    it('should map component headings, improvements and image alts', () => {
+      const { changes, skipped } = buildFieldChanges(
+        suggestions,
+        {
+          components: {
+            'hero-1': {
+              headings: { h1: true, improvements: ['Subtitle'] },
+              images: [{ id: 'hero-1-Image', alt: true }],
+            },
+          },
+        },
+        pageData,
+        semanticItems
+      );
+
+      expect(skipped).toEqual([]);
+      expect(changes.map((c) => c.key)).toEqual([
+        'component.hero-1.h1',
+        'component.hero-1.heading.Subtitle',
+        'component.hero-1.image.hero-1-Image.alt',
+      ]);
+      expect(changes[1].address.fieldName).toBe('Subtitle');
+      expect(changes[2].kind).toBe('image-alt');
+    });
+
+    it('should take the original of heading improvements from the scanned field', () => {
+      const echoed: SEOSuggestions = {
+        components: [
+          {
+            ...suggestions.components![0],
+            headings: {
+              improvements: [
+                { fieldName: 'Subtitle', current: 'Old  Subtitle', suggested: 'New subtitle', reason: 'clearer' },
+              ],
+            },
+          },
+        ],
+      };
+      const { changes } = buildFieldChanges(
+        echoed,
+        { components: { 'hero-1': { headings: { improvements: ['Subtitle'] } } } },
+        pageData,
+        semanticItems
+      );
+
+      expect(changes[0].original).toBe('Old subtitle');
+    });
+
+    it('should skip fields without an address', () => {
+      const { changes, skipped } = buildFieldChanges(
+        suggestions,
+        { metadata: { title: true } },
+        pageData,
+        semanticItems.map((item) => ({ ...item, address: undefined }))
+      );
+
+      expect(changes).toHaveLength(0);
+      expect(skipped).toEqual(['page.title']);
+    });
+
+    it('should skip selections without an editable source field', () => {
+      const { changes, skipped } = buildFieldChanges(
+        { metadata: { description: 'A description' } },
+        { metadata: { description: true } },
+        pageData,
+        semanticItems
+      );
+
+      expect(changes).toHaveLength(0);
+      expect(skipped).toEqual(['page.description']);
+    });
+    it('should map link selections to link changes', () => {
+      const { changes, skipped } = buildFieldChanges(
+        {
+          components: [
+            {
+              componentId: 'hero-1',
+              componentName: 'Hero',
+              path: ['Home', 'Hero'],
+              links: [
+                { fieldName: 'CTA', currentText: 'Click here', suggestedText: 'See pricing', href: '/pricing', reason: 'descriptive' },
+              ],
+            },
+          ],
+        },
+        { components: { 'hero-1': { links: [{ fieldName: 'CTA', apply: true }] } } },
+        {
+          ...pageData,
+          links: [{ text: 'Click here', href: '#', componentId: 'hero-1', fieldName: 'CTA' }],
+        },
+        [...semanticItems, createItem('hero-1-CTA', 'CTA', 'Click here [#]', 'Link')]
+      );
+
+      expect(skipped).toEqual([]);
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({
+        key: 'component.hero-1.link.CTA',
+        kind: 'link',
+        original: 'Click here',
+        value: 'See pricing',
+        href: '/pricing',
+      });
+    });
+
+    it('should map RichText paragraphs to segment rewrites', () => {
+      const body = 'Read our {1}pricing guide{/1}.';
+      const { changes, skipped } = buildFieldChanges(
+        {
+          components: [
+            {
+              componentId: 'hero-1',
+              componentName: 'Hero',
+              path: ['Home', 'Hero'],
+              content: {
+                paragraphs: [
+                  {
+                    fieldName: 'Body',
+                    original: 'Read our pricing guide.',
+                    suggested: 'Compare plans in our pricing guide.',
+                    reason: 'keyword',
+                    segments: [{ id: 's0', suggested: 'Compare plans in our {1}pricing guide{/1}.' }],
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        { components: { 'hero-1': { content: { paragraphs: ['Body'] } } } },
+        {
+          ...pageData,
+          components: [
+            {
+              ...pageData.components![0],
+              paragraphs: [{ fieldName: 'Body', text: 'Read our pricing guide.', segments: [{ id: 's0', text: body }] }],
+            },
+          ],
+        },
+        [...semanticItems, createItem('hero-1-Body', 'Body', 'Read our pricing guide.', 'RichText')]
+      );
+
+      expect(skipped).toEqual([]);
+      expect(changes[0]).toMatchObject({
+        key: 'component.hero-1.paragraph.Body',
+        kind: 'rich-text',
+        segments: [{ id: 's0', original: body, suggested: 'Compare plans in our {1}pricing guide{/1}.' }],
+      });
+    });
+  });
+
+  describe('getChangedText', () => {
+    const change = {
+      key: 'component.hero-1.paragraph.Body',
+      kind: 'rich-text' as const,
+      address: { itemId: 'item', language: 'en', fieldName: 'Body' },
+      original: 'Read our pricing guide. Call us today.',
+      value: 'A whole new paragraph.',
+    };
+
+    it('should merge RichText segment rewrites into the scanned text', () => {
+      const text = getChangedText({
+        ...change,
+        segments: [{ id: 's0', original: 'Read our {1}pricing guide{/1}.', suggested: 'See the {1}team pricing guide{/1}.' }],
+      });
+
+      expect(text).toBe('See the team pricing guide. Call us today.');
+    });
+
+    it('should keep the scanned text when a rewrite loses markup', () => {
+      const text = getChangedText({
+        ...change,
+        segments: [{ id: 's0', original: 'Read our {1}pricing guide{/1}.', suggested: 'See the pricing guide.' }],
+      });
+
+      expect(text).toBe(change.original);
+      expect(getChangedText({ ...change, kind: 'text' })).toBe('A whole new paragraph.');
+    });
+  });
+
+  describe('buildDiffSummary', () => {
+    it('should describe each change', () => {
+      const summary = buildDiffSummary([
+        {
+          key: 'page.title',
+          kind: 'text',
+          address: { itemId: 'item', language: 'en', fieldName: 'Title' },
+          original: 'Old',
+          value: 'New',
+        },
+      ]);
+
+      expect(summary).toEqual(['Title: "Old" → "New"']);
+    });
+  });
+
+  describe('buildWorkflowComment', () => {
+    it('should summarise the edits after the author note', () => {
+      const comment = buildWorkflowComment(
+        [
+          {
+            key: 'page.title',
+            kind: 'text',
+            address: { itemId: 'item', language: 'en', fieldName: 'Title' },
+            original: 'Old',
+            value: 'New',
+          },
+        ],
+        'Quarterly SEO pass'
+      );
+
+      expect(comment).toBe('Quarterly SEO pass\nSEO Optimizer: 1 field updated\n- Title: "Old" → "New"');
+    });
+  });
+});
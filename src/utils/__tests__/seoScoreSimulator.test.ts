@@ -0,0 +1,152 @@
+// Unit tests for SEO score simulator
+
+import { findResolvedIssues, overlaySuggestions, simulateFieldChanges, simulateScore } from '../seoScoreSimulator';
+import { computeSEOScore } from '../seoScorer';
+import type { PageData, SEOSuggestions } from '@/src/types/seo';
+
+const pageData: PageData = {
+  metadata: { title: 'Welcome' },
+  headings: { all: ['Old subtitle'], h2: ['Old subtitle'] },
+  text: '',
+  images: [
+    { id: 'hero-1-Image', alt: '', src: '/hero.jpg', componentId: 'hero-1' },
+    { id: 'hero-1-Logo', alt: 'logo', src: '/logo.png', componentId: 'hero-1' },
+  ],
+  links: [],
+  components: [
+    {
+      componentId: 'hero-1',
+      componentName: 'Hero',
+      path: ['Home', 'Hero'],
+      headings: { all: ['Old subtitle'], h2: ['Old subtitle'] },
+      paragraphs: [],
+      images: [{ id: 'hero-1-Image', alt: '', src: '/hero.jpg' }],
+      links: [],
+    },
+  ],
+};
+
+const suggestions: SEOSuggestions = {
+  metadata: { description: 'A helpful description of the page' },
+  headings: { h1: 'Welcome to Our Platform' },
+  components: [
+    {
+      componentId: 'hero-1',
+      componentName: 'Hero',
+      path: ['Home', 'Hero'],
+      headings: {
+        improvements: [
+          { fieldName: 'Subtitle', current: 'Old subtitle', suggested: 'New subtitle', reason: 'clearer' },
+        ],
+      },
+      images: [{ id: 'hero-1-Image', fieldName: 'Image', alt: 'Smiling team in the office' }],
+    },
+  ],
+};
+
+describe('seoScoreSimulator', () => {
+  describe('overlaySuggestions', () => {
+    it('should overlay selected values without mutating the original', () => {
+      const result = overlaySuggestions(pageData, suggestions, {
+        metadata: { description: true },
+        headings: { h1: true },
+        components: {
+          'hero-1': {
+            headings: { improvements: ['Subtitle'] },
+            images: [{ id: 'hero-1-Image', alt: true }],
+          },
+        },
+      });
+
+      expect(result.metadata.description).toBe('A helpful description of the page');
+      expect(result.headings.h1).toBe('Welcome to Our Platform');
+      expect(result.headings.h2).toEqual(['New subtitle']);
+      expect(result.images[0].alt).toBe('Smiling team in the office');
+      expect(result.components?.[0].images[0].alt).toBe('Smiling team in the office');
+
+      expect(pageData.metadata.description).toBeUndefined();
+      expect(pageData.headings.h1).toBeUndefined();
+      expect(pageData.images[0].alt).toBe('');
+    });
+
+    it('should only overlay changes that pass the filter', () => {
+      const result = overlaySuggestions(
+        pageData,
+        suggestions,
+        { metadata: { description: true }, headings: { h1: true } },
+        (key) => key === 'page.h1'
+      );
+
+      expect(result.headings.h1).toBe('Welcome to Our Platform');
+      expect(result.metadata.description).toBeUndefined();
+    });
+
+    it('should overlay the given values instead of the suggested text', () => {
+      const result = overlaySuggestions(
+        pageData,
+        suggestions,
+        { headings: { h1: true } },
+        undefined,
+        new Map([['page.h1', 'Welcome Back']])
+      );
+
+      expect(result.headings.h1).toBe('Welcome Back');
+    });
+  });
+
+  describe('simulateScore', () => {
+    it('should project the score and per-category delta', () => {
+      const before = computeSEOScore(pageData);
+      const simulation = simulateScore(before, suggestions, {
+        metadata: { description: true },
+        headings: { h1: true },
+      });
+
+      expect(simulation.beforeScore).toBe(before.seoScore);
+      expect(simulation.delta.metadata).toBe(15);
+      expect(simulation.delta.content).toBe(15);
+      expect(simulation.delta.accessibility).toBe(0);
+      expect(simulation.afterScore).toBe(before.seoScore + 30);
+      expect(simulation.resolvedIssues).toEqual([
+        { issue: 'missingMetaDescription' },
+        { issue: 'missingH1' },
+      ]);
+    });
+  });
+
+  describe('simulateFieldChanges', () => {
+    it('should only project the changes Apply writes, with their values', () => {
+      const before = computeSEOScore(pageData);
+      const description = 'A description of the page as the author changed it';
+      const simulation = simulateFieldChanges(
+        before,
+        suggestions,
+        { metadata: { description: true }, headings: { h1: true } },
+        [
+          {
+            key: 'page.description',
+            kind: 'text',
+            address: { itemId: 'item', language: 'en', fieldName: 'Description' },
+            original: '',
+            value: description,
+          },
+        ]
+      );
+
+      // The H1 has no editable source field, so Apply skips it
+      expect(simulation.resolvedIssues).toEqual([{ issue: 'missingMetaDescription' }]);
+      expect(simulation.delta.content).toBe(0);
+    });
+  });
+
+  describe('findResolvedIssues', () => {
+    it('should report partially resolved list issues', () => {
+      const resolved = findResolvedIssues(
+        { weakAltText: ['a', 'b'], missingH1: true },
+        { weakAltText: ['b'], missingH1: true }
+      );
+
+      expect(resolved).toEqual([{ issue: 'weakAltText', items: ['a'], partial: true }]);
+    });
+  });
+});
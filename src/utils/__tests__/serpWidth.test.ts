@@ -0,0 +1,76 @@
+// Unit tests for the SERP width model
+
+import { computeSEOScore } from '../seoScorer';
+import { fitsSerpWidth, formatSerpBreadcrumb, measureTextWidth, SERP_LIMITS, truncateForSerp } from '../serpWidth';
+import type { PageData } from '@/src/types/seo';
+
+describe('serpWidth', () => {
+  it('should measure wide letters wider than narrow ones', () => {
+    expect(measureTextWidth('WWWWWWWWWW', 20)).toBeCloseTo(188.8);
+    expect(measureTextWidth('iiiiiiiiii', 20)).toBeCloseTo(44.4);
+    expect(measureTextWidth('é', 20)).toBe(measureTextWidth('e', 20));
+  });
+
+  it('should cut by width rather than by characters', () => {
+    const narrow = 'i'.repeat(80);
+    const wide = 'W'.repeat(40);
+
+    expect(narrow.length).toBeGreaterThan(SERP_LIMITS.title.approxChars);
+    expect(fitsSerpWidth(narrow, 'title')).toBe(true);
+    expect(wide.length).toBeLessThan(SERP_LIMITS.title.approxChars);
+    expect(fitsSerpWidth(wide, 'title')).toBe(false);
+  });
+
+  it('should cut at a word boundary and add an ellipsis', () => {
+    const title = 'Wireless Noise Cancelling Headphones With Forty Hours Of Battery Life And Fast Charging';
+    const cut = truncateForSerp(title, 'title');
+
+    expect(cut.truncated).toBe(true);
+    expect(cut.width).toBeGreaterThan(600);
+    expect(cut.visibleText.endsWith('...')).toBe(true);
+    expect(title.startsWith(cut.visibleText.slice(0, -3))).toBe(true);
+    expect(title[cut.cutAt]).toBe(' ');
+    expect(measureTextWidth(cut.visibleText, SERP_LIMITS.title.fontSize)).toBeLessThanOrEqual(600);
+  });
+
+  it('should cut descriptions earlier on mobile than on desktop', () => {
+    const description =
+      'Compare our wireless headphones by battery life, comfort and sound. Free delivery on every order, ' +
+      'a two-year warranty and thirty days to change your mind.';
+    const desktop = truncateForSerp(description, 'description', 'desktop');
+    const mobile = truncateForSerp(description, 'description', 'mobile');
+
+    expect(desktop.truncated).toBe(false);
+    expect(desktop.visibleText).toBe(description);
+    expect(mobile.truncated).toBe(true);
+    expect(mobile.cutAt).toBeLessThan(description.length);
+  });
+
+  it('should accept a custom maximum width', () => {
+    expect(fitsSerpWidth('SEO Tips', 'title', 'desktop', 50)).toBe(false);
+    expect(truncateForSerp('SEO Tips', 'title', 'desktop', 500)).toMatchObject({ maxWidth: 500, truncated: false });
+  });
+
+  it('should score the overflow of a cut title on its normalized text', () => {
+    const title = 'Wireless Noise Cancelling Headphones With Forty Hours Of Battery Life And Fast Charging';
+    const page = (pageTitle: string): PageData => ({
+      metadata: { title: pageTitle },
+      headings: { all: [] },
+      text: '',
+      images: [],
+      links: [],
+    });
+
+    const spaced = computeSEOScore(page(`  ${title.replace(/ /g, '   ')}\n`));
+    expect(spaced.breakdown.metadata).toBe(computeSEOScore(page(title)).breakdown.metadata);
+  });
+
+  it('should build the breadcrumb from the page path', () => {
+    expect(formatSerpBreadcrumb('/sitecore/content/Acme/Finance/Home/Loans/Home Loans', 'finance-site')).toBe(
+      'finance-site › loans › home-loans'
+    );
+    expect(formatSerpBreadcrumb('/sitecore/content/Acme/Finance/Home', 'finance-site')).toBe('finance-site');
+    expect(formatSerpBreadcrumb('/sitecore/content/Acme/Finance/Campaigns/Spring')).toBe('campaigns › spring');
+    expect(formatSerpBreadcrumb('/')).toBe('/');
+  });
+});
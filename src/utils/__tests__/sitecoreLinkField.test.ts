@@ -0,0 +1,114 @@
+// Unit tests for Sitecore General Link XML parse/serialize
+
+import {
+  parseLinkField,
+  serializeLinkField,
+  getLinkValue,
+  setLinkAttribute,
+  setLinkHref,
+  updateLinkFieldXml,
+  getLinkHref,
+} from '../sitecoreLinkField';
+
+const internalLink =
+  '<link text="Read more" linktype="internal" class="btn" title="" target="" querystring="a=1" anchor="top" id="{11111111-2222-3333-4444-555555555555}" url="/en/about" />';
+
+describe('sitecoreLinkField', () => {
+  describe('parseLinkField', () => {
+    it('should read every named attribute', () => {
+      const link = parseLinkField(internalLink);
+
+      expect(link).not.toBeNull();
+      expect(getLinkValue(link!)).toEqual({
+        linktype: 'internal',
+        id: '{11111111-2222-3333-4444-555555555555}',
+        url: '/en/about',
+        anchor: 'top',
+        querystring: 'a=1',
+        target: '',
+        title: '',
+        class: 'btn',
+        text: 'Read more',
+      });
+    });
+
+    it('should decode entities and accept single quotes', () => {
+      const link = parseLinkField(`<Link text='Terms &amp; &quot;Conditions&quot;' url="/terms"/>`);
+
+      expect(getLinkValue(link!).text).toBe('Terms & "Conditions"');
+    });
+
+    it('should return null for values that are not links', () => {
+      expect(parseLinkField('')).toBeNull();
+      expect(parseLinkField('<image mediaid="{1}" />')).toBeNull();
+      expect(parseLinkField('plain text')).toBeNull();
+    });
+  });
+
+  describe('serializeLinkField', () => {
+    it.each([
+      internalLink,
+      '<Link text="Home" url="/"/>',
+      `<link  linktype='external'   url="https://example.com?x=1&amp;y=2" style="color:red"  />`,
+      '<link text="Legacy" url="/old">inner</link>',
+    ])('should round-trip %s unchanged', (xml) => {
+      expect(serializeLinkField(parseLinkField(xml)!)).toBe(xml);
+    });
+
+    it('should only rewrite changed attributes', () => {
+      const link = parseLinkField(`<link text='Old &amp; busted' data-custom="keep&amp;me" url="/a" />`)!;
+      setLinkAttribute(link, 'text', 'New & shiny');
+      setLinkAttribute(link, 'title', 'Learn more');
+
+      expect(serializeLinkField(link)).toBe(
+        '<link text="New &amp; shiny" data-custom="keep&amp;me" url="/a" title="Learn more" />'
+      );
+    });
+  });
+
+  describe('setLinkHref', () => {
+    it('should keep an internal link internal when the href has the same path', () => {
+      const link = parseLinkField(internalLink)!;
+      setLinkHref(link, '/EN/about/?b=2#faq');
+      const value = getLinkValue(link);
+
+      expect(value.linktype).toBe('internal');
+      expect(value.id).toBe('{11111111-2222-3333-4444-555555555555}');
+      expect(value.url).toBe('/en/about');
+      expect(value.querystring).toBe('b=2');
+      expect(value.anchor).toBe('faq');
+      expect(value.class).toBe('btn');
+    });
+
+    it('should not point an internal link at another target', () => {
+      const link = parseLinkField(internalLink)!;
+
+      expect(() => setLinkHref(link, 'https://example.com/pricing')).toThrow(
+        'Link to /en/about is internal and cannot be pointed at "https://example.com/pricing"'
+      );
+      expect(serializeLinkField(link)).toBe(internalLink);
+    });
+
+    it('should store other hrefs as external links', () => {
+      const link = parseLinkField('<link text="Docs" linktype="external" url="http://old.example" anchor="top" />')!;
+      setLinkHref(link, 'https://example.com/pricing');
+
+      expect(getLinkValue(link)).toMatchObject({ linktype: 'external', url: 'https://example.com/pricing', anchor: '' });
+    });
+  });
+
+  describe('updateLinkFieldXml', () => {
+    it('should create a link when the field is empty', () => {
+      expect(updateLinkFieldXml('', { text: 'Contact', linktype: 'external', url: '/contact' })).toBe(
+        '<link text="Contact" linktype="external" url="/contact" />'
+      );
+    });
+  });
+
+  describe('getLinkHref', () => {
+    it('should combine url, querystring and anchor', () => {
+      expect(getLinkHref(getLinkValue(parseLinkField(internalLink)!))).toBe('/en/about?a=1#top');
+      expect(getLinkHref({ linktype: 'anchor', anchor: 'faq' })).toBe('#faq');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+// Unit tests for single-suggestion alternatives
+
+import { applyAlternative, getTargetLimits } from '../suggestionAlternatives';
+import type { SEOSuggestions } from '@/src/types/seo';
+
+const suggestions: SEOSuggestions = {
+  metadata: { title: 'Pricing', description: 'Our plans' },
+  components: [
+    {
+      componentId: 'hero-1',
+      componentName: 'Hero',
+      path: ['Home', 'Hero'],
+      content: {
+        paragraphs: [
+          { fieldName: 'Body', original: 'Old', suggested: 'New', reason: 'Clearer', segments: [{ id: 's0', suggested: 'New' }] },
+        ],
+      },
+      images: [{ id: 'img-1', fieldName: 'Image', alt: 'A team' }],
+    },
+    { componentId: 'cta-1', componentName: 'CTA', path: ['Home', 'CTA'], headings: { h1: 'Buy now' } },
+  ],
+};
+
+describe('suggestionAlternatives', () => {
+  it('should replace page metadata without touching the input', () => {
+    const updated = applyAlternative(suggestions, { kind: 'metaTitle' }, { text: 'Compare Pricing Plans' });
+
+    expect(updated.metadata).toEqual({ title: 'Compare Pricing Plans', description: 'Our plans' });
+    expect(suggestions.metadata?.title).toBe('Pricing');
+  });
+
+  it('should replace one component item and keep the others', () => {
+    const updated = applyAlternative(
+      suggestions,
+      { kind: 'paragraph', componentId: 'hero-1', fieldName: 'Body' },
+      { text: 'Newer', segments: [{ id: 's0', suggested: 'Newer' }], reason: 'Shorter' }
+    );
+
+    expect(updated.components?.[0].content?.paragraphs?.[0]).toEqual({
+      fieldName: 'Body',
+      original: 'Old',
+      suggested: 'Newer',
+      reason: 'Shorter',
+      segments: [{ id: 's0', suggested: 'Newer' }],
+    });
+    expect(updated.components?.[0].images).toBe(suggestions.components?.[0].images);
+    expect(updated.components?.[1]).toBe(suggestions.components?.[1]);
+
+    const withAlt = applyAlternative(
+      suggestions,
+      { kind: 'imageAlt', componentId: 'hero-1', imageId: 'img-1' },
+      { text: 'Support team at work' }
+    );
+    expect(withAlt.components?.[0].images?.[0].alt).toBe('Support team at work');
+  });
+
+  it('should use the same limits as full suggestions', () => {
+    expect(getTargetLimits({ kind: 'metaTitle' })).toEqual({ serp: 'title' });
+    expect(getTargetLimits({ kind: 'imageAlt', componentId: 'c', imageId: 'i' })).toEqual({ minLength: 5, maxLength: 125 });
+    expect(getTargetLimits({ kind: 'h1', componentId: 'c' })).toEqual({});
+  });
+});
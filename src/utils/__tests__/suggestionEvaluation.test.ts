@@ -0,0 +1,81 @@
+// Unit tests for the suggestion evaluation criteria
+
+import { averageScore, evaluateSuggestions, type EvaluationCase } from '../suggestionEvaluation';
+import type { SEOSuggestions } from '@/src/types/seo';
+
+const evalCase: EvaluationCase = {
+  id: 'savings',
+  context: { pageGoal: 'Convert', tone: 'Friendly', locale: 'en', keywordsRequired: ['savings account'] },
+  pageData: {
+    metadata: { title: 'SmartSaver', description: '' },
+    headings: { h1: 'SmartSaver', all: ['SmartSaver'] },
+    text: 'Earn 4.1% AER with SmartSaver.',
+    images: [],
+    links: [],
+    components: [
+      {
+        componentId: 'hero',
+        componentName: 'Hero',
+        path: ['Hero'],
+        headings: { h1: 'SmartSaver', all: ['SmartSaver'] },
+        paragraphs: [{ fieldName: 'Intro', text: 'Earn 4.1% AER with SmartSaver.' }],
+        images: [],
+        links: [],
+      },
+    ],
+  },
+  entities: ['SmartSaver'],
+  forbiddenTerms: ['guaranteed'],
+  outputs: {},
+};
+
+const paragraph = (suggested: string) => ({
+  componentId: 'hero',
+  componentName: 'Hero',
+  path: ['Hero'],
+  content: { paragraphs: [{ fieldName: 'Intro', original: 'Earn 4.1% AER with SmartSaver.', suggested, reason: '' }] },
+});
+
+describe('suggestionEvaluation', () => {
+  it('should give full marks to suggestions that meet every criterion', () => {
+    const suggestions: SEOSuggestions = {
+      metadata: { title: 'SmartSaver Savings Account', description: 'Earn 4.1% AER with a SmartSaver savings account.' },
+      components: [paragraph('Earn 4.1% AER with the SmartSaver savings account.')],
+    };
+
+    const evaluation = evaluateSuggestions(evalCase, suggestions, suggestions);
+
+    expect(evaluation.criteria.lengthLimits.score).toBe(1);
+    expect(evaluation.criteria.keywords.score).toBe(1);
+    expect(evaluation.criteria.forbiddenTerms.score).toBe(1);
+    expect(evaluation.criteria.entities.score).toBe(1);
+    expect(evaluation.scoreAfter).toBeGreaterThan(evaluation.scoreBefore);
+  });
+
+  it('should report what lowered each score', () => {
+    const raw: SEOSuggestions = {
+      metadata: { title: `Guaranteed growth ${'for your money '.repeat(4)}` },
+      components: [paragraph('Earn a great rate with us.')],
+    };
+    const result: SEOSuggestions = { components: raw.components };
+
+    const { criteria } = evaluateSuggestions(evalCase, raw, result);
+
+    expect(criteria.lengthLimits.score).toBe(0);
+    expect(criteria.lengthLimits.details[0]).toMatch(/^metadata\.title must fit 600px in search results/);
+    expect(criteria.keywords).toEqual({
+      score: 0,
+      details: ['"savings account" is not in the title, description or H1'],
+    });
+    expect(criteria.forbiddenTerms.score).toBe(0.5);
+    expect(criteria.entities.details).toEqual([
+      'components[0].content.paragraphs[0] drops "SmartSaver"',
+      'components[0].content.paragraphs[0] drops "4.1%"',
+    ]);
+  });
+
+  it('should average only the criteria that apply', () => {
+    expect(averageScore([1, 0.5, null])).toBe(75);
+    expect(averageScore([null])).toBe(100);
+  });
+});
@@ -0,0 +1,136 @@
+// Unit tests for the suggestion grounding check
+
+import { verifySuggestionGrounding } from '../suggestionGrounding';
+import type { PageData, SEOSuggestions } from '@/src/types/seo';
+
+const pageData: PageData = {
+  metadata: { title: 'Pricing' },
+  headings: {
+    h1: 'Pricing',
+    all: ['Pricing', 'Plans'],
+    outline: [
+      { text: 'Pricing', level: 1, componentId: 'hero-1', componentName: 'Hero', fieldName: 'Title' },
+      { text: 'Plans', level: 2, componentId: 'hero-1', componentName: 'Hero', fieldName: 'Subtitle' },
+    ],
+  },
+  text: 'Compare our plans.',
+  images: [],
+  links: [],
+  components: [
+    {
+      componentId: 'hero-1',
+      componentName: 'Hero',
+      path: ['Pricing', 'Hero'],
+      headings: { h1: 'Pricing', h2: ['Plans'], all: ['Pricing', 'Plans'] },
+      paragraphs: [
+        { fieldName: 'Body', text: 'Compare   our plans and pick the one that fits your team best.' },
+        { fieldName: 'Intro', text: 'Read our pricing guide.', segments: [{ id: 's0', text: 'Read our {1}pricing guide{/1}.' }] },
+      ],
+      images: [{ id: 'img-1', src: '/hero.png', fieldName: 'Image' }],
+      links: [{ fieldName: 'Link', text: 'Learn more', href: '/plans' }],
+    },
+  ],
+};
+
+describe('suggestionGrounding', () => {
+  it('should keep suggestions that match the scanned page', () => {
+    const suggestions: SEOSuggestions = {
+      metadata: { title: 'Pricing Plans' },
+      components: [
+        {
+          componentId: 'hero-1',
+          componentName: 'Hero',
+          path: ['Pricing', 'Hero'],
+          headings: { improvements: [{ fieldName: 'Subtitle', current: 'plans', suggested: 'Our Plans', reason: 'Clearer' }] },
+          content: {
+            paragraphs: [
+              { fieldName: 'Body', original: 'Compare our plans and pick the one...', suggested: 'Compare plans.', reason: 'Shorter' },
+              { fieldName: 'Intro', original: 'Read our {1}pricing guide{/1}.', suggested: 'See the guide.', reason: 'Shorter' },
+            ],
+          },
+          images: [{ id: 'img-1', fieldName: 'Image', alt: 'Team comparing plans' }],
+          links: [{ fieldName: 'Link', currentText: 'Learn more', suggestedText: 'Compare plans', href: '/plans', reason: 'Descriptive' }],
+        },
+      ],
+    };
+
+    const { value, rejected } = verifySuggestionGrounding(suggestions, pageData);
+
+    expect(rejected).toEqual([]);
+    expect(value).toEqual(suggestions);
+  });
+
+  it('should reject unknown components, unknown fields and mismatched originals', () => {
+    const suggestions: SEOSuggestions = {
+      components: [
+        { componentId: 'footer-9', componentName: 'Footer', path: [], headings: { h1: 'Contact' } },
+        {
+          componentId: 'hero-1',
+          componentName: 'Hero',
+          path: ['Pricing', 'Hero'],
+          headings: { improvements: [{ fieldName: 'Subtitle', current: 'Our Prices', suggested: 'Plans', reason: 'Clearer' }] },
+          content: {
+            paragraphs: [
+              { fieldName: 'Summary', original: 'Compare our plans.', suggested: 'Compare plans.', reason: 'Shorter' },
+              { fieldName: 'Body', original: 'Compare all plans.', suggested: 'Compare plans.', reason: 'Shorter' },
+            ],
+          },
+          images: [{ id: 'img-7', fieldName: 'Image', alt: 'Team comparing plans' }],
+          links: [{ fieldName: 'Link', currentText: 'Read more', href: '/plans', reason: 'Descriptive' }],
+        },
+      ],
+    };
+
+    const { value, rejected } = verifySuggestionGrounding(suggestions, pageData);
+
+    expect(value.components).toHaveLength(1);
+    expect(value.components?.[0]).toMatchObject({
+      headings: { improvements: [] },
+      content: { paragraphs: [] },
+      images: [],
+      links: [],
+    });
+    expect(rejected.map((item) => [item.path, item.violations[0].rule])).toEqual([
+      ['components[0]', 'unknownComponent'],
+      ['components[1].headings.improvements[0]', 'originalMismatch'],
+      ['components[1].content.paragraphs[0]', 'unknownField'],
+      ['components[1].content.paragraphs[1]', 'originalMismatch'],
+      ['components[1].images[0]', 'unknownField'],
+      ['components[1].links[0]', 'originalMismatch'],
+    ]);
+    expect(rejected[0]).toMatchObject({
+      label: 'Footer',
+      violations: [{ message: 'component "footer-9" is not on this page' }],
+    });
+  });
+
+  it('should reject heading improvements whose field does not hold the quoted heading', () => {
+    const improvement = (fieldName: string, current: string) => ({
+      fieldName,
+      current,
+      suggested: 'Our Plans',
+      reason: 'Clearer',
+    });
+    const suggestions: SEOSuggestions = {
+      components: [
+        {
+          componentId: 'hero-1',
+          componentName: 'Hero',
+          path: ['Pricing', 'Hero'],
+          headings: { improvements: [improvement('Title', 'Plans'), improvement('Tagline', 'Plans')] },
+        },
+      ],
+    };
+
+    const { value, rejected } = verifySuggestionGrounding(suggestions, pageData);
+
+    expect(value.components?.[0].headings?.improvements).toEqual([]);
+    expect(rejected.map((item) => [item.path, item.violations[0].rule, item.violations[0].message])).toEqual([
+      ['components[0].headings.improvements[0]', 'originalMismatch', '"Plans" is not the current text of heading "Title"'],
+      ['components[0].headings.improvements[1]', 'unknownField', 'field "Tagline" is not a heading of this component'],
+    ]);
+
+    const withoutOutline = { ...pageData, headings: { ...pageData.headings, outline: undefined } };
+    expect(verifySuggestionGrounding(suggestions, withoutOutline).rejected).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+// Unit tests for the suggestion schema
+
+import {
+  describeSuggestionPath,
+  parsePath,
+  pruneInvalidSuggestions,
+  validateSuggestionSchema,
+} from '../suggestionSchema';
+import type { SEOSuggestions } from '@/src/types/seo';
+
+describe('suggestionSchema', () => {
+  it('should report precise paths for violations', () => {
+    const { violations, units } = validateSuggestionSchema({
+      metadata: { title: 'x'.repeat(72) },
+      components: [
+        {
+          componentId: 'hero-1',
+          componentName: 'Hero',
+          headings: {
+            improvements: [
+              { fieldName: 'Title', current: 'Old', suggested: 'New', reason: 'Clearer' },
+              { fieldName: 'Subtitle', current: 'Old', suggested: 'New' },
+            ],
+          },
+        },
+      ],
+    });
+
+    expect(violations).toEqual([
+      {
+        path: 'metadata.title',
+        rule: 'maxWidth',
+        message: 'must fit 600px in search results, about 60 characters (got 720px, cut off after 58 characters)',
+      },
+      { path: 'components[0].headings.improvements[1].reason', rule: 'required', message: 'is required' },
+    ]);
+    expect(Array.from(units.keys())).toEqual(['metadata.title', 'components[0].headings.improvements[1]']);
+  });
+
+  it('should accept a valid response and treat empty optional strings as no suggestion', () => {
+    const { violations } = validateSuggestionSchema({
+      metadata: { title: 'Pricing Plans', description: '' },
+      keywords: { suggested: ['pricing'], usage: [{ keyword: 'pricing', currentCount: 1 }] },
+      readability: { score: 80 },
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it('should accept segment-only paragraph rewrites', () => {
+    const paragraph = { fieldName: 'Body', original: 'Text', reason: 'Clearer' };
+
+    expect(
+      validateSuggestionSchema({
+        components: [
+          {
+            componentId: 'c1',
+            componentName: 'Text',
+            content: { paragraphs: [{ ...paragraph, segments: [{ id: 's0', suggested: 'Better text' }] }] },
+          },
+        ],
+      }).violations
+    ).toEqual([]);
+    expect(
+      validateSuggestionSchema({
+        components: [{ componentId: 'c1', componentName: 'Text', content: { paragraphs: [paragraph] } }],
+      }).violations
+    ).toEqual([
+      {
+        path: 'components[0].content.paragraphs[0]',
+        rule: 'required',
+        message: 'suggested or segments is required',
+      },
+    ]);
+  });
+
+  it('should prune invalid units and keep index order stable', () => {
+    const suggestions = {
+      components: [
+        {
+          componentId: 'hero-1',
+          componentName: 'Hero',
+          images: [
+            { id: 'img-1', fieldName: 'Image', alt: 'abc' },
+            { id: 'img-2', fieldName: 'Image', alt: 'Team at work' },
+            { id: 'img-3', fieldName: 'Image' },
+          ],
+        },
+        { componentName: 'No ID' },
+      ],
+    } as unknown as SEOSuggestions;
+
+    const { value, discarded } = pruneInvalidSuggestions(suggestions);
+
+    expect(value.components).toHaveLength(1);
+    expect(value.components![0].images).toEqual([{ id: 'img-2', fieldName: 'Image', alt: 'Team at work' }]);
+    expect(discarded.map((item) => item.path)).toEqual([
+      'components[0].images[0]',
+      'components[0].images[2]',
+      'components[1]',
+    ]);
+    expect(discarded[0].label).toBe('Hero › image alt (Image)');
+  });
+
+  it('should parse and describe paths', () => {
+    expect(parsePath('components[0].headings.improvements[12].reason')).toEqual([
+      'components',
+      0,
+      'headings',
+      'improvements',
+      12,
+      'reason',
+    ]);
+    expect(describeSuggestionPath({ metadata: { title: 'x' } }, 'metadata.description')).toBe(
+      'metadata › meta description'
+    );
+  });
+});
@@ -0,0 +1,24 @@
+// Unit tests for token budgeting
+
+import { chunkByTokenBudget, estimateTokens, truncateToTokens } from '../tokenBudget';
+
+describe('tokenBudget', () => {
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('a'.repeat(10))).toBe(3);
+  });
+
+  it('should truncate on a word boundary', () => {
+    const text = 'Compare our pricing plans for teams of every size';
+
+    expect(truncateToTokens(text, 100)).toBe(text);
+    expect(truncateToTokens(text, 5)).toBe('Compare our pricing...');
+  });
+
+  it('should group items within the budget and item limit', () => {
+    const sizes = [3, 4, 2, 9, 1, 1, 1];
+
+    expect(chunkByTokenBudget(sizes, 8, (size) => size)).toEqual([[3, 4], [2], [9], [1, 1, 1]]);
+    expect(chunkByTokenBudget(sizes, 100, (size) => size, 3)).toEqual([[3, 4, 2], [9, 1, 1], [1]]);
+  });
+});
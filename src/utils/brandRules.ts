@@ -0,0 +1,220 @@
+// Brand Rules - Deterministic check of suggestions against the site's brand voice rules
+//
+// The prompt asks the model to follow the rules; this check makes sure it did.
+// Suggestions that use a forbidden term or drop a protected (regulatory) phrase
+// that the current text contains are removed. Avoided terms and trademark
+// capitalisation are flagged for the author to review.
+
+import type {
+  BrandCheckReport,
+  BrandRule,
+  BrandRules,
+  PageData,
+  SchemaViolation,
+  SEOSuggestions,
+  ValidationReportItem,
+} from '@/src/types/seo';
+import { segmentPlainText } from './richTextSegments';
+import { describeSuggestionPath, removeAtPaths } from './suggestionSchema';
+
+export const EMPTY_BRAND_RULES: BrandRules = {
+  preferredTerms: [],
+  forbiddenTerms: [],
+  trademarks: [],
+  protectedPhrases: [],
+};
+
+export interface BrandTextIssue {
+  rule: BrandRule;
+  reject: boolean; // false: flag only
+  message: string;
+}
+
+// One suggested text and the page text it replaces
+export interface SuggestedTextUnit {
+  path: string;
+  texts: string[];
+  original?: string;
+}
+
+/**
+ * Normalize rules from an untrusted source: trims entries and drops empty ones
+ */
+export function parseBrandRules(value: unknown): BrandRules {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const list = (items: unknown): string[] =>
+    Array.isArray(items)
+      ? items.filter((item): item is string => typeof item === 'string').map((item) => item.trim()).filter(Boolean)
+      : [];
+
+  return {
+    preferredTerms: (Array.isArray(input.preferredTerms) ? input.preferredTerms : []).flatMap((item: any) => {
+      const term = typeof item?.term === 'string' ? item.term.trim() : '';
+      const avoid = list(item?.avoid);
+      return term && avoid.length > 0 ? [{ term, avoid }] : [];
+    }),
+    forbiddenTerms: list(input.forbiddenTerms),
+    trademarks: list(input.trademarks),
+    protectedPhrases: list(input.protectedPhrases),
+  };
+}
+
+/**
+ * True if at least one rule is set
+ */
+export function hasBrandRules(rules?: BrandRules): rules is BrandRules {
+  return (
+    !!rules &&
+    (rules.preferredTerms.length > 0 ||
+      rules.forbiddenTerms.length > 0 ||
+      rules.trademarks.length > 0 ||
+      rules.protectedPhrases.length > 0)
+  );
+}
+
+/**
+ * Check one suggested text. `original` is the current page text it replaces:
+ * protected phrases it contains must be kept word for word.
+ */
+export function checkBrandText(text: string, original: string, rules: BrandRules): BrandTextIssue[] {
+  const issues: BrandTextIssue[] = [];
+  const suggested = normalizeSpace(segmentPlainText(text));
+  const current = normalizeSpace(segmentPlainText(original));
+
+  for (const phrase of rules.protectedPhrases) {
+    const protectedText = normalizeSpace(phrase);
+    if (current.includes(protectedText) && !suggested.includes(protectedText)) {
+      issues.push({ rule: 'protectedPhrase', reject: true, message: `changes or removes the protected phrase "${phrase}"` });
+    }
+  }
+
+  // Protected phrases are mandated wording, so terms inside them are not checked
+  const free = rules.protectedPhrases.reduce(
+    (remaining, phrase) => remaining.split(normalizeSpace(phrase)).join(' '),
+    suggested
+  );
+
+  for (const term of rules.forbiddenTerms) {
+    if (findTerm(free, term).length > 0) {
+      issues.push({ rule: 'forbiddenTerm', reject: true, message: `uses the forbidden term "${term}"` });
+    }
+  }
+
+  for (const { term, avoid } of rules.preferredTerms) {
+    for (const avoided of avoid) {
+      if (findTerm(free, avoided).length > 0) {
+        issues.push({ rule: 'preferredTerm', reject: false, message: `uses "${avoided}"; prefer "${term}"` });
+      }
+    }
+  }
+
+  for (const trademark of rules.trademarks) {
+    const wrong = findTerm(free, trademark).find((match) => match !== trademark);
+    if (wrong) {
+      issues.push({ rule: 'trademark', reject: false, message: `writes "${wrong}"; the trademark is "${trademark}"` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check every suggested text against the rules. Returns a copy without the rejected
+ * suggestions, and the report of what was rejected or flagged.
+ */
+export function checkSuggestionsBrandRules(
+  suggestions: SEOSuggestions,
+  pageData: PageData,
+  rules: BrandRules
+): { value: SEOSuggestions; report: BrandCheckReport } {
+  const report: BrandCheckReport = { rejected: [], flagged: [] };
+
+  for (const unit of listSuggestedTexts(suggestions, pageData)) {
+    const issues = unit.texts.flatMap((text) => checkBrandText(text, unit.original || '', rules));
+    if (issues.length === 0) continue;
+
+    const violations: SchemaViolation[] = uniqueIssues(issues).map((issue) => ({
+      path: unit.path,
+      rule: issue.rule,
+      message: issue.message,
+    }));
+    const item: ValidationReportItem = {
+      path: unit.path,
+      label: describeSuggestionPath(suggestions, unit.path),
+      violations,
+    };
+    (issues.some((issue) => issue.reject) ? report.rejected : report.flagged).push(item);
+  }
+
+  if (report.rejected.length === 0) {
+    return { value: suggestions, report };
+  }
+
+  const value = JSON.parse(JSON.stringify(suggestions)) as SEOSuggestions;
+  removeAtPaths(value, report.rejected.map((item) => item.path));
+  return { value, report };
+}
+
+/**
+ * Every suggested text with its path and, where known, the current page text it replaces
+ */
+export function listSuggestedTexts(suggestions: SEOSuggestions, pageData: PageData): SuggestedTextUnit[] {
+  const units: SuggestedTextUnit[] = [];
+  const add = (path: string, text: string | undefined, original?: string) => {
+    if (text) units.push({ path, texts: [text], original });
+  };
+  const addHeadings = (path: string, headings?: { h2?: string[]; h3?: string[] }) => {
+    headings?.h2?.forEach((h2, idx) => add(`${path}.h2[${idx}]`, h2));
+    headings?.h3?.forEach((h3, idx) => add(`${path}.h3[${idx}]`, h3));
+  };
+
+  add('metadata.title', suggestions.metadata?.title, pageData.metadata.title);
+  add('metadata.description', suggestions.metadata?.description, pageData.metadata.description);
+  add('headings.h1', suggestions.headings?.h1, pageData.headings.h1);
+  addHeadings('headings', suggestions.headings);
+
+  suggestions.components?.forEach((component, ci) => {
+    const path = `components[${ci}]`;
+    const scanned = pageData.components?.find((comp) => comp.componentId === component.componentId);
+
+    add(`${path}.metadata.title`, component.metadata?.title, pageData.metadata.title);
+    add(`${path}.metadata.description`, component.metadata?.description, pageData.metadata.description);
+    add(`${path}.headings.h1`, component.headings?.h1, scanned?.headings.h1);
+    addHeadings(`${path}.headings`, component.headings);
+    component.headings?.improvements?.forEach((imp, idx) =>
+      add(`${path}.headings.improvements[${idx}]`, imp.suggested, imp.current)
+    );
+
+    component.content?.paragraphs?.forEach((para, idx) => {
+      const texts = [para.suggested, (para.segments || []).map((seg) => seg.suggested).join(' ')].filter(Boolean);
+      const original = scanned?.paragraphs.find((p) => p.fieldName === para.fieldName)?.text ?? para.original;
+      units.push({ path: `${path}.content.paragraphs[${idx}]`, texts, original });
+    });
+
+    component.images?.forEach((img, idx) =>
+      add(`${path}.images[${idx}]`, img.alt, img.currentAlt ?? pageData.images.find((i) => i.id === img.id)?.alt)
+    );
+    component.links?.forEach((link, idx) => {
+      const current = scanned?.links.find((l) => l.fieldName === link.fieldName)?.text;
+      add(`${path}.links[${idx}]`, link.suggestedText, current ?? link.currentText);
+    });
+  });
+
+  return units;
+}
+
+// Case-insensitive whole-word matches of a term, as written in the text
+function findTerm(text: string, term: string): string[] {
+  const escaped = normalizeSpace(term).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (!escaped) return [];
+  return Array.from(text.matchAll(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu')), (m) => m[0]);
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function uniqueIssues(issues: BrandTextIssue[]): BrandTextIssue[] {
+  const seen = new Set<string>();
+  return issues.filter((issue) => !seen.has(issue.message) && !!seen.add(issue.message));
+}
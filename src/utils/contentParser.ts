@@ -10,6 +10,7 @@ import type {
   SemanticTextItem,
 } from '@/src/types';
 import { classifyField, isSubstantialContent, createSemanticTextItem } from './semanticClassifier';
+import { buildFieldAddress, isItemId } from './fieldAddressResolver';
 
 /**
  * Parse Experience Edge GraphQL response into structured page content
@@ -100,12 +101,15 @@ function parsePlaceholder(
       }
     }
 
+    const datasourceId = component.dataSource || component.datasourceId;
+
     return {
       id: componentId,
       name: component.displayName || componentName,
       componentName,
       type: component.componentName || 'Component',
-      datasourceId: component.dataSource || component.datasourceId,
+      datasourceId,
+      datasource: isItemId(datasourceId) ? { itemId: datasourceId } : undefined,
       placeholder: placeholderKey,
       params: component.params,
       fields,
@@ -123,13 +127,19 @@ function parseItemAsComponent(item: GraphQLItem, parentPath: string[]): Componen
   const path = [...parentPath, item.name];
 
   const fieldsObject: Record<string, any> = {};
+  const fieldIds: Record<string, string> = {};
   if (item.fields) {
     for (const field of item.fields) {
       fieldsObject[field.name] = field.value || field.jsonValue;
+      if (field.id) {
+        fieldIds[field.name] = field.id;
+      }
     }
   }
 
-  const fields = parseFields(fieldsObject, item);
+  const fields = parseFields(fieldsObject, item).map((field) =>
+    fieldIds[field.name] ? { ...field, id: fieldIds[field.name] } : field
+  );
 
   // Parse child items
   const children: ComponentNode[] = [];
@@ -145,6 +155,11 @@ function parseItemAsComponent(item: GraphQLItem, parentPath: string[]): Componen
     componentName,
     type: item.template?.name || 'Item',
     datasourceId: item.id,
+    datasource: {
+      itemId: item.id,
+      path: typeof item.path === 'string' ? item.path : undefined,
+      version: typeof item.version === 'number' ? item.version : undefined,
+    },
     fields,
     children,
     path,
@@ -189,11 +204,6 @@ function parseFields(fieldsObject: Record<string, any>, context?: any): FieldInf
       value = String(fieldValue);
     }
 
-    // Skip empty values
-    if (!isSubstantialContent(value)) {
-      continue;
-    }
-
     // Classify the field
     const category = classifyField(
       fieldName,
@@ -202,6 +212,11 @@ function parseFields(fieldsObject: Record<string, any>, context?: any): FieldInf
       context?.template?.name
     );
 
+    // Skip empty values, except headings: the heading hierarchy check reports empty ones
+    if (!isSubstantialContent(value) && category !== 'Heading') {
+      continue;
+    }
+
     fields.push({
       name: fieldName,
       value,
@@ -240,6 +255,7 @@ function isSystemField(fieldName: string): boolean {
  * Extract all semantic text items from page content
  */
 export function extractSemanticItems(pageContent: PageContent): SemanticTextItem[] {
+  const language = pageContent.language || 'en';
   const items: SemanticTextItem[] = [];
 
   function processComponent(component: ComponentNode, path: string[]): void {
@@ -260,6 +276,12 @@ export function extractSemanticItems(pageContent: PageContent): SemanticTextItem
         componentPath
       );
 
+      // Capture where this field lives so suggestions can be written back
+      const address = buildFieldAddress(component, field, language);
+      if (address) {
+        item.address = address;
+      }
+
       items.push(item);
     }
 
@@ -0,0 +1,121 @@
+// Field Address Resolver - Maps semantic items and suggestions back to editable Sitecore fields
+
+import type { ComponentNode, FieldAddress, FieldInfo, SemanticTextItem } from '@/src/types';
+
+const ITEM_ID_PATTERN = /^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?$/i;
+
+/**
+ * Check if a value is a Sitecore item ID (GUID, with or without braces/dashes)
+ */
+export function isItemId(value?: string): value is string {
+  return !!value && ITEM_ID_PATTERN.test(value.trim());
+}
+
+/**
+ * Build the address of a component field.
+ * Returns undefined when the field cannot be traced to a datasource item.
+ */
+export function buildFieldAddress(
+  component: ComponentNode,
+  field: FieldInfo,
+  language: string
+): FieldAddress | undefined {
+  // Pseudo-fields and fields guessed from rendered markup are not editable
+  if (field.inferred || field.type === 'Reference') {
+    return undefined;
+  }
+
+  const datasource = component.datasource;
+  const itemId =
+    datasource?.itemId || (isItemId(component.datasourceId) ? component.datasourceId : undefined);
+  const itemPath = itemId ? datasource?.path : datasource?.path || component.datasourceId;
+
+  if (!itemId && !itemPath) {
+    return undefined;
+  }
+
+  return {
+    itemId,
+    itemPath,
+    language: datasource?.language || language,
+    version: datasource?.version,
+    fieldId: field.id,
+    fieldName: field.name,
+  };
+}
+
+/**
+ * Lookup tables from semantic item ID and component/field pair to semantic item
+ */
+export interface FieldAddressIndex {
+  byItemId: Map<string, SemanticTextItem>;
+  byComponentField: Map<string, SemanticTextItem>;
+}
+
+/**
+ * Index semantic items that carry a field address
+ */
+export function createFieldAddressIndex(semanticItems: SemanticTextItem[]): FieldAddressIndex {
+  const index: FieldAddressIndex = {
+    byItemId: new Map(),
+    byComponentField: new Map(),
+  };
+
+  for (const item of semanticItems) {
+    if (!item.address) continue;
+    index.byItemId.set(item.id, item);
+    index.byComponentField.set(componentFieldKey(item.metadata.componentId, item.metadata.fieldName), item);
+  }
+
+  return index;
+}
+
+/**
+ * Resolve a semantic item ID (e.g. PageImage.id) to its field address
+ */
+export function resolveBySemanticId(
+  index: FieldAddressIndex,
+  semanticItemId?: string
+): SemanticTextItem | undefined {
+  return semanticItemId ? index.byItemId.get(semanticItemId) : undefined;
+}
+
+/**
+ * Resolve a component ID and free-text field name (as returned in suggestions) to a field address.
+ * Falls back to a case-insensitive match because the model does not always preserve casing.
+ */
+export function resolveByComponentField(
+  index: FieldAddressIndex,
+  componentId: string,
+  fieldName: string
+): SemanticTextItem | undefined {
+  const exact = index.byComponentField.get(componentFieldKey(componentId, fieldName));
+  if (exact) {
+    return exact;
+  }
+
+  const wanted = fieldName.trim().toLowerCase();
+  for (const item of index.byItemId.values()) {
+    if (
+      item.metadata.componentId === componentId &&
+      item.metadata.fieldName.toLowerCase() === wanted
+    ) {
+      return item;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Format an address for display and audit logs: {item}@lang#version/Field
+ */
+export function formatFieldAddress(address: FieldAddress): string {
+  const item = address.itemId || address.itemPath || '(unknown item)';
+  const version = address.version !== undefined ? `#${address.version}` : '';
+  return `${item}@${address.language}${version}/${address.fieldName}`;
+}
+
+function componentFieldKey(componentId: string, fieldName: string): string {
+  return `${componentId}::${fieldName}`;
+}
@@ -0,0 +1,95 @@
+// Heading Hierarchy - Outline tree and structure checks for the page headings
+//
+// Works on the outline from the scanner (PageHeadings.outline). Level checks only use
+// headings whose tag level is known; empty and long headings are checked for all of them.
+
+import type { HeadingOutlineEntry } from '@/src/types/seo';
+
+export type HeadingProblem = 'multipleH1' | 'skippedLevel' | 'empty' | 'tooLong';
+
+export interface HeadingCheck {
+  index: number; // Position in the outline
+  problem: HeadingProblem;
+  message: string;
+}
+
+export interface HeadingTreeNode {
+  index: number; // Position in the outline
+  heading: HeadingOutlineEntry;
+  depth: number; // Nesting depth in the tree, from 0
+  children: HeadingTreeNode[];
+}
+
+/**
+ * Problems in the heading structure, in outline order
+ */
+export function validateHeadingHierarchy(outline: HeadingOutlineEntry[], maxLength: number): HeadingCheck[] {
+  const checks: HeadingCheck[] = [];
+  let seenH1 = false;
+  let previousLevel: number | null = null;
+
+  outline.forEach((heading, index) => {
+    const text = heading.text.trim();
+    if (!text) {
+      checks.push({ index, problem: 'empty', message: `Empty heading (${describeHeading(heading)})` });
+    } else if (text.length > maxLength) {
+      checks.push({
+        index,
+        problem: 'tooLong',
+        message: `Heading is ${text.length} characters (recommended: ≤${maxLength})`,
+      });
+    }
+
+    const { level } = heading;
+    if (level === null) return;
+
+    if (level === 1) {
+      if (seenH1) {
+        checks.push({ index, problem: 'multipleH1', message: 'More than one H1 on the page' });
+      }
+      seenH1 = true;
+    }
+
+    if (previousLevel !== null && level > previousLevel + 1) {
+      const skipped = Array.from({ length: level - previousLevel - 1 }, (_, i) => `H${previousLevel! + i + 1}`);
+      checks.push({
+        index,
+        problem: 'skippedLevel',
+        message: `H${level} follows H${previousLevel}, skipping ${skipped.join(', ')}`,
+      });
+    }
+    previousLevel = level;
+  });
+
+  return checks;
+}
+
+/**
+ * The headings as a tree: each heading is nested under the closest heading before it
+ * with a lower level. Headings of unknown level sit at the level of the one before them.
+ */
+export function buildHeadingTree(outline: HeadingOutlineEntry[]): HeadingTreeNode[] {
+  const roots: HeadingTreeNode[] = [];
+  const stack: { level: number; node: HeadingTreeNode }[] = [];
+
+  outline.forEach((heading, index) => {
+    const level = heading.level ?? stack[stack.length - 1]?.level ?? 1;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1]?.node;
+    const node: HeadingTreeNode = { index, heading, depth: parent ? parent.depth + 1 : 0, children: [] };
+    (parent ? parent.children : roots).push(node);
+    stack.push({ level, node });
+  });
+
+  return roots;
+}
+
+/**
+ * Where a heading lives, e.g. "Hero · Title"
+ */
+export function describeHeading(heading: HeadingOutlineEntry): string {
+  return [heading.componentName, heading.fieldName].filter(Boolean).join(' · ') || 'heading';
+}
@@ -0,0 +1,106 @@
+// JSON Array Stream - Pull complete elements out of a JSON document while it is still being generated
+//
+// The model returns one JSON object. Elements of a top-level array property
+// (e.g. "components") are emitted as soon as their closing brace arrives:
+//
+//   {"metadata": {...}, "components": [{...}, {...   -> first component is emitted
+
+export class JsonArrayStreamParser {
+  private property: string;
+  private text = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastKey: string | null = null; // Last string read at the top level
+  private currentKey: string | null = null; // Key whose value is being read at the top level
+  private inTargetArray = false;
+  private elementStart = -1;
+
+  constructor(property: string) {
+    this.property = property;
+  }
+
+  /**
+   * Add a chunk of the document. Returns the array elements completed by it.
+   */
+  push(chunk: string): unknown[] {
+    const elements: unknown[] = [];
+    this.text += chunk;
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.depth === 1) {
+            this.lastKey = this.text.substring(this.stringStart + 1, this.position);
+          }
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ':':
+          if (this.depth === 1) this.currentKey = this.lastKey;
+          break;
+        case ',':
+          if (this.depth === 1) this.currentKey = null;
+          break;
+        case '[':
+          if (this.depth === 1 && this.currentKey === this.property) {
+            this.inTargetArray = true;
+          }
+          this.depth++;
+          break;
+        case '{':
+          if (this.inTargetArray && this.depth === 2) {
+            this.elementStart = this.position;
+          }
+          this.depth++;
+          break;
+        case '}':
+          this.depth--;
+          if (this.inTargetArray && this.depth === 2 && this.elementStart !== -1) {
+            const element = parseElement(this.text.substring(this.elementStart, this.position + 1));
+            if (element !== undefined) elements.push(element);
+            this.elementStart = -1;
+          }
+          break;
+        case ']':
+          this.depth--;
+          if (this.inTargetArray && this.depth === 1) {
+            this.inTargetArray = false;
+          }
+          break;
+      }
+    }
+
+    return elements;
+  }
+
+  /**
+   * The whole document received so far
+   */
+  getText(): string {
+    return this.text;
+  }
+}
+
+function parseElement(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,123 @@
+// Keyword Analysis - Deterministic focus keyword counts, density and placement
+//
+// Words are compared by a light English stem, so "running shoes" also matches "running shoe"
+// and "battery" matches "batteries". The scanner runs it for PageContext.keywordsRequired; the
+// score simulator runs it again on the page with the selected suggestions applied.
+
+import type { KeywordAnalysis, KeywordPlacement, PageData } from '@/src/types/seo';
+
+export const KEYWORD_PLACEMENTS: KeywordPlacement[] = [
+  'title',
+  'h1',
+  'firstParagraph',
+  'description',
+  'altText',
+  'urlSlug',
+];
+
+interface Word {
+  text: string;
+  stem: string;
+}
+
+/**
+ * Usage of each focus keyword on the page. Blank and repeated keywords are skipped.
+ */
+export function analyzeKeywords(pageData: PageData, keywords: string[]): KeywordAnalysis[] {
+  const body = tokenize(pageData.text);
+  const firstParagraph = pageData.components?.flatMap((component) => component.paragraphs)[0]?.text;
+  const altTexts = pageData.images.map((image) => image.alt || '');
+  const slug = pageData.urlSlug?.replace(/[-_]+/g, ' ');
+
+  const seen = new Set<string>();
+  const analyses: KeywordAnalysis[] = [];
+
+  for (const keyword of keywords.map((item) => item.trim())) {
+    const stems = tokenize(keyword).map((word) => word.stem);
+    const key = stems.join(' ');
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+
+    const variants = new Set<string>();
+    const find = (text: string | undefined) => {
+      const matches = findMatches(tokenize(text || ''), stems);
+      matches.forEach((match) => variants.add(match));
+      return matches;
+    };
+    const has = (text: string | undefined) => find(text).length > 0;
+
+    const occurrences = find(pageData.text).length;
+    const placements: Record<KeywordPlacement, boolean | null> = {
+      title: has(pageData.metadata.title),
+      h1: has(pageData.headings.h1),
+      firstParagraph: firstParagraph !== undefined ? has(firstParagraph) : null,
+      description: has(pageData.metadata.description),
+      altText: altTexts.length > 0 ? altTexts.map(has).some(Boolean) : null,
+      urlSlug: slug ? has(slug) : null,
+    };
+
+    variants.delete(tokenize(keyword).map((word) => word.text).join(' '));
+
+    analyses.push({
+      keyword,
+      occurrences,
+      density: body.length > 0 ? Math.round((occurrences / body.length) * 10000) / 100 : 0,
+      placements,
+      variants: Array.from(variants).sort(),
+    });
+  }
+
+  return analyses;
+}
+
+/**
+ * Light English stem: plural and -ing/-ed endings and a final "e" are removed
+ * ("batteries" -> "battery", "running" -> "run", "priced" -> "pric")
+ */
+export function stemWord(word: string): string {
+  let stem = word.toLowerCase();
+  if (stem.length <= 3) {
+    return stem;
+  }
+
+  if (stem.endsWith('ies') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (/(sses|ches|shes|xes|zes)$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  const suffix = stem.match(/(ing|ed)$/)?.[0];
+  if (suffix) {
+    const base = stem.slice(0, -suffix.length);
+    if (base.length >= (suffix === 'ed' ? 4 : 3) && /[aeiouy]/.test(base)) {
+      // Doubled final consonant: "running" -> "run", but "selling" -> "sell"
+      stem = /([^aeiouslz])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+
+  return stem.length > 3 ? stem.replace(/e$/, '') : stem;
+}
+
+function tokenize(text: string): Word[] {
+  const words = text.toLowerCase().replace(/['’]s\b/g, '').match(/[\p{L}\p{N}]+/gu) || [];
+  return words.map((word) => ({ text: word, stem: stemWord(word) }));
+}
+
+// Non-overlapping runs of words whose stems match the keyword's, as they appear in the text
+function findMatches(words: Word[], stems: string[]): string[] {
+  const matches: string[] = [];
+  for (let i = 0; i + stems.length <= words.length; i++) {
+    if (stems.every((stem, offset) => words[i + offset].stem === stem)) {
+      matches.push(
+        words
+          .slice(i, i + stems.length)
+          .map((word) => word.text)
+          .join(' ')
+      );
+      i += stems.length - 1;
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,179 @@
+// LLM Usage - Token, latency and cost totals, monthly summaries and budget checks
+//
+// Costs are estimated from the token counts and the configured prices per million
+// tokens when a request is recorded, so later price changes do not rewrite history.
+
+import type {
+  LLMUsageRecord,
+  UsageBreakdownRow,
+  UsageBudget,
+  UsageBudgetConfig,
+  UsageBudgetStatus,
+  UsageSummary,
+  UsageTotals,
+} from '@/src/types/seo';
+
+const DEFAULT_WARN_AT = 0.8;
+
+export interface LLMPricing {
+  promptPer1M: number; // Price of a million prompt tokens
+  completionPer1M: number; // Price of a million completion tokens
+  currency: string;
+}
+
+// Tokens and latency of one model call
+export interface ModelCall {
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number };
+  latencyMs: number;
+  estimated: boolean;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  latencyMs: 0,
+  cost: 0,
+};
+
+/**
+ * Totals of the model calls made for one API request
+ */
+export function totalModelCalls(calls: ModelCall[], pricing: LLMPricing): UsageTotals {
+  return calls.reduce<UsageTotals>(
+    (totals, call) =>
+      addUsage(totals, {
+        requests: 1,
+        ...call.usage,
+        latencyMs: call.latencyMs,
+        cost: estimateCost(call.usage.promptTokens, call.usage.completionTokens, pricing),
+        estimated: call.estimated,
+      }),
+    EMPTY_USAGE_TOTALS
+  );
+}
+
+/**
+ * Estimated cost of a number of tokens, rounded to 1/10000 of the currency unit
+ */
+export function estimateCost(promptTokens: number, completionTokens: number, pricing: LLMPricing): number {
+  const cost = (promptTokens * pricing.promptPer1M + completionTokens * pricing.completionPer1M) / 1_000_000;
+  return Math.round(cost * 10_000) / 10_000;
+}
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    requests: a.requests + b.requests,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    latencyMs: a.latencyMs + b.latencyMs,
+    cost: Math.round((a.cost + b.cost) * 10_000) / 10_000,
+    ...(a.estimated || b.estimated ? { estimated: true } : {}),
+  };
+}
+
+/**
+ * Totals of stored usage records
+ */
+export function totalUsage(records: LLMUsageRecord[]): UsageTotals {
+  return records.reduce((total, record) => addUsage(total, pickTotals(record)), EMPTY_USAGE_TOTALS);
+}
+
+/**
+ * "YYYY-MM" (UTC) of a date; usage is stored and budgeted per month
+ */
+export function usageMonth(date: Date): string {
+  return date.toISOString().substring(0, 7);
+}
+
+/**
+ * Totals of a month's records per site, page and user. With `site`, the page and user
+ * breakdowns only cover that site; the site breakdown always covers every site.
+ */
+export function summarizeUsage(
+  records: LLMUsageRecord[],
+  month: string,
+  currency: string,
+  site?: string
+): UsageSummary {
+  const scoped = site ? records.filter((record) => record.site === site) : records;
+
+  return {
+    month,
+    currency,
+    total: totalUsage(scoped),
+    bySite: groupUsage(records, (record) => [record.site || '', record.site || 'Unknown site']),
+    byPage: groupUsage(scoped, (record) => [record.pageItemId || '', record.pageName || record.pageItemId || 'Unknown page']),
+    byUser: groupUsage(scoped, (record) => [record.user || '', record.user || 'Unknown user']),
+  };
+}
+
+/**
+ * The budget that applies to a site: its own, else the default one
+ */
+export function resolveUsageBudget(config: UsageBudgetConfig, site?: string): UsageBudget | undefined {
+  return (site && config.sites?.[site]) || config.default;
+}
+
+/**
+ * Compare a month's spending with a budget. Reaching `warnAt` of either limit warns;
+ * reaching a limit exceeds the budget, which blocks requests if its action is "block".
+ */
+export function evaluateUsageBudget(budget: UsageBudget, spent: UsageTotals, site?: string): UsageBudgetStatus {
+  const shares = [
+    budget.monthlyCost ? spent.cost / budget.monthlyCost : 0,
+    budget.monthlyTokens ? spent.totalTokens / budget.monthlyTokens : 0,
+  ];
+  const used = Math.max(...shares);
+  const state = used >= 1 ? 'exceeded' : used >= (budget.warnAt ?? DEFAULT_WARN_AT) ? 'warning' : 'ok';
+
+  return {
+    site,
+    budget,
+    spentCost: spent.cost,
+    spentTokens: spent.totalTokens,
+    used,
+    state,
+    blocked: state === 'exceeded' && budget.action === 'block',
+  };
+}
+
+/**
+ * One-line description of a budget status, for logs and error messages
+ */
+export function describeUsageBudget(status: UsageBudgetStatus): string {
+  const owner = status.site ? `Site "${status.site}"` : 'Pages without a site';
+  const verb = status.site ? 'has' : 'have';
+  const limits = [
+    status.budget.monthlyCost ? `${formatAmount(status.spentCost)} of ${formatAmount(status.budget.monthlyCost)}` : '',
+    status.budget.monthlyTokens
+      ? `${status.spentTokens.toLocaleString('en-US')} of ${status.budget.monthlyTokens.toLocaleString('en-US')} tokens`
+      : '',
+  ].filter(Boolean);
+  return `${owner} ${verb} used ${Math.round(status.used * 100)}% of the monthly LLM budget (${limits.join(', ')})`;
+}
+
+// One row per key, most expensive first
+function groupUsage(
+  records: LLMUsageRecord[],
+  keyOf: (record: LLMUsageRecord) => [key: string, label: string]
+): UsageBreakdownRow[] {
+  const rows = new Map<string, UsageBreakdownRow>();
+  for (const record of records) {
+    const [key, label] = keyOf(record);
+    const row = rows.get(key) || { key, label, ...EMPTY_USAGE_TOTALS };
+    rows.set(key, { key, label: row.label, ...addUsage(row, pickTotals(record)) });
+  }
+  return Array.from(rows.values()).sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+function pickTotals(record: LLMUsageRecord): UsageTotals {
+  const { requests, promptTokens, completionTokens, totalTokens, latencyMs, cost, estimated } = record;
+  return { requests, promptTokens, completionTokens, totalTokens, latencyMs, cost, ...(estimated ? { estimated } : {}) };
+}
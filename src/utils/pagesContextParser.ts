@@ -5,6 +5,8 @@ import type { PageContent, ComponentNode, FieldInfo } from "@/src/types";
 import { classifyField } from "./semanticClassifier";
 import type { AuthoringGraphQLService, DatasourceItem } from "@/src/services/authoringGraphql";
 import { extractContentFromPage, type ExtractedContent } from "@/src/services/domContentExtractor";
+import { isItemId } from "./fieldAddressResolver";
+import { parseLinkField, getLinkValue, getLinkHref } from "./sitecoreLinkField";
 
 /**
  * Extract real page content from the Pages context
@@ -27,6 +29,8 @@ export function extractPageContentFromContext(
     name: pageInfo.name || "Untitled Page",
     language: pageInfo.language || "en",
     path: pageInfo.path || "/",
+    siteName: pagesContext.siteInfo?.name,
+    templateName: typeof pageInfo.template === "string" ? pageInfo.template : pageInfo.template?.name,
     components,
   };
 }
@@ -65,6 +69,8 @@ export function enrichPageContentWithDOMContent(
         value: content.textContent,
         type: content.fieldType,
         category: mapDOMFieldTypeToCategory(content.fieldType),
+        inferred: true,
+        headingLevel: content.headingLevel,
       }));
 
       // Replace placeholder fields with extracted content
@@ -168,6 +174,12 @@ export async function enrichPageContentWithDatasources(
         
         // Replace the placeholder "DataSource" field with real fields
         enriched.fields = datasourceFields;
+        enriched.datasource = {
+          itemId: datasource.id,
+          path: datasource.path,
+          language: datasource.language || pageContent.language,
+          version: datasource.version,
+        };
         
         // If datasource has child items (e.g., MultiPromo with nested promo items),
         // add them as nested components
@@ -185,6 +197,12 @@ export async function enrichPageContentWithDatasources(
               componentName: childItem.name,
               type: 'DatasourceChild',
               datasourceId: childItem.path,
+              datasource: {
+                itemId: childItem.id,
+                path: childItem.path,
+                language: childItem.language || pageContent.language,
+                version: childItem.version,
+              },
               fields: childFields,
               children: [],
               path: [...component.path, childItem.name],
@@ -216,35 +234,20 @@ export async function enrichPageContentWithDatasources(
  * Returns object with text and url, or null if not a link XML
  */
 function parseSitecoreLinkXML(xmlString: string): { text: string; url: string; title?: string } | null {
-  if (!xmlString || typeof xmlString !== 'string') {
-    return null;
-  }
-
-  // Match Sitecore link XML format: <Link text="..." url="..." />
-  const linkMatch = xmlString.match(/<Link\s+([^>]+)\s*\/?>/i);
-  if (!linkMatch) {
+  const link = parseLinkField(xmlString);
+  if (!link) {
     return null;
   }
 
-  const attributes = linkMatch[1];
-  
-  // Extract text attribute
-  const textMatch = attributes.match(/text=["']([^"']+)["']/i);
-  const text = textMatch ? textMatch[1] : '';
-  
-  // Extract url attribute
-  const urlMatch = attributes.match(/url=["']([^"']+)["']/i);
-  const url = urlMatch ? urlMatch[1] : '';
-  
-  // Extract title attribute (optional)
-  const titleMatch = attributes.match(/title=["']([^"']+)["']/i);
-  const title = titleMatch ? titleMatch[1] : undefined;
+  const value = getLinkValue(link);
+  const text = value.text || '';
+  const url = getLinkHref(value);
 
   if (!text && !url) {
     return null;
   }
 
-  return { text, url, title };
+  return { text, url, title: value.title || undefined };
 }
 
 /**
@@ -253,7 +256,7 @@ function parseSitecoreLinkXML(xmlString: string): { text: string; url: string; t
 function convertDatasourceFieldToComponentField(
   datasourceField: any
 ): FieldInfo | null {
-  const { name, value, jsonValue } = datasourceField;
+  const { id, name, value, jsonValue } = datasourceField;
 
   // Skip system fields (start with __)
   if (name.startsWith('__')) {
@@ -341,6 +344,7 @@ function convertDatasourceFieldToComponentField(
         // Return early to prevent it from being classified as Image
         const category = classifyField(name, fieldValue, fieldType);
         return {
+          id,
           name,
           value: fieldValue,
           type: fieldType,
@@ -447,6 +451,7 @@ function convertDatasourceFieldToComponentField(
   const category = classifyField(name, fieldValue, fieldType);
 
   return {
+    id,
     name,
     value: fieldValue,
     type: fieldType,
@@ -580,6 +585,7 @@ function parseRenderingFromPresentationDetails(
     componentName: componentName,
     type: "Rendering",
     datasourceId: datasourcePath,
+    datasource: isItemId(datasourcePath) ? { itemId: datasourcePath } : undefined,
     placeholder: placeholderKey,
     params,
     fields,
@@ -683,12 +689,15 @@ function parseComponent(
     children.push(...childrenParsed);
   }
 
+  const datasourceId = component.dataSource || component.datasourceId;
+
   return {
     id: componentId,
     name: component.displayName || componentName,
     componentName,
     type: component.componentName || "Component",
-    datasourceId: component.dataSource || component.datasourceId,
+    datasourceId,
+    datasource: isItemId(datasourceId) ? { itemId: datasourceId } : undefined,
     placeholder: placeholderKey,
     params: component.params || component.parameters,
     fields,
@@ -0,0 +1,220 @@
+// Prompt Template - Parsing and rendering of versioned prompt templates
+//
+// Templates hold all instruction text; the suggestion service only passes data
+// ({{page}}, {{tone}}, ...). The instruction blocks (context, guidelines, ...) are rendered
+// first and passed to the prompts as variables of the same name. A variable that renders
+// empty on a line of its own removes that line. {{#name}}...{{/name}} keeps its text only
+// when the variable is set (once per item for a list), {{^name}}...{{/name}} only when it is not.
+
+import type { PromptTemplate } from '@/src/types/seo';
+
+// Instruction blocks, each rendered into the variable of the same name
+export const PROMPT_BLOCKS = ['context', 'componentTasks', 'keywordStrategy', 'competitors', 'guidelines', 'brandRules'] as const;
+
+export const PROMPT_TEMPLATE_PARTS = [
+  'system',
+  'page',
+  'components',
+  'consolidation',
+  'alternativesSystem',
+  'alternatives',
+  ...PROMPT_BLOCKS,
+] as const;
+
+export type PromptTemplatePart = (typeof PROMPT_TEMPLATE_PARTS)[number];
+
+export type PromptBlock = (typeof PROMPT_BLOCKS)[number];
+
+// Every variable a template may use; variables not built for a prompt are unset
+export const PROMPT_VARIABLES = [
+  ...PROMPT_BLOCKS,
+  'page', // Page metadata, headings and text
+  'components', // Component-by-component breakdown
+  'outline', // Component outline of a long page (consolidation)
+  'componentSuggestions', // Component suggestions already made (consolidation)
+  'locale',
+  'pageGoal',
+  'tone',
+  'sitePurpose',
+  'pagePurpose',
+  'purpose', // Site and page purpose together, set if either is
+  'targetAudience',
+  'businessGoals',
+  'businessContext', // Set if a site purpose, page purpose or target audience is given
+  'keywordsRequired', // Comma-separated
+  'competitorCount',
+  'competitorDetails', // Metadata, headings and insights per competitor
+  'hasBrandRules',
+  'preferredTerms', // List of { term, avoid }
+  'term',
+  'avoid', // Quoted, comma-separated
+  'forbiddenTerms', // Quoted, comma-separated
+  'trademarks', // Quoted, comma-separated
+  'protectedPhrases', // One quoted phrase per line
+  'titleWidth', // Title pixel width in desktop search results
+  'titleChars', // Approximate title characters that fit in it
+  'descriptionWidth', // Description pixel width in desktop search results
+  'descriptionChars', // Approximate description characters that fit in it
+  'title', // Alternatives: page title
+  'h1', // Alternatives: page H1
+  'component', // Alternatives: the field's component
+  'field', // Alternatives: description of the field
+  'original', // Alternatives: current value on the page
+  'suggestion', // Alternatives: suggestion to replace
+  'segments', // Alternatives: RichText segments, one per line
+  'richText', // Alternatives: set for RichText fields
+  'maxLength',
+  'minLength',
+  'serpChars', // Approximate characters that fit in search results
+  'serpWidth', // Pixel width in desktop search results
+  'instruction', // Alternatives: the author's instruction when refining
+  'count', // Alternatives to write
+] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+export type PromptValue = string | boolean | PromptVariables[];
+
+export type PromptVariables = Partial<Record<PromptVariable, PromptValue>>;
+
+type PromptNode = string | { name: string; inverted: boolean; children: PromptNode[] };
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const HAS_VARIABLE = /\{\{\s*\w+\s*\}\}/;
+const TAG_PATTERN = /\{\{\s*[#^/]?\s*(\w+)\s*\}\}/g;
+const SECTION_TAG = /\{\{\s*([#^/])\s*(\w+)\s*\}\}/g;
+// A section tag alone on its line takes the line with it
+const STANDALONE_SECTION_TAG = /^[ \t]*(\{\{\s*[#^/]\s*\w+\s*\}\})[ \t]*\n/gm;
+
+/**
+ * Read a template from JSON. Each part is a string or an array of lines.
+ * Throws if a part is missing, uses an unknown variable or does not close a section.
+ */
+export function parsePromptTemplate(value: unknown, id: string, version: string): PromptTemplate {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const parts = {} as Record<PromptTemplatePart, string>;
+
+  for (const part of PROMPT_TEMPLATE_PARTS) {
+    const raw = input[part];
+    const text = Array.isArray(raw) && raw.every((line) => typeof line === 'string') ? raw.join('\n') : raw;
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new Error(`Prompt template "${id}@${version}" has no "${part}" prompt`);
+    }
+
+    const unknown = listPromptVariables(text).filter((name) => !(PROMPT_VARIABLES as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Prompt template "${id}@${version}" uses unknown variable(s) in "${part}": ${unknown.join(', ')}`);
+    }
+    try {
+      parseSections(text);
+    } catch (error) {
+      throw new Error(`Prompt template "${id}@${version}" has an invalid "${part}" prompt: ${(error as Error).message}`);
+    }
+    parts[part] = text;
+  }
+
+  return {
+    id,
+    version,
+    description: typeof input.description === 'string' ? input.description : undefined,
+    ...parts,
+  };
+}
+
+/**
+ * Names of the variables a template text uses, sections included
+ */
+export function listPromptVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(TAG_PATTERN), (match) => match[1])));
+}
+
+/**
+ * Fill in the variables and sections of a template text
+ */
+export function renderPromptTemplate(text: string, variables: PromptVariables): string {
+  // Rendered with a final line break so a closing tag on the last line is standalone too
+  return renderNodes(parseSections(`${text}\n`), variables).replace(/\n$/, '');
+}
+
+function renderNodes(nodes: PromptNode[], variables: PromptVariables): string {
+  const lookup = variables as Record<string, PromptValue | undefined>;
+
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') {
+        return renderLines(node, lookup);
+      }
+
+      const value = lookup[node.name];
+      const items = Array.isArray(value) ? value : value ? [{}] : [];
+      if (node.inverted) {
+        return items.length === 0 ? renderNodes(node.children, variables) : '';
+      }
+      return items.map((item) => renderNodes(node.children, { ...variables, ...item })).join('');
+    })
+    .join('');
+}
+
+function renderLines(text: string, lookup: Record<string, PromptValue | undefined>): string {
+  return text
+    .split('\n')
+    .flatMap((line) => {
+      const rendered = line.replace(VARIABLE_PATTERN, (_match, name: string) => {
+        const value = lookup[name];
+        return typeof value === 'string' ? value : '';
+      });
+      const onlyVariables = HAS_VARIABLE.test(line) && line.replace(VARIABLE_PATTERN, '').trim() === '';
+      return onlyVariables && rendered.trim() === '' ? [] : [rendered];
+    })
+    .join('\n');
+}
+
+// Split a template text into plain text and (nested) sections. Throws on unbalanced tags.
+function parseSections(text: string): PromptNode[] {
+  const source = text.replace(STANDALONE_SECTION_TAG, '$1');
+  const root: PromptNode[] = [];
+  const stack: { name: string; nodes: PromptNode[] }[] = [{ name: '', nodes: root }];
+  let position = 0;
+
+  for (const match of source.matchAll(SECTION_TAG)) {
+    const [tag, kind, name] = match;
+    const current = stack[stack.length - 1];
+    if (match.index! > position) {
+      current.nodes.push(source.slice(position, match.index));
+    }
+    position = match.index! + tag.length;
+
+    if (kind === '/') {
+      if (current.name !== name) {
+        throw new Error(`{{/${name}}} does not close a section`);
+      }
+      stack.pop();
+    } else {
+      const children: PromptNode[] = [];
+      current.nodes.push({ name, inverted: kind === '^', children });
+      stack.push({ name, nodes: children });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Section {{${stack[stack.length - 1].name}}} is not closed`);
+  }
+  if (position < source.length) {
+    root.push(source.slice(position));
+  }
+  return root;
+}
+
+/**
+ * "id@version", the prompt version recorded with suggestions
+ */
+export function formatPromptVersion(template: Pick<PromptTemplate, 'id' | 'version'>): string {
+  return `${template.id}@${template.version}`;
+}
+
+/**
+ * Compare versions numerically where possible ("10" after "9"), otherwise as text
+ */
+export function comparePromptVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
@@ -0,0 +1,297 @@
+// Rich Text Segments - Markup-aware rewrite of RichText field values
+//
+// A RichText value is split into block-level text segments. Inline markup inside each
+// segment (links, bold, spans, line breaks) is replaced by numbered tokens so the text
+// can be rewritten without losing it:
+//
+//   <p>Read our <a href="/pricing">pricing guide</a>.<br/>Thanks</p>
+//   -> [s0] "Read our {1}pricing guide{/1}.{2/}Thanks"
+//
+// Rewritten segments are merged back into the original HTML structure.
+
+import type { RichTextSegment } from '@/src/types/seo';
+
+// Tags that start or end a segment (block and container elements)
+const BOUNDARY_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'details', 'div', 'dl', 'dt',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+  'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td',
+  'tfoot', 'th', 'thead', 'tr', 'ul', 'script', 'style',
+]);
+
+const VOID_TAGS = new Set(['br', 'img', 'wbr', 'input', 'source']);
+
+const TAG_PATTERN = /<!--[\s\S]*?-->|<\/?([a-zA-Z][\w:-]*)\b[^>]*>/g;
+const TOKEN_PATTERN = /\{(\/?)(\d+)(\/?)\}/g;
+
+// Inline tag referenced by a token: paired tags have a closing tag, void tags do not
+export interface RichTextTag {
+  open: string;
+  close?: string;
+}
+
+// Parsed segment with the markup needed to rebuild it
+export interface ParsedRichTextSegment extends RichTextSegment {
+  html: string; // Original markup, reused when the segment is not rewritten
+  tags: Record<string, RichTextTag>;
+}
+
+export interface RichTextDocument {
+  template: string; // Original HTML with each segment replaced by a marker
+  segments: ParsedRichTextSegment[];
+}
+
+export interface SegmentRejection {
+  id: string;
+  reason: string;
+}
+
+export interface RichTextMergeResult {
+  html: string;
+  applied: string[]; // Segment IDs that were rewritten
+  rejected: SegmentRejection[];
+}
+
+/**
+ * Check if a field value contains HTML markup
+ */
+export function hasMarkup(value?: string): boolean {
+  return !!value && /<[a-zA-Z][^>]*>/.test(value);
+}
+
+/**
+ * Split RichText HTML into tokenized text segments
+ */
+export function parseRichText(html: string): RichTextDocument {
+  const doc: RichTextDocument = { template: '', segments: [] };
+  let runStart = 0;
+  let boundaryDepth = 0; // Inside <script>/<style>, content is never a segment
+
+  const flushRun = (end: number) => {
+    const run = html.substring(runStart, end);
+    if (boundaryDepth > 0 || !hasText(run)) {
+      doc.template += run;
+      return;
+    }
+
+    const leading = run.match(/^\s*/)?.[0] || '';
+    const trailing = run.match(/\s*$/)?.[0] || '';
+    const core = run.substring(leading.length, run.length - trailing.length);
+
+    const segment = tokenizeSegment(`s${doc.segments.length}`, core);
+    doc.segments.push(segment);
+    doc.template += `${leading}${segmentMarker(segment.id)}${trailing}`;
+  };
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const tagName = match[1]?.toLowerCase();
+    if (!tagName || !BOUNDARY_TAGS.has(tagName)) continue;
+
+    const index = match.index ?? 0;
+    flushRun(index);
+    doc.template += match[0];
+    runStart = index + match[0].length;
+
+    if (tagName === 'script' || tagName === 'style') {
+      boundaryDepth += match[0].startsWith('</') ? -1 : 1;
+      boundaryDepth = Math.max(0, boundaryDepth);
+    }
+  }
+  flushRun(html.length);
+
+  return doc;
+}
+
+/**
+ * Merge rewritten segment text back into the document.
+ * Rewrites that drop, duplicate or reorder markup tokens are rejected and the original segment is kept.
+ */
+export function mergeRichText(
+  doc: RichTextDocument,
+  rewrites: Record<string, string>
+): RichTextMergeResult {
+  const result: RichTextMergeResult = { html: doc.template, applied: [], rejected: [] };
+
+  for (const segment of doc.segments) {
+    let rendered = segment.html;
+    const rewrite = rewrites[segment.id];
+
+    if (rewrite !== undefined && rewrite !== segment.text) {
+      const error = validateSegmentRewrite(segment, rewrite);
+      if (error) {
+        result.rejected.push({ id: segment.id, reason: error });
+      } else {
+        rendered = renderSegment(segment, rewrite);
+        result.applied.push(segment.id);
+      }
+    }
+
+    result.html = result.html.replace(segmentMarker(segment.id), () => rendered);
+  }
+
+  for (const id of Object.keys(rewrites)) {
+    if (!doc.segments.some((segment) => segment.id === id)) {
+      result.rejected.push({ id, reason: 'Unknown segment' });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check that a rewrite keeps every markup token of the segment, properly nested.
+ * Returns an error message, or null if the rewrite is valid.
+ */
+export function validateSegmentRewrite(segment: ParsedRichTextSegment, text: string): string | null {
+  const seen = new Set<string>();
+  const stack: string[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [token, closing, id, selfClosing] = match;
+    const tag = segment.tags[id];
+
+    if (!tag) return `Unknown markup token ${token}`;
+
+    if (selfClosing) {
+      if (tag.close !== undefined) return `Token {${id}} must wrap text`;
+      if (seen.has(id)) return `Duplicate markup token ${token}`;
+      seen.add(id);
+    } else if (closing) {
+      if (stack.pop() !== id) return `Markup token ${token} is not properly nested`;
+    } else {
+      if (tag.close === undefined) return `Token ${token} must be written as {${id}/}`;
+      if (seen.has(id)) return `Duplicate markup token ${token}`;
+      seen.add(id);
+      stack.push(id);
+    }
+  }
+
+  if (stack.length > 0) return `Markup token {${stack[stack.length - 1]}} is not closed`;
+
+  const missing = Object.keys(segment.tags).filter((id) => !seen.has(id));
+  if (missing.length > 0) {
+    return `Markup was dropped (${missing.map((id) => `{${id}}`).join(', ')})`;
+  }
+
+  return null;
+}
+
+/**
+ * Markup tokens of a segment text in sorted order, e.g. ["{/1}", "{1}", "{2/}"]
+ */
+export function listMarkupTokens(text: string): string[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), (match) => match[0]).sort();
+}
+
+/**
+ * Remove markup tokens, leaving the readable text of a segment
+ */
+export function segmentPlainText(text: string): string {
+  return text.replace(TOKEN_PATTERN, '').replace(/\s+/g, ' ').trim();
+}
+
+function tokenizeSegment(id: string, html: string): ParsedRichTextSegment {
+  const tags: Record<string, RichTextTag> = {};
+  const open: { tagName: string; tokenId: string }[] = [];
+  let text = '';
+  let lastIndex = 0;
+  let counter = 0;
+
+  const addVoidToken = (raw: string) => {
+    const tokenId = String(++counter);
+    tags[tokenId] = { open: raw };
+    text += `{${tokenId}/}`;
+  };
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    text += decodeEntities(html.substring(lastIndex, index));
+    lastIndex = index + match[0].length;
+
+    const raw = match[0];
+    const tagName = match[1]?.toLowerCase();
+
+    if (!tagName || VOID_TAGS.has(tagName) || raw.endsWith('/>')) {
+      // Comments, void and self-closing tags
+      addVoidToken(raw);
+    } else if (raw.startsWith('</')) {
+      const openIndex = findLastIndex(open, (entry) => entry.tagName === tagName);
+      if (openIndex === -1) {
+        // Stray closing tag: keep it in place as a void token
+        addVoidToken(raw);
+        continue;
+      }
+      // Tags opened after this one were never closed; they become void tokens
+      for (const unclosed of open.splice(openIndex + 1)) {
+        text = text.replace(`{${unclosed.tokenId}}`, `{${unclosed.tokenId}/}`);
+      }
+      const { tokenId: openId } = open.pop()!;
+      tags[openId].close = raw;
+      text += `{/${openId}}`;
+    } else {
+      const tokenId = String(++counter);
+      tags[tokenId] = { open: raw };
+      open.push({ tagName, tokenId });
+      text += `{${tokenId}}`;
+    }
+  }
+  text += decodeEntities(html.substring(lastIndex));
+
+  for (const unclosed of open) {
+    text = text.replace(`{${unclosed.tokenId}}`, `{${unclosed.tokenId}/}`);
+  }
+
+  return { id, text, html, tags };
+}
+
+function renderSegment(segment: ParsedRichTextSegment, text: string): string {
+  let html = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    html += encodeText(text.substring(lastIndex, index));
+    lastIndex = index + match[0].length;
+
+    const [, closing, id] = match;
+    const tag = segment.tags[id];
+    html += closing ? tag?.close ?? '' : tag?.open ?? '';
+  }
+
+  return html + encodeText(text.substring(lastIndex));
+}
+
+function segmentMarker(id: string): string {
+  return `\u0000${id}\u0000`;
+}
+
+function hasText(html: string): boolean {
+  return html.replace(TAG_PATTERN, '').replace(/&nbsp;|\s/g, '').length > 0;
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, '\u00a0')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function encodeText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\u00a0/g, '&nbsp;');
+}
@@ -0,0 +1,177 @@
+// Scoring Profiles - Weights, thresholds and enabled checks per kind of page
+//
+// computeSEOScore uses the standard profile unless it is given another one. The profile for
+// a page is picked by its template name, then by its page goal (see resolveScoringProfile).
+
+import type {
+  PageGoal,
+  ScoreBreakdown,
+  ScoringCheck,
+  ScoringProfile,
+  ScoringProfileConfig,
+  ScoringThresholds,
+} from '@/src/types/seo';
+import { SERP_LIMITS } from './serpWidth';
+
+export const SCORING_CHECKS: ScoringCheck[] = [
+  'title',
+  'description',
+  'h1',
+  'contentLength',
+  'readability',
+  'altText',
+  'images',
+  'links',
+  'linkCount',
+  'internalLinks',
+  'keywords',
+  'headings',
+];
+
+const SCORE_CATEGORIES: (keyof ScoreBreakdown)[] = ['metadata', 'content', 'accessibility', 'links'];
+
+const ALL_CHECKS = Object.fromEntries(SCORING_CHECKS.map((check) => [check, true])) as Record<ScoringCheck, boolean>;
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 'standard',
+  label: 'Standard',
+  description: 'Every check, equal weights',
+  weights: { metadata: 25, content: 25, accessibility: 25, links: 25 },
+  thresholds: {
+    titleMaxWidth: SERP_LIMITS.title.maxWidth.desktop,
+    descriptionMaxWidth: SERP_LIMITS.description.maxWidth.desktop,
+    minWords: 250,
+    altMin: 5,
+    maxLinks: 100,
+    minReadability: 60,
+    minKeywordDensity: 0.5,
+    maxKeywordDensity: 3,
+    maxHeadingLength: 70,
+  },
+  checks: ALL_CHECKS,
+};
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    id: 'blog-article',
+    label: 'Blog article',
+    description: 'Long, readable content carries the most weight',
+    weights: { metadata: 25, content: 35, accessibility: 20, links: 20 },
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, minWords: 600 },
+    checks: ALL_CHECKS,
+  },
+  {
+    id: 'product-page',
+    label: 'Product page',
+    description: 'Metadata and image alt text first; short copy is fine',
+    weights: { metadata: 30, content: 20, accessibility: 30, links: 20 },
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, minWords: 150 },
+    checks: { ...ALL_CHECKS, readability: false },
+  },
+  {
+    id: 'landing-page',
+    label: 'Landing page',
+    description: 'Metadata and working calls to action first',
+    weights: { metadata: 30, content: 25, accessibility: 20, links: 25 },
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, minWords: 300 },
+    checks: ALL_CHECKS,
+  },
+  {
+    id: 'navigation-hub',
+    label: 'Navigation hub',
+    description: 'Links and metadata; no minimum length or readability',
+    weights: { metadata: 30, content: 20, accessibility: 15, links: 35 },
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, maxLinks: 250 },
+    checks: { ...ALL_CHECKS, contentLength: false, readability: false, images: false },
+  },
+];
+
+export const DEFAULT_SCORING_PROFILE_CONFIG: ScoringProfileConfig = {
+  profiles: BUILT_IN_SCORING_PROFILES,
+  default: DEFAULT_SCORING_PROFILE.id,
+  templates: {},
+  pageGoals: { Inform: 'blog-article', Convert: 'landing-page', Navigate: 'navigation-hub' },
+};
+
+/**
+ * Read a stored configuration and merge it over the built-in one. A stored profile only
+ * needs the values that differ from the built-in profile of the same ID (or the standard
+ * one); selections that name an unknown profile are ignored.
+ */
+export function parseScoringProfileConfig(value: unknown): ScoringProfileConfig {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const profiles = [...DEFAULT_SCORING_PROFILE_CONFIG.profiles];
+
+  for (const item of Array.isArray(input.profiles) ? input.profiles : []) {
+    const id = typeof item?.id === 'string' ? item.id.trim() : '';
+    if (!id) continue;
+
+    const idx = profiles.findIndex((profile) => profile.id === id);
+    const profile = parseScoringProfile(item, idx >= 0 ? profiles[idx] : { ...DEFAULT_SCORING_PROFILE, id, label: id });
+    if (idx >= 0) {
+      profiles[idx] = profile;
+    } else {
+      profiles.push(profile);
+    }
+  }
+
+  const known = (ref: unknown): ref is string =>
+    typeof ref === 'string' && profiles.some((profile) => profile.id === ref);
+  const selection = (items: unknown) =>
+    Object.fromEntries(Object.entries(items && typeof items === 'object' ? items : {}).filter(([, ref]) => known(ref)));
+
+  return {
+    profiles,
+    default: known(input.default) ? input.default : DEFAULT_SCORING_PROFILE_CONFIG.default,
+    templates: selection(input.templates),
+    pageGoals: { ...DEFAULT_SCORING_PROFILE_CONFIG.pageGoals, ...selection(input.pageGoals) },
+  };
+}
+
+/**
+ * The profile for a page: its template's, else its page goal's, else the default one
+ */
+export function resolveScoringProfile(
+  config: ScoringProfileConfig,
+  page: { templateName?: string; pageGoal?: PageGoal }
+): ScoringProfile {
+  const template = page.templateName?.trim().toLowerCase();
+  const templateRef = template
+    ? Object.entries(config.templates).find(([name]) => name.trim().toLowerCase() === template)?.[1]
+    : undefined;
+  const ref = templateRef || (page.pageGoal && config.pageGoals[page.pageGoal]) || config.default;
+
+  return (
+    config.profiles.find((profile) => profile.id === ref) ||
+    config.profiles.find((profile) => profile.id === config.default) ||
+    DEFAULT_SCORING_PROFILE
+  );
+}
+
+function parseScoringProfile(value: Record<string, unknown>, base: ScoringProfile): ScoringProfile {
+  const numbers = <T extends object>(items: unknown, defaults: T): T => {
+    const values = (items && typeof items === 'object' ? items : {}) as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(defaults).map(([key, fallback]) => {
+        const number = values[key];
+        return [key, typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : fallback];
+      })
+    ) as T;
+  };
+
+  const weights = numbers<ScoreBreakdown>(value.weights, base.weights);
+  const checks = (value.checks && typeof value.checks === 'object' ? value.checks : {}) as Record<string, unknown>;
+
+  return {
+    id: base.id,
+    label: typeof value.label === 'string' && value.label.trim() ? value.label.trim() : base.label,
+    description: typeof value.description === 'string' ? value.description : base.description,
+    // All-zero weights would leave nothing to score
+    weights: SCORE_CATEGORIES.some((category) => weights[category] > 0) ? weights : base.weights,
+    thresholds: numbers<ScoringThresholds>(value.thresholds, base.thresholds),
+    checks: Object.fromEntries(
+      SCORING_CHECKS.map((check) => [check, typeof checks[check] === 'boolean' ? checks[check] : base.checks[check]])
+    ) as Record<ScoringCheck, boolean>,
+  };
+}
@@ -271,6 +271,34 @@ function mapFieldTypeToCategory(fieldType: string): SemanticCategory {
   return typeMap[fieldType] || 'Other';
 }
 
+// Rendering parameters that set a heading's tag, e.g. the SXA "HeadingTag" or "Heading Level"
+const HEADING_LEVEL_PARAM = /^(heading|title)[\s_-]?(tag|level|size)$/i;
+
+/**
+ * Tag level (1-6) of a heading field: from its rendered markup, else a heading level rendering
+ * parameter, else a level in the field name ("H2Title"). Undefined when none of them gives one.
+ */
+export function detectHeadingLevel(field: FieldInfo, params?: Record<string, unknown>): number | undefined {
+  if (field.headingLevel) {
+    return field.headingLevel;
+  }
+
+  const markup = field.value.match(/^\s*<h([1-6])\b/i);
+  if (markup) {
+    return Number(markup[1]);
+  }
+
+  for (const [name, value] of Object.entries(params || {})) {
+    const level = HEADING_LEVEL_PARAM.test(name.trim()) && String(value).match(/^\s*h?([1-6])\s*$/i);
+    if (level) {
+      return Number(level[1]);
+    }
+  }
+
+  const named = field.name.match(/(?:^|[^a-z])h([1-6])(?!\d)/i);
+  return named ? Number(named[1]) : undefined;
+}
+
 /**
  * Create a semantic text item from field info
  */
@@ -281,13 +309,28 @@ export function createSemanticTextItem(
 ): SemanticTextItem {
   const plainText = extractPlainText(field.value);
   
-  return {
+  const item: SemanticTextItem = {
     id: `${metadata.componentId}-${field.name}`,
     text: plainText || field.value,
     category: field.category,
     metadata,
     path,
   };
+
+  if (field.category === 'Heading') {
+    const level = detectHeadingLevel(field, metadata.params);
+    if (level) {
+      item.headingLevel = level;
+    }
+  }
+
+  // Keep RichText markup so paragraph rewrites can preserve it
+  const isBodyText = field.category === 'RichText' || field.category === 'Paragraph';
+  if (isBodyText && plainText && /<[a-zA-Z][^>]*>/.test(field.value)) {
+    item.html = field.value;
+  }
+
+  return item;
 }
 
 /**
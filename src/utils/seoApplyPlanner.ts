@@ -0,0 +1,299 @@
+// SEO Apply Planner - Turns selected suggestions into concrete field changes
+
+import type { SemanticTextItem } from '@/src/types';
+import type {
+  ApplySelection,
+  FieldChange,
+  FieldChangeKind,
+  PageData,
+  SEOSuggestions,
+} from '@/src/types/seo';
+import {
+  createFieldAddressIndex,
+  resolveByComponentField,
+  resolveBySemanticId,
+} from './fieldAddressResolver';
+import { listMarkupTokens, segmentPlainText } from './richTextSegments';
+
+/**
+ * Applied paths used to identify each selected change (shared with the score simulator)
+ */
+export const applyKeys = {
+  pageTitle: () => 'page.title',
+  pageDescription: () => 'page.description',
+  pageH1: () => 'page.h1',
+  pageImageAlt: (imageId: string) => `image.${imageId}.alt`,
+  componentH1: (componentId: string) => `component.${componentId}.h1`,
+  componentHeading: (componentId: string, fieldName: string) =>
+    `component.${componentId}.heading.${fieldName}`,
+  componentImageAlt: (componentId: string, imageId: string) =>
+    `component.${componentId}.image.${imageId}.alt`,
+  componentLink: (componentId: string, fieldName: string) =>
+    `component.${componentId}.link.${fieldName}`,
+  componentParagraph: (componentId: string, fieldName: string) =>
+    `component.${componentId}.paragraph.${fieldName}`,
+};
+
+export interface ApplyPlan {
+  changes: FieldChange[];
+  skipped: string[]; // Applied paths that could not be mapped to an editable field
+}
+
+/**
+ * Build the list of field changes for the current selection
+ */
+export function buildFieldChanges(
+  suggestions: SEOSuggestions,
+  selection: ApplySelection,
+  pageData: PageData,
+  semanticItems: SemanticTextItem[]
+): ApplyPlan {
+  const plan: ApplyPlan = { changes: [], skipped: [] };
+  const index = createFieldAddressIndex(semanticItems);
+
+  const addChange = (
+    key: string,
+    kind: FieldChangeKind,
+    item: SemanticTextItem | undefined,
+    value: string,
+    original: string
+  ) => {
+    if (!item?.address) {
+      plan.skipped.push(key);
+      return;
+    }
+
+    plan.changes.push({
+      key,
+      kind,
+      address: item.address,
+      original,
+      value,
+    });
+  };
+
+  const sourceItem = (id?: string) => resolveBySemanticId(index, id);
+
+  // Page-level metadata
+  if (selection.metadata?.title && suggestions.metadata?.title) {
+    addChange(
+      applyKeys.pageTitle(),
+      'text',
+      sourceItem(pageData.sources?.title),
+      suggestions.metadata.title,
+      pageData.metadata.title || ''
+    );
+  }
+  if (selection.metadata?.description && suggestions.metadata?.description) {
+    addChange(
+      applyKeys.pageDescription(),
+      'text',
+      sourceItem(pageData.sources?.description),
+      suggestions.metadata.description,
+      pageData.metadata.description || ''
+    );
+  }
+  if (selection.headings?.h1 && suggestions.headings?.h1) {
+    addChange(
+      applyKeys.pageH1(),
+      'text',
+      sourceItem(pageData.sources?.h1),
+      suggestions.headings.h1,
+      pageData.headings.h1 || ''
+    );
+  }
+
+  // Page-level image selections refer to semantic item IDs directly
+  if (selection.images) {
+    for (const imgSelection of selection.images.filter((img) => img.alt)) {
+      const suggestion = suggestions.components
+        ?.flatMap((comp) => comp.images || [])
+        .find((img) => img.id === imgSelection.id);
+      const original = pageData.images.find((img) => img.id === imgSelection.id);
+      const key = applyKeys.pageImageAlt(imgSelection.id);
+      if (!suggestion) {
+        plan.skipped.push(key);
+        continue;
+      }
+      addChange(key, 'image-alt', sourceItem(imgSelection.id), suggestion.alt, original?.alt || '');
+    }
+  }
+
+  // Component-level changes
+  if (selection.components && suggestions.components) {
+    for (const component of suggestions.components) {
+      const compSelection = selection.components[component.componentId];
+      if (!compSelection) continue;
+
+      const componentItems = semanticItems.filter(
+        (item) => item.metadata.componentId === component.componentId
+      );
+      const componentData = pageData.components?.find(
+        (comp) => comp.componentId === component.componentId
+      );
+
+      if (compSelection.headings?.h1 && component.headings?.h1) {
+        const currentH1 = componentData?.headings.h1;
+        const h1Item = componentItems.find(
+          (item) => item.category === 'Heading' && item.text.trim() === currentH1
+        );
+        addChange(
+          applyKeys.componentH1(component.componentId),
+          'text',
+          h1Item,
+          component.headings.h1,
+          currentH1 || ''
+        );
+      }
+
+      if (compSelection.headings?.improvements && component.headings?.improvements) {
+        for (const improvement of component.headings.improvements) {
+          if (!compSelection.headings.improvements.includes(improvement.fieldName)) continue;
+          const item = resolveByComponentField(index, component.componentId, improvement.fieldName);
+          addChange(
+            applyKeys.componentHeading(component.componentId, improvement.fieldName),
+            'text',
+            item,
+            improvement.suggested,
+            // Prefer the scanned value over the model's echo of it (used for conflict checks)
+            item?.text ?? improvement.current
+          );
+        }
+      }
+
+      if (compSelection.content?.paragraphs && component.content?.paragraphs) {
+        for (const paragraph of component.content.paragraphs) {
+          if (!compSelection.content.paragraphs.includes(paragraph.fieldName)) continue;
+
+          const key = applyKeys.componentParagraph(component.componentId, paragraph.fieldName);
+          const item = resolveByComponentField(index, component.componentId, paragraph.fieldName);
+          const scanned = componentData?.paragraphs.find((p) => p.fieldName === paragraph.fieldName);
+          const original = scanned?.text ?? paragraph.original;
+          if (!item?.address) {
+            plan.skipped.push(key);
+            continue;
+          }
+
+          if (!scanned?.segments?.length) {
+            addChange(key, 'text', item, paragraph.suggested, original);
+            continue;
+          }
+
+          // RichText: only segment rewrites can be merged without losing links and formatting
+          const segments = (paragraph.segments || []).flatMap((rewrite) => {
+            const segment = scanned.segments?.find((s) => s.id === rewrite.id);
+            return segment ? [{ id: rewrite.id, original: segment.text, suggested: rewrite.suggested }] : [];
+          });
+          if (segments.length === 0) {
+            plan.skipped.push(key);
+            continue;
+          }
+
+          plan.changes.push({
+            key,
+            kind: 'rich-text',
+            address: item.address,
+            original,
+            value: paragraph.suggested,
+            segments,
+          });
+        }
+      }
+
+      if (compSelection.images && component.images) {
+        for (const img of component.images) {
+          const imgSelected = compSelection.images.find((s) => s.id === img.id && s.alt);
+          if (!imgSelected || !img.alt) continue;
+          addChange(
+            applyKeys.componentImageAlt(component.componentId, img.id),
+            'image-alt',
+            sourceItem(img.id),
+            img.alt,
+            // Prefer the scanned value over the model's echo of it (used for conflict checks)
+            pageData.images.find((image) => image.id === img.id)?.alt ?? img.currentAlt ?? ''
+          );
+        }
+      }
+
+      if (compSelection.links && component.links) {
+        for (const link of component.links) {
+          const linkSelected = compSelection.links.find((l) => l.fieldName === link.fieldName && l.apply);
+          if (!linkSelected) continue;
+
+          const key = applyKeys.componentLink(component.componentId, link.fieldName);
+          const currentLink = pageData.links.find(
+            (l) => l.componentId === component.componentId && l.fieldName === link.fieldName
+          );
+          const item = resolveByComponentField(index, component.componentId, link.fieldName);
+          const original = currentLink?.text ?? link.currentText ?? '';
+          if (!item?.address) {
+            plan.skipped.push(key);
+            continue;
+          }
+
+          plan.changes.push({
+            key,
+            kind: 'link',
+            address: item.address,
+            original,
+            value: link.suggestedText || original,
+            href: link.href && link.href !== currentLink?.href ? link.href : undefined,
+          });
+        }
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Plain text a change leaves in its field. RichText changes only replace their rewritten
+ * segments; a rewrite that loses markup fails the whole field, which then keeps its text.
+ */
+export function getChangedText(change: FieldChange): string {
+  if (change.kind !== 'rich-text') {
+    return change.value;
+  }
+
+  const segments = change.segments || [];
+  const losesMarkup = segments.some(
+    (segment) => listMarkupTokens(segment.original).join() !== listMarkupTokens(segment.suggested).join()
+  );
+  if (losesMarkup) {
+    return change.original;
+  }
+
+  return segments.reduce(
+    (text, segment) => text.replace(segmentPlainText(segment.original), () => segmentPlainText(segment.suggested)),
+    change.original
+  );
+}
+
+/**
+ * Build a human-readable summary line for each change
+ */
+export function buildDiffSummary(changes: FieldChange[]): string[] {
+  return changes.map((change) => {
+    const fieldName = change.address.fieldName;
+    const label = change.kind === 'image-alt' ? `${fieldName} (alt)` : fieldName;
+    const href = change.href ? ` [${truncate(change.href)}]` : '';
+    return `${label}: "${truncate(change.original)}" → "${truncate(change.value)}"${href}`;
+  });
+}
+
+/**
+ * Build the workflow comment for the changes written to one item
+ */
+export function buildWorkflowComment(changes: FieldChange[], note?: string): string {
+  const lines = [
+    note?.trim(),
+    `SEO Optimizer: ${changes.length} ${changes.length === 1 ? 'field' : 'fields'} updated`,
+    ...buildDiffSummary(changes).map((line) => `- ${line}`),
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+function truncate(text: string, max: number = 50): string {
+  return text.length > max ? `${text.substring(0, max)}...` : text;
+}
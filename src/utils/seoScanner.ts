@@ -1,21 +1,28 @@
 // SEO Page Content Scanner - Extracts all SEO-relevant data from page content
 
 import type { PageContent, SemanticTextItem } from '@/src/types';
-import type { PageData, PageImage, PageLink, ComponentContent, ReadabilityMetrics, ContentMetrics, BrokenLinkInfo } from '@/src/types/seo';
+import type { PageData, PageDataSources, PageImage, PageLink, ComponentContent, ReadabilityMetrics, ContentMetrics, HeadingOutlineEntry } from '@/src/types/seo';
 import { extractPlainText } from './semanticClassifier';
+import { parseRichText } from './richTextSegments';
+import { analyzeKeywords } from './keywordAnalysis';
+import { getUrlSegments } from './serpWidth';
 
 /**
- * Scan page content and extract SEO-relevant data
+ * Scan page content and extract SEO-relevant data, with the usage of each focus keyword
  */
 export function scanPageContent(
   pageContent: PageContent,
-  semanticItems: SemanticTextItem[]
+  semanticItems: SemanticTextItem[],
+  keywords: string[] = []
 ): PageData {
+  // Track which semantic items page-level values came from
+  const sources: PageDataSources = {};
+
   // Extract metadata
-  const metadata = extractMetadata(pageContent, semanticItems);
+  const metadata = extractMetadata(pageContent, semanticItems, sources);
 
   // Extract headings
-  const headings = extractHeadings(semanticItems);
+  const headings = extractHeadings(semanticItems, sources);
 
   // Extract text content
   const text = extractTextContent(semanticItems);
@@ -35,7 +42,7 @@ export function scanPageContent(
   // Calculate comprehensive metrics
   const metrics = calculateContentMetrics(text, headings, links, images);
 
-  return {
+  const pageData: PageData = {
     metadata,
     headings,
     text,
@@ -44,7 +51,16 @@ export function scanPageContent(
     wordCount,
     components,
     metrics,
+    sources,
+    urlSlug: getUrlSegments(pageContent.path).pop(),
   };
+
+  // Focus keyword counts, density and placement
+  if (keywords.length > 0) {
+    pageData.keywordAnalysis = analyzeKeywords(pageData, keywords);
+  }
+
+  return pageData;
 }
 
 /**
@@ -80,16 +96,17 @@ function extractComponentContent(semanticItems: SemanticTextItem[]): ComponentCo
       if (text) {
         component.headings.all.push(text);
         
-        // Try to detect heading level
+        // Use the tag level when known, else guess it from the field name
         const fieldName = item.metadata.fieldName.toLowerCase();
-        if (fieldName.includes('h1') || fieldName === 'title' || fieldName === 'heading') {
+        const level = item.headingLevel;
+        if (level ? level === 1 : fieldName.includes('h1') || fieldName === 'title' || fieldName === 'heading') {
           if (!component.headings.h1) {
             component.headings.h1 = text;
           }
-        } else if (fieldName.includes('h2')) {
+        } else if (level ? level === 2 : fieldName.includes('h2')) {
           component.headings.h2 = component.headings.h2 || [];
           component.headings.h2.push(text);
-        } else if (fieldName.includes('h3')) {
+        } else if (level ? level === 3 : fieldName.includes('h3')) {
           component.headings.h3 = component.headings.h3 || [];
           component.headings.h3.push(text);
         }
@@ -100,6 +117,9 @@ function extractComponentContent(semanticItems: SemanticTextItem[]): ComponentCo
         component.paragraphs.push({
           fieldName: item.metadata.fieldName,
           text,
+          segments: item.html
+            ? parseRichText(item.html).segments.map(({ id, text }) => ({ id, text }))
+            : undefined,
         });
       }
     } else if (item.category === 'Image') {
@@ -147,7 +167,8 @@ function extractComponentContent(semanticItems: SemanticTextItem[]): ComponentCo
  */
 function extractMetadata(
   pageContent: PageContent,
-  semanticItems: SemanticTextItem[]
+  semanticItems: SemanticTextItem[],
+  sources: PageDataSources
 ): PageData['metadata'] {
   const metadata: PageData['metadata'] = {};
 
@@ -164,7 +185,9 @@ function extractMetadata(
     const metaTitle = titleFields.find((item) =>
       item.metadata.fieldName.toLowerCase().includes('meta')
     );
-    metadata.title = (metaTitle || titleFields[0]).text.trim();
+    const titleItem = metaTitle || titleFields[0];
+    metadata.title = titleItem.text.trim();
+    sources.title = titleItem.id;
   } else {
     // Fallback to page name
     metadata.title = pageContent.name;
@@ -186,6 +209,7 @@ function extractMetadata(
     );
     if (metaDesc) {
       metadata.description = extractPlainText(metaDesc.text).trim();
+      sources.description = metaDesc.id;
     } else {
       // Use first paragraph as description (limited to 165 chars)
       const firstDesc = extractPlainText(descriptionFields[0].text).trim();
@@ -197,33 +221,57 @@ function extractMetadata(
 }
 
 /**
- * Extract headings hierarchy
+ * Extract headings hierarchy. Headings with a known tag level (rendered markup or rendering
+ * parameters) go by their level; the level of the others is guessed from the field name.
  */
-function extractHeadings(semanticItems: SemanticTextItem[]): PageData['headings'] {
+function extractHeadings(
+  semanticItems: SemanticTextItem[],
+  sources: PageDataSources
+): PageData['headings'] {
   const headings: PageData['headings'] = {
     all: [],
     h2: [],
     h3: [],
   };
+  const outline: HeadingOutlineEntry[] = [];
 
   const headingItems = semanticItems.filter((item) => item.category === 'Heading');
+  const hasTaggedH1 = headingItems.some((item) => item.headingLevel === 1);
 
   for (const item of headingItems) {
     const text = extractPlainText(item.text).trim();
+    outline.push({
+      text,
+      level: item.headingLevel ?? null,
+      componentId: item.metadata.componentId,
+      componentName: item.metadata.componentName,
+      fieldName: item.metadata.fieldName,
+    });
     if (!text) continue;
 
-    // Try to detect heading level from field name or text
     const fieldName = item.metadata.fieldName.toLowerCase();
-    const textLower = text.toLowerCase();
 
-    if (
-      fieldName.includes('h1') ||
-      fieldName === 'title' ||
-      fieldName === 'heading' ||
-      (!headings.h1 && !fieldName.includes('h2') && !fieldName.includes('h3'))
+    if (item.headingLevel) {
+      if (item.headingLevel === 1 && !headings.h1) {
+        headings.h1 = text;
+        sources.h1 = item.id;
+      } else if (item.headingLevel === 2) {
+        headings.h2 = headings.h2 || [];
+        headings.h2.push(text);
+      } else if (item.headingLevel === 3) {
+        headings.h3 = headings.h3 || [];
+        headings.h3.push(text);
+      }
+    } else if (
+      !hasTaggedH1 &&
+      (fieldName.includes('h1') ||
+        fieldName === 'title' ||
+        fieldName === 'heading' ||
+        (!headings.h1 && !fieldName.includes('h2') && !fieldName.includes('h3')))
     ) {
       if (!headings.h1) {
         headings.h1 = text;
+        sources.h1 = item.id;
       }
     } else if (fieldName.includes('h2') || headings.h1) {
       headings.h2 = headings.h2 || [];
@@ -236,7 +284,7 @@ function extractHeadings(semanticItems: SemanticTextItem[]): PageData['headings'
     headings.all.push(text);
   }
 
-  return headings;
+  return { ...headings, outline };
 }
 
 /**
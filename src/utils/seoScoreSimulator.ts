@@ -0,0 +1,307 @@
+// SEO Score Simulator - Projects the score after applying selected suggestions
+
+import type {
+  ApplySelection,
+  FieldChange,
+  PageData,
+  ResolvedIssue,
+  ScanResult,
+  ScoreSimulation,
+  SEOIssues,
+  SEOSuggestions,
+} from '@/src/types/seo';
+import { analyzeKeywords } from './keywordAnalysis';
+import { computeSEOScore } from './seoScorer';
+import { applyKeys, getChangedText } from './seoApplyPlanner';
+
+/**
+ * Overlay the selected suggestions onto a copy of the page data.
+ * When `include` is given, only changes whose applied path passes the filter are overlaid;
+ * `values` replaces the suggested text per applied path (e.g. with a merged RichText paragraph).
+ */
+export function overlaySuggestions(
+  pageData: PageData,
+  suggestions: SEOSuggestions,
+  selection: ApplySelection,
+  include: (key: string) => boolean = () => true,
+  values: Map<string, string> = new Map()
+): PageData {
+  const data = clonePageData(pageData);
+  const valueOf = (key: string, suggested: string) => values.get(key) ?? suggested;
+
+  const replaceHeading = (headings: PageData['headings'], current: string, next: string) => {
+    if (!current) return;
+    if (headings.h1 === current) headings.h1 = next;
+    headings.h2 = headings.h2?.map((h) => (h === current ? next : h));
+    headings.h3 = headings.h3?.map((h) => (h === current ? next : h));
+    headings.all = headings.all.map((h) => (h === current ? next : h));
+    headings.outline = headings.outline?.map((entry) => (entry.text === current ? { ...entry, text: next } : entry));
+  };
+
+  const setImageAlt = (imageId: string, alt: string) => {
+    for (const image of data.images) {
+      if (image.id === imageId) image.alt = alt;
+    }
+    for (const component of data.components || []) {
+      for (const image of component.images) {
+        if (image.id === imageId) image.alt = alt;
+      }
+    }
+  };
+
+  // Page-level metadata
+  if (selection.metadata?.title && suggestions.metadata?.title && include(applyKeys.pageTitle())) {
+    data.metadata.title = valueOf(applyKeys.pageTitle(), suggestions.metadata.title);
+  }
+  if (
+    selection.metadata?.description &&
+    suggestions.metadata?.description &&
+    include(applyKeys.pageDescription())
+  ) {
+    data.metadata.description = valueOf(applyKeys.pageDescription(), suggestions.metadata.description);
+  }
+  if (selection.headings?.h1 && suggestions.headings?.h1 && include(applyKeys.pageH1())) {
+    const current = data.headings.h1 || '';
+    const next = valueOf(applyKeys.pageH1(), suggestions.headings.h1);
+    if (current) {
+      replaceHeading(data.headings, current, next);
+    } else {
+      data.headings.h1 = next;
+      data.headings.all = [next, ...data.headings.all];
+    }
+  }
+
+  // Page-level image selections refer to semantic item IDs directly
+  for (const imgSelection of selection.images?.filter((img) => img.alt) || []) {
+    const suggestion = suggestions.components
+      ?.flatMap((comp) => comp.images || [])
+      .find((img) => img.id === imgSelection.id);
+    const key = applyKeys.pageImageAlt(imgSelection.id);
+    if (suggestion?.alt && include(key)) {
+      setImageAlt(imgSelection.id, valueOf(key, suggestion.alt));
+    }
+  }
+
+  // Component-level changes
+  for (const component of suggestions.components || []) {
+    const compSelection = selection.components?.[component.componentId];
+    if (!compSelection) continue;
+
+    const componentData = data.components?.find(
+      (comp) => comp.componentId === component.componentId
+    );
+
+    const h1Key = applyKeys.componentH1(component.componentId);
+    if (compSelection.headings?.h1 && component.headings?.h1 && include(h1Key)) {
+      const current = componentData?.headings.h1 || '';
+      const next = valueOf(h1Key, component.headings.h1);
+      if (componentData) {
+        replaceHeading(componentData.headings, current, next);
+        if (!current) componentData.headings.h1 = next;
+      }
+      replaceHeading(data.headings, current, next);
+    }
+
+    for (const improvement of component.headings?.improvements || []) {
+      if (!compSelection.headings?.improvements?.includes(improvement.fieldName)) continue;
+      const key = applyKeys.componentHeading(component.componentId, improvement.fieldName);
+      if (!include(key)) continue;
+      const next = valueOf(key, improvement.suggested);
+      if (componentData) {
+        replaceHeading(componentData.headings, improvement.current, next);
+      }
+      replaceHeading(data.headings, improvement.current, next);
+    }
+
+    for (const paragraph of component.content?.paragraphs || []) {
+      if (!compSelection.content?.paragraphs?.includes(paragraph.fieldName)) continue;
+      const key = applyKeys.componentParagraph(component.componentId, paragraph.fieldName);
+      if (!include(key)) continue;
+
+      const scanned = componentData?.paragraphs.find((p) => p.fieldName === paragraph.fieldName);
+      const current = scanned?.text ?? paragraph.original;
+      const next = valueOf(key, paragraph.suggested);
+      if (scanned) scanned.text = next;
+      if (current && data.text.includes(current)) {
+        data.text = data.text.replace(current, () => next);
+        if (data.wordCount !== undefined) {
+          data.wordCount += countWords(next) - countWords(current);
+        }
+      }
+    }
+
+    for (const img of component.images || []) {
+      const imgSelected = compSelection.images?.find((s) => s.id === img.id && s.alt);
+      const key = applyKeys.componentImageAlt(component.componentId, img.id);
+      if (!imgSelected || !img.alt || !include(key)) continue;
+      setImageAlt(img.id, valueOf(key, img.alt));
+    }
+
+    for (const link of component.links || []) {
+      const linkSelected = compSelection.links?.find((l) => l.fieldName === link.fieldName && l.apply);
+      const key = applyKeys.componentLink(component.componentId, link.fieldName);
+      if (!linkSelected || !include(key)) {
+        continue;
+      }
+      for (const pageLink of data.links) {
+        if (pageLink.componentId === component.componentId && pageLink.fieldName === link.fieldName) {
+          const text = values.get(key) ?? link.suggestedText;
+          if (text) pageLink.text = text;
+          if (link.href && link.href !== pageLink.href) {
+            pageLink.href = link.href;
+            pageLink.isPlaceholder = false;
+            pageLink.isBroken = false;
+          }
+        }
+      }
+    }
+  }
+
+  // Keyword placement and density follow the changed texts
+  if (data.keywordAnalysis) {
+    data.keywordAnalysis = analyzeKeywords(
+      data,
+      data.keywordAnalysis.map((analysis) => analysis.keyword)
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Project the score, per-category delta and resolved issues for a selection
+ */
+export function simulateScore(
+  scanResult: ScanResult,
+  suggestions: SEOSuggestions,
+  selection: ApplySelection,
+  include?: (key: string) => boolean,
+  values?: Map<string, string>
+): ScoreSimulation {
+  const projected = computeSEOScore(
+    overlaySuggestions(scanResult.pageData, suggestions, selection, include, values),
+    scanResult.profile
+  );
+
+  return {
+    beforeScore: scanResult.seoScore,
+    afterScore: projected.seoScore,
+    breakdown: projected.breakdown,
+    delta: {
+      metadata: projected.breakdown.metadata - scanResult.breakdown.metadata,
+      content: projected.breakdown.content - scanResult.breakdown.content,
+      accessibility: projected.breakdown.accessibility - scanResult.breakdown.accessibility,
+      links: projected.breakdown.links - scanResult.breakdown.links,
+    },
+    weights: scanResult.profile.weights,
+    resolvedIssues: findResolvedIssues(scanResult.issues, projected.issues),
+  };
+}
+
+/**
+ * Project the score of the field changes an Apply writes (see buildFieldChanges): only those
+ * changes are overlaid, with the text they leave in their fields
+ */
+export function simulateFieldChanges(
+  scanResult: ScanResult,
+  suggestions: SEOSuggestions,
+  selection: ApplySelection,
+  changes: FieldChange[]
+): ScoreSimulation {
+  const values = new Map(changes.map((change) => [change.key, getChangedText(change)]));
+  return simulateScore(scanResult, suggestions, selection, (key) => values.has(key), values);
+}
+
+/**
+ * Compare two issue sets and list what is fixed in `after`
+ */
+export function findResolvedIssues(before: SEOIssues, after: SEOIssues): ResolvedIssue[] {
+  const resolved: ResolvedIssue[] = [];
+
+  for (const issue of Object.keys(before) as (keyof SEOIssues)[]) {
+    const beforeValue = before[issue];
+    const afterValue = after[issue];
+
+    if (Array.isArray(beforeValue)) {
+      const remaining = Array.isArray(afterValue) ? afterValue : [];
+      const fixed = beforeValue.filter((item) => !remaining.includes(item));
+      if (fixed.length > 0) {
+        resolved.push({ issue, items: fixed, partial: remaining.length > 0 });
+      }
+    } else if (beforeValue && !afterValue) {
+      resolved.push({ issue });
+    }
+  }
+
+  return resolved;
+}
+
+const ISSUE_LABELS: Record<keyof SEOIssues, string> = {
+  missingMetaDescription: 'Missing meta description',
+  missingH1: 'Missing H1',
+  weakAltText: 'Missing or weak alt text',
+  placeholderLinks: 'Placeholder links',
+  brokenLinks: 'Broken links',
+  titleTooLong: 'Title too long',
+  descriptionTooLong: 'Description too long',
+  lowReadability: 'Low readability',
+  shortContent: 'Short content',
+  missingImages: 'No images',
+  tooManyLinks: 'Too many links',
+  noInternalLinks: 'No internal links',
+  keywordNotInTitle: 'Focus keyword not in title',
+  keywordNotInH1: 'Focus keyword not in H1',
+  keywordNotInFirstParagraph: 'Focus keyword not in first paragraph',
+  keywordNotInDescription: 'Focus keyword not in description',
+  keywordNotInAltText: 'Focus keyword not in image alt text',
+  keywordNotInUrl: 'Focus keyword not in URL',
+  keywordDensityLow: 'Focus keyword used too rarely',
+  keywordDensityHigh: 'Focus keyword used too often',
+  multipleH1: 'More than one H1',
+  skippedHeadingLevels: 'Skipped heading levels',
+  emptyHeadings: 'Empty headings',
+  longHeadings: 'Long headings',
+};
+
+/**
+ * Human-readable label for a resolved issue
+ */
+export function describeResolvedIssue(resolved: ResolvedIssue): string {
+  const label = ISSUE_LABELS[resolved.issue] || resolved.issue;
+  if (!resolved.items) {
+    return label;
+  }
+  return resolved.partial
+    ? `${label} (${resolved.items.length} fixed)`
+    : `${label} (all ${resolved.items.length} fixed)`;
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter((w) => w.length > 0).length;
+}
+
+function clonePageData(pageData: PageData): PageData {
+  return {
+    ...pageData,
+    metadata: { ...pageData.metadata },
+    headings: cloneHeadings(pageData.headings),
+    images: pageData.images.map((image) => ({ ...image })),
+    links: pageData.links.map((link) => ({ ...link })),
+    components: pageData.components?.map((component) => ({
+      ...component,
+      headings: cloneHeadings(component.headings),
+      paragraphs: component.paragraphs.map((paragraph) => ({ ...paragraph })),
+      images: component.images.map((image) => ({ ...image })),
+      links: component.links.map((link) => ({ ...link })),
+    })),
+  };
+}
+
+function cloneHeadings<T extends PageData['headings']>(headings: T): T {
+  return {
+    ...headings,
+    h2: headings.h2 ? [...headings.h2] : undefined,
+    h3: headings.h3 ? [...headings.h3] : undefined,
+    all: [...headings.all],
+  };
+}
@@ -1,29 +1,38 @@
 // SEO Scoring Module - Computes SEO score (0-100) with 4-part breakdown
 
 import type {
+  KeywordAnalysis,
+  KeywordPlacement,
   PageData,
   ScoreBreakdown,
   SEOIssues,
   ScanResult,
   BrokenLinkInfo,
+  ScoringProfile,
 } from '@/src/types/seo';
+import { describeHeading, validateHeadingHierarchy, type HeadingProblem } from './headingHierarchy';
+import { KEYWORD_PLACEMENTS } from './keywordAnalysis';
+import { DEFAULT_SCORING_PROFILE } from './scoringProfiles';
+import { fitsSerpWidth, truncateForSerp, type SerpTruncation } from './serpWidth';
 
 /**
- * Compute SEO score from page data
+ * Compute SEO score from page data with a scoring profile (the standard one by default)
  */
-export function computeSEOScore(pageData: PageData): ScanResult {
+export function computeSEOScore(pageData: PageData, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): ScanResult {
   const breakdown: ScoreBreakdown = {
-    metadata: scoreMetadata(pageData.metadata),
-    content: scoreContent(pageData.headings, pageData.text, pageData.wordCount),
-    accessibility: scoreAccessibility(pageData.images),
-    links: scoreLinks(pageData.links),
+    metadata: weigh(scoreMetadata(pageData.metadata, profile), profile.weights.metadata),
+    content: weigh(scoreContent(pageData, profile), profile.weights.content),
+    accessibility: weigh(scoreAccessibility(pageData.images, profile), profile.weights.accessibility),
+    links: weigh(scoreLinks(pageData.links, profile), profile.weights.links),
   };
 
+  const totalWeight =
+    profile.weights.metadata + profile.weights.content + profile.weights.accessibility + profile.weights.links;
   const seoScore = Math.round(
-    breakdown.metadata + breakdown.content + breakdown.accessibility + breakdown.links
+    ((breakdown.metadata + breakdown.content + breakdown.accessibility + breakdown.links) / totalWeight) * 100
   );
 
-  const { issues, brokenLinksDetails } = identifyIssues(pageData);
+  const { issues, brokenLinksDetails } = identifyIssues(pageData, profile);
 
   return {
     seoScore,
@@ -31,101 +40,192 @@ export function computeSEOScore(pageData: PageData): ScanResult {
     issues,
     pageData,
     brokenLinksDetails,
+    profile,
   };
 }
 
+// Points earned out of the points the profile's enabled checks can earn in a category
+interface CategoryScore {
+  earned: number;
+  available: number;
+}
+
 /**
- * Score metadata (0-25 points)
- * +10 if title present and ≤ 60 chars
- * +10 if description present and ≤ 165 chars
+ * Scale a category to its weight; a category without enabled checks gets full marks
+ */
+function weigh({ earned, available }: CategoryScore, weight: number): number {
+  if (available === 0) {
+    return weight;
+  }
+  return Math.min(weight, Math.round((earned / available) * weight));
+}
+
+/**
+ * Score metadata (out of 25 points)
+ * +10 if title present and shown in full in desktop search results
+ * +10 if description present and shown in full in desktop search results
  * +5 if both non-empty after trim
  */
-function scoreMetadata(metadata: PageData['metadata']): number {
+function scoreMetadata(metadata: PageData['metadata'], profile: ScoringProfile): CategoryScore {
+  const { checks, thresholds } = profile;
   let score = 0;
+  let available = 0;
 
   const title = metadata.title?.trim() || '';
   const description = metadata.description?.trim() || '';
 
   // Title scoring
-  if (title.length > 0) {
-    if (title.length <= 60) {
-      score += 10;
-    } else {
-      score += Math.max(0, 10 - (title.length - 60) * 0.1); // Penalty for being too long
+  if (checks.title) {
+    available += 10;
+    if (title.length > 0) {
+      score += scoreSerpFit(truncateForSerp(title, 'title', 'desktop', thresholds.titleMaxWidth), title);
     }
   }
 
   // Description scoring
-  if (description.length > 0) {
-    if (description.length <= 165) {
-      score += 10;
-    } else {
-      score += Math.max(0, 10 - (description.length - 165) * 0.1); // Penalty for being too long
+  if (checks.description) {
+    available += 10;
+    if (description.length > 0) {
+      score += scoreSerpFit(
+        truncateForSerp(description, 'description', 'desktop', thresholds.descriptionMaxWidth),
+        description
+      );
     }
   }
 
   // Bonus for both present
-  if (title.length > 0 && description.length > 0) {
-    score += 5;
+  if (checks.title && checks.description) {
+    available += 5;
+    if (title.length > 0 && description.length > 0) {
+      score += 5;
+    }
   }
 
-  return Math.min(25, Math.round(score));
+  return { earned: score, available };
 }
 
 /**
- * Score content basics (0-25 points)
+ * 10 points for a text shown in full, less 0.1 per character cut off. cutAt indexes the
+ * whitespace-normalized text, so the overflow is measured against that too.
+ */
+function scoreSerpFit(cut: SerpTruncation, text: string): number {
+  const shown = text.replace(/\s+/g, ' ').trim();
+  return cut.truncated ? Math.max(0, 10 - (shown.length - cut.cutAt) * 0.1) : 10;
+}
+
+type KeywordIssue = Extract<keyof SEOIssues, `keyword${string}`>;
+type HeadingIssue = 'multipleH1' | 'skippedHeadingLevels' | 'emptyHeadings' | 'longHeadings';
+
+// Issue raised for each heading hierarchy problem
+const HEADING_ISSUES: Record<HeadingProblem, HeadingIssue> = {
+  multipleH1: 'multipleH1',
+  skippedLevel: 'skippedHeadingLevels',
+  empty: 'emptyHeadings',
+  tooLong: 'longHeadings',
+};
+
+// Issue raised for a focus keyword missing from each place
+const KEYWORD_PLACEMENT_ISSUES: Record<KeywordPlacement, KeywordIssue> = {
+  title: 'keywordNotInTitle',
+  h1: 'keywordNotInH1',
+  firstParagraph: 'keywordNotInFirstParagraph',
+  description: 'keywordNotInDescription',
+  altText: 'keywordNotInAltText',
+  urlSlug: 'keywordNotInUrl',
+};
+
+/**
+ * Score content basics (out of 25 points, 35 with focus keywords)
  * +15 if H1 present
- * +10 if body length ≥ 250 words
+ * +10 if body length reaches the minimum word count
+ * +10 in proportion to the focus keyword checks passed
  */
-function scoreContent(
-  headings: PageData['headings'],
-  text: string,
-  wordCount?: number
-): number {
+function scoreContent(pageData: PageData, profile: ScoringProfile): CategoryScore {
+  const { headings, text, wordCount, keywordAnalysis } = pageData;
   let score = 0;
+  let available = 0;
 
   // H1 presence
-  if (headings.h1 && headings.h1.trim().length > 0) {
-    score += 15;
+  if (profile.checks.h1) {
+    available += 15;
+    if (headings.h1 && headings.h1.trim().length > 0) {
+      score += 15;
+    }
   }
 
   // Content length
-  const words = wordCount || countWords(text);
-  if (words >= 250) {
-    score += 10;
-  } else if (words > 0) {
-    // Partial credit for shorter content
-    score += Math.round((words / 250) * 10);
+  if (profile.checks.contentLength) {
+    available += 10;
+    const minWords = profile.thresholds.minWords;
+    const words = wordCount || countWords(text);
+    if (words >= minWords) {
+      score += 10;
+    } else if (words > 0) {
+      // Partial credit for shorter content
+      score += Math.round((words / minWords) * 10);
+    }
   }
 
-  return Math.min(25, Math.round(score));
+  // Focus keywords
+  if (profile.checks.keywords && keywordAnalysis && keywordAnalysis.length > 0) {
+    available += 10;
+    const results = keywordAnalysis.flatMap((analysis) => [
+      ...KEYWORD_PLACEMENTS.map((placement) => analysis.placements[placement]).filter(
+        (placed): placed is boolean => placed !== null
+      ),
+      getKeywordDensityIssue(analysis, profile) === null,
+    ]);
+    score += (results.filter(Boolean).length / results.length) * 10;
+  }
+
+  return { earned: score, available };
 }
 
 /**
- * Score accessibility (0-25 points)
- * Proportional to percentage of images with alt text length ≥ 5 characters
+ * Whether a focus keyword is used too rarely or too often. A single use is never too often,
+ * so short pages are not flagged for mentioning the keyword once.
  */
-function scoreAccessibility(images: PageData['images']): number {
+function getKeywordDensityIssue(analysis: KeywordAnalysis, profile: ScoringProfile): 'low' | 'high' | null {
+  const { minKeywordDensity, maxKeywordDensity } = profile.thresholds;
+  if (analysis.density < minKeywordDensity || analysis.occurrences === 0) {
+    return 'low';
+  }
+  if (analysis.density > maxKeywordDensity && analysis.occurrences > 1) {
+    return 'high';
+  }
+  return null;
+}
+
+/**
+ * Score accessibility
+ * Proportional to percentage of images with alt text of at least the minimum length
+ */
+function scoreAccessibility(images: PageData['images'], profile: ScoringProfile): CategoryScore {
+  if (!profile.checks.altText) {
+    return { earned: 0, available: 0 };
+  }
   if (images.length === 0) {
-    return 25; // No images = perfect accessibility score
+    return { earned: 1, available: 1 }; // No images = perfect accessibility score
   }
 
   const imagesWithAlt = images.filter(
-    (img) => img.alt && img.alt.trim().length >= 5
+    (img) => img.alt && img.alt.trim().length >= profile.thresholds.altMin
   ).length;
 
-  const percentage = imagesWithAlt / images.length;
-  return Math.round(percentage * 25);
+  return { earned: imagesWithAlt, available: images.length };
 }
 
 /**
- * Score links (0-25 points)
- * +25 if no placeholder/broken links
+ * Score links
+ * Full marks if no placeholder/broken links
  * Else proportional to valid links
  */
-function scoreLinks(links: PageData['links']): number {
+function scoreLinks(links: PageData['links'], profile: ScoringProfile): CategoryScore {
+  if (!profile.checks.links) {
+    return { earned: 0, available: 0 };
+  }
   if (links.length === 0) {
-    return 25; // No links = perfect score
+    return { earned: 1, available: 1 }; // No links = perfect score
   }
 
   const validLinks = links.filter(
@@ -138,57 +238,74 @@ function scoreLinks(links: PageData['links']): number {
       link.href !== '#'
   ).length;
 
-  const percentage = validLinks / links.length;
-  return Math.round(percentage * 25);
+  return { earned: validLinks, available: links.length };
 }
 
 /**
  * Identify SEO issues with detailed broken link information
  */
-function identifyIssues(pageData: PageData): { issues: SEOIssues; brokenLinksDetails: BrokenLinkInfo[] } {
+function identifyIssues(
+  pageData: PageData,
+  profile: ScoringProfile
+): { issues: SEOIssues; brokenLinksDetails: BrokenLinkInfo[] } {
+  const { checks, thresholds } = profile;
   const issues: SEOIssues = {};
   const brokenLinksDetails: BrokenLinkInfo[] = [];
 
   // Metadata issues
-  if (!pageData.metadata.description || pageData.metadata.description.trim().length === 0) {
+  const description = pageData.metadata.description?.trim() || '';
+  if (checks.description && description.length === 0) {
     issues.missingMetaDescription = true;
   }
 
   const title = pageData.metadata.title?.trim() || '';
-  if (title.length > 60) {
+  if (checks.title && !fitsSerpWidth(title, 'title', 'desktop', thresholds.titleMaxWidth)) {
     issues.titleTooLong = true;
   }
 
-  const description = pageData.metadata.description?.trim() || '';
-  if (description.length > 165) {
+  if (checks.description && !fitsSerpWidth(description, 'description', 'desktop', thresholds.descriptionMaxWidth)) {
     issues.descriptionTooLong = true;
   }
 
   // Content issues
-  if (!pageData.headings.h1 || pageData.headings.h1.trim().length === 0) {
+  if (checks.h1 && (!pageData.headings.h1 || pageData.headings.h1.trim().length === 0)) {
     issues.missingH1 = true;
   }
 
+  // Heading hierarchy: headings are listed by text, empty ones by where they are
+  const outline = pageData.headings.outline || [];
+  if (checks.headings) {
+    for (const check of validateHeadingHierarchy(outline, thresholds.maxHeadingLength)) {
+      const heading = outline[check.index];
+      const label = check.problem === 'empty' ? describeHeading(heading) : heading.text.trim();
+      (issues[HEADING_ISSUES[check.problem]] ||= []).push(label);
+    }
+  }
+
   // Content length check
   const wordCount = pageData.wordCount || countWords(pageData.text);
-  if (wordCount < 250) {
+  if (checks.contentLength && wordCount < thresholds.minWords) {
     issues.shortContent = true;
   }
 
   // Readability check
-  if (pageData.metrics?.readability && pageData.metrics.readability.score < 60) {
+  if (
+    checks.readability &&
+    pageData.metrics?.readability &&
+    pageData.metrics.readability.score < thresholds.minReadability
+  ) {
     issues.lowReadability = true;
   }
 
   // Accessibility issues
   const weakAltImages = pageData.images
-    .filter((img) => !img.alt || img.alt.trim().length < 5)
+    .filter((img) => !img.alt || img.alt.trim().length < thresholds.altMin)
     .map((img) => img.id);
-  if (weakAltImages.length > 0) {
+  if (checks.altText && weakAltImages.length > 0) {
     issues.weakAltText = weakAltImages;
   }
 
-  if (pageData.images.length === 0) {
+  if (checks.images && pageData.images.length === 0) {
     issues.missingImages = true;
   }
 
@@ -231,16 +348,16 @@ function identifyIssues(pageData: PageData): { issues: SEOIssues; brokenLinksDet
     }
   }
 
-  if (placeholderLinks.length > 0) {
+  if (checks.links && placeholderLinks.length > 0) {
     issues.placeholderLinks = placeholderLinks;
   }
 
-  if (brokenLinks.length > 0) {
+  if (checks.links && brokenLinks.length > 0) {
     issues.brokenLinks = brokenLinks;
   }
 
   // Check for too many links
-  if (pageData.links.length > 100) {
+  if (checks.linkCount && pageData.links.length > thresholds.maxLinks) {
     issues.tooManyLinks = true;
   }
 
@@ -252,10 +369,30 @@ function identifyIssues(pageData: PageData): { issues: SEOIssues; brokenLinksDet
       !link.isBroken &&
       (link.href.startsWith('/') || link.href.startsWith('./') || link.href.startsWith('../'))
   );
-  if (pageData.links.length > 0 && !hasInternalLinks) {
+  if (checks.internalLinks && pageData.links.length > 0 && !hasInternalLinks) {
     issues.noInternalLinks = true;
   }
 
+  // Focus keyword issues, listing the keywords
+  if (checks.keywords) {
+    const addKeyword = (issue: KeywordIssue, keyword: string) => {
+      (issues[issue] ||= []).push(keyword);
+    };
+
+    for (const analysis of pageData.keywordAnalysis || []) {
+      for (const placement of KEYWORD_PLACEMENTS) {
+        if (analysis.placements[placement] === false) {
+          addKeyword(KEYWORD_PLACEMENT_ISSUES[placement], analysis.keyword);
+        }
+      }
+
+      const density = getKeywordDensityIssue(analysis, profile);
+      if (density) {
+        addKeyword(density === 'low' ? 'keywordDensityLow' : 'keywordDensityHigh', analysis.keyword);
+      }
+    }
+  }
+
   return { issues, brokenLinksDetails };
 }
 
@@ -0,0 +1,188 @@
+// SERP Width - Estimates where search results cut off titles and descriptions
+//
+// Google truncates by rendered width, not characters: "WWW" takes three times the room of
+// "iii". Widths are estimated from bundled Arial metrics, the font search results use;
+// the limits are the commonly observed desktop and mobile truncation points.
+
+export type SerpField = 'title' | 'description';
+export type SerpDevice = 'desktop' | 'mobile';
+
+export const SERP_DEVICES: SerpDevice[] = ['desktop', 'mobile'];
+
+export interface SerpFieldLimits {
+  fontSize: number; // Pixels
+  maxWidth: Record<SerpDevice, number>; // Pixels shown before the cut
+  approxChars: number; // Typical characters in the desktop width, for prompts
+}
+
+export const SERP_LIMITS: Record<SerpField, SerpFieldLimits> = {
+  title: { fontSize: 20, maxWidth: { desktop: 600, mobile: 780 }, approxChars: 60 },
+  description: { fontSize: 13, maxWidth: { desktop: 920, mobile: 680 }, approxChars: 155 },
+};
+
+const ELLIPSIS = '...';
+
+// Arial advance widths in 1/1000 em for the printable ASCII characters (32 to 126)
+const ASCII_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, // space to /
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, // 0 to ?
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, // @ to O
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, // P to _
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, // ` to o
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584, // p to ~
+];
+
+// Common punctuation and symbols outside ASCII
+const SYMBOL_WIDTHS: Record<string, number> = {
+  '\u00a0': 278, // No-break space
+  '–': 556,
+  '—': 1000,
+  '‘': 222,
+  '’': 222,
+  '“': 333,
+  '”': 333,
+  '•': 350,
+  '…': 1000,
+  '·': 278,
+  '©': 737,
+  '®': 737,
+  '™': 1000,
+  '€': 556,
+  '£': 556,
+  '°': 400,
+  '×': 584,
+};
+
+const DEFAULT_WIDTH = 556; // Unknown Latin letters: an average lowercase letter
+const WIDE_WIDTH = 1000; // CJK and other full-width characters
+
+export interface SerpTruncation {
+  width: number; // Rendered width of the whole text, in pixels
+  maxWidth: number;
+  truncated: boolean;
+  cutAt: number; // Characters of the text shown before the ellipsis (text length if not truncated)
+  visibleText: string; // What the result shows, with "..." when cut
+}
+
+/**
+ * Estimated rendered width of a text in Arial at a font size, in pixels
+ */
+export function measureTextWidth(text: string, fontSize: number): number {
+  let units = 0;
+  for (const char of text) {
+    units += charWidth(char);
+  }
+  return Math.round((units * fontSize) / 10) / 100;
+}
+
+/**
+ * Where a title or description is cut off on a device. Like search results, a text that is
+ * too wide is cut at the last word that fits with the ellipsis.
+ */
+export function truncateForSerp(
+  text: string,
+  field: SerpField,
+  device: SerpDevice = 'desktop',
+  maxWidth: number = SERP_LIMITS[field].maxWidth[device]
+): SerpTruncation {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const { fontSize } = SERP_LIMITS[field];
+  const width = measureTextWidth(normalized, fontSize);
+
+  if (width <= maxWidth) {
+    return { width, maxWidth, truncated: false, cutAt: normalized.length, visibleText: normalized };
+  }
+
+  // Longest prefix that fits with the ellipsis, then back to a word boundary if there is one
+  const available = maxWidth - measureTextWidth(ELLIPSIS, fontSize);
+  const chars = Array.from(normalized);
+  let used = 0;
+  let cutAt = 0;
+  for (const char of chars) {
+    const next = used + (charWidth(char) * fontSize) / 1000;
+    if (next > available) break;
+    used = next;
+    cutAt += char.length;
+  }
+
+  const wordEnd = normalized.lastIndexOf(' ', cutAt);
+  if (wordEnd > 0 && normalized[cutAt] !== ' ') {
+    cutAt = wordEnd;
+  }
+  const visible = normalized.slice(0, cutAt).replace(/[\s,;:.-]+$/, '');
+
+  return { width, maxWidth, truncated: true, cutAt: visible.length, visibleText: `${visible}${ELLIPSIS}` };
+}
+
+/**
+ * True if the text is shown in full on the device
+ */
+export function fitsSerpWidth(
+  text: string,
+  field: SerpField,
+  device: SerpDevice = 'desktop',
+  maxWidth?: number
+): boolean {
+  return !truncateForSerp(text, field, device, maxWidth).truncated;
+}
+
+/**
+ * The breadcrumb a search result shows above its title, e.g. "finance-site › loans › home-loans"
+ */
+export function formatSerpBreadcrumb(path: string, siteName?: string): string {
+  const parts = getUrlSegments(path);
+  if (siteName?.trim()) {
+    parts.unshift(siteName.trim());
+  }
+  return parts.join(' › ') || '/';
+}
+
+/**
+ * URL path segments of a page, e.g. ["loans", "home-loans"]. Sitecore item paths are made
+ * relative to the site's Home item.
+ */
+export function getUrlSegments(path: string): string[] {
+  const segments = path.split('/').filter((segment) => segment.trim());
+  const home = segments.findIndex((segment) => segment.toLowerCase() === 'home');
+  const route =
+    home >= 0
+      ? segments.slice(home + 1)
+      : segments[0]?.toLowerCase() === 'sitecore'
+        ? segments.slice(4) // sitecore/content/<tenant>/<site>
+        : segments;
+
+  return route.map((segment) => segment.trim().toLowerCase().replace(/\s+/g, '-'));
+}
+
+function charWidth(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code >= 32 && code <= 126) {
+    return ASCII_WIDTHS[code - 32];
+  }
+  if (SYMBOL_WIDTHS[char] !== undefined) {
+    return SYMBOL_WIDTHS[char];
+  }
+
+  // Accented Latin letters are as wide as their base letter
+  const base = char.normalize('NFD')[0];
+  const baseCode = base.codePointAt(0) ?? 0;
+  if (base !== char && baseCode >= 32 && baseCode <= 126) {
+    return ASCII_WIDTHS[baseCode - 32];
+  }
+  if (/\p{M}/u.test(char)) {
+    return 0;
+  }
+  return isWide(code) ? WIDE_WIDTH : DEFAULT_WIDTH;
+}
+
+// CJK, kana, hangul and full-width forms
+function isWide(code: number): boolean {
+  return (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0x1f300 && code <= 0x1faff)
+  );
+}
@@ -0,0 +1,253 @@
+// Sitecore Link Field - Round-trip safe parse/serialize of General Link XML
+// e.g. <link text="Read more" linktype="internal" url="/about" anchor="" querystring="" target="" id="{...}" />
+
+export type LinkType = 'internal' | 'external' | 'media' | 'anchor' | 'mailto' | 'javascript' | string;
+
+// Named attributes of a General Link field
+export interface LinkFieldValue {
+  linktype?: LinkType;
+  id?: string;
+  url?: string;
+  anchor?: string;
+  querystring?: string;
+  target?: string;
+  title?: string;
+  class?: string;
+  text?: string;
+}
+
+export interface LinkAttribute {
+  name: string;
+  value: string; // Decoded value
+  raw?: string; // Original source text (whitespace, quotes, encoding); cleared when the value changes
+}
+
+// Parsed link element. Keeps every attribute in source order, including unknown ones.
+export interface SitecoreLinkField {
+  tagName: string; // Original casing ("link" or "Link")
+  attributes: LinkAttribute[];
+  closing: string; // Source text after the last attribute, e.g. " />"
+  innerXml?: string; // Content of a non self-closing element
+}
+
+const LINK_ELEMENT = /^\s*<(link)\b([^>]*?)(\s*\/?>)([\s\S]*?)(?:<\/\1\s*>)?\s*$/i;
+const ATTRIBUTE = /(\s*)([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parse General Link XML. Returns null if the value is not a link element.
+ */
+export function parseLinkField(xml: string): SitecoreLinkField | null {
+  if (!xml || typeof xml !== 'string') {
+    return null;
+  }
+
+  const match = xml.match(LINK_ELEMENT);
+  if (!match) {
+    return null;
+  }
+
+  const [, tagName, attributeText, closing, innerXml] = match;
+  const attributes: LinkAttribute[] = [];
+
+  let consumed = 0;
+  for (const attr of attributeText.matchAll(ATTRIBUTE)) {
+    attributes.push({
+      name: attr[2],
+      value: decodeXml(attr[4] ?? attr[5] ?? ''),
+      raw: attr[0],
+    });
+    consumed = (attr.index ?? 0) + attr[0].length;
+  }
+
+  const selfClosing = closing.includes('/');
+  return {
+    tagName,
+    attributes,
+    // Keep any whitespace between the last attribute and the end of the tag
+    closing: attributeText.substring(consumed) + closing,
+    innerXml: selfClosing ? undefined : innerXml,
+  };
+}
+
+/**
+ * Serialize a parsed link back to XML. Unchanged attributes are written exactly as parsed.
+ */
+export function serializeLinkField(link: SitecoreLinkField): string {
+  const attributes = link.attributes
+    .map((attr) => attr.raw ?? ` ${attr.name}="${encodeXml(attr.value)}"`)
+    .join('');
+
+  const open = `<${link.tagName}${attributes}${link.closing}`;
+  return link.innerXml !== undefined ? `${open}${link.innerXml}</${link.tagName}>` : open;
+}
+
+/**
+ * Read an attribute value (case-insensitive name)
+ */
+export function getLinkAttribute(link: SitecoreLinkField, name: string): string | undefined {
+  return findAttribute(link, name)?.value;
+}
+
+/**
+ * Set an attribute value in place, appending it if missing.
+ * Passing undefined removes the attribute.
+ */
+export function setLinkAttribute(link: SitecoreLinkField, name: string, value: string | undefined): void {
+  const existing = findAttribute(link, name);
+
+  if (value === undefined) {
+    link.attributes = link.attributes.filter((attr) => attr !== existing);
+    return;
+  }
+
+  if (existing) {
+    if (existing.value !== value) {
+      existing.value = value;
+      existing.raw = undefined;
+    }
+    return;
+  }
+
+  link.attributes.push({ name, value });
+}
+
+/**
+ * Read the named General Link attributes
+ */
+export function getLinkValue(link: SitecoreLinkField): LinkFieldValue {
+  return {
+    linktype: getLinkAttribute(link, 'linktype'),
+    id: getLinkAttribute(link, 'id'),
+    url: getLinkAttribute(link, 'url'),
+    anchor: getLinkAttribute(link, 'anchor'),
+    querystring: getLinkAttribute(link, 'querystring'),
+    target: getLinkAttribute(link, 'target'),
+    title: getLinkAttribute(link, 'title'),
+    class: getLinkAttribute(link, 'class'),
+    text: getLinkAttribute(link, 'text'),
+  };
+}
+
+/**
+ * Create an empty link element
+ */
+export function createLinkField(): SitecoreLinkField {
+  return { tagName: 'link', attributes: [], closing: ' />' };
+}
+
+/**
+ * Update named attributes of a General Link XML value, preserving everything else.
+ * An empty or non-link value starts from a new link element.
+ */
+export function updateLinkFieldXml(xml: string, changes: LinkFieldValue): string {
+  const link = parseLinkField(xml) || createLinkField();
+
+  for (const [name, value] of Object.entries(changes) as [keyof LinkFieldValue, string | undefined][]) {
+    if (value !== undefined) {
+      setLinkAttribute(link, name, value);
+    }
+  }
+
+  return serializeLinkField(link);
+}
+
+/**
+ * Point a link at a new href, switching its link type to match.
+ * Internal and media links keep their target item, so the href may only change their query
+ * string and anchor. Throws if it points anywhere else: an href cannot be mapped back to an item ID.
+ */
+export function setLinkHref(link: SitecoreLinkField, href: string): void {
+  const clearIfPresent = (name: string) => {
+    if (getLinkAttribute(link, name) !== undefined) setLinkAttribute(link, name, '');
+  };
+  const setIfChanged = (name: string, value: string) => {
+    if ((getLinkAttribute(link, name) ?? '') !== value) setLinkAttribute(link, name, value);
+  };
+
+  const { linktype, id, url } = getLinkValue(link);
+  if (id || linktype === 'internal' || linktype === 'media') {
+    const target = splitHref(href);
+    if (!url || normalizeLinkPath(target.path) !== normalizeLinkPath(url)) {
+      throw new Error(`Link to ${url || id} is internal and cannot be pointed at "${href}"; change it in the editor`);
+    }
+    setIfChanged('querystring', target.querystring);
+    setIfChanged('anchor', target.anchor);
+    return;
+  }
+
+  if (href.startsWith('#')) {
+    setLinkAttribute(link, 'linktype', 'anchor');
+    setLinkAttribute(link, 'anchor', href.substring(1));
+    clearIfPresent('url');
+    clearIfPresent('querystring');
+  } else if (/^mailto:/i.test(href)) {
+    setLinkAttribute(link, 'linktype', 'mailto');
+    setLinkAttribute(link, 'url', href);
+    clearIfPresent('anchor');
+    clearIfPresent('querystring');
+  } else {
+    setLinkAttribute(link, 'linktype', 'external');
+    setLinkAttribute(link, 'url', href);
+    clearIfPresent('anchor');
+    clearIfPresent('querystring');
+  }
+}
+
+/**
+ * Build the href a link renders to (url + querystring + anchor)
+ */
+export function getLinkHref(value: LinkFieldValue): string {
+  if (value.linktype === 'anchor') {
+    return value.anchor ? `#${value.anchor}` : '';
+  }
+
+  let href = value.url || '';
+  if (value.querystring) {
+    href += `${href.includes('?') ? '&' : '?'}${value.querystring.replace(/^\?/, '')}`;
+  }
+  if (value.anchor) {
+    href += `#${value.anchor}`;
+  }
+  return href;
+}
+
+function findAttribute(link: SitecoreLinkField, name: string): LinkAttribute | undefined {
+  const wanted = name.toLowerCase();
+  return link.attributes.find((attr) => attr.name.toLowerCase() === wanted);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// "/en/about?a=1#top" -> path, query string and anchor (the reverse of getLinkHref)
+function splitHref(href: string): { path: string; querystring: string; anchor: string } {
+  const hashIndex = href.indexOf('#');
+  const beforeAnchor = hashIndex >= 0 ? href.substring(0, hashIndex) : href;
+  const queryIndex = beforeAnchor.indexOf('?');
+
+  return {
+    path: queryIndex >= 0 ? beforeAnchor.substring(0, queryIndex) : beforeAnchor,
+    querystring: queryIndex >= 0 ? beforeAnchor.substring(queryIndex + 1) : '',
+    anchor: hashIndex >= 0 ? href.substring(hashIndex + 1) : '',
+  };
+}
+
+function normalizeLinkPath(path: string): string {
+  return path.trim().toLowerCase().replace(/\/+$/, '');
+}
@@ -0,0 +1,133 @@
+// Suggestion Alternatives - Field limits and replacement of a single suggestion
+
+import type {
+  ComponentSuggestion,
+  SEOSuggestions,
+  SuggestionAlternative,
+  SuggestionTarget,
+} from '@/src/types/seo';
+import { SUGGESTION_LIMITS } from './suggestionSchema';
+import type { SerpField } from './serpWidth';
+
+export interface TargetLimits {
+  minLength?: number;
+  maxLength?: number;
+  serp?: SerpField; // Must be shown in full in desktop search results
+}
+
+/**
+ * Limits an alternative must respect, the same as for full suggestions
+ */
+export function getTargetLimits(target: SuggestionTarget): TargetLimits {
+  switch (target.kind) {
+    case 'metaTitle':
+      return { serp: 'title' };
+    case 'metaDescription':
+      return { serp: 'description' };
+    case 'imageAlt':
+      return { minLength: SUGGESTION_LIMITS.altMin, maxLength: SUGGESTION_LIMITS.altMax };
+    case 'linkText':
+      return { maxLength: SUGGESTION_LIMITS.anchorTextMax };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Short description of the field, used in prompts, e.g. "paragraph in field "Body""
+ */
+export function describeTarget(target: SuggestionTarget): string {
+  switch (target.kind) {
+    case 'metaTitle':
+      return 'page title (meta title)';
+    case 'metaDescription':
+      return 'meta description';
+    case 'h1':
+      return 'H1 heading';
+    case 'headingImprovement':
+      return `heading in field "${target.fieldName}"`;
+    case 'paragraph':
+      return `paragraph in field "${target.fieldName}"`;
+    case 'linkText':
+      return `link anchor text in field "${target.fieldName}"`;
+    case 'imageAlt':
+      return `image alt text (image ${target.imageId})`;
+  }
+}
+
+/**
+ * Replace one suggestion with a chosen alternative. Returns new objects; the input is not changed.
+ */
+export function applyAlternative(
+  suggestions: SEOSuggestions,
+  target: SuggestionTarget,
+  alternative: SuggestionAlternative
+): SEOSuggestions {
+  if (!('componentId' in target)) {
+    const key = target.kind === 'metaTitle' ? 'title' : 'description';
+    return { ...suggestions, metadata: { ...suggestions.metadata, [key]: alternative.text } };
+  }
+
+  return {
+    ...suggestions,
+    components: suggestions.components?.map((component) =>
+      component.componentId === target.componentId ? applyToComponent(component, target, alternative) : component
+    ),
+  };
+}
+
+function applyToComponent(
+  component: ComponentSuggestion,
+  target: SuggestionTarget,
+  alternative: SuggestionAlternative
+): ComponentSuggestion {
+  switch (target.kind) {
+    case 'h1':
+      return { ...component, headings: { ...component.headings, h1: alternative.text } };
+    case 'headingImprovement':
+      return {
+        ...component,
+        headings: {
+          ...component.headings,
+          improvements: component.headings?.improvements?.map((imp) =>
+            imp.fieldName === target.fieldName
+              ? { ...imp, suggested: alternative.text, reason: alternative.reason || imp.reason }
+              : imp
+          ),
+        },
+      };
+    case 'paragraph':
+      return {
+        ...component,
+        content: {
+          ...component.content,
+          paragraphs: component.content?.paragraphs?.map((para) =>
+            para.fieldName === target.fieldName
+              ? {
+                  ...para,
+                  suggested: alternative.text,
+                  segments: alternative.segments,
+                  reason: alternative.reason || para.reason,
+                }
+              : para
+          ),
+        },
+      };
+    case 'imageAlt':
+      return {
+        ...component,
+        images: component.images?.map((img) => (img.id === target.imageId ? { ...img, alt: alternative.text } : img)),
+      };
+    case 'linkText':
+      return {
+        ...component,
+        links: component.links?.map((link) =>
+          link.fieldName === target.fieldName
+            ? { ...link, suggestedText: alternative.text, reason: alternative.reason || link.reason }
+            : link
+        ),
+      };
+    default:
+      return component;
+  }
+}
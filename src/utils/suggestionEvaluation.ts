@@ -0,0 +1,196 @@
+// Suggestion Evaluation - Deterministic quality criteria for generated suggestions
+//
+// Used by the offline evaluation harness to compare prompt versions on recorded model
+// outputs. Length limits and forbidden terms are checked on the raw model output (the
+// pipeline would remove those suggestions); keywords, key entities and the score uplift
+// are checked on the validated result the author would see.
+
+import type { ApplySelection, PageContext, PageData, ScoringProfile, SEOSuggestions } from '@/src/types/seo';
+import { checkBrandText, EMPTY_BRAND_RULES, listSuggestedTexts } from './brandRules';
+import { segmentPlainText } from './richTextSegments';
+import { DEFAULT_SCORING_PROFILE } from './scoringProfiles';
+import { computeSEOScore } from './seoScorer';
+import { simulateScore } from './seoScoreSimulator';
+import { validateSuggestionSchema } from './suggestionSchema';
+
+export const EVALUATION_CRITERIA = ['lengthLimits', 'keywords', 'forbiddenTerms', 'entities', 'scoreUplift'] as const;
+
+export type EvaluationCriterion = (typeof EVALUATION_CRITERIA)[number];
+
+// A fixture page with the model outputs recorded for each prompt version
+export interface EvaluationCase {
+  id: string;
+  description?: string;
+  context: PageContext;
+  pageData: PageData;
+  templateName?: string; // Page template, to pick the scoring profile
+  keywords?: string[]; // Expected in the title, description or H1 (default: context.keywordsRequired)
+  forbiddenTerms?: string[]; // In addition to the brand rules' forbidden terms
+  entities?: string[]; // Names the suggestions must keep wherever the current text has them
+  outputs: Record<string, unknown>; // Prompt version ("id@version") -> recorded model response
+}
+
+export interface CriterionResult {
+  score: number | null; // 0-1, null when the criterion does not apply to the case
+  details: string[]; // What lowered the score
+}
+
+export interface CaseEvaluation {
+  caseId: string;
+  criteria: Record<EvaluationCriterion, CriterionResult>;
+  overall: number; // 0-100, mean of the applicable criteria
+  scoreBefore: number;
+  scoreAfter: number; // computeSEOScore with every suggestion applied
+}
+
+// Limited texts: titles, descriptions, image alt text and link text
+const LENGTH_LIMITED_UNIT = /(metadata\.(title|description)|images\[\d+\]|links\[\d+\])$/;
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*%?/g;
+
+/**
+ * Score one case: `raw` is the recorded model response, `result` what the suggestion
+ * service returned for it, `profile` the scoring profile of the page
+ */
+export function evaluateSuggestions(
+  evalCase: EvaluationCase,
+  raw: SEOSuggestions,
+  result: SEOSuggestions,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): CaseEvaluation {
+  const before = computeSEOScore(evalCase.pageData, profile);
+  const after = simulateScore(before, result, selectAllSuggestions(result));
+
+  const criteria: Record<EvaluationCriterion, CriterionResult> = {
+    lengthLimits: scoreLengthLimits(raw, evalCase.pageData),
+    keywords: scoreKeywords(result, evalCase.keywords ?? evalCase.context.keywordsRequired ?? []),
+    forbiddenTerms: scoreForbiddenTerms(raw, evalCase),
+    entities: scoreEntities(result, evalCase),
+    scoreUplift: {
+      score: before.seoScore < 100 ? clamp((after.afterScore - before.seoScore) / (100 - before.seoScore)) : null,
+      details: after.afterScore < before.seoScore ? [`score drops from ${before.seoScore} to ${after.afterScore}`] : [],
+    },
+  };
+
+  return {
+    caseId: evalCase.id,
+    criteria,
+    overall: averageScore(Object.values(criteria).map((criterion) => criterion.score)),
+    scoreBefore: before.seoScore,
+    scoreAfter: after.afterScore,
+  };
+}
+
+/**
+ * Mean of the scores that apply, as 0-100 (100 when none apply)
+ */
+export function averageScore(scores: (number | null)[]): number {
+  const applicable = scores.filter((score): score is number => score !== null);
+  if (applicable.length === 0) return 100;
+  return Math.round((applicable.reduce((sum, score) => sum + score, 0) / applicable.length) * 1000) / 10;
+}
+
+/**
+ * A selection of every suggestion, to measure the score uplift of applying them all
+ */
+export function selectAllSuggestions(suggestions: SEOSuggestions): ApplySelection {
+  const selection: ApplySelection = {
+    metadata: { title: !!suggestions.metadata?.title, description: !!suggestions.metadata?.description },
+    components: {},
+  };
+
+  for (const component of suggestions.components || []) {
+    selection.components![component.componentId] = {
+      metadata: { title: !!component.metadata?.title, description: !!component.metadata?.description },
+      headings: {
+        h1: !!component.headings?.h1,
+        improvements: component.headings?.improvements?.map((imp) => imp.fieldName),
+      },
+      content: { paragraphs: component.content?.paragraphs?.map((para) => para.fieldName) },
+      images: component.images?.map((img) => ({ id: img.id, alt: true })),
+      links: component.links?.map((link) => ({ fieldName: link.fieldName, apply: true })),
+    };
+  }
+  return selection;
+}
+
+function scoreLengthLimits(raw: SEOSuggestions, pageData: PageData): CriterionResult {
+  const limited = listSuggestedTexts(raw, pageData).filter((unit) => LENGTH_LIMITED_UNIT.test(unit.path));
+  if (limited.length === 0) {
+    return { score: null, details: [] };
+  }
+
+  const violations = validateSuggestionSchema(raw).violations.filter(
+    (violation) => violation.rule === 'minLength' || violation.rule === 'maxLength' || violation.rule === 'maxWidth'
+  );
+  const failing = limited.filter((unit) =>
+    violations.some((violation) => violation.path === unit.path || violation.path.startsWith(`${unit.path}.`))
+  );
+
+  return {
+    score: 1 - failing.length / limited.length,
+    details: violations.map((violation) => `${violation.path} ${violation.message}`),
+  };
+}
+
+function scoreKeywords(result: SEOSuggestions, keywords: string[]): CriterionResult {
+  if (keywords.length === 0) {
+    return { score: null, details: [] };
+  }
+
+  const h1s = [result.headings?.h1, ...(result.components || []).map((component) => component.headings?.h1)];
+  const fields = [result.metadata?.title, result.metadata?.description, ...h1s]
+    .filter((text): text is string => !!text)
+    .map((text) => text.toLowerCase());
+  const missing = keywords.filter((keyword) => !fields.some((text) => text.includes(keyword.toLowerCase())));
+
+  return {
+    score: 1 - missing.length / keywords.length,
+    details: missing.map((keyword) => `"${keyword}" is not in the title, description or H1`),
+  };
+}
+
+function scoreForbiddenTerms(raw: SEOSuggestions, evalCase: EvaluationCase): CriterionResult {
+  const forbiddenTerms = [...(evalCase.forbiddenTerms || []), ...(evalCase.context.brandRules?.forbiddenTerms || [])];
+  const units = listSuggestedTexts(raw, evalCase.pageData);
+  if (forbiddenTerms.length === 0 || units.length === 0) {
+    return { score: null, details: [] };
+  }
+
+  const rules = { ...EMPTY_BRAND_RULES, forbiddenTerms };
+  const details = units.flatMap((unit) =>
+    unit.texts
+      .flatMap((text) => checkBrandText(text, '', rules))
+      .slice(0, 1)
+      .map((issue) => `${unit.path} ${issue.message}`)
+  );
+
+  return { score: 1 - details.length / units.length, details };
+}
+
+// Listed entities and numbers in the current text must survive the rewrite
+function scoreEntities(result: SEOSuggestions, evalCase: EvaluationCase): CriterionResult {
+  let expected = 0;
+  const details: string[] = [];
+
+  for (const unit of listSuggestedTexts(result, evalCase.pageData)) {
+    const original = segmentPlainText(unit.original || '');
+    const suggested = unit.texts.map((text) => segmentPlainText(text)).join(' ');
+    const entities = [
+      ...(evalCase.entities || []).filter((entity) => original.toLowerCase().includes(entity.toLowerCase())),
+      ...(original.match(NUMBER_PATTERN) || []),
+    ];
+
+    for (const entity of new Set(entities)) {
+      expected++;
+      if (!suggested.toLowerCase().includes(entity.toLowerCase())) {
+        details.push(`${unit.path} drops "${entity}"`);
+      }
+    }
+  }
+
+  return { score: expected > 0 ? 1 - details.length / expected : null, details };
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
@@ -0,0 +1,159 @@
+// Suggestion Grounding - Cross-checks suggestions against the scanned page
+//
+// The model can invent component IDs and field names, or quote "original" text that is
+// not what the page says. Such suggestions are removed and reported, so the apply step
+// never writes to a field the author has not seen.
+
+import type {
+  ComponentContent,
+  ComponentSuggestion,
+  GroundingRule,
+  HeadingOutlineEntry,
+  PageData,
+  SEOSuggestions,
+  ValidationReportItem,
+} from '@/src/types/seo';
+import { segmentPlainText } from './richTextSegments';
+import { describeSuggestionPath } from './suggestionSchema';
+
+export interface GroundingResult {
+  value: SEOSuggestions;
+  rejected: ValidationReportItem[];
+}
+
+type Reject = (path: string, rule: GroundingRule, message: string) => void;
+
+/**
+ * Remove component suggestions whose component, field or original text is not in
+ * `pageData.components`. Heading improvements are matched by their field in the heading
+ * outline; scans without an outline only have the text to go by.
+ */
+export function verifySuggestionGrounding(suggestions: SEOSuggestions, pageData: PageData): GroundingResult {
+  const rejected: ValidationReportItem[] = [];
+  if (!suggestions.components?.length) {
+    return { value: suggestions, rejected };
+  }
+
+  const reject: Reject = (path, rule, message) => {
+    rejected.push({
+      path,
+      label: describeSuggestionPath(suggestions, path),
+      violations: [{ path, rule, message }],
+    });
+  };
+
+  const scanned = new Map((pageData.components || []).map((component) => [component.componentId, component]));
+  const components = suggestions.components.flatMap((component, idx) => {
+    const path = `components[${idx}]`;
+    const source = scanned.get(component.componentId);
+    if (!source) {
+      reject(path, 'unknownComponent', `component "${component.componentId}" is not on this page`);
+      return [];
+    }
+    const headings = pageData.headings.outline?.filter((heading) => heading.componentId === component.componentId);
+    return [groundComponent(component, source, headings, path, reject)];
+  });
+
+  return { value: { ...suggestions, components }, rejected };
+}
+
+function groundComponent(
+  component: ComponentSuggestion,
+  source: ComponentContent,
+  headings: HeadingOutlineEntry[] | undefined,
+  path: string,
+  reject: Reject
+): ComponentSuggestion {
+  const grounded: ComponentSuggestion = { ...component };
+
+  if (component.headings?.improvements) {
+    grounded.headings = {
+      ...component.headings,
+      improvements: component.headings.improvements.filter((imp, idx) => {
+        const itemPath = `${path}.headings.improvements[${idx}]`;
+        if (!headings) {
+          if (source.headings.all.some((heading) => sameText(heading, imp.current))) return true;
+          reject(itemPath, 'originalMismatch', `"${imp.current}" is not a current heading of this component`);
+          return false;
+        }
+
+        // The rewrite is written to the named field, so that field must hold the quoted text
+        const field = headings.find((heading) => heading.fieldName === imp.fieldName);
+        if (!field) {
+          reject(itemPath, 'unknownField', `field "${imp.fieldName}" is not a heading of this component`);
+          return false;
+        }
+        if (!sameText(field.text, imp.current)) {
+          reject(itemPath, 'originalMismatch', `"${imp.current}" is not the current text of heading "${imp.fieldName}"`);
+          return false;
+        }
+        return true;
+      }),
+    };
+  }
+
+  if (component.content?.paragraphs) {
+    grounded.content = {
+      ...component.content,
+      paragraphs: component.content.paragraphs.filter((para, idx) => {
+        const itemPath = `${path}.content.paragraphs[${idx}]`;
+        const field = source.paragraphs.find((p) => p.fieldName === para.fieldName);
+        if (!field) {
+          reject(itemPath, 'unknownField', `field "${para.fieldName}" is not a paragraph of this component`);
+          return false;
+        }
+        const current = [field.text, field.segments?.map((seg) => segmentPlainText(seg.text)).join(' ') || ''];
+        if (!current.some((text) => matchesOriginal(text, para.original))) {
+          reject(itemPath, 'originalMismatch', `original text does not match the current "${para.fieldName}" field`);
+          return false;
+        }
+        return true;
+      }),
+    };
+  }
+
+  if (component.images) {
+    grounded.images = component.images.filter((img, idx) => {
+      if (source.images.some((image) => image.id === img.id)) return true;
+      reject(`${path}.images[${idx}]`, 'unknownField', `image "${img.id}" is not in this component`);
+      return false;
+    });
+  }
+
+  if (component.links) {
+    grounded.links = component.links.filter((link, idx) => {
+      const itemPath = `${path}.links[${idx}]`;
+      const current = source.links.find((l) => l.fieldName === link.fieldName);
+      if (!current) {
+        reject(itemPath, 'unknownField', `field "${link.fieldName}" is not a link of this component`);
+        return false;
+      }
+      if (link.currentText && !sameText(current.text || '', link.currentText)) {
+        reject(itemPath, 'originalMismatch', `"${link.currentText}" is not the current text of link "${link.fieldName}"`);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  return grounded;
+}
+
+// Same text, ignoring case, whitespace and RichText markup tokens
+function sameText(a: string, b: string): boolean {
+  return normalize(a) === normalize(b);
+}
+
+// Long paragraphs may be sent truncated ("..."), so the model can quote just their start
+function matchesOriginal(current: string, original: string): boolean {
+  const quoted = normalize(original);
+  if (quoted.endsWith('...')) {
+    const prefix = quoted.slice(0, -3).trim();
+    return prefix.length > 0 && normalize(current).startsWith(prefix);
+  }
+  return normalize(current) === quoted;
+}
+
+function normalize(text: string): string {
+  return segmentPlainText(text || '').toLowerCase();
+}
@@ -0,0 +1,401 @@
+// Suggestion Schema - Runtime schema for LLM suggestion output
+//
+// Every violation has a precise path (e.g. "components[0].headings.improvements[1].reason")
+// and belongs to a suggestion "unit": the smallest item that can be repaired or discarded
+// on its own (a title, an image alt, one heading improvement, one component).
+
+import type {
+  SchemaViolation,
+  SchemaViolationRule,
+  SEOSuggestions,
+  ValidationReportItem,
+} from '@/src/types/seo';
+import { SERP_LIMITS, truncateForSerp, type SerpField } from './serpWidth';
+
+export type PathSegment = string | number;
+
+type SchemaNode = StringSchema | NumberSchema | ArraySchema | ObjectSchema;
+
+interface BaseSchema {
+  required?: boolean;
+  unit?: boolean; // Repaired or discarded as a whole
+}
+
+interface StringSchema extends BaseSchema {
+  kind: 'string';
+  minLength?: number;
+  maxLength?: number;
+  serp?: SerpField; // Must be shown in full in desktop search results
+}
+
+interface NumberSchema extends BaseSchema {
+  kind: 'number';
+  min?: number;
+  max?: number;
+}
+
+interface ArraySchema extends BaseSchema {
+  kind: 'array';
+  items: SchemaNode;
+}
+
+interface ObjectSchema extends BaseSchema {
+  kind: 'object';
+  properties: Record<string, SchemaNode>;
+  check?: (value: Record<string, unknown>) => { rule: SchemaViolationRule; message: string } | null;
+}
+
+export interface SchemaValidationResult {
+  violations: SchemaViolation[];
+  units: Map<string, SchemaViolation[]>; // Unit path -> its violations
+}
+
+const text = (options: Omit<StringSchema, 'kind'> = {}): StringSchema => ({ kind: 'string', ...options });
+const number = (options: Omit<NumberSchema, 'kind'> = {}): NumberSchema => ({ kind: 'number', ...options });
+const array = (items: SchemaNode, options: Omit<ArraySchema, 'kind' | 'items'> = {}): ArraySchema => ({
+  kind: 'array',
+  items,
+  ...options,
+});
+const object = (
+  properties: Record<string, SchemaNode>,
+  options: Omit<ObjectSchema, 'kind' | 'properties'> = {}
+): ObjectSchema => ({ kind: 'object', properties, ...options });
+
+// Same limits the scorer and the prompt use; titles and descriptions are limited by
+// their width in search results (see serpWidth)
+export const SUGGESTION_LIMITS = {
+  altMin: 5,
+  altMax: 125,
+  anchorTextMax: 100,
+};
+
+const metadataSchema = object({
+  title: text({ serp: 'title', unit: true }),
+  description: text({ serp: 'description', unit: true }),
+});
+
+const componentSchema = object(
+  {
+    componentId: text({ required: true }),
+    componentName: text({ required: true }),
+    path: array(text()),
+    metadata: metadataSchema,
+    headings: object({
+      h1: text({ unit: true }),
+      h2: array(text(), { unit: true }),
+      h3: array(text(), { unit: true }),
+      improvements: array(
+        object(
+          {
+            fieldName: text({ required: true }),
+            current: text({ required: true }),
+            suggested: text({ required: true }),
+            reason: text({ required: true }),
+          },
+          { unit: true }
+        )
+      ),
+    }),
+    content: object({
+      paragraphs: array(
+        object(
+          {
+            fieldName: text({ required: true }),
+            original: text({ required: true }),
+            suggested: text(),
+            reason: text({ required: true }),
+            segments: array(
+              object({
+                id: text({ required: true }),
+                suggested: text({ required: true }),
+              })
+            ),
+          },
+          {
+            unit: true,
+            // RichText rewrites may come as segments only
+            check: (paragraph) =>
+              paragraph.suggested || (Array.isArray(paragraph.segments) && paragraph.segments.length > 0)
+                ? null
+                : { rule: 'required', message: 'suggested or segments is required' },
+          }
+        )
+      ),
+    }),
+    images: array(
+      object(
+        {
+          id: text({ required: true }),
+          fieldName: text({ required: true }),
+          alt: text({ required: true, minLength: SUGGESTION_LIMITS.altMin, maxLength: SUGGESTION_LIMITS.altMax }),
+          currentAlt: text(),
+        },
+        { unit: true }
+      )
+    ),
+    links: array(
+      object(
+        {
+          fieldName: text({ required: true }),
+          currentText: text(),
+          suggestedText: text({ maxLength: SUGGESTION_LIMITS.anchorTextMax }),
+          href: text({ required: true }),
+          reason: text({ required: true }),
+        },
+        { unit: true }
+      )
+    ),
+  },
+  { unit: true }
+);
+
+export const suggestionsSchema: ObjectSchema = object({
+  metadata: metadataSchema,
+  headings: object({
+    h1: text({ unit: true }),
+    h2: array(text(), { unit: true }),
+    h3: array(text(), { unit: true }),
+  }),
+  components: array(componentSchema),
+  keywords: object(
+    {
+      suggested: array(text(), { required: true }),
+      usage: array(
+        object({
+          keyword: text({ required: true }),
+          currentCount: number({ required: true, min: 0 }),
+          suggestedCount: number({ min: 0 }),
+          locations: array(text()),
+        })
+      ),
+    },
+    { unit: true }
+  ),
+  structure: object(
+    {
+      suggestions: array(text(), { required: true }),
+      missing: array(text()),
+    },
+    { unit: true }
+  ),
+  readability: object(
+    {
+      score: number({ min: 0, max: 100 }),
+      grade: text(),
+      suggestions: array(text()),
+    },
+    { unit: true }
+  ),
+});
+
+/**
+ * Validate raw LLM output against the suggestions schema
+ */
+export function validateSuggestionSchema(value: unknown): SchemaValidationResult {
+  const result: SchemaValidationResult = { violations: [], units: new Map() };
+
+  if (!isPlainObject(value)) {
+    result.violations.push({ path: '', rule: 'type', message: 'must be a JSON object' });
+    result.units.set('', result.violations);
+    return result;
+  }
+
+  validateNode(suggestionsSchema, value, [], '', result);
+  return result;
+}
+
+/**
+ * Remove every unit that has violations. Returns what was removed.
+ */
+export function pruneInvalidSuggestions(value: SEOSuggestions): {
+  value: SEOSuggestions;
+  discarded: ValidationReportItem[];
+} {
+  const { units } = validateSuggestionSchema(value);
+  const discarded: ValidationReportItem[] = [];
+
+  for (const [path, violations] of units) {
+    discarded.push({ path, label: describeSuggestionPath(value, path), violations });
+  }
+  removeAtPaths(value, Array.from(units.keys()));
+
+  return { value, discarded: discarded.sort((a, b) => comparePathsForRemoval(b.path, a.path)) };
+}
+
+/**
+ * Remove several suggestion units in place
+ */
+export function removeAtPaths(root: unknown, paths: string[]): void {
+  // Deepest and last array elements first, so earlier indexes stay valid
+  for (const path of [...paths].sort(comparePathsForRemoval)) {
+    removeAtPath(root, parsePath(path));
+  }
+}
+
+/**
+ * Human-readable name for a suggestion unit, e.g. "Hero › image alt (Image1)"
+ */
+export function describeSuggestionPath(root: unknown, path: string): string {
+  const segments = parsePath(path);
+  const labels: string[] = [];
+  let current: unknown = root;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const parent = current;
+    current = isPlainObject(parent) || Array.isArray(parent) ? (parent as any)[segment] : undefined;
+
+    if (typeof segment === 'number') {
+      const key = segments[i - 1];
+      const item = current as Record<string, unknown> | undefined;
+      if (key === 'components') {
+        labels[labels.length - 1] = String(item?.componentName || item?.componentId || `component ${segment + 1}`);
+      } else {
+        const name = item?.fieldName || item?.id || item?.keyword;
+        labels[labels.length - 1] = `${labels[labels.length - 1]} (${name ?? segment + 1})`;
+      }
+    } else {
+      labels.push(SEGMENT_LABELS[segment] || segment);
+    }
+  }
+
+  return labels.filter((label, idx) => !(label === 'headings' && idx < labels.length - 1)).join(' › ') || 'response';
+}
+
+const SEGMENT_LABELS: Record<string, string> = {
+  metadata: 'metadata',
+  title: 'title',
+  description: 'meta description',
+  improvements: 'heading',
+  paragraphs: 'paragraph',
+  images: 'image alt',
+  links: 'link',
+  content: 'content',
+};
+
+export function formatPath(segments: PathSegment[]): string {
+  return segments
+    .map((segment, idx) => (typeof segment === 'number' ? `[${segment}]` : idx === 0 ? segment : `.${segment}`))
+    .join('');
+}
+
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const match of path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)) {
+    segments.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+  }
+  return segments;
+}
+
+export function getAtPath(root: unknown, path: PathSegment[]): unknown {
+  let current: any = root;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+export function setAtPath(root: unknown, path: PathSegment[], value: unknown): void {
+  const parent = getAtPath(root, path.slice(0, -1)) as any;
+  if (parent && typeof parent === 'object') {
+    parent[path[path.length - 1]] = value;
+  }
+}
+
+function removeAtPath(root: unknown, path: PathSegment[]): void {
+  const parent = getAtPath(root, path.slice(0, -1)) as any;
+  const key = path[path.length - 1];
+  if (Array.isArray(parent) && typeof key === 'number') {
+    parent.splice(key, 1);
+  } else if (parent && typeof parent === 'object') {
+    delete parent[key];
+  }
+}
+
+function comparePathsForRemoval(a: string, b: string): number {
+  const pa = parsePath(a);
+  const pb = parsePath(b);
+  for (let i = 0; i < Math.min(pa.length, pb.length); i++) {
+    if (pa[i] === pb[i]) continue;
+    if (typeof pa[i] === 'number' && typeof pb[i] === 'number') {
+      return (pb[i] as number) - (pa[i] as number);
+    }
+    return String(pa[i]).localeCompare(String(pb[i]));
+  }
+  return pb.length - pa.length;
+}
+
+function validateNode(
+  schema: SchemaNode,
+  value: unknown,
+  path: PathSegment[],
+  unitPath: string,
+  result: SchemaValidationResult
+): void {
+  const currentUnit = schema.unit ? formatPath(path) : unitPath;
+  const fail = (rule: SchemaViolationRule, message: string) => {
+    const violation: SchemaViolation = { path: formatPath(path), rule, message };
+    result.violations.push(violation);
+    result.units.set(currentUnit, [...(result.units.get(currentUnit) || []), violation]);
+  };
+
+  if (value === undefined || value === null) {
+    if (schema.required) fail('required', 'is required');
+    return;
+  }
+
+  switch (schema.kind) {
+    case 'string': {
+      if (typeof value !== 'string') return fail('type', 'must be a string');
+      const length = value.trim().length;
+      // An empty optional string means "no suggestion" and is dropped by the cleaner
+      if (length === 0) {
+        if (schema.required) fail('required', 'must not be empty');
+        return;
+      }
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        return fail('minLength', `must be at least ${schema.minLength} characters (got ${length})`);
+      }
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        return fail('maxLength', `must be at most ${schema.maxLength} characters (got ${length})`);
+      }
+      if (schema.serp) {
+        const cut = truncateForSerp(value, schema.serp);
+        if (cut.truncated) {
+          return fail(
+            'maxWidth',
+            `must fit ${cut.maxWidth}px in search results, about ${SERP_LIMITS[schema.serp].approxChars} characters ` +
+              `(got ${Math.round(cut.width)}px, cut off after ${cut.cutAt} characters)`
+          );
+        }
+      }
+      return;
+    }
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) return fail('type', 'must be a number');
+      if (schema.min !== undefined && value < schema.min) return fail('min', `must be at least ${schema.min}`);
+      if (schema.max !== undefined && value > schema.max) return fail('max', `must be at most ${schema.max}`);
+      return;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return fail('type', 'must be an array');
+      value.forEach((item, idx) => validateNode(schema.items, item, [...path, idx], currentUnit, result));
+      return;
+    }
+    case 'object': {
+      if (!isPlainObject(value)) return fail('type', 'must be an object');
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        validateNode(propertySchema, value[key], [...path, key], currentUnit, result);
+      }
+      const problem = schema.check?.(value);
+      if (problem) fail(problem.rule, problem.message);
+      return;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,49 @@
+// Token Budget - Estimate prompt size and split work into prompts that fit a budget
+
+/**
+ * Rough token estimate (about 4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut text to about `maxTokens` tokens, on a word boundary where possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = Math.max(0, maxTokens) * 4;
+  if (text.length <= maxChars) return text;
+
+  const cut = text.substring(0, maxChars);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > maxChars * 0.8 ? cut.substring(0, lastSpace) : cut}...`;
+}
+
+/**
+ * Group items in order so that each group's estimated tokens stay within `budget`
+ * and it has at most `maxItems` items. An item larger than the budget gets a group of its own.
+ */
+export function chunkByTokenBudget<T>(
+  items: T[],
+  budget: number,
+  estimate: (item: T) => number,
+  maxItems = Infinity
+): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+
+  for (const item of items) {
+    const tokens = estimate(item);
+    if (current.length > 0 && (currentTokens + tokens > budget || current.length >= maxItems)) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(item);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}